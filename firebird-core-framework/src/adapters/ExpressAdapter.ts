@@ -3,6 +3,7 @@
  * Implementa apenas os métodos especificados no AdapterInterface.
  */
 import { AdapterInterface } from '../interfaces/AdapterInterface';
+import { QueryValidationError } from '../errors/FirebirdErrors';
 
 export class ExpressAdapter implements AdapterInterface {
   core: any;
@@ -29,12 +30,43 @@ export class ExpressAdapter implements AdapterInterface {
     });
   }
 
-  /** Registra rotas de framework: /health e /query */
+  /**
+   * Seleciona o banco da requisição (FirebirdConfig.databases).
+   * @param database Nome informado na requisição; sem ele, usa o banco principal.
+   * @returns Fachada do banco, ou null se o banco não estiver configurado.
+   */
+  private selectDatabase(database: unknown): any {
+    if (database === undefined || database === null || database === '') {
+      return this.core;
+    }
+    if (typeof database !== 'string' || !this.core || typeof this.core.db !== 'function' ||
+        !this.core.getDatabaseNames().includes(database)) {
+      return null;
+    }
+    return this.core.db(database);
+  }
+
+  /** Registra rotas de framework: /health e /query; ambas aceitam o banco em `database` */
   setupFrameworkRoutes(app: any): void {
     app.get('/health', async (req: any, res: any) => {
       try {
-        const connected = this.core && typeof this.core.isConnected === 'function' ? this.core.isConnected() : false;
-        res.status(200).json({ status: 'ok', connected, timestamp: new Date().toISOString() });
+        const database = req.query?.database;
+        const core = this.selectDatabase(database);
+        if (!core) {
+          res.status(404).json({ status: 'error', message: `Banco de dados não configurado: ${database}`, timestamp: new Date().toISOString() });
+          return;
+        }
+        const connected = core && typeof core.isConnected === 'function' ? core.isConnected() : false;
+        // Com o estado da conexão disponível, banco fora do ar responde 503 para o balanceador
+        const connection = typeof core.getStatus === 'function' ? core.getStatus() : undefined;
+        const unavailable = connection && (connection.state === 'down' || connection.state === 'connecting');
+        res.status(unavailable ? 503 : 200).json({
+          status: unavailable ? 'error' : 'ok',
+          connected,
+          ...(connection && { state: connection.state, connection }),
+          ...(database && { database }),
+          timestamp: new Date().toISOString()
+        });
       } catch (error: any) {
         res.status(500).json({ status: 'error', message: error.message, timestamp: new Date().toISOString() });
       }
@@ -43,10 +75,21 @@ export class ExpressAdapter implements AdapterInterface {
     app.post('/query', async (req: any, res: any) => {
       try {
         const { sql, bindings } = req.body || {};
-        const result = await this.core.executeQuery(sql, bindings || {});
+        const database = req.body?.database ?? req.query?.database;
+        const core = this.selectDatabase(database);
+        if (!core) {
+          res.status(404).json({ error: `Banco de dados não configurado: ${database}` });
+          return;
+        }
+        // Lista para parâmetros posicionais (?); objeto para parâmetros nomeados (:nome)
+        if (bindings !== undefined && bindings !== null && typeof bindings !== 'object') {
+          res.status(400).json({ error: 'bindings deve ser uma lista ou um objeto' });
+          return;
+        }
+        const result = await core.executeQuery(sql, bindings || undefined);
         res.status(200).json(result);
       } catch (error: any) {
-        res.status(500).json({ error: error.message });
+        res.status(error instanceof QueryValidationError ? 400 : 500).json({ error: error.message });
       }
     });
   }
@@ -0,0 +1,277 @@
+import { Readable } from 'stream';
+
+/**
+ * Leitura e escrita de colunas BLOB pelo node-firebird-driver.
+ *
+ * O driver devolve cada BLOB como um `Blob` (attachment e id de 8 bytes), que
+ * precisa ser aberto com `attachment.openBlob` dentro de uma transação, sem
+ * distinguir o sub-tipo. Aqui os metadados de saída da instrução decidem o
+ * formato: BLOB SUB_TYPE 1 (texto) vira string e os demais sub-tipos viram
+ * Buffer, ou Readable quando passam do limite configurado. Na escrita, o driver
+ * aceita Buffer; parâmetros Readable são gravados em segmentos com
+ * `attachment.createBlob` antes da execução.
+ */
+
+/**
+ * Interface que define o tratamento das colunas BLOB
+ */
+export interface BlobOptions {
+  /**
+   * Tamanho em bytes a partir do qual BLOBs binários são devolvidos como Readable
+   * em vez de Buffer (padrão: 1 MiB; 0 sempre devolve Buffer)
+   */
+  streamThreshold?: number;
+}
+
+/**
+ * Chave em `userParams` da configuração do Knex que carrega as BlobOptions
+ */
+export const BLOB_OPTIONS_PARAM = 'firebirdBlobs';
+
+/** Limite padrão para devolver BLOBs binários como stream */
+export const DEFAULT_BLOB_STREAM_THRESHOLD = 1024 * 1024;
+
+/** Tipo SQL_BLOB e sub-tipo de texto, como informados pelos metadados da instrução */
+const SQL_BLOB = 520;
+const BLOB_SUB_TYPE_TEXT = 1;
+
+/** Ids dos charsets NONE e OCTETS nos metadados */
+const CHARSET_NONE = 0;
+const CHARSET_OCTETS = 1;
+
+/** Tamanho máximo de um segmento de BLOB no Firebird */
+const BLOB_SEGMENT_SIZE = 65535;
+
+/** Charsets do Firebird com nome diferente do rótulo aceito pelo TextDecoder */
+const CHARSET_ENCODINGS: Record<string, string> = {
+  NONE: 'utf-8',
+  UTF8: 'utf-8',
+  UNICODE_FSS: 'utf-8',
+  ASCII: 'ascii',
+  DOS866: 'ibm866',
+  KOI8R: 'koi8-r',
+  KOI8U: 'koi8-u',
+  SJIS_0208: 'shift_jis',
+  EUCJ_0208: 'euc-jp',
+  GB_2312: 'gb2312',
+  GBK: 'gbk',
+  GB18030: 'gb18030',
+  BIG_5: 'big5',
+  KSC_5601: 'euc-kr'
+};
+
+/**
+ * Coluna BLOB do resultado, como descrita pelos metadados de saída da instrução
+ */
+export interface BlobColumn {
+  subType: number;
+  /** Id do charset; a conexão usa UTF8, salvo nas colunas NONE e OCTETS */
+  charSet: number;
+}
+
+/**
+ * Configurações usadas na leitura das colunas BLOB
+ */
+export interface BlobReadSettings {
+  /** Transação da consulta, em que os BLOBs são abertos */
+  transaction: any;
+  /** Colunas BLOB pelo rótulo (describeBlobColumns); sem a coluna, o BLOB é lido como binário */
+  columns: Map<string, BlobColumn>;
+  /** Charset dos BLOBs de texto com charset NONE (opção `encoding` da conexão); padrão UTF8 */
+  charset?: string;
+  /** Tamanho a partir do qual BLOBs binários viram Readable (0 desativa) */
+  streamThreshold: number;
+}
+
+/**
+ * Valida as opções de BLOB informadas na configuração
+ * @param options - Valor informado em FirebirdConfig.blobs
+ * @returns Mensagem de erro, ou null se as opções forem válidas
+ */
+export function validateBlobOptions(options: unknown): string | null {
+  const threshold = (options as BlobOptions | null)?.streamThreshold;
+  if (
+    !options || typeof options !== 'object' ||
+    (threshold !== undefined && (!Number.isInteger(threshold) || threshold < 0))
+  ) {
+    return 'blobs.streamThreshold deve ser um inteiro maior ou igual a zero';
+  }
+  return null;
+}
+
+/**
+ * Converte o charset do Firebird no rótulo usado pelo TextDecoder
+ * @param charset - Charset da conexão (ex.: UTF8, WIN1252, ISO8859_1); padrão UTF8
+ * @returns Rótulo da codificação
+ */
+export function charsetToEncoding(charset?: string): string {
+  const name = (charset || 'UTF8').toUpperCase();
+  if (/^WIN125\d$/.test(name)) {
+    return `windows-${name.slice(3)}`;
+  }
+  const iso = /^ISO8859_(\d+)$/.exec(name);
+  if (iso) {
+    return `iso-8859-${iso[1]}`;
+  }
+  return CHARSET_ENCODINGS[name] || 'utf-8';
+}
+
+/**
+ * Lê as colunas BLOB dos metadados de saída de uma instrução preparada,
+ * como o driver faz ao montar os rótulos das colunas
+ * @param statement - Instrução preparada pelo driver
+ * @returns Promise com as colunas BLOB pelo rótulo; vazio sem metadados de saída
+ */
+export async function describeBlobColumns(statement: any): Promise<Map<string, BlobColumn>> {
+  const columns = new Map<string, BlobColumn>();
+  const metadata = statement?.outMetadata;
+  const client = statement?.attachment?.client;
+  if (!metadata || !client) {
+    return columns;
+  }
+
+  await client.statusAction(async (status: any) => {
+    const count = metadata.getCountSync(status);
+    for (let i = 0; i < count; i++) {
+      if (metadata.getTypeSync(status, i) === SQL_BLOB) {
+        columns.set(metadata.getAliasSync(status, i), {
+          subType: metadata.getSubTypeSync(status, i),
+          charSet: metadata.getCharSetSync(status, i)
+        });
+      }
+    }
+  });
+  return columns;
+}
+
+/**
+ * Converte as colunas BLOB das linhas no formato final, lendo os BLOBs pela transação da consulta
+ * @param rows - Linha ou linhas devolvidas pelo driver; alteradas no próprio objeto
+ * @param settings - Transação, colunas, charset e limite para stream
+ * @returns Promise resolvida quando todos os BLOBs foram lidos
+ * @throws Erro se o charset não for suportado ou se a leitura de algum BLOB falhar
+ */
+export async function readBlobColumns(rows: any, settings: BlobReadSettings): Promise<void> {
+  const decoders = new Map<string, TextDecoder>();
+  const decode = (buffer: Buffer, column: BlobColumn): string => {
+    // O servidor translitera os BLOBs de texto para o UTF8 da conexão; NONE chega sem conversão
+    const charset = column.charSet === CHARSET_NONE ? settings.charset : 'UTF8';
+    const encoding = charsetToEncoding(charset);
+    let decoder = decoders.get(encoding);
+    if (!decoder) {
+      try {
+        decoder = new TextDecoder(encoding);
+      } catch {
+        throw new Error(`Charset ${charset} não suportado na leitura de BLOBs de texto`);
+      }
+      decoders.set(encoding, decoder);
+    }
+    return decoder.decode(buffer);
+  };
+
+  for (const row of Array.isArray(rows) ? rows : [rows]) {
+    if (!row || typeof row !== 'object') {
+      continue;
+    }
+    for (const [key, value] of Object.entries(row)) {
+      const column = settings.columns.get(key);
+      // BLOBs do driver, ou BLOBs que já chegaram lidos como Buffer; Buffers de outras colunas (OCTETS) ficam como estão
+      const isBlob = isDriverBlob(value);
+      if (!isBlob && !(column && Buffer.isBuffer(value))) {
+        continue;
+      }
+      // Os BLOBs são lidos um de cada vez: todos usam a mesma conexão
+      const content: Buffer = isBlob ? await readBlob(value, settings.transaction) : value as Buffer;
+      if (column?.subType === BLOB_SUB_TYPE_TEXT && column.charSet !== CHARSET_OCTETS) {
+        row[key] = decode(content, column);
+      } else if (settings.streamThreshold > 0 && content.length > settings.streamThreshold) {
+        row[key] = Readable.from(segments(content), { objectMode: false });
+      } else {
+        row[key] = content;
+      }
+    }
+  }
+}
+
+/**
+ * Grava os parâmetros Readable como BLOBs, em segmentos, na transação da instrução
+ * @param connection - Conexão (attachment) do driver
+ * @param transaction - Transação em que a instrução será executada
+ * @param bindings - Parâmetros da instrução; os Readable são substituídos pelo BLOB gravado
+ * @returns Promise com os parâmetros aceitos pelo driver
+ * @throws Erro se a leitura do stream ou a gravação do BLOB falhar
+ */
+export async function writeBlobParameters(connection: any, transaction: any, bindings: any[]): Promise<any[]> {
+  const values: any[] = [];
+  for (const value of bindings) {
+    if (!(value instanceof Readable)) {
+      values.push(value);
+      continue;
+    }
+
+    const blobStream = await connection.createBlob(transaction);
+    try {
+      for await (const chunk of value) {
+        const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+        for (let offset = 0; offset < buffer.length; offset += BLOB_SEGMENT_SIZE) {
+          await blobStream.write(buffer.subarray(offset, offset + BLOB_SEGMENT_SIZE));
+        }
+      }
+    } catch (error) {
+      await blobStream.cancel();
+      throw error;
+    }
+    await blobStream.close();
+    // O driver aceita o BlobStream gravado como parâmetro BLOB
+    values.push(blobStream);
+  }
+  return values;
+}
+
+/**
+ * Verifica se o valor é um BLOB devolvido pelo driver, com a mesma verificação do driver
+ * @param value - Valor da coluna
+ * @returns true para um Blob do node-firebird-driver
+ */
+function isDriverBlob(value: unknown): value is { attachment: any; id: Uint8Array } {
+  return !!value && typeof value === 'object' && 'attachment' in value &&
+    ArrayBuffer.isView((value as any).id) && (value as any).id.length === 8;
+}
+
+/**
+ * Lê um BLOB do driver, segmento a segmento
+ * @param blob - BLOB devolvido pelo driver
+ * @param transaction - Transação da consulta
+ * @returns Promise com o conteúdo do BLOB
+ */
+async function readBlob(blob: { attachment: any }, transaction: any): Promise<Buffer> {
+  const stream = await blob.attachment.openBlob(transaction, blob);
+  try {
+    const length: number = await stream.length;
+    const chunks: Buffer[] = [];
+    let size = 0;
+    while (size < length) {
+      const chunk = Buffer.alloc(Math.min(BLOB_SEGMENT_SIZE, length - size));
+      const read: number = await stream.read(chunk);
+      // -1 no fim do BLOB
+      if (read <= 0) {
+        break;
+      }
+      chunks.push(chunk.subarray(0, read));
+      size += read;
+    }
+    return Buffer.concat(chunks, size);
+  } finally {
+    await stream.close();
+  }
+}
+
+/**
+ * Divide o conteúdo em segmentos para o Readable, sem copiar os bytes
+ * @param content - Conteúdo do BLOB
+ */
+function* segments(content: Buffer): Generator<Buffer> {
+  for (let offset = 0; offset < content.length; offset += BLOB_SEGMENT_SIZE) {
+    yield content.subarray(offset, offset + BLOB_SEGMENT_SIZE);
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Conversão entre os nomes de colunas do Firebird e as propriedades dos
+ * objetos da aplicação. O Firebird devolve identificadores sem aspas em
+ * maiúsculas (NOME_CLIENTE); com a conversão `camelCase` as linhas chegam
+ * como `nomeCliente`, e o mesmo nome pode ser usado em condições, colunas,
+ * ordenação e inserts, que voltam a NOME_CLIENTE no SQL.
+ */
+
+/**
+ * Conversão personalizada nos dois sentidos
+ */
+export interface ColumnNameMapper {
+  /** Nome da coluna retornada pelo banco para a propriedade do objeto */
+  toProperty(column: string): string;
+  /** Propriedade usada pela aplicação para o identificador do SQL */
+  toColumn(property: string): string;
+}
+
+/**
+ * Conversão aplicada aos nomes de colunas
+ * - none: mantém os nomes como o Firebird devolve (padrão)
+ * - lowercase: NOME_CLIENTE ↔ nome_cliente
+ * - camelCase: NOME_CLIENTE ↔ nomeCliente
+ * - objeto com toProperty/toColumn: conversão personalizada
+ */
+export type ColumnNameTransform = 'none' | 'lowercase' | 'camelCase' | ColumnNameMapper;
+
+/** Identificadores sem aspas, que o Firebird devolve em maiúsculas */
+const UPPERCASE_IDENTIFIER = /^[A-Z][A-Z0-9_$]*$/;
+
+/** Identificadores delimitados ("Nome") nunca são convertidos */
+const isQuoted = (name: string): boolean => name.startsWith('"');
+
+const lowercase: ColumnNameMapper = {
+  toProperty: (column) => (UPPERCASE_IDENTIFIER.test(column) ? column.toLowerCase() : column),
+  toColumn: (property) => (isQuoted(property) ? property : property.toUpperCase())
+};
+
+const camelCase: ColumnNameMapper = {
+  toProperty: (column) => {
+    if (!UPPERCASE_IDENTIFIER.test(column)) {
+      return column;
+    }
+    // Partes iniciadas por número mantêm o "_" para que a volta seja exata (ENDERECO_2 ↔ endereco_2)
+    return column
+      .toLowerCase()
+      .replace(/_([a-z$])/g, (_match, letter: string) => letter.toUpperCase());
+  },
+  toColumn: (property) => (isQuoted(property) ? property : property.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase())
+};
+
+/**
+ * Obtém a conversão correspondente à configuração
+ * @param transform - Conversão configurada (opcional)
+ * @returns Conversão nos dois sentidos, ou null quando os nomes são mantidos
+ */
+export function createColumnNameMapper(transform?: ColumnNameTransform): ColumnNameMapper | null {
+  if (!transform || transform === 'none') {
+    return null;
+  }
+  if (transform === 'lowercase') {
+    return lowercase;
+  }
+  if (transform === 'camelCase') {
+    return camelCase;
+  }
+  return transform;
+}
+
+/**
+ * Valida a conversão de nomes de colunas
+ * @param transform - Conversão a ser validada
+ * @returns Mensagem de erro, ou null se a conversão for válida
+ */
+export function validateColumnNameTransform(transform: unknown): string | null {
+  if (transform === 'none' || transform === 'lowercase' || transform === 'camelCase') {
+    return null;
+  }
+  if (
+    transform && typeof transform === 'object' &&
+    typeof (transform as ColumnNameMapper).toProperty === 'function' &&
+    typeof (transform as ColumnNameMapper).toColumn === 'function'
+  ) {
+    return null;
+  }
+  return 'columnNames deve ser none, lowercase, camelCase ou um objeto com toProperty e toColumn';
+}
+
+/**
+ * Converte as chaves das linhas retornadas pelo banco
+ * @param result - Linha, lista de linhas ou outro resultado do driver
+ * @param mapper - Conversão a ser aplicada
+ * @returns Resultado com as chaves convertidas; valores que não são linhas são devolvidos sem alteração
+ */
+export function mapRowKeys(result: any, mapper: ColumnNameMapper): any {
+  if (Array.isArray(result)) {
+    return result.map((row) => mapRow(row, mapper));
+  }
+  return mapRow(result, mapper);
+}
+
+/**
+ * Converte as chaves de uma linha
+ * @param row - Linha retornada pelo banco
+ * @param mapper - Conversão a ser aplicada
+ * @returns Nova linha com as chaves convertidas
+ */
+function mapRow(row: any, mapper: ColumnNameMapper): any {
+  // Apenas objetos simples são linhas; Date, Buffer e streams de BLOB ficam como estão
+  const prototype = row && typeof row === 'object' ? Object.getPrototypeOf(row) : undefined;
+  if (prototype !== Object.prototype && prototype !== null) {
+    return row;
+  }
+
+  const mapped: Record<string, any> = {};
+  for (const [key, value] of Object.entries(row)) {
+    mapped[mapper.toProperty(key)] = value;
+  }
+  return mapped;
+}
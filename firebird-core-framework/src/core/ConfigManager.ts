@@ -1,5 +1,19 @@
 import * as fs from 'fs';
 import * as dotenv from 'dotenv';
+import { TransactionOptions, validateTransactionOptions } from './TransactionOptions';
+import { ColumnNameTransform, validateColumnNameTransform } from './ColumnNames';
+import { BlobOptions, validateBlobOptions } from './Blobs';
+import { ReadRoutingOptions, ReplicaConfig, validateReplicas } from './ReplicaRouter';
+import { ReconnectPolicy, validateReconnectPolicy } from './Reconnection';
+import { HeartbeatOptions, validateHeartbeatOptions } from './ConnectionHealth';
+import { SqlPolicy, validateSqlPolicy } from '../services/SqlPolicy';
+import { ExecuteBlockPolicy } from '../services/ExecuteBlockBuilder';
+
+/** Nome do banco principal, configurado na raiz de FirebirdConfig */
+export const DEFAULT_DATABASE = 'default';
+
+/** Nomes aceitos em FirebirdConfig.databases */
+const DATABASE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_-]*$/;
 
 /**
  * Interface que define a configuração do Firebird
@@ -40,8 +54,67 @@ export interface FirebirdConfig {
   };
   acquireTimeout?: number;
   options?: Record<string, any>;
+  /**
+   * Parâmetros padrão das transações (isolamento, WAIT/NO WAIT, LOCK TIMEOUT, READ ONLY).
+   * Podem ser sobrescritos em cada chamada de executeTransaction/transaction.
+   */
+  transaction?: TransactionOptions;
+  /**
+   * Tempo limite padrão das consultas em milissegundos (0 ou ausente: sem limite).
+   * Pode ser sobrescrito pela opção `timeout` de cada consulta.
+   */
+  queryTimeout?: number;
+  /**
+   * Conversão dos nomes de colunas: none (padrão), lowercase, camelCase ou personalizada.
+   * Aplicada às linhas retornadas e, no sentido inverso, às condições, colunas e inserts.
+   */
+  columnNames?: ColumnNameTransform;
+  /**
+   * Política de confiança do executeBlock: habilitação, escrita e SQL dinâmico no corpo.
+   * Sem ela, executeBlock fica desabilitado.
+   */
+  executeBlock?: ExecuteBlockPolicy;
+  /**
+   * Tratamento das colunas BLOB: tamanho a partir do qual BLOBs binários são
+   * devolvidos como stream. BLOBs de texto com charset NONE usam options.encoding.
+   */
+  blobs?: BlobOptions;
+  /**
+   * Política de SQL: tipos de instrução por ponto de entrada, tabelas e procedures
+   * permitidas, DDL e regras personalizadas. Pode ser complementada em cada chamada.
+   */
+  sqlPolicy?: SqlPolicy;
+  /**
+   * Bancos adicionais, acessados por core.db(nome), cada um com seu próprio pool.
+   * As propriedades informadas substituem as do banco principal; as do pool são combinadas.
+   */
+  databases?: Record<string, DatabaseConfig>;
+  /**
+   * Réplicas de leitura. Leituras fora de transação (executeSelect e executeQuery com SELECT)
+   * são distribuídas entre elas; escritas e transações sempre vão ao primário.
+   */
+  replicas?: ReplicaConfig[];
+  /**
+   * Roteamento das leituras: estratégia, janela de leitura após escrita e afastamento de réplicas com falha.
+   */
+  readRouting?: ReadRoutingOptions;
+  /**
+   * Reconexão automática após a perda da conexão: backoff entre as tentativas e
+   * falhas que abrem o circuito. Ativada por padrão; false a desativa.
+   */
+  reconnect?: ReconnectPolicy | false;
+  /**
+   * Heartbeat periódico da conexão: intervalo, tempo sem resposta e latência
+   * considerada degradada. Sem ele, o estado vem apenas da conexão e das consultas.
+   */
+  heartbeat?: HeartbeatOptions;
 }
 
+/**
+ * Configuração de um banco nomeado; as propriedades ausentes vêm do banco principal
+ */
+export type DatabaseConfig = Partial<Omit<FirebirdConfig, 'databases'>>;
+
 /**
  * Interface que define a configuração do pool de conexões
  */
@@ -70,6 +143,23 @@ export interface PoolConfig {
   maxConnectionLifetimeJitterMillis?: number;
 }
 
+/**
+ * Combina a configuração do banco principal com a de um banco nomeado
+ * @param base - Configuração do banco principal
+ * @param overrides - Propriedades do banco nomeado
+ * @returns Configuração completa do banco nomeado
+ */
+function mergeDatabaseConfig(base: FirebirdConfig, overrides: DatabaseConfig): FirebirdConfig {
+  return {
+    ...base,
+    ...overrides,
+    pool: { ...base.pool, ...overrides.pool },
+    // Réplicas pertencem ao banco em que foram declaradas
+    replicas: overrides.replicas,
+    databases: undefined
+  };
+}
+
 /**
  * Classe responsável por gerenciar as configurações do framework
  */
@@ -196,6 +286,84 @@ export class ConfigManager {
       return { valid: false, error: 'Database deve ser uma string válida' };
     }
 
+    if (testConfig.queryTimeout !== undefined &&
+        (typeof testConfig.queryTimeout !== 'number' || !Number.isFinite(testConfig.queryTimeout) || testConfig.queryTimeout < 0)) {
+      return { valid: false, error: 'queryTimeout deve ser um número não negativo' };
+    }
+
+    if (testConfig.columnNames !== undefined) {
+      const columnNamesError = validateColumnNameTransform(testConfig.columnNames);
+      if (columnNamesError) {
+        return { valid: false, error: columnNamesError };
+      }
+    }
+
+    if (testConfig.executeBlock !== undefined) {
+      const policy = testConfig.executeBlock as unknown as Record<string, unknown>;
+      const invalid = !policy || typeof policy !== 'object' ||
+        Object.values(policy).some((value) => value !== undefined && typeof value !== 'boolean');
+      if (invalid) {
+        return { valid: false, error: 'executeBlock deve ser um objeto com enabled, allowWrites e allowDynamicSql booleanos' };
+      }
+    }
+
+    if (testConfig.blobs !== undefined) {
+      const blobsError = validateBlobOptions(testConfig.blobs);
+      if (blobsError) {
+        return { valid: false, error: blobsError };
+      }
+    }
+
+    if (testConfig.sqlPolicy !== undefined) {
+      const policyError = validateSqlPolicy(testConfig.sqlPolicy);
+      if (policyError) {
+        return { valid: false, error: policyError };
+      }
+    }
+
+    const reconnectError = validateReconnectPolicy(testConfig.reconnect);
+    if (reconnectError) {
+      return { valid: false, error: reconnectError };
+    }
+
+    if (testConfig.heartbeat !== undefined) {
+      const heartbeatError = validateHeartbeatOptions(testConfig.heartbeat);
+      if (heartbeatError) {
+        return { valid: false, error: heartbeatError };
+      }
+    }
+
+    const replicasError = validateReplicas(testConfig.replicas, testConfig.readRouting);
+    if (replicasError) {
+      return { valid: false, error: replicasError };
+    }
+
+    if (testConfig.databases !== undefined) {
+      const databases = testConfig.databases as unknown;
+      if (!databases || typeof databases !== 'object' || Array.isArray(databases)) {
+        return { valid: false, error: 'databases deve ser um objeto com a configuração de cada banco' };
+      }
+      for (const [name, overrides] of Object.entries(testConfig.databases)) {
+        if (!DATABASE_NAME_PATTERN.test(name) || name === DEFAULT_DATABASE) {
+          return { valid: false, error: `Nome de banco inválido: ${name}` };
+        }
+        if (!overrides || typeof overrides !== 'object') {
+          return { valid: false, error: `databases.${name} deve ser um objeto` };
+        }
+        const databaseValidation = this.validateConfig(mergeDatabaseConfig(testConfig, overrides));
+        if (!databaseValidation.valid) {
+          return { valid: false, error: `databases.${name}: ${databaseValidation.error}` };
+        }
+      }
+    }
+
+    if (testConfig.transaction) {
+      const transactionError = validateTransactionOptions(testConfig.transaction);
+      if (transactionError) {
+        return { valid: false, error: `Parâmetros de transação inválidos: ${transactionError}` };
+      }
+    }
+
     return { valid: true };
   }
 
@@ -238,4 +406,25 @@ export class ConfigManager {
   getAll(): FirebirdConfig {
     return { ...this.config };
   }
+
+  /**
+   * Lista os bancos configurados, começando pelo principal
+   * @returns Nomes dos bancos
+   */
+  getDatabaseNames(): string[] {
+    return [DEFAULT_DATABASE, ...Object.keys(this.config.databases || {})];
+  }
+
+  /**
+   * Obtém a configuração completa de um banco nomeado
+   * @param name - Nome do banco em FirebirdConfig.databases
+   * @returns Configuração do banco, herdando as propriedades ausentes do principal, ou null se não existir
+   */
+  getDatabaseConfig(name: string): FirebirdConfig | null {
+    const databases = this.config.databases || {};
+    if (name === DEFAULT_DATABASE || !Object.prototype.hasOwnProperty.call(databases, name)) {
+      return null;
+    }
+    return mergeDatabaseConfig(this.config, databases[name]);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,89 @@
+/**
+ * Estado da conexão e heartbeat do ConnectionManager.
+ *
+ * O heartbeat executa periodicamente a consulta de teste da conexão
+ * (SELECT 1 FROM RDB$DATABASE), medindo a latência e contando as falhas
+ * seguidas; com `failureThreshold` falhas seguidas, a conexão é considerada
+ * perdida e a reconexão automática assume. O estado resultante é exposto por
+ * getStatus() e cada transição é repassada aos plugins pelo hook onStateChange.
+ */
+
+/**
+ * Estado da conexão
+ * - connecting: connect() em andamento
+ * - healthy: conectado, com o último teste bem-sucedido e latência aceitável
+ * - degraded: conectado, mas com heartbeats falhando ou latência acima de `degradedLatency`
+ * - down: sem conexão (antes de conectar, após desconectar ou com a conexão perdida)
+ */
+export type ConnectionState = 'connecting' | 'healthy' | 'degraded' | 'down';
+
+/**
+ * Interface que define o heartbeat
+ */
+export interface HeartbeatOptions {
+  /** Intervalo entre os heartbeats, em milissegundos */
+  interval: number;
+  /** Tempo sem resposta que conta o heartbeat como falha, em milissegundos (padrão: o intervalo) */
+  timeout?: number;
+  /** Latência, em milissegundos, acima da qual a conexão é considerada degradada (opcional) */
+  degradedLatency?: number;
+  /** Heartbeats seguidos com falha que marcam a conexão como perdida (padrão: 3) */
+  failureThreshold?: number;
+}
+
+/** Heartbeats seguidos com falha que marcam a conexão como perdida, quando não informado */
+export const DEFAULT_HEARTBEAT_FAILURE_THRESHOLD = 3;
+
+/**
+ * Retrato do estado da conexão, devolvido por getStatus
+ */
+export interface ConnectionStatus {
+  state: ConnectionState;
+  /** Momento (Date.now) da última transição de estado */
+  since: number;
+  /** Duração, em milissegundos, do último teste de conexão bem-sucedido */
+  latency: number | null;
+  /** Heartbeats que falharam seguidos */
+  consecutiveFailures: number;
+  /** Momento (Date.now) do último teste de conexão bem-sucedido */
+  lastSuccessAt: number | null;
+  /** Mensagem do último erro de conexão ou de heartbeat */
+  lastError: string | null;
+  /** Momento (Date.now) da próxima tentativa de reconexão, quando a conexão está perdida */
+  retryAt: number | null;
+}
+
+/**
+ * Transição de estado repassada ao hook onStateChange
+ */
+export interface ConnectionStateChange {
+  from: ConnectionState;
+  to: ConnectionState;
+  /** Estado completo após a transição */
+  status: ConnectionStatus;
+}
+
+/**
+ * Valida as opções de heartbeat
+ * @param options - Valor informado em FirebirdConfig.heartbeat
+ * @returns Mensagem de erro, ou null se as opções forem válidas
+ */
+export function validateHeartbeatOptions(options: unknown): string | null {
+  if (!options || typeof options !== 'object') {
+    return 'heartbeat deve ser um objeto com o intervalo em milissegundos';
+  }
+
+  const { interval, timeout, degradedLatency, failureThreshold } = options as HeartbeatOptions;
+  for (const [name, value] of Object.entries({ interval, timeout })) {
+    if ((value !== undefined || name === 'interval') && (typeof value !== 'number' || !Number.isFinite(value) || value <= 0)) {
+      return `heartbeat.${name} deve ser um número positivo`;
+    }
+  }
+  if (degradedLatency !== undefined && (typeof degradedLatency !== 'number' || !Number.isFinite(degradedLatency) || degradedLatency < 0)) {
+    return 'heartbeat.degradedLatency deve ser um número não negativo';
+  }
+  if (failureThreshold !== undefined && (!Number.isInteger(failureThreshold) || failureThreshold < 1)) {
+    return 'heartbeat.failureThreshold deve ser um inteiro maior ou igual a 1';
+  }
+  return null;
+}
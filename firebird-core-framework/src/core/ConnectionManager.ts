@@ -1,8 +1,16 @@
 import knex, { Knex } from 'knex';
-import FirebirdClient from 'knex-firebird-dialect';
 import * as fs from 'fs';
 import { ConfigManager, FirebirdConfig, PoolConfig } from './ConfigManager';
+import { FirebirdClient, startTransaction } from './FirebirdClient';
+import { createColumnNameMapper, mapRowKeys } from './ColumnNames';
+import { BLOB_OPTIONS_PARAM } from './Blobs';
 import { PluginManager } from './PluginManager';
+import { ReplicaRouter, resolveReplicaConfigs } from './ReplicaRouter';
+import { ResolvedReconnectPolicy, resolveReconnectPolicy } from './Reconnection';
+import { computeRetryDelay } from './RetryPolicy';
+import { ConnectionState, ConnectionStatus, DEFAULT_HEARTBEAT_FAILURE_THRESHOLD } from './ConnectionHealth';
+import { PoolTelemetry, PoolTelemetrySnapshot } from './PoolTelemetry';
+import { ConnectionLostError, ConnectionUnavailableError, toFirebirdError } from '../errors/FirebirdErrors';
 
 /**
  * Interface que define o resultado de uma operação de conexão
@@ -21,9 +29,44 @@ export interface ValidationResult {
   error?: string;
 }
 
+/**
+ * Perda de conexão em andamento (circuito aberto)
+ */
+interface ConnectionOutage {
+  /** Erro de conexão mais recente */
+  error: unknown;
+  /** Momento (Date.now) da perda da conexão */
+  since: number;
+  /** Tentativas de reconexão já feitas */
+  attempts: number;
+  /** Momento (Date.now) da próxima tentativa, ou null sem tentativa agendada */
+  retryAt: number | null;
+}
+
+/**
+ * Heartbeat em andamento, que ocupa uma conexão do pool até terminar
+ */
+interface HeartbeatProbe {
+  /** Instância do Knex testada */
+  connection: Knex;
+  /** Conexão do driver obtida do pool, ou null enquanto aguarda o pool */
+  attachment: any;
+  /** Erro de tempo esgotado, depois que o heartbeat excede `heartbeat.timeout` */
+  expired: Error | null;
+}
+
+/** Consulta usada para testar a conexão e cada tentativa de reconexão */
+const CONNECTION_TEST_SQL = 'SELECT 1 AS test FROM RDB$DATABASE;';
+
 /**
  * Classe responsável por gerenciar a conexão com o banco de dados Firebird,
  * incluindo criação, validação, atualização e destruição de conexões.
+ *
+ * Erros de conexão nas consultas marcam a conexão como perdida: isConnected()
+ * passa a retornar false, as chamadas falham com ConnectionUnavailableError e o
+ * pool é recriado em segundo plano com backoff exponencial (FirebirdConfig.reconnect).
+ * Com FirebirdConfig.heartbeat, a conexão também é testada periodicamente; o estado
+ * resultante é exposto por getStatus() e cada transição é repassada aos plugins.
  */
 export class ConnectionManager {
   private config: FirebirdConfig;
@@ -31,6 +74,23 @@ export class ConnectionManager {
   private isConnectedFlag: boolean = false;
   private pluginManager: PluginManager | null = null;
   private configManager: ConfigManager | null = null;
+  private replicaRouter: ReplicaRouter | null = null;
+  private reconnectPolicy: ResolvedReconnectPolicy | null;
+  private outage: ConnectionOutage | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private connectionFailures: number = 0;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private poolTelemetry: PoolTelemetry = new PoolTelemetry();
+  private heartbeatProbe: HeartbeatProbe | null = null;
+  private connecting: boolean = false;
+  private state: ConnectionState = 'down';
+  private stateSince: number = Date.now();
+  private health: Pick<ConnectionStatus, 'latency' | 'consecutiveFailures' | 'lastSuccessAt' | 'lastError'> = {
+    latency: null,
+    consecutiveFailures: 0,
+    lastSuccessAt: null,
+    lastError: null
+  };
 
   /**
    * Construtor da classe ConnectionManager
@@ -52,122 +112,56 @@ export class ConnectionManager {
         // Incluir todas as propriedades do pool original
         ...config.pool,
       },
-      options: config.options || {}
+      options: config.options || {},
+      transaction: config.transaction,
+      queryTimeout: config.queryTimeout,
+      columnNames: config.columnNames,
+      executeBlock: config.executeBlock,
+      blobs: config.blobs,
+      sqlPolicy: config.sqlPolicy,
+      replicas: config.replicas,
+      readRouting: config.readRouting,
+      reconnect: config.reconnect,
+      heartbeat: config.heartbeat
     };
+    this.reconnectPolicy = resolveReconnectPolicy(config.reconnect);
     this.configManager = configManager || null;
   }
 
   /**
    * Estabelece a conexão com o banco de dados Firebird
    * @returns Promise com o resultado da operação de conexão
-   * @throws Erro caso a conexão falhe
+   * @throws FirebirdError caso a conexão falhe (AuthenticationError e ConnectionLostError quando identificados)
    */
   async connect(): Promise<ConnectionResult> {
+    this.connecting = true;
+    this.updateState();
+
     try {
       // Emitir evento beforeConnect para plugins
       if (this.pluginManager) {
         await this.pluginManager.beforeConnect(this.config);
       }
 
-      // Função para sanitizar o objeto pool removendo opções inválidas e convertendo propriedades antigas
-      const sanitizePoolConfig = (poolOptions: any) => {
-        // Lista branca (whitelist) com as opções válidas do pool do tarn.js
-        const validPoolOptions = [
-          'min',
-          'max',
-          'acquireTimeoutMillis',
-          'createTimeoutMillis',
-          'destroyTimeoutMillis',
-          'idleTimeoutMillis',
-          'reapIntervalMillis',
-          'createRetryIntervalMillis',
-          'validate',
-          'afterCreate',
-          'maxConnectionLifetimeMillis',
-          'maxConnectionLifetimeJitterMillis',
-          // Incluindo propriedades antigas para que possamos convertê-las
-          'acquireTimeout',
-          'createTimeout',
-          'destroyTimeout',
-          'idleTimeout',
-          'reapInterval',
-          'createRetryInterval',
-          'propagateCreateError'
-        ];
-        
-        // Mapeamento de propriedades antigas para novos nomes
-        const propertyMapping: { [key: string]: string } = {
-          'acquireTimeout': 'acquireTimeoutMillis',
-          'createTimeout': 'createTimeoutMillis',
-          'destroyTimeout': 'destroyTimeoutMillis',
-          'idleTimeout': 'idleTimeoutMillis',
-          'reapInterval': 'reapIntervalMillis',
-          'createRetryInterval': 'createRetryIntervalMillis',
-          // propagateCreateError não muda de nome, mas pode ser incluído para consistência
-        };
-        
-        const sanitizedPool: any = {};
-        
-        // Processa todas as propriedades do pool original
-        for (const [key, value] of Object.entries(poolOptions)) {
-          // Verifica se é uma propriedade antiga que precisa ser convertida
-          if (propertyMapping[key]) {
-            const newKey = propertyMapping[key];
-            // Apenas adiciona à configuração sanitizada se a nova chave estiver na whitelist
-            if (validPoolOptions.includes(newKey)) {
-              sanitizedPool[newKey] = value;
-            }
-          } else if (validPoolOptions.includes(key)) {
-            // Adiciona propriedades que já estão com o nome correto
-            sanitizedPool[key] = value;
-          }
-        }
-        
-        // Garante que os valores padrão estejam definidos
-        if (sanitizedPool.min === undefined) sanitizedPool.min = 2;
-        if (sanitizedPool.max === undefined) sanitizedPool.max = 10;
-        
-        return sanitizedPool;
-      };
-      
-      // Aplica a sanitização no objeto pool para remover opções inválidas e converter propriedades antigas
-      const poolConfig = sanitizePoolConfig({
-        ...this.config.pool,
-        acquireTimeout: this.config.acquireTimeout, // Inclui a propriedade acquireTimeout para ser convertida
-      });
-
-      // Validação de segurança para clientLibPath
-      if (this.config.clientLibPath) {
-        if (!fs.existsSync(this.config.clientLibPath)) {
-          throw new Error(`Client library file not found at: ${this.config.clientLibPath}`);
-        }
-      }
-
-      const knexConfig: Knex.Config = {
-        client: FirebirdClient,
-        connection: {
-          host: this.config.host,
-          port: this.config.port,
-          user: this.config.username,
-          password: this.config.password,
-          database: this.config.database,
-          // Injeta apenas se estiver definido na config
-          ...(this.config.clientLibPath && { clientLibPath: this.config.clientLibPath }),
-          ...this.config.options
-        },
-        pool: poolConfig,
-        acquireConnectionTimeout: this.config.acquireTimeout // Define acquireTimeout na raiz da configuração do Knex para compatibilidade
-      };
+      // Uma conexão manual substitui a reconexão automática em andamento
+      this.stopReconnecting();
 
-      this.connection = knex(knexConfig);
-      
-      // Configurar monitoramento
-      this.setupMonitoring();
+      this.connection = this.createConnection();
       
       // Testar conexão - usando RDB$DATABASE para compatibilidade com Firebird
       // RDB$DATABASE é uma tabela virtual do Firebird que sempre existe
-      await this.connection.raw('SELECT 1 AS test FROM RDB$DATABASE;');
+      const started = Date.now();
+      await this.connection.raw(CONNECTION_TEST_SQL);
+      this.recordSuccess(Date.now() - started);
       this.isConnectedFlag = true;
+      this.connectionFailures = 0;
+      this.startHeartbeat();
+
+      // Conectar as réplicas de leitura; réplicas indisponíveis são afastadas sem impedir a conexão
+      if (this.config.replicas?.length) {
+        this.replicaRouter = this.createReplicaRouter();
+        await this.replicaRouter.connect();
+      }
       
       // Emitir evento afterConnect para plugins
       if (this.pluginManager) {
@@ -178,26 +172,168 @@ export class ConnectionManager {
     } catch (error) {
       this.isConnectedFlag = false;
       this.connection = null;
+      const failure = toFirebirdError(error, 'Falha na conexão: ');
+      this.health.lastError = failure instanceof Error ? failure.message : String(failure);
       
       // Emitir evento onError para plugins
       if (this.pluginManager) {
-        await this.pluginManager.onError(error);
+        await this.pluginManager.onError(failure);
       }
-      throw new Error(`Falha na conexão: ${error instanceof Error ? error.message : String(error)}`);
+      throw failure;
+    } finally {
+      this.connecting = false;
+      this.updateState();
     }
   }
 
   /**
-   * Configura o monitoramento de eventos do Knex
-   * Monitora queries, respostas e eventos do pool de conexões
+   * Cria a instância do Knex (e o pool) com a configuração atual
+   * @returns Instância do Knex, ainda sem conexão testada
+   * @throws Erro se a biblioteca cliente informada não existir
    */
-  private setupMonitoring(): void {
-    if (!this.connection) {
-      return;
+  private createConnection(): Knex {
+    // Função para sanitizar o objeto pool removendo opções inválidas e convertendo propriedades antigas
+    const sanitizePoolConfig = (poolOptions: any) => {
+      // Lista branca (whitelist) com as opções válidas do pool do tarn.js
+      const validPoolOptions = [
+        'min',
+        'max',
+        'acquireTimeoutMillis',
+        'createTimeoutMillis',
+        'destroyTimeoutMillis',
+        'idleTimeoutMillis',
+        'reapIntervalMillis',
+        'createRetryIntervalMillis',
+        'validate',
+        'afterCreate',
+        'maxConnectionLifetimeMillis',
+        'maxConnectionLifetimeJitterMillis',
+        // Incluindo propriedades antigas para que possamos convertê-las
+        'acquireTimeout',
+        'createTimeout',
+        'destroyTimeout',
+        'idleTimeout',
+        'reapInterval',
+        'createRetryInterval',
+        'propagateCreateError'
+      ];
+      
+      // Mapeamento de propriedades antigas para novos nomes
+      const propertyMapping: { [key: string]: string } = {
+        'acquireTimeout': 'acquireTimeoutMillis',
+        'createTimeout': 'createTimeoutMillis',
+        'destroyTimeout': 'destroyTimeoutMillis',
+        'idleTimeout': 'idleTimeoutMillis',
+        'reapInterval': 'reapIntervalMillis',
+        'createRetryInterval': 'createRetryIntervalMillis',
+        // propagateCreateError não muda de nome, mas pode ser incluído para consistência
+      };
+      
+      const sanitizedPool: any = {};
+      
+      // Processa todas as propriedades do pool original
+      for (const [key, value] of Object.entries(poolOptions)) {
+        // Verifica se é uma propriedade antiga que precisa ser convertida
+        if (propertyMapping[key]) {
+          const newKey = propertyMapping[key];
+          // Apenas adiciona à configuração sanitizada se a nova chave estiver na whitelist
+          if (validPoolOptions.includes(newKey)) {
+            sanitizedPool[newKey] = value;
+          }
+        } else if (validPoolOptions.includes(key)) {
+          // Adiciona propriedades que já estão com o nome correto
+          sanitizedPool[key] = value;
+        }
+      }
+      
+      // Garante que os valores padrão estejam definidos
+      if (sanitizedPool.min === undefined) sanitizedPool.min = 2;
+      if (sanitizedPool.max === undefined) sanitizedPool.max = 10;
+      
+      return sanitizedPool;
+    };
+    
+    // Aplica a sanitização no objeto pool para remover opções inválidas e converter propriedades antigas
+    const poolConfig = sanitizePoolConfig({
+      ...this.config.pool,
+      acquireTimeout: this.config.acquireTimeout, // Inclui a propriedade acquireTimeout para ser convertida
+    });
+
+    // Validação de segurança para clientLibPath
+    if (this.config.clientLibPath) {
+      if (!fs.existsSync(this.config.clientLibPath)) {
+        throw new Error(`Client library file not found at: ${this.config.clientLibPath}`);
+      }
+    }
+
+    const knexConfig: Knex.Config = {
+      client: FirebirdClient,
+      connection: {
+        host: this.config.host,
+        port: this.config.port,
+        user: this.config.username,
+        password: this.config.password,
+        database: this.config.database,
+        // Injeta apenas se estiver definido na config
+        ...(this.config.clientLibPath && { clientLibPath: this.config.clientLibPath }),
+        ...this.config.options
+      },
+      pool: poolConfig,
+      acquireConnectionTimeout: this.config.acquireTimeout, // Define acquireTimeout na raiz da configuração do Knex para compatibilidade
+      // Lidas pelo FirebirdClient ao converter as colunas BLOB
+      ...(this.config.blobs && { userParams: { [BLOB_OPTIONS_PARAM]: this.config.blobs } }),
+      ...this.getColumnNameHooks()
+    };
+
+    const connection = knex(knexConfig);
+    
+    // Configurar monitoramento
+    this.setupMonitoring(connection);
+    return connection;
+  }
+
+  /**
+   * Cria o roteador de leituras, com um ConnectionManager (e um pool) por réplica
+   * @returns Roteador das réplicas configuradas
+   */
+  private createReplicaRouter(): ReplicaRouter {
+    const managers = resolveReplicaConfigs(this.config).map((config, index) => {
+      const manager = new ConnectionManager(config);
+      if (this.pluginManager) {
+        // Os eventos da réplica chegam aos plugins com o nome dela, separados dos do primário
+        manager.setPluginManager(this.pluginManager.forReplica(index));
+      }
+      return manager;
+    });
+    return new ReplicaRouter(managers, this.config.readRouting);
+  }
+
+  /**
+   * Monta os hooks do Knex que aplicam a conversão de nomes de colunas:
+   * identificadores do query builder (inclusive `??` em SQL manual) são convertidos
+   * para o nome da coluna, e as chaves das linhas retornadas para o nome da propriedade.
+   * @returns Opções do Knex com os hooks, ou objeto vazio quando não há conversão
+   */
+  private getColumnNameHooks(): Pick<Knex.Config, 'wrapIdentifier' | 'postProcessResponse'> {
+    const mapper = createColumnNameMapper(this.config.columnNames);
+    if (!mapper) {
+      return {};
     }
 
+    return {
+      wrapIdentifier: (value, origImpl) => origImpl(value === '*' ? value : mapper.toColumn(value)),
+      postProcessResponse: (result) => mapRowKeys(result, mapper)
+    };
+  }
+
+  /**
+   * Configura o monitoramento de eventos do Knex
+   * Monitora queries, respostas e eventos do pool de conexões
+   * @param connection - Instância do Knex monitorada
+   */
+  private setupMonitoring(connection: Knex): void {
     // Monitorar eventos de query
-    this.connection.on('query', (query) => {
+    connection.on('query', (query) => {
       console.log('Firebird Core Query:', query.sql, query.bindings);
       
       // Emitir evento beforeQuery para plugins
@@ -206,44 +342,368 @@ export class ConnectionManager {
       }
     });
 
-    this.connection.on('query-response', (response, query) => {
+    connection.on('query-response', (response, query) => {
+      if (connection === this.connection) {
+        this.connectionFailures = 0;
+      }
+
       // Emitir evento afterQuery para plugins
       if (this.pluginManager) {
         this.pluginManager.afterQuery(response);
       }
     });
 
-    this.connection.on('query-error', (error, query) => {
+    connection.on('query-error', (error, query) => {
       console.error('Firebird Core Query Error:', error.message);
+      const failure = toFirebirdError(error);
       
       // Emitir evento onError para plugins
       if (this.pluginManager) {
-        this.pluginManager.onError(error);
+        this.pluginManager.onError(failure);
       }
+      this.handleConnectionError(connection, failure);
     });
 
-    // Monitorar eventos do pool de conexões
-    if (this.connection.client && this.connection.client.pool) {
-      this.connection.client.pool.on('acquire', (connection: any) => {
-        console.log('Firebird Core Pool: Connection acquired');
-      });
+    // Monitorar eventos do pool de conexões; os contadores ficam em getPoolTelemetry()
+    if (connection.client && connection.client.pool) {
+      this.poolTelemetry.attach(connection.client.pool);
 
-      this.connection.client.pool.on('release', (connection: any) => {
-        console.log('Firebird Core Pool: Connection released');
+      connection.client.pool.on('createFail', (eventId: number, err: any) => {
+        this.handleConnectionError(connection, toFirebirdError(err));
       });
+    }
+  }
 
-      this.connection.client.pool.on('destroy', (connection: any) => {
-        console.log('Firebird Core Pool: Connection destroyed');
-      });
+  /**
+   * Conta os erros de conexão da instância atual e, ao atingir
+   * `reconnect.failureThreshold`, marca a conexão como perdida
+   * @param connection - Instância do Knex em que o erro ocorreu
+   * @param error - Erro da conexão; erros do driver ainda não convertidos passam por toFirebirdError
+   */
+  private handleConnectionError(connection: Knex, error: unknown): void {
+    // Erros de um pool já descartado ou de uma conexão ainda não testada não abrem o circuito
+    const failure = toFirebirdError(error);
+    if (connection !== this.connection || !this.isConnectedFlag || !(failure instanceof ConnectionLostError)) {
+      return;
+    }
 
-      this.connection.client.pool.on('createSuccess', (connection: any) => {
-        console.log('Firebird Core Pool: Connection created successfully');
-      });
+    this.connectionFailures++;
+    if (this.connectionFailures < (this.reconnectPolicy?.failureThreshold ?? 1)) {
+      return;
+    }
+    this.markConnectionLost(connection, failure);
+  }
+
+  /**
+   * Descarta o pool atual, abre o circuito e agenda a reconexão
+   * @param connection - Instância do Knex perdida
+   * @param failure - Erro que causou a perda da conexão
+   */
+  private markConnectionLost(connection: Knex, failure: Error): void {
+    // As conexões do pool não se recuperam; o pool é recriado a cada tentativa de reconexão
+    this.isConnectedFlag = false;
+    this.discardConnection(connection);
+    this.outage = { error: failure, since: Date.now(), attempts: 0, retryAt: null };
+    this.health.lastError = failure.message;
+    this.scheduleReconnect();
+
+    // Emitir evento onDisconnected para plugins
+    this.emitInBackground((pluginManager) => pluginManager.onDisconnected(failure));
+    this.updateState();
+  }
+
+  /**
+   * Agenda a próxima tentativa de reconexão, com backoff exponencial.
+   * Sem reconexão automática ou esgotado `reconnect.maxAttempts`, a conexão
+   * fica perdida até uma nova chamada de connect().
+   */
+  private scheduleReconnect(): void {
+    const outage = this.outage;
+    const policy = this.reconnectPolicy;
+    if (!outage || !policy || (policy.maxAttempts > 0 && outage.attempts >= policy.maxAttempts)) {
+      return;
+    }
+
+    const delay = computeRetryDelay(policy, outage.attempts + 1);
+    outage.retryAt = Date.now() + delay;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.reconnect(outage);
+    }, delay);
+    // A reconexão pendente não impede o encerramento do processo
+    this.reconnectTimer.unref?.();
+  }
+
+  /**
+   * Tenta recriar o pool e testar a conexão. Na falha, agenda a próxima tentativa;
+   * no sucesso, fecha o circuito e emite onReconnected.
+   * @param outage - Perda de conexão que originou a tentativa
+   */
+  private async reconnect(outage: ConnectionOutage): Promise<void> {
+    outage.attempts++;
+    outage.retryAt = null;
+
+    let connection: Knex | null = null;
+    const started = Date.now();
+    try {
+      connection = this.createConnection();
+      await connection.raw(CONNECTION_TEST_SQL);
+    } catch (error) {
+      if (connection) {
+        this.discardConnection(connection);
+      }
+      // connect() ou disconnect() durante a tentativa encerram a perda de conexão
+      if (this.outage === outage) {
+        outage.error = toFirebirdError(error);
+        this.health.lastError = outage.error instanceof Error ? outage.error.message : String(outage.error);
+        this.scheduleReconnect();
+      }
+      return;
+    }
+
+    if (this.outage !== outage) {
+      this.discardConnection(connection);
+      return;
+    }
+
+    this.connection = connection;
+    this.isConnectedFlag = true;
+    this.connectionFailures = 0;
+    this.outage = null;
+    this.recordSuccess(Date.now() - started);
+
+    // Emitir evento onReconnected para plugins
+    const notice = { attempts: outage.attempts, downtime: Date.now() - outage.since };
+    this.emitInBackground((pluginManager) => pluginManager.onReconnected(notice));
+    this.updateState();
+  }
+
+  /**
+   * Cancela a reconexão agendada e encerra a perda de conexão em andamento
+   */
+  private stopReconnecting(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.outage = null;
+  }
+
+  /**
+   * Inicia o heartbeat configurado em FirebirdConfig.heartbeat
+   */
+  private startHeartbeat(): void {
+    const interval = this.config.heartbeat?.interval;
+    if (!interval || this.heartbeatTimer) {
+      return;
+    }
+    this.heartbeatTimer = setInterval(() => this.runHeartbeat(), interval);
+    // O heartbeat não impede o encerramento do processo
+    this.heartbeatTimer.unref?.();
+  }
+
+  /**
+   * Interrompe o heartbeat
+   */
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * Executa a consulta de teste, medindo a latência. Um erro de conexão abre o
+   * circuito como nas demais consultas; as outras falhas e a falta de resposta em
+   * `heartbeat.timeout` deixam a conexão degradada até `heartbeat.failureThreshold`
+   * falhas seguidas, quando a conexão é considerada perdida.
+   */
+  private async runHeartbeat(): Promise<void> {
+    const connection = this.connection;
+    // Sem conexão, a reconexão automática é quem testa o banco
+    if (!connection || !this.isConnectedFlag) {
+      return;
+    }
 
-      this.connection.client.pool.on('createFail', (err: any) => {
-        console.error('Firebird Core Pool: Failed to create connection', err);
+    // Enquanto a sonda anterior ocupa uma conexão do pool, outra não é iniciada;
+    // já expirada, ela conta como mais uma falha
+    const pending = this.heartbeatProbe;
+    if (pending?.connection === connection) {
+      if (pending.expired) {
+        this.recordHeartbeatFailure(connection, pending.expired);
+        this.updateState();
+      }
+      return;
+    }
+
+    const timeout = this.config.heartbeat?.timeout ?? this.config.heartbeat!.interval;
+    const started = Date.now();
+    const probe: HeartbeatProbe = { connection, attachment: null, expired: null };
+    const execution = this.probeConnection(probe);
+    this.heartbeatProbe = probe;
+    execution.catch(() => undefined).then(() => {
+      if (this.heartbeatProbe === probe) {
+        this.heartbeatProbe = null;
+      }
+    });
+
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      await Promise.race([
+        execution,
+        new Promise((resolve, reject) => {
+          timer = setTimeout(() => {
+            const error = new Error(`Heartbeat sem resposta em ${timeout} ms`);
+            this.expireProbe(probe, error);
+            reject(error);
+          }, timeout);
+        })
+      ]);
+      if (connection === this.connection) {
+        this.recordSuccess(Date.now() - started);
+      }
+    } catch (error) {
+      this.recordHeartbeatFailure(connection, error);
+    } finally {
+      clearTimeout(timer);
+      this.updateState();
+    }
+  }
+
+  /**
+   * Conta uma falha de heartbeat e, ao atingir `heartbeat.failureThreshold`
+   * falhas seguidas, marca a conexão como perdida
+   * @param connection - Instância do Knex testada
+   * @param error - Erro do teste de conexão
+   */
+  private recordHeartbeatFailure(connection: Knex, error: unknown): void {
+    // Falhas de um pool já substituído pela reconexão não contam
+    if (connection !== this.connection) {
+      return;
+    }
+
+    const failure = toFirebirdError(error);
+    this.health.consecutiveFailures++;
+    this.health.lastError = failure instanceof Error ? failure.message : String(failure);
+    // A sonda roda fora dos eventos do Knex, que abrem o circuito nas demais consultas
+    this.handleConnectionError(connection, failure);
+
+    const threshold = this.config.heartbeat?.failureThreshold ?? DEFAULT_HEARTBEAT_FAILURE_THRESHOLD;
+    if (connection === this.connection && this.isConnectedFlag && this.health.consecutiveFailures >= threshold) {
+      const message = `Heartbeat falhou ${this.health.consecutiveFailures} vezes seguidas: ${this.health.lastError}`;
+      this.markConnectionLost(connection, new ConnectionLostError(message, { cause: failure }));
+    }
+  }
+
+  /**
+   * Executa a consulta de teste em uma conexão obtida diretamente do pool, fora
+   * dos eventos de consulta do Knex (log e hooks beforeQuery/afterQuery)
+   * @param probe - Sonda em andamento; recebe a conexão do driver para o cancelamento
+   */
+  private async probeConnection(probe: HeartbeatProbe): Promise<void> {
+    const client: any = probe.connection.client;
+    const attachment = await client.acquireConnection();
+    try {
+      // Expirada enquanto aguardava o pool, a sonda só devolve a conexão
+      if (probe.expired) {
+        return;
+      }
+      probe.attachment = attachment;
+      const transaction = await startTransaction(attachment);
+      try {
+        await attachment.executeSingleton(transaction, CONNECTION_TEST_SQL);
+      } catch (error) {
+        // O erro da consulta é o que conta como falha do heartbeat
+        await transaction.rollback().catch(() => undefined);
+        throw error;
+      }
+      await transaction.commit();
+    } finally {
+      await client.releaseConnection(attachment);
+    }
+  }
+
+  /**
+   * Cancela a sonda que excedeu `heartbeat.timeout`. Sem a confirmação do
+   * cancelamento, a conexão é destruída pelo pool ao ser devolvida.
+   * @param probe - Sonda expirada
+   * @param error - Erro de tempo esgotado do heartbeat
+   */
+  private expireProbe(probe: HeartbeatProbe, error: Error): void {
+    probe.expired = error;
+    const attachment = probe.attachment;
+    if (!attachment) {
+      return;
+    }
+    Promise.resolve()
+      .then(() => attachment.cancelOperation())
+      .catch(() => {
+        attachment.__knex__disposed = error;
       });
+  }
+
+  /**
+   * Registra um teste de conexão bem-sucedido
+   * @param latency - Duração do teste, em milissegundos
+   */
+  private recordSuccess(latency: number): void {
+    this.health = { latency, consecutiveFailures: 0, lastSuccessAt: Date.now(), lastError: null };
+  }
+
+  /**
+   * Recalcula o estado da conexão e, se mudou, emite onStateChange
+   */
+  private updateState(): void {
+    const degradedLatency = this.config.heartbeat?.degradedLatency;
+    const slow = degradedLatency !== undefined && this.health.latency !== null && this.health.latency > degradedLatency;
+    let next: ConnectionState;
+    if (this.connecting) {
+      next = 'connecting';
+    } else if (!this.isConnectedFlag) {
+      next = 'down';
+    } else {
+      next = this.health.consecutiveFailures > 0 || slow ? 'degraded' : 'healthy';
+    }
+    if (next === this.state) {
+      return;
+    }
+
+    const from = this.state;
+    this.state = next;
+    this.stateSince = Date.now();
+
+    // Emitir evento onStateChange para plugins
+    const change = { from, to: next, status: this.getStatus() };
+    this.emitInBackground((pluginManager) => pluginManager.onStateChange(change));
+  }
+
+  /**
+   * Executa um hook dos plugins sem aguardá-lo; falhas dos plugins não afetam a conexão
+   * @param emit - Chamada do hook no PluginManager
+   */
+  private emitInBackground(emit: (pluginManager: PluginManager) => Promise<void>): void {
+    const pluginManager = this.pluginManager;
+    if (!pluginManager) {
+      return;
+    }
+    (async () => {
+      try {
+        await emit(pluginManager);
+      } catch {
+        // Ignorado: o hook roda fora do fluxo de uma chamada que pudesse receber o erro
+      }
+    })();
+  }
+
+  /**
+   * Destrói o pool de uma conexão perdida, sem aguardar o encerramento
+   * @param connection - Instância do Knex descartada
+   */
+  private discardConnection(connection: Knex): void {
+    if (connection === this.connection) {
+      this.connection = null;
     }
+    connection.destroy().catch(() => undefined);
   }
 
   /**
@@ -257,16 +717,27 @@ export class ConnectionManager {
         await this.pluginManager.beforeDisconnect();
       }
 
+      this.stopReconnecting();
+      this.stopHeartbeat();
+
+      if (this.replicaRouter) {
+        await this.replicaRouter.disconnect();
+        this.replicaRouter = null;
+      }
+
       if (this.connection) {
         await this.connection.destroy();
         this.connection = null;
         this.isConnectedFlag = false;
       }
     } catch (error) {
+      const failure = toFirebirdError(error);
       if (this.pluginManager) {
-        await this.pluginManager.onError(error);
+        await this.pluginManager.onError(failure);
       }
-      throw error;
+      throw failure;
+    } finally {
+      this.updateState();
     }
   }
 
@@ -278,14 +749,44 @@ export class ConnectionManager {
     return this.isConnectedFlag ? this.connection : null;
   }
 
+  /**
+   * Obtém o roteador das réplicas de leitura. Enquanto a conexão com o primário
+   * está perdida, as réplicas continuam atendendo as leituras.
+   * @returns Roteador, ou null sem réplicas configuradas ou antes de conectar
+   */
+  getReplicaRouter(): ReplicaRouter | null {
+    return this.replicaRouter;
+  }
+
   /**
    * Verifica se a conexão está ativa
-   * @returns true se estiver conectado, false caso contrário
+   * @returns true se estiver conectado, false antes de conectar e enquanto a conexão estiver perdida
    */
   isConnected(): boolean {
     return this.isConnectedFlag;
   }
 
+  /**
+   * Obtém o estado da conexão, com latência, falhas seguidas e último sucesso do heartbeat
+   * @returns Retrato do estado atual
+   */
+  getStatus(): ConnectionStatus {
+    return {
+      state: this.state,
+      since: this.stateSince,
+      ...this.health,
+      retryAt: this.outage?.retryAt ?? null
+    };
+  }
+
+  /**
+   * Obtém o erro lançado pelas chamadas enquanto a conexão está perdida (circuito aberto)
+   * @returns Erro com o momento da próxima tentativa de reconexão, ou null se não houver perda de conexão
+   */
+  getUnavailableError(): ConnectionUnavailableError | null {
+    return this.outage ? new ConnectionUnavailableError(this.outage.retryAt, this.outage.error) : null;
+  }
+
   /**
    * Valida uma configuração de conexão
    * @param config - Configuração a ser validada (opcional, usa a atual se não fornecida)
@@ -308,7 +809,7 @@ export class ConnectionManager {
       
       // Testar conexão - usando RDB$DATABASE para compatibilidade com Firebird
       // RDB$DATABASE é uma tabela virtual do Firebird que sempre existe
-      await tempKnex.raw('SELECT 1 AS test FROM RDB$DATABASE;');
+      await tempKnex.raw(CONNECTION_TEST_SQL);
       await tempKnex.destroy();
       return { valid: true, message: 'Conexão válida' };
     } catch (error) {
@@ -326,10 +827,9 @@ export class ConnectionManager {
    * @throws Erro caso a atualização falhe
    */
   async updateConnection(config: Partial<FirebirdConfig>): Promise<ConnectionResult> {
-    if (this.isConnectedFlag) {
-      await this.disconnect();
-    }
-    
+    // Também sem conexão ativa: encerra a reconexão agendada, o heartbeat e as réplicas
+    await this.disconnect();
+
     // Atualizar configuração mantendo valores padrão
     this.config = {
       ...this.config,
@@ -340,6 +840,8 @@ export class ConnectionManager {
       }
     };
     
+    this.reconnectPolicy = resolveReconnectPolicy(this.config.reconnect);
+    
     // Atualizar ConfigManager se estiver integrado
     if (this.configManager) {
       for (const [key, value] of Object.entries(config)) {
@@ -384,4 +886,21 @@ export class ConnectionManager {
       numPendingCreates: pool.numPendingCreates()
     };
   }
+
+  /**
+   * Obtém a telemetria do pool: pedidos de conexão e espera, falhas de criação,
+   * afastamentos, picos e idade das conexões, contados desde o início ou o último reset.
+   * Cobre apenas o pool do banco primário; os pools das réplicas não entram no retrato.
+   * @returns Retrato da telemetria; `current` é null sem conexão
+   */
+  getPoolTelemetry(): PoolTelemetrySnapshot {
+    return this.poolTelemetry.snapshot(this.connection?.client?.pool ?? null);
+  }
+
+  /**
+   * Zera os contadores da telemetria do pool
+   */
+  resetPoolTelemetry(): void {
+    this.poolTelemetry.reset(this.connection?.client?.pool ?? null);
+  }
 }
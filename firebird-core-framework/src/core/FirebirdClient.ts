@@ -0,0 +1,151 @@
+import FirebirdDialect from 'knex-firebird-dialect';
+import {
+  BLOB_OPTIONS_PARAM,
+  BlobColumn,
+  BlobOptions,
+  DEFAULT_BLOB_STREAM_THRESHOLD,
+  describeBlobColumns,
+  readBlobColumns,
+  writeBlobParameters
+} from './Blobs';
+
+/**
+ * Chave em `userParams` da transação Knex que carrega o comando SET TRANSACTION
+ */
+export const SET_TRANSACTION_PARAM = 'firebirdSetTransaction';
+
+/**
+ * Inicia uma transação na conexão do driver
+ * @param connection - Conexão (attachment) do driver
+ * @param statement - Comando SET TRANSACTION; sem ele, usa os parâmetros padrão do driver (opcional)
+ * @returns Transação do driver
+ */
+export async function startTransaction(connection: any, statement?: string): Promise<any> {
+  if (!statement) {
+    return await connection.startTransaction();
+  }
+
+  const bootstrap = await connection.startTransaction();
+  try {
+    return await connection.executeTransaction(bootstrap, statement);
+  } finally {
+    await bootstrap.commit();
+  }
+}
+
+/**
+ * Cliente Knex do Firebird usado pelo ConnectionManager.
+ *
+ * Estende o knex-firebird-dialect para iniciar transações com os parâmetros
+ * informados em `userParams.firebirdSetTransaction`. O dialeto sempre inicia
+ * transações com os parâmetros padrão do driver; aqui a transação é criada
+ * pelo próprio comando SET TRANSACTION, respeitando isolamento, WAIT/NO WAIT,
+ * LOCK TIMEOUT e READ ONLY.
+ *
+ * Também lê as colunas BLOB, que o driver devolve como referências a serem
+ * abertas na transação da consulta: BLOBs de texto viram string e BLOBs binários
+ * viram Buffer, ou Readable acima do limite configurado; parâmetros Readable são
+ * gravados como BLOB (ver Blobs.ts).
+ */
+export class FirebirdClient extends FirebirdDialect {
+  /**
+   * Cria a transação Knex, substituindo o início da transação quando há parâmetros definidos
+   * @param container - Callback da transação
+   * @param config - Configuração da transação Knex
+   * @param outerTx - Transação externa (transações aninhadas)
+   * @returns Transação Knex
+   */
+  transaction(container: any, config: any, outerTx: any): any {
+    const trx: any = super.transaction(container, config, outerTx);
+    const statement: string | undefined = config?.userParams?.[SET_TRANSACTION_PARAM];
+
+    if (statement && !outerTx) {
+      // Mesmo contrato do begin do dialeto: a transação ativa fica em conn._transaction
+      trx.begin = async (conn: any): Promise<void> => {
+        conn._transaction = await startTransaction(conn, statement);
+      };
+    }
+
+    return trx;
+  }
+
+  /**
+   * Remove o escape `\?` das interrogações que não são parâmetros (em literais e comentários).
+   * O knex preserva o escape ao montar o SQL e o cliente base não o remove, como fazem os
+   * dialetos com parâmetros numerados; sem isso, o driver receberia a barra invertida.
+   * @param sql - SQL já montado pelo knex
+   * @returns SQL enviado ao driver
+   */
+  positionBindings(sql: string): string {
+    return sql.replace(/\\\?/g, '?');
+  }
+
+  /**
+   * Executa a instrução pelo dialeto, gravando os parâmetros Readable como BLOB e lendo
+   * as colunas BLOB do resultado na mesma transação. Fora de uma transação Knex, a
+   * instrução roda em uma transação própria, encerrada depois da leitura dos BLOBs.
+   * @param connection - Conexão (attachment) do driver
+   * @param obj - Instrução montada pelo knex (sql, bindings)
+   * @returns Promise com a instrução e a resposta do dialeto
+   */
+  async _query(connection: any, obj: any): Promise<any> {
+    const own = connection._transaction ? null : await startTransaction(connection);
+    if (own) {
+      // Mesmo contrato das transações Knex: o dialeto executa na transação em conn._transaction
+      connection._transaction = own;
+    }
+    const transaction = connection._transaction;
+
+    // Os rótulos e sub-tipos das colunas vêm da instrução preparada pelo dialeto
+    const ownPrepare = Object.prototype.hasOwnProperty.call(connection, 'prepare');
+    const prepare = connection.prepare;
+    let columns = new Map<string, BlobColumn>();
+    connection.prepare = async (...args: any[]) => {
+      const statement = await prepare.apply(connection, args);
+      columns = await describeBlobColumns(statement);
+      return statement;
+    };
+
+    try {
+      if (Array.isArray(obj?.bindings)) {
+        obj.bindings = await writeBlobParameters(connection, transaction, obj.bindings);
+      }
+      // _query não consta das tipagens do dialeto
+      const result = await (FirebirdDialect.prototype as any)._query.call(this, connection, obj);
+      // Resposta do dialeto no formato [linhas, colunas]
+      const response = result?.response;
+      const rows = Array.isArray(response) && Array.isArray(response[0]) ? response[0] : response;
+      await readBlobColumns(rows, { transaction, columns, ...this.blobReadSettings() });
+      if (own) {
+        await own.commit();
+      }
+      return result;
+    } catch (error) {
+      if (own) {
+        await own.rollback();
+      }
+      throw error;
+    } finally {
+      if (ownPrepare) {
+        connection.prepare = prepare;
+      } else {
+        delete connection.prepare;
+      }
+      if (own) {
+        delete connection._transaction;
+      }
+    }
+  }
+
+  /**
+   * Obtém o charset e o limite para stream usados na leitura dos BLOBs
+   * @returns Opção `encoding` da conexão e `blobs.streamThreshold` da configuração
+   */
+  private blobReadSettings(): { charset?: string; streamThreshold: number } {
+    const options: BlobOptions | undefined = (this.config as any)?.userParams?.[BLOB_OPTIONS_PARAM];
+    return {
+      charset: (this.connectionSettings as any)?.encoding,
+      streamThreshold: options?.streamThreshold ?? DEFAULT_BLOB_STREAM_THRESHOLD
+    };
+  }
+}
@@ -6,11 +6,32 @@
  * - Suporte a parâmetros posicionais (?) e nomeados para evitar injeção SQL
  * - Integração com pool de conexões para gerenciamento eficiente
  */
-import { ConfigManager, FirebirdConfig } from './ConfigManager';
+import { ConfigManager, DEFAULT_DATABASE, FirebirdConfig } from './ConfigManager';
 import { ConnectionManager } from './ConnectionManager';
+import { ReplicaStatus } from './ReplicaRouter';
+import { ConnectionStatus } from './ConnectionHealth';
+import { PoolTelemetrySnapshot } from './PoolTelemetry';
 import { PluginManager } from './PluginManager';
-import { QueryService } from '../services/QueryService';
+import {
+  QueryService,
+  QueryOptions,
+  SelectOptions,
+  InsertOptions,
+  WriteOptions,
+  ProcedureOptions,
+  ExecuteBlockOptions,
+  TransactionCallback,
+  TransactionQuery
+} from '../services/QueryService';
+import { Conditions } from '../services/ConditionBuilder';
+import { ExecuteBlock } from '../services/ExecuteBlockBuilder';
+import { BulkInsertOptions, BulkInsertResult } from '../services/BulkInsert';
+import { MergeOptions, UpsertOptions } from '../services/UpsertBuilder';
+import { EngineVersion } from '../services/ServerVersion';
+import { KeysetPage } from '../services/KeysetPagination';
+import { ResultStream, StreamOptions } from '../services/ResultStream';
 import { PluginInterface } from '../interfaces/PluginInterface';
+import { TransactionOptions } from './TransactionOptions';
 
 /**
  * Fachada principal do framework Firebird Core Framework.
@@ -22,6 +43,9 @@ export class FirebirdCore {
   private connectionManager: ConnectionManager;
   private pluginManager: PluginManager;
   private queryService: QueryService;
+  private name: string = DEFAULT_DATABASE;
+  /** Bancos já abertos por db(), compartilhado entre a fachada principal e as dos bancos nomeados */
+  private databases: Map<string, FirebirdCore>;
 
   /**
    * Construtor da fachada principal
@@ -39,7 +63,8 @@ export class FirebirdCore {
   ) {
     // Inicializar os componentes principais
     this.configManager = deps?.configManager || new ConfigManager(config);
-    this.pluginManager = deps?.pluginManager || new PluginManager();
+    this.pluginManager = deps?.pluginManager || new PluginManager(DEFAULT_DATABASE);
+    this.databases = new Map([[DEFAULT_DATABASE, this]]);
     
     // Criar ConnectionManager com a configuração atual
     const currentConfig = this.configManager.getAll();
@@ -64,44 +89,316 @@ export class FirebirdCore {
       throw new Error(`Configuração inválida: ${validation.error}`);
     }
 
-    // Inicializar plugins
-    await this.pluginManager.init(this);
+    // Inicializar plugins - compartilhados, inicializados apenas pela fachada principal
+    if (this.name === DEFAULT_DATABASE) {
+      await this.pluginManager.init(this);
+    }
   }
 
   /**
-   * Estabelece conexão com o banco de dados Firebird
+   * Estabelece conexão com o banco de dados Firebird.
+   * Na fachada principal, conecta também os bancos de FirebirdConfig.databases.
    * @returns Promise com o resultado da operação de conexão
    */
   async connect(): Promise<any> {
-    return await this.connectionManager.connect();
+    const result = await this.connectionManager.connect();
+    if (this.name === DEFAULT_DATABASE) {
+      for (const name of Object.keys(this.configManager.get('databases') || {})) {
+        await this.db(name).connect();
+      }
+    }
+    return result;
   }
 
   /**
-   * Desconecta do banco de dados Firebird
+   * Desconecta do banco de dados Firebird.
+   * Na fachada principal, desconecta também os bancos nomeados abertos, inclusive
+   * os que aguardam reconexão.
    * @returns Promise que resolve quando a desconexão é concluída
    */
   async disconnect(): Promise<any> {
+    if (this.name === DEFAULT_DATABASE) {
+      for (const database of this.databases.values()) {
+        if (database !== this) {
+          await database.disconnect();
+        }
+      }
+    }
     return await this.connectionManager.disconnect();
   }
 
+  /**
+   * Obtém a fachada de um banco nomeado, com a mesma API e pool próprio.
+   * Os plugins são compartilhados e recebem o nome do banco em cada hook.
+   * @param name - Nome do banco em FirebirdConfig.databases (padrão: 'default', o banco principal)
+   * @returns Fachada do banco
+   * @throws Erro se o banco não estiver configurado
+   */
+  db(name: string = DEFAULT_DATABASE): FirebirdCore {
+    const opened = this.databases.get(name);
+    if (opened) {
+      return opened;
+    }
+
+    const root = this.databases.get(DEFAULT_DATABASE)!;
+    const config = root.configManager.getDatabaseConfig(name);
+    if (!config) {
+      throw new Error(`Banco de dados não configurado: ${name}`);
+    }
+
+    const configManager = new ConfigManager(config);
+    const database = new FirebirdCore(config, {
+      configManager,
+      connectionManager: new ConnectionManager(configManager.getAll(), configManager),
+      pluginManager: root.pluginManager.forDatabase(name)
+    });
+    database.name = name;
+    database.databases = this.databases;
+    this.databases.set(name, database);
+    return database;
+  }
+
+  /**
+   * Lista os bancos configurados, começando pelo principal ('default')
+   * @returns Nomes aceitos por db()
+   */
+  getDatabaseNames(): string[] {
+    return this.databases.get(DEFAULT_DATABASE)!.configManager.getDatabaseNames();
+  }
+
+  /**
+   * Obtém o nome do banco desta fachada
+   * @returns 'default' para o banco principal ou o nome em FirebirdConfig.databases
+   */
+  getDatabaseName(): string {
+    return this.name;
+  }
+
   /**
    * Executa uma consulta SQL no banco de dados
    * @param sql - Consulta SQL a ser executada
-   * @param bindings - Parâmetros de binding para a consulta (opcional)
-   * @param options - Opções adicionais para a execução (opcional)
+   * @param bindings - Parâmetros posicionais (lista, para `?`) ou nomeados (objeto, para `:nome`) (opcional)
+   * @param options - Opções adicionais para a execução, como timeout (opcional)
    * @returns Promise com o resultado da consulta
    */
-  async executeQuery(sql: string, bindings?: any[] | object, options?: any): Promise<any> {
-    return await this.queryService.executeQuery(sql, bindings, options);
+  async executeQuery<T = any>(sql: string, bindings?: any[] | Record<string, any>, options?: QueryOptions): Promise<T[]> {
+    return await this.queryService.executeQuery<T>(sql, bindings, options);
+  }
+
+  /**
+   * Executa uma consulta SELECT usando o query builder
+   * @param tableName - Nome da tabela para consulta
+   * @param conditions - Condições WHERE (igualdade ou operadores como $gte, $in e $or) (opcional)
+   * @param options - Opções de projeção, paginação, ordenação, timeout e stream (opcional)
+   * @returns Promise com as linhas, com um ResultStream quando `stream` é true
+   * ou com a página `{ rows, nextCursor, hasMore }` quando `keyset` é true
+   */
+  async executeSelect<T = any>(
+    tableName: string,
+    conditions: Conditions | undefined,
+    options: SelectOptions & { stream: true }
+  ): Promise<ResultStream<T>>;
+  async executeSelect<T = any>(
+    tableName: string,
+    conditions: Conditions | undefined,
+    options: SelectOptions & { keyset: true }
+  ): Promise<KeysetPage<T>>;
+  async executeSelect<T = any>(tableName: string, conditions?: Conditions, options?: SelectOptions): Promise<T[]>;
+  async executeSelect(tableName: string, conditions?: Conditions, options?: SelectOptions): Promise<any> {
+    return await this.queryService.executeSelect(tableName, conditions, options);
+  }
+
+  /**
+   * Insere uma ou mais linhas na tabela
+   * @param tableName - Nome da tabela
+   * @param rows - Linha ou array de linhas como objetos coluna-valor
+   * @param options - Colunas de RETURNING e timeout (opcional)
+   * @returns Promise com as linhas devolvidas por RETURNING
+   */
+  async executeInsert<T = any>(
+    tableName: string,
+    rows: Record<string, any> | Array<Record<string, any>>,
+    options?: InsertOptions
+  ): Promise<T[]> {
+    return await this.queryService.executeInsert<T>(tableName, rows, options);
+  }
+
+  /**
+   * Atualiza as linhas da tabela que atendem às condições
+   * @param tableName - Nome da tabela
+   * @param changes - Colunas alteradas como objeto coluna-valor
+   * @param conditions - Condições WHERE (igualdade ou operadores como $gte, $in e $or)
+   * @param options - Colunas de RETURNING, timeout e allowAll (opcional)
+   * @returns Promise com as linhas devolvidas por RETURNING
+   */
+  async executeUpdate<T = any>(
+    tableName: string,
+    changes: Record<string, any>,
+    conditions?: Conditions,
+    options?: WriteOptions
+  ): Promise<T[]> {
+    return await this.queryService.executeUpdate<T>(tableName, changes, conditions, options);
+  }
+
+  /**
+   * Exclui as linhas da tabela que atendem às condições
+   * @param tableName - Nome da tabela
+   * @param conditions - Condições WHERE (igualdade ou operadores como $gte, $in e $or)
+   * @param options - Colunas de RETURNING, timeout e allowAll (opcional)
+   * @returns Promise com as linhas devolvidas por RETURNING
+   */
+  async executeDelete<T = any>(tableName: string, conditions?: Conditions, options?: WriteOptions): Promise<T[]> {
+    return await this.queryService.executeDelete<T>(tableName, conditions, options);
+  }
+
+  /**
+   * Executa uma consulta SQL retornando as linhas em stream
+   * @param sql - Consulta SQL a ser executada
+   * @param bindings - Parâmetros posicionais (lista, para `?`) ou nomeados (objeto, para `:nome`) (opcional)
+   * @param options - Opções de leitura, como fetchSize (opcional)
+   * @returns ResultStream iterável com `for await`
+   */
+  stream<T = any>(sql: string, bindings?: any[] | Record<string, any>, options?: StreamOptions): ResultStream<T> {
+    return this.queryService.stream<T>(sql, bindings, options);
+  }
+
+  /**
+   * Executa uma stored procedure, associando os parâmetros por nome
+   * @param name - Nome da procedure
+   * @param params - Valores dos parâmetros de entrada por nome (opcional)
+   * @param options - selectable e timeout (opcional)
+   * @returns Promise com as linhas da procedure selecionável, ou com o objeto dos parâmetros de saída da executável
+   */
+  async executeProcedure<T = any>(
+    name: string,
+    params: Record<string, any> | undefined,
+    options: ProcedureOptions & { selectable: true }
+  ): Promise<T[]>;
+  async executeProcedure<T = Record<string, any>>(
+    name: string,
+    params?: Record<string, any>,
+    options?: ProcedureOptions
+  ): Promise<T>;
+  async executeProcedure(name: string, params?: Record<string, any>, options?: ProcedureOptions): Promise<any> {
+    return await this.queryService.executeProcedure(name, params, options);
+  }
+
+  /**
+   * Descarta os metadados de procedures em cache (ex.: após ALTER PROCEDURE)
+   * @param name - Procedure a ser descartada; todas quando omitido (opcional)
+   */
+  clearProcedureCache(name?: string): void {
+    this.queryService.clearProcedureCache(name);
+  }
+
+  /**
+   * Executa um EXECUTE BLOCK com parâmetros tipados, conforme a política FirebirdConfig.executeBlock
+   * @param block - Parâmetros de entrada, parâmetros de saída e corpo do bloco
+   * @param options - Opções da execução, como timeout (opcional)
+   * @returns Promise com as linhas devolvidas por SUSPEND
+   */
+  async executeBlock<T = any>(block: ExecuteBlock, options?: ExecuteBlockOptions): Promise<T[]> {
+    return await this.queryService.executeBlock<T>(block, options);
+  }
+
+  /**
+   * Insere ou atualiza linhas com UPDATE OR INSERT ... MATCHING
+   * @param tableName - Nome da tabela
+   * @param rows - Linha ou linhas como objeto coluna-valor
+   * @param options - Colunas de MATCHING, RETURNING e timeout (opcional)
+   * @returns Promise com as linhas devolvidas por RETURNING
+   */
+  async upsert<T = any>(
+    tableName: string,
+    rows: Record<string, any> | Array<Record<string, any>>,
+    options?: UpsertOptions
+  ): Promise<T[]> {
+    return await this.queryService.upsert<T>(tableName, rows, options);
+  }
+
+  /**
+   * Sincroniza a tabela a partir de outra tabela ou consulta com MERGE
+   * @param tableName - Nome da tabela de destino
+   * @param options - Origem, colunas, matching, update, insert, returning e timeout
+   * @returns Promise com as linhas devolvidas por RETURNING
+   */
+  async merge<T = any>(tableName: string, options: MergeOptions): Promise<T[]> {
+    return await this.queryService.merge<T>(tableName, options);
+  }
+
+  /**
+   * Obtém a versão do servidor Firebird
+   * @returns Promise com a versão do servidor
+   */
+  async getServerVersion(): Promise<EngineVersion> {
+    return await this.queryService.getServerVersion();
+  }
+
+  /**
+   * Obtém o próximo valor de uma sequência (generator)
+   * @param name - Nome da sequência
+   * @param increment - Quanto somar ao valor atual; sem ele usa NEXT VALUE FOR (opcional)
+   * @returns Promise com o novo valor da sequência
+   */
+  async nextValue(name: string, increment?: number): Promise<number> {
+    return await this.queryService.nextValue(name, increment);
+  }
+
+  /**
+   * Obtém o valor atual de uma sequência, sem alterá-lo
+   * @param name - Nome da sequência
+   * @returns Promise com o valor atual da sequência
+   */
+  async currentValue(name: string): Promise<number> {
+    return await this.queryService.currentValue(name);
+  }
+
+  /**
+   * Define o valor atual de uma sequência
+   * @param name - Nome da sequência
+   * @param value - Novo valor atual; o próximo valor será value + 1
+   */
+  async setSequence(name: string, value: number | bigint): Promise<void> {
+    await this.queryService.setSequence(name, value);
+  }
+
+  /**
+   * Lista as sequências do banco, sem as do sistema
+   * @returns Promise com os nomes das sequências
+   */
+  async listSequences(): Promise<string[]> {
+    return await this.queryService.listSequences();
+  }
+
+  /**
+   * Insere um grande volume de linhas em blocos, com uma ida e volta por bloco
+   * @param tableName - Nome da tabela
+   * @param rows - Linhas a serem inseridas; todas com as mesmas chaves
+   * @param options - Tamanho dos blocos, transação, política de falha, progresso e timeout (opcional)
+   * @returns Promise com a quantidade de linhas inseridas e os blocos que falharam
+   */
+  async bulkInsert(tableName: string, rows: Record<string, any>[], options?: BulkInsertOptions): Promise<BulkInsertResult> {
+    return await this.queryService.bulkInsert(tableName, rows, options);
   }
 
   /**
    * Executa múltiplas consultas SQL em uma transação
-   * @param queries - Array de objetos contendo sql e bindings para cada consulta
+   * @param queries - Array de objetos contendo sql, bindings e timeout para cada consulta
+   * @param options - Parâmetros da transação (isolamento, WAIT/NO WAIT, LOCK TIMEOUT, READ ONLY) (opcional)
    * @returns Promise com o resultado das consultas executadas
    */
-  async executeTransaction(queries: Array<{ sql: string; bindings?: any }>): Promise<any> {
-    return await this.queryService.executeTransaction(queries);
+  async executeTransaction(queries: TransactionQuery[], options?: TransactionOptions): Promise<any> {
+    return await this.queryService.executeTransaction(queries, options);
+  }
+
+  /**
+   * Executa uma unidade de trabalho em uma transação interativa
+   * @param callback - Função que recebe o contexto da transação (executeQuery, executeSelect, transaction...)
+   * @param options - Parâmetros da transação (opcional)
+   * @returns Promise com o valor retornado pelo callback
+   */
+  async transaction<T>(callback: TransactionCallback<T>, options?: TransactionOptions): Promise<T> {
+    return await this.queryService.transaction(callback, options);
   }
 
   /**
@@ -128,6 +425,39 @@ export class FirebirdCore {
     return this.connectionManager.isConnected();
   }
 
+  /**
+   * Obtém o estado da conexão (connecting, healthy, degraded ou down), com a latência
+   * e as falhas do heartbeat
+   * @returns Retrato do estado atual
+   */
+  getStatus(): ConnectionStatus {
+    return this.connectionManager.getStatus();
+  }
+
+  /**
+   * Obtém a telemetria do pool de conexões, contada desde a criação ou o último reset.
+   * Cobre apenas o pool do banco primário; os pools das réplicas não entram no retrato.
+   * @returns Retrato com o uso atual, os picos, a espera por conexão e a idade das conexões
+   */
+  getPoolTelemetry(): PoolTelemetrySnapshot {
+    return this.connectionManager.getPoolTelemetry();
+  }
+
+  /**
+   * Zera os contadores da telemetria do pool de conexões
+   */
+  resetPoolTelemetry(): void {
+    this.connectionManager.resetPoolTelemetry();
+  }
+
+  /**
+   * Obtém o estado das réplicas de leitura
+   * @returns Estado de cada réplica, ou lista vazia sem réplicas configuradas ou sem conexão
+   */
+  getReplicaStatus(): ReplicaStatus[] {
+    return this.connectionManager.getReplicaRouter()?.getStatus() ?? [];
+  }
+
   /**
    * Obtém o valor de uma chave específica da configuração
    * @param key - Chave a ser obtida
@@ -1,4 +1,9 @@
 import { PluginInterface } from '../interfaces/PluginInterface';
+import { RetryNotice } from './RetryPolicy';
+import { ReconnectNotice } from './Reconnection';
+import { ConnectionStateChange } from './ConnectionHealth';
+import { SqlPolicyViolation } from '../services/SqlPolicy';
+import { DEFAULT_DATABASE } from './ConfigManager';
 
 /**
  * Classe responsável por gerenciar o ciclo de vida dos plugins,
@@ -6,11 +11,37 @@ import { PluginInterface } from '../interfaces/PluginInterface';
  */
 export class PluginManager {
   private plugins: PluginInterface[] = [];
+  private database: string;
 
   /**
    * Construtor da classe PluginManager
+   * @param database - Nome do banco repassado aos hooks (padrão: DEFAULT_DATABASE, o banco principal)
    */
-  constructor() {}
+  constructor(database: string = DEFAULT_DATABASE) {
+    this.database = database;
+  }
+
+  /**
+   * Cria um gerenciador que compartilha os plugins registrados, mas repassa
+   * aos hooks o nome de outro banco
+   * @param database - Nome do banco em FirebirdConfig.databases
+   * @returns PluginManager do banco
+   */
+  forDatabase(database: string): PluginManager {
+    const manager = new PluginManager(database);
+    manager.plugins = this.plugins;
+    return manager;
+  }
+
+  /**
+   * Cria o gerenciador dos eventos de uma réplica de leitura deste banco, que
+   * repassa aos hooks o nome do banco seguido do número da réplica (ex.: 'default:replica1')
+   * @param index - Posição da réplica em FirebirdConfig.replicas (base 0)
+   * @returns PluginManager da réplica
+   */
+  forReplica(index: number): PluginManager {
+    return this.forDatabase(`${this.database}:replica${index + 1}`);
+  }
 
   /**
    * Registra um novo plugin no gerenciador
@@ -42,7 +73,7 @@ export class PluginManager {
   async beforeConnect(config: any): Promise<void> {
     for (const plugin of this.plugins) {
       if (plugin.beforeConnect) {
-        await plugin.beforeConnect(config);
+        await plugin.beforeConnect(config, this.database);
       }
     }
   }
@@ -54,7 +85,7 @@ export class PluginManager {
   async afterConnect(connection: any): Promise<void> {
     for (const plugin of this.plugins) {
       if (plugin.afterConnect) {
-        await plugin.afterConnect(connection);
+        await plugin.afterConnect(connection, this.database);
       }
     }
   }
@@ -66,7 +97,7 @@ export class PluginManager {
   async beforeQuery(query: any): Promise<void> {
     for (const plugin of this.plugins) {
       if (plugin.beforeQuery) {
-        await plugin.beforeQuery(query);
+        await plugin.beforeQuery(query, this.database);
       }
     }
   }
@@ -78,7 +109,7 @@ export class PluginManager {
   async afterQuery(result: any): Promise<void> {
     for (const plugin of this.plugins) {
       if (plugin.afterQuery) {
-        await plugin.afterQuery(result);
+        await plugin.afterQuery(result, this.database);
       }
     }
   }
@@ -89,7 +120,7 @@ export class PluginManager {
   async beforeDisconnect(): Promise<void> {
     for (const plugin of this.plugins) {
       if (plugin.beforeDisconnect) {
-        await plugin.beforeDisconnect();
+        await plugin.beforeDisconnect(this.database);
       }
     }
   }
@@ -101,7 +132,67 @@ export class PluginManager {
   async onError(error: any): Promise<void> {
     for (const plugin of this.plugins) {
       if (plugin.onError) {
-        await plugin.onError(error);
+        await plugin.onError(error, this.database);
+      }
+    }
+  }
+
+  /**
+   * Executa o hook onRetry nos plugins que o implementam
+   * @param retry - Tentativa que falhou e espera até a próxima
+   */
+  async onRetry(retry: RetryNotice): Promise<void> {
+    for (const plugin of this.plugins) {
+      if (plugin.onRetry) {
+        await plugin.onRetry(retry, this.database);
+      }
+    }
+  }
+
+  /**
+   * Executa o hook onPolicyViolation nos plugins que o implementam
+   * @param violation - Violação da política de SQL
+   */
+  async onPolicyViolation(violation: SqlPolicyViolation): Promise<void> {
+    for (const plugin of this.plugins) {
+      if (plugin.onPolicyViolation) {
+        await plugin.onPolicyViolation(violation, this.database);
+      }
+    }
+  }
+
+  /**
+   * Executa o hook onDisconnected nos plugins que o implementam
+   * @param error - Erro de conexão que abriu o circuito
+   */
+  async onDisconnected(error: unknown): Promise<void> {
+    for (const plugin of this.plugins) {
+      if (plugin.onDisconnected) {
+        await plugin.onDisconnected(error, this.database);
+      }
+    }
+  }
+
+  /**
+   * Executa o hook onReconnected nos plugins que o implementam
+   * @param reconnect - Tentativas e tempo sem conexão
+   */
+  async onReconnected(reconnect: ReconnectNotice): Promise<void> {
+    for (const plugin of this.plugins) {
+      if (plugin.onReconnected) {
+        await plugin.onReconnected(reconnect, this.database);
+      }
+    }
+  }
+
+  /**
+   * Executa o hook onStateChange nos plugins que o implementam
+   * @param change - Transição de estado da conexão
+   */
+  async onStateChange(change: ConnectionStateChange): Promise<void> {
+    for (const plugin of this.plugins) {
+      if (plugin.onStateChange) {
+        await plugin.onStateChange(change, this.database);
       }
     }
   }
@@ -0,0 +1,284 @@
+/**
+ * Telemetria do pool de conexões (tarn, usado pelo Knex).
+ *
+ * Os eventos do pool são contados desde a criação do ConnectionManager, somando
+ * os pools recriados pela reconexão, até a próxima chamada de reset(). O retrato
+ * reúne o uso atual do pool, os picos, a espera para obter uma conexão e a idade
+ * das conexões, dados para dimensionar `pool.min` e `pool.max`.
+ */
+
+import { TimeoutError } from 'tarn';
+
+/**
+ * Faixa de um histograma
+ */
+export interface HistogramBucket {
+  /** Limite superior da faixa, em milissegundos; null na última faixa, sem limite */
+  le: number | null;
+  /** Amostras na faixa (não acumulado com as faixas anteriores) */
+  count: number;
+}
+
+/**
+ * Histograma de durações, em milissegundos
+ */
+export interface Histogram {
+  count: number;
+  sum: number;
+  /** Maior amostra; null sem amostras */
+  max: number | null;
+  buckets: HistogramBucket[];
+}
+
+/**
+ * Uso atual do pool, lido do tarn no momento do retrato
+ */
+export interface PoolUsage {
+  free: number;
+  used: number;
+  pendingAcquires: number;
+  pendingCreates: number;
+}
+
+/**
+ * Retrato da telemetria do pool, devolvido por getPoolTelemetry
+ */
+export interface PoolTelemetrySnapshot {
+  /** Momento (Date.now) do início da contagem ou do último reset */
+  since: number;
+  /** Uso atual; null sem conexão */
+  current: PoolUsage | null;
+  /** Maiores valores observados desde `since` */
+  highWater: { used: number; pendingAcquires: number; size: number };
+  /** Pedidos de conexão ao pool; `timeouts` também são contados em `failed` */
+  acquires: { requested: number; succeeded: number; failed: number; timeouts: number };
+  /** Espera entre o pedido e a entrega da conexão */
+  acquireWait: Histogram;
+  /** Conexões abertas com o banco */
+  creates: { requested: number; succeeded: number; failed: number };
+  /** Conexões devolvidas ao pool */
+  releases: number;
+  /**
+   * Conexões fechadas; `evictions` são as fechadas com o pool em uso
+   * (ociosas por mais de `idleTimeoutMillis` ou recusadas pela validação)
+   */
+  destroys: { total: number; evictions: number };
+  /** Idade das conexões abertas agora */
+  connectionAge: Histogram;
+  /** Tempo de vida das conexões já fechadas */
+  connectionLifetime: Histogram;
+}
+
+/**
+ * Parte do pool do tarn lida pela telemetria
+ */
+export interface TelemetryPool {
+  on(event: string, listener: (...args: any[]) => void): void;
+  numFree(): number;
+  numUsed(): number;
+  numPendingAcquires(): number;
+  numPendingCreates(): number;
+  /** Definido pelo tarn ao encerrar o pool */
+  destroyed?: boolean;
+}
+
+/** Limites das faixas da espera por conexão, em milissegundos */
+const ACQUIRE_WAIT_BUCKETS = [1, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+/** Limites das faixas da idade das conexões, em milissegundos (1 s a 1 h) */
+const CONNECTION_AGE_BUCKETS = [1000, 10000, 60000, 300000, 900000, 3600000];
+
+/**
+ * Histograma com faixas de limites fixos
+ */
+class HistogramRecorder {
+  private counts: number[];
+  private count: number = 0;
+  private sum: number = 0;
+  private max: number | null = null;
+
+  constructor(private readonly bounds: number[]) {
+    this.counts = new Array(bounds.length + 1).fill(0);
+  }
+
+  /**
+   * Registra uma amostra
+   * @param value - Duração, em milissegundos
+   */
+  record(value: number): void {
+    const index = this.bounds.findIndex((bound) => value <= bound);
+    this.counts[index === -1 ? this.bounds.length : index]++;
+    this.count++;
+    this.sum += value;
+    this.max = this.max === null ? value : Math.max(this.max, value);
+  }
+
+  /**
+   * Obtém o histograma registrado
+   * @returns Cópia das contagens
+   */
+  toJSON(): Histogram {
+    return {
+      count: this.count,
+      sum: this.sum,
+      max: this.max,
+      buckets: this.counts.map((count, index) => ({ le: this.bounds[index] ?? null, count }))
+    };
+  }
+}
+
+/**
+ * Contadores dos eventos dos pools acompanhados por um ConnectionManager
+ */
+export class PoolTelemetry {
+  private since: number = Date.now();
+  private highWater = { used: 0, pendingAcquires: 0, size: 0 };
+  private acquires = { requested: 0, succeeded: 0, failed: 0, timeouts: 0 };
+  private acquireWait = new HistogramRecorder(ACQUIRE_WAIT_BUCKETS);
+  private creates = { requested: 0, succeeded: 0, failed: 0 };
+  private releases: number = 0;
+  private destroys = { total: 0, evictions: 0 };
+  private connectionLifetime = new HistogramRecorder(CONNECTION_AGE_BUCKETS);
+  /** Início dos pedidos de conexão em andamento, pelo id do evento do tarn */
+  private pendingAcquires = new Map<number, number>();
+  /** Momento de criação das conexões abertas; sobrevive ao reset() */
+  private createdAt = new Map<unknown, number>();
+
+  /**
+   * Passa a contar os eventos de um pool
+   * @param pool - Pool do tarn (connection.client.pool)
+   */
+  attach(pool: TelemetryPool): void {
+    pool.on('acquireRequest', (eventId: number) => {
+      this.acquires.requested++;
+      this.pendingAcquires.set(eventId, Date.now());
+      // O pedido entra na fila do tarn depois do evento; com conexão livre, sai dela na mesma chamada
+      queueMicrotask(() => this.sample(pool));
+    });
+
+    pool.on('acquireSuccess', (eventId: number) => {
+      this.acquires.succeeded++;
+      this.acquireWait.record(this.finishAcquire(eventId));
+      this.sample(pool);
+    });
+
+    pool.on('acquireFail', (eventId: number, error: unknown) => {
+      this.acquires.failed++;
+      // TimeoutError do tarn: acquireConnectionTimeout esgotado com o pool cheio
+      if (error instanceof TimeoutError) {
+        this.acquires.timeouts++;
+      }
+      this.finishAcquire(eventId);
+    });
+
+    pool.on('release', () => {
+      this.releases++;
+    });
+
+    pool.on('createRequest', () => {
+      this.creates.requested++;
+    });
+
+    pool.on('createSuccess', (_eventId: number, resource: unknown) => {
+      this.creates.succeeded++;
+      this.createdAt.set(resource, Date.now());
+      this.sample(pool);
+    });
+
+    pool.on('createFail', () => {
+      this.creates.failed++;
+    });
+
+    pool.on('destroyRequest', (_eventId: number, resource: unknown) => {
+      this.destroys.total++;
+      // Conexões fechadas pelo encerramento do pool não são afastamentos
+      if (!pool.destroyed) {
+        this.destroys.evictions++;
+      }
+      const createdAt = this.createdAt.get(resource);
+      if (createdAt !== undefined) {
+        this.connectionLifetime.record(Date.now() - createdAt);
+        this.createdAt.delete(resource);
+      }
+    });
+  }
+
+  /**
+   * Obtém o retrato da telemetria
+   * @param pool - Pool da conexão atual; null sem conexão
+   * @returns Contadores desde `since` e o uso atual do pool
+   */
+  snapshot(pool: TelemetryPool | null): PoolTelemetrySnapshot {
+    const now = Date.now();
+    const connectionAge = new HistogramRecorder(CONNECTION_AGE_BUCKETS);
+    this.createdAt.forEach((createdAt) => connectionAge.record(now - createdAt));
+
+    return {
+      since: this.since,
+      current: pool ? this.usage(pool) : null,
+      highWater: { ...this.highWater },
+      acquires: { ...this.acquires },
+      acquireWait: this.acquireWait.toJSON(),
+      creates: { ...this.creates },
+      releases: this.releases,
+      destroys: { ...this.destroys },
+      connectionAge: connectionAge.toJSON(),
+      connectionLifetime: this.connectionLifetime.toJSON()
+    };
+  }
+
+  /**
+   * Zera os contadores, os histogramas e os picos. A idade das conexões abertas
+   * e os pedidos em andamento são mantidos.
+   * @param pool - Pool da conexão atual, que define os novos picos; null sem conexão
+   */
+  reset(pool: TelemetryPool | null): void {
+    this.since = Date.now();
+    this.highWater = { used: 0, pendingAcquires: 0, size: 0 };
+    this.acquires = { requested: 0, succeeded: 0, failed: 0, timeouts: 0 };
+    this.acquireWait = new HistogramRecorder(ACQUIRE_WAIT_BUCKETS);
+    this.creates = { requested: 0, succeeded: 0, failed: 0 };
+    this.releases = 0;
+    this.destroys = { total: 0, evictions: 0 };
+    this.connectionLifetime = new HistogramRecorder(CONNECTION_AGE_BUCKETS);
+    if (pool) {
+      this.sample(pool);
+    }
+  }
+
+  /**
+   * Encerra um pedido de conexão
+   * @param eventId - Id do evento do tarn
+   * @returns Espera, em milissegundos
+   */
+  private finishAcquire(eventId: number): number {
+    const started = this.pendingAcquires.get(eventId);
+    this.pendingAcquires.delete(eventId);
+    return started === undefined ? 0 : Date.now() - started;
+  }
+
+  /**
+   * Atualiza os picos com o uso atual do pool
+   * @param pool - Pool do tarn
+   */
+  private sample(pool: TelemetryPool): void {
+    const { free, used, pendingAcquires, pendingCreates } = this.usage(pool);
+    this.highWater.used = Math.max(this.highWater.used, used);
+    this.highWater.pendingAcquires = Math.max(this.highWater.pendingAcquires, pendingAcquires);
+    this.highWater.size = Math.max(this.highWater.size, free + used + pendingCreates);
+  }
+
+  /**
+   * Lê o uso atual do pool
+   * @param pool - Pool do tarn
+   * @returns Conexões livres, em uso e pedidos pendentes
+   */
+  private usage(pool: TelemetryPool): PoolUsage {
+    return {
+      free: pool.numFree(),
+      used: pool.numUsed(),
+      pendingAcquires: pool.numPendingAcquires(),
+      pendingCreates: pool.numPendingCreates()
+    };
+  }
+}
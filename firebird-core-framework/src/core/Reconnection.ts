@@ -0,0 +1,98 @@
+/**
+ * Reconexão automática do ConnectionManager.
+ *
+ * Quando uma consulta falha com erro de conexão (servidor reiniciado, rede
+ * interrompida), a conexão é marcada como perdida e o circuito é aberto: as
+ * chamadas seguintes falham de imediato com ConnectionUnavailableError, sem
+ * esperar o timeout do pool. Em segundo plano, o pool é recriado com backoff
+ * exponencial até o banco voltar a responder, quando o circuito é fechado.
+ */
+
+/**
+ * Interface que define a política de reconexão
+ */
+export interface ReconnectPolicy {
+  /** Falhas de conexão seguidas que abrem o circuito (padrão: 1) */
+  failureThreshold?: number;
+  /** Espera antes da primeira tentativa de reconexão, em milissegundos (padrão: 500) */
+  initialDelay?: number;
+  /** Espera máxima entre tentativas, em milissegundos (padrão: 30000) */
+  maxDelay?: number;
+  /** Multiplicador da espera a cada nova tentativa (padrão: 2) */
+  backoffFactor?: number;
+  /** Sorteia a espera entre 0 e o valor calculado, espalhando as reconexões das instâncias (padrão: true) */
+  jitter?: boolean;
+  /** Número máximo de tentativas; 0 tenta até o banco voltar (padrão: 0) */
+  maxAttempts?: number;
+}
+
+/**
+ * Dados repassados ao hook onReconnected
+ */
+export interface ReconnectNotice {
+  /** Tentativas até a reconexão, incluindo a bem-sucedida */
+  attempts: number;
+  /** Tempo sem conexão, em milissegundos */
+  downtime: number;
+}
+
+/**
+ * Política com os valores padrão aplicados
+ */
+export type ResolvedReconnectPolicy = Required<ReconnectPolicy>;
+
+const DEFAULT_RECONNECT_POLICY: ResolvedReconnectPolicy = {
+  failureThreshold: 1,
+  initialDelay: 500,
+  maxDelay: 30000,
+  backoffFactor: 2,
+  jitter: true,
+  maxAttempts: 0
+};
+
+/**
+ * Valida uma política de reconexão
+ * @param policy - Política informada em FirebirdConfig.reconnect
+ * @returns Mensagem de erro, ou null se a política for válida
+ */
+export function validateReconnectPolicy(policy: unknown): string | null {
+  if (policy === undefined || policy === false) {
+    return null;
+  }
+  if (!policy || typeof policy !== 'object') {
+    return 'reconnect deve ser um objeto ou false';
+  }
+
+  const { failureThreshold, initialDelay, maxDelay, backoffFactor, jitter, maxAttempts } = policy as ReconnectPolicy;
+  if (failureThreshold !== undefined && (!Number.isInteger(failureThreshold) || failureThreshold < 1)) {
+    return 'reconnect.failureThreshold deve ser um inteiro maior ou igual a 1';
+  }
+  for (const [name, value] of Object.entries({ initialDelay, maxDelay })) {
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      return `reconnect.${name} deve ser um número não negativo`;
+    }
+  }
+  if (backoffFactor !== undefined && (typeof backoffFactor !== 'number' || !Number.isFinite(backoffFactor) || backoffFactor < 1)) {
+    return 'reconnect.backoffFactor deve ser um número maior ou igual a 1';
+  }
+  if (jitter !== undefined && typeof jitter !== 'boolean') {
+    return 'reconnect.jitter deve ser booleano';
+  }
+  if (maxAttempts !== undefined && (!Number.isInteger(maxAttempts) || maxAttempts < 0)) {
+    return 'reconnect.maxAttempts deve ser um inteiro maior ou igual a zero';
+  }
+  return null;
+}
+
+/**
+ * Aplica os valores padrão à política
+ * @param policy - Política informada; false desativa a reconexão automática
+ * @returns Política completa, ou null com a reconexão desativada
+ */
+export function resolveReconnectPolicy(policy: ReconnectPolicy | false = {}): ResolvedReconnectPolicy | null {
+  if (policy === false) {
+    return null;
+  }
+  const defined = Object.entries(policy).filter(([, value]) => value !== undefined);
+  return { ...DEFAULT_RECONNECT_POLICY, ...Object.fromEntries(defined) };
+}
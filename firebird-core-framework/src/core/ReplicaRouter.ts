@@ -0,0 +1,338 @@
+import { ConnectionManager } from './ConnectionManager';
+import { FirebirdConfig } from './ConfigManager';
+import { ConnectionLostError, toFirebirdError } from '../errors/FirebirdErrors';
+import { SqlLexer, SqlToken } from '../services/SqlLexer';
+
+/**
+ * Roteamento de leituras para réplicas (replicação do Firebird 4+).
+ *
+ * O banco da configuração é o primário; as réplicas de `FirebirdConfig.replicas`
+ * recebem apenas leituras fora de transação. Cada réplica tem seu próprio
+ * ConnectionManager e pool. Réplicas que falham ao conectar ou perdem a conexão
+ * são afastadas por um período e voltam a ser tentadas depois dele.
+ */
+
+/**
+ * Estratégia de escolha da réplica
+ * - round-robin: alterna entre as réplicas saudáveis
+ * - least-busy: escolhe a réplica com menos conexões em uso no pool
+ */
+export type ReplicaStrategy = 'round-robin' | 'least-busy';
+
+/**
+ * Configuração de uma réplica; as propriedades ausentes vêm do primário
+ */
+export type ReplicaConfig = Partial<Pick<
+  FirebirdConfig,
+  'host' | 'port' | 'database' | 'username' | 'password' | 'clientLibPath' | 'pool' | 'acquireTimeout' | 'options'
+>>;
+
+/**
+ * Interface que define o roteamento das leituras
+ */
+export interface ReadRoutingOptions {
+  /** Estratégia de escolha da réplica (padrão: round-robin) */
+  strategy?: ReplicaStrategy;
+  /** Tempo, em milissegundos, em que as leituras ficam no primário após uma escrita (padrão: 0, desativado) */
+  readYourWritesWindow?: number;
+  /** Falhas de conexão seguidas que afastam a réplica (padrão: 1) */
+  ejectAfter?: number;
+  /** Tempo, em milissegundos, em que a réplica afastada deixa de receber leituras (padrão: 30000) */
+  ejectFor?: number;
+}
+
+/**
+ * Estado de uma réplica, devolvido por getStatus
+ */
+export interface ReplicaStatus {
+  host: string;
+  database: string;
+  /** Conectada e não afastada */
+  healthy: boolean;
+  /** Falhas de conexão seguidas */
+  failures: number;
+  /** Momento (Date.now) em que a réplica volta a ser tentada, quando afastada */
+  ejectedUntil: number | null;
+}
+
+/**
+ * Réplica acompanhada pelo roteador
+ */
+interface ReplicaEntry {
+  manager: ConnectionManager;
+  failures: number;
+  ejectedUntil: number | null;
+  reconnecting: Promise<void> | null;
+}
+
+const DEFAULT_READ_ROUTING: Required<ReadRoutingOptions> = {
+  strategy: 'round-robin',
+  readYourWritesWindow: 0,
+  ejectAfter: 1,
+  ejectFor: 30000
+};
+
+const lexer = new SqlLexer();
+
+/**
+ * Valida a lista de réplicas e as opções de roteamento
+ * @param replicas - Valor informado em FirebirdConfig.replicas
+ * @param routing - Valor informado em FirebirdConfig.readRouting (opcional)
+ * @returns Mensagem de erro, ou null se a configuração for válida
+ */
+export function validateReplicas(replicas: unknown, routing?: unknown): string | null {
+  if (replicas !== undefined && (!Array.isArray(replicas) || replicas.some((replica) => !replica || typeof replica !== 'object'))) {
+    return 'replicas deve ser uma lista de objetos com a conexão de cada réplica';
+  }
+  if (routing === undefined) {
+    return null;
+  }
+  if (!routing || typeof routing !== 'object') {
+    return 'readRouting deve ser um objeto';
+  }
+
+  const { strategy, readYourWritesWindow, ejectAfter, ejectFor } = routing as ReadRoutingOptions;
+  if (strategy !== undefined && strategy !== 'round-robin' && strategy !== 'least-busy') {
+    return 'readRouting.strategy deve ser round-robin ou least-busy';
+  }
+  for (const [name, value] of Object.entries({ readYourWritesWindow, ejectFor })) {
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      return `readRouting.${name} deve ser um número não negativo`;
+    }
+  }
+  if (ejectAfter !== undefined && (!Number.isInteger(ejectAfter) || ejectAfter < 1)) {
+    return 'readRouting.ejectAfter deve ser um inteiro maior ou igual a 1';
+  }
+  return null;
+}
+
+/**
+ * Monta a configuração completa de cada réplica a partir da configuração do primário
+ * @param primary - Configuração do primário, com `replicas`
+ * @returns Configurações das réplicas, sem réplicas próprias
+ */
+export function resolveReplicaConfigs(primary: FirebirdConfig): FirebirdConfig[] {
+  return (primary.replicas || []).map((replica) => ({
+    ...primary,
+    ...replica,
+    pool: { ...primary.pool, ...replica.pool },
+    replicas: undefined,
+    readRouting: undefined,
+    databases: undefined,
+    // O roteador afasta e reconecta as réplicas; reconexão automática e heartbeat valem só para o primário
+    reconnect: false,
+    heartbeat: undefined
+  }));
+}
+
+/**
+ * Indica se a consulta pode ser lida de uma réplica: apenas SELECT, sem
+ * GEN_ID, NEXT VALUE FOR, WITH LOCK ou FOR UPDATE
+ * @param sql - Consulta SQL
+ * @returns true se a consulta for somente leitura
+ */
+export function isReplicaSafe(sql: string): boolean {
+  let tokens: SqlToken[];
+  try {
+    tokens = lexer.significant(lexer.tokenize(sql));
+  } catch {
+    return false;
+  }
+  if (lexer.classify(tokens) !== 'SELECT') {
+    return false;
+  }
+  // Alteram generators ou bloqueiam linhas, o que a réplica (somente leitura) recusa
+  return !tokens.some((token, index) => {
+    if (token.type !== 'keyword' && token.type !== 'identifier') {
+      return false;
+    }
+    switch (token.normalized) {
+      case 'GEN_ID':
+      case 'LOCK':
+        return true;
+      case 'NEXT':
+        return tokens[index + 1]?.normalized === 'VALUE';
+      case 'UPDATE':
+        return tokens[index - 1]?.normalized === 'FOR';
+      default:
+        return false;
+    }
+  });
+}
+
+/**
+ * Indica se o erro aponta uma réplica indisponível (conexão perdida ou pool esgotado),
+ * caso em que a leitura é refeita no primário
+ * @param error - Erro da leitura; erros do driver ainda não convertidos passam por toFirebirdError
+ * @returns true se o erro for de conexão
+ */
+export function isReplicaFailure(error: unknown): boolean {
+  return toFirebirdError(error) instanceof ConnectionLostError ||
+    (error instanceof Error && (error.name === 'KnexTimeoutError' || error.message === 'Conexão com o banco de dados não está ativa'));
+}
+
+/**
+ * Classe responsável por escolher a réplica de cada leitura, afastar as
+ * réplicas com falha e manter as leituras no primário logo após as escritas.
+ */
+export class ReplicaRouter {
+  private replicas: ReplicaEntry[];
+  private options: Required<ReadRoutingOptions>;
+  private next: number = 0;
+  private lastWrite: number | null = null;
+
+  /**
+   * Construtor da classe ReplicaRouter
+   * @param managers - ConnectionManager de cada réplica
+   * @param options - Estratégia, janela de leitura após escrita e afastamento (opcional)
+   */
+  constructor(managers: ConnectionManager[], options: ReadRoutingOptions = {}) {
+    this.replicas = managers.map((manager) => ({ manager, failures: 0, ejectedUntil: null, reconnecting: null }));
+    const defined = Object.entries(options).filter(([, value]) => value !== undefined);
+    this.options = { ...DEFAULT_READ_ROUTING, ...Object.fromEntries(defined) };
+  }
+
+  /**
+   * Conecta todas as réplicas. Uma réplica que não conecta é afastada, sem
+   * impedir o uso do primário e das demais.
+   */
+  async connect(): Promise<void> {
+    await Promise.all(this.replicas.map((entry) => this.reconnect(entry)));
+  }
+
+  /**
+   * Desconecta todas as réplicas conectadas
+   */
+  async disconnect(): Promise<void> {
+    await Promise.all(this.replicas.map(async (entry) => {
+      await entry.reconnecting;
+      if (entry.manager.isConnected()) {
+        await entry.manager.disconnect();
+      }
+    }));
+  }
+
+  /**
+   * Escolhe a réplica da próxima leitura
+   * @returns ConnectionManager da réplica, ou null se a leitura deve ir ao primário
+   * (dentro da janela de leitura após escrita ou sem réplica saudável)
+   */
+  select(): ConnectionManager | null {
+    const now = Date.now();
+    if (this.lastWrite !== null && now - this.lastWrite < this.options.readYourWritesWindow) {
+      return null;
+    }
+
+    const healthy = this.replicas.filter((entry) => {
+      if (entry.ejectedUntil !== null && entry.ejectedUntil > now) {
+        return false;
+      }
+      if (!entry.manager.isConnected()) {
+        // Afastamento vencido: tenta reconectar em segundo plano, sem segurar a leitura
+        if (!entry.reconnecting) {
+          this.reconnect(entry);
+        }
+        return false;
+      }
+      return true;
+    });
+    if (healthy.length === 0) {
+      return null;
+    }
+
+    if (this.options.strategy === 'least-busy') {
+      const busy = (entry: ReplicaEntry) => {
+        const info = entry.manager.getPoolInfo();
+        return info ? info.numUsed + info.numPendingCreates : 0;
+      };
+      return healthy.reduce((best, entry) => (busy(entry) < busy(best) ? entry : best)).manager;
+    }
+
+    const chosen = healthy[this.next % healthy.length];
+    this.next = (this.next + 1) % Number.MAX_SAFE_INTEGER;
+    return chosen.manager;
+  }
+
+  /**
+   * Registra uma escrita no primário, iniciando a janela de leitura após escrita
+   */
+  recordWrite(): void {
+    this.lastWrite = Date.now();
+  }
+
+  /**
+   * Registra uma leitura bem-sucedida na réplica, zerando as falhas seguidas
+   * @param manager - Réplica usada
+   */
+  reportSuccess(manager: ConnectionManager): void {
+    const entry = this.find(manager);
+    if (entry) {
+      entry.failures = 0;
+    }
+  }
+
+  /**
+   * Registra uma falha de conexão na réplica, afastando-a ao atingir `ejectAfter`
+   * @param manager - Réplica usada
+   */
+  reportFailure(manager: ConnectionManager): void {
+    const entry = this.find(manager);
+    if (!entry) {
+      return;
+    }
+    entry.failures++;
+    if (entry.failures >= this.options.ejectAfter) {
+      entry.ejectedUntil = Date.now() + this.options.ejectFor;
+    }
+  }
+
+  /**
+   * Obtém o estado de cada réplica
+   * @returns Estado das réplicas, na ordem da configuração
+   */
+  getStatus(): ReplicaStatus[] {
+    const now = Date.now();
+    return this.replicas.map((entry) => {
+      const config = entry.manager.getConfig();
+      const ejected = entry.ejectedUntil !== null && entry.ejectedUntil > now;
+      return {
+        host: config.host,
+        database: config.database,
+        healthy: !ejected && entry.manager.isConnected(),
+        failures: entry.failures,
+        ejectedUntil: ejected ? entry.ejectedUntil : null
+      };
+    });
+  }
+
+  /**
+   * Localiza a réplica pelo ConnectionManager
+   * @param manager - ConnectionManager da réplica
+   * @returns Réplica, ou undefined se não pertencer ao roteador
+   */
+  private find(manager: ConnectionManager): ReplicaEntry | undefined {
+    return this.replicas.find((entry) => entry.manager === manager);
+  }
+
+  /**
+   * Conecta a réplica; a falha é registrada e afasta a réplica
+   * @param entry - Réplica a conectar
+   * @returns Promise resolvida ao fim da tentativa, com ou sem sucesso
+   */
+  private reconnect(entry: ReplicaEntry): Promise<void> {
+    entry.reconnecting = (async () => {
+      try {
+        await entry.manager.connect();
+        entry.failures = 0;
+        entry.ejectedUntil = null;
+      } catch {
+        // Réplica que não conecta é afastada de imediato; o erro já foi repassado ao onError dos plugins
+        entry.failures++;
+        entry.ejectedUntil = Date.now() + this.options.ejectFor;
+      } finally {
+        entry.reconnecting = null;
+      }
+    })();
+    return entry.reconnecting;
+  }
+}
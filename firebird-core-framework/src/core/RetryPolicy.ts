@@ -0,0 +1,137 @@
+import { DeadlockError, LockConflictError, toFirebirdError } from '../errors/FirebirdErrors';
+
+/**
+ * Política de novas tentativas das transações.
+ *
+ * Quando a transação falha com um erro retentável (por padrão, conflitos de
+ * bloqueio e deadlocks), ela é desfeita e a unidade de trabalho inteira é
+ * executada de novo, após uma espera que cresce exponencialmente com jitter.
+ */
+
+/**
+ * Classe de erro aceita em `retryOn`
+ */
+export type RetryableErrorClass = new (...args: any[]) => Error;
+
+/**
+ * Interface que define a política de novas tentativas
+ */
+export interface RetryPolicy {
+  /** Número máximo de tentativas, incluindo a primeira (padrão: 3) */
+  maxAttempts?: number;
+  /** Espera antes da segunda tentativa, em milissegundos (padrão: 50) */
+  initialDelay?: number;
+  /** Espera máxima entre tentativas, em milissegundos (padrão: 2000) */
+  maxDelay?: number;
+  /** Multiplicador da espera a cada nova tentativa (padrão: 2) */
+  backoffFactor?: number;
+  /** Sorteia a espera entre 0 e o valor calculado, espalhando as transações concorrentes (padrão: true) */
+  jitter?: boolean;
+  /** Classes de erro que disparam nova tentativa (padrão: LockConflictError e DeadlockError) */
+  retryOn?: RetryableErrorClass[];
+}
+
+/**
+ * Tentativa que falhou, registrada no histórico
+ */
+export interface RetryAttempt {
+  /** Número da tentativa (base 1) */
+  attempt: number;
+  /** Erro que encerrou a tentativa */
+  error: unknown;
+  /** Espera antes da tentativa seguinte, em milissegundos (0 na última) */
+  delay: number;
+}
+
+/**
+ * Dados repassados ao hook onRetry antes de cada nova tentativa
+ */
+export interface RetryNotice extends RetryAttempt {
+  /** Número máximo de tentativas da política */
+  maxAttempts: number;
+}
+
+/**
+ * Política com os valores padrão aplicados
+ */
+export type ResolvedRetryPolicy = Required<RetryPolicy>;
+
+const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+  maxAttempts: 3,
+  initialDelay: 50,
+  maxDelay: 2000,
+  backoffFactor: 2,
+  jitter: true,
+  retryOn: [LockConflictError, DeadlockError]
+};
+
+/**
+ * Valida uma política de novas tentativas
+ * @param policy - Política informada em TransactionOptions.retry
+ * @returns Mensagem de erro, ou null se a política for válida
+ */
+export function validateRetryPolicy(policy: unknown): string | null {
+  if (policy === false) {
+    return null;
+  }
+  if (!policy || typeof policy !== 'object') {
+    return 'retry deve ser um objeto ou false';
+  }
+
+  const { maxAttempts, initialDelay, maxDelay, backoffFactor, jitter, retryOn } = policy as RetryPolicy;
+  if (maxAttempts !== undefined && (!Number.isInteger(maxAttempts) || maxAttempts < 1)) {
+    return 'retry.maxAttempts deve ser um inteiro maior ou igual a 1';
+  }
+  for (const [name, value] of Object.entries({ initialDelay, maxDelay })) {
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      return `retry.${name} deve ser um número não negativo`;
+    }
+  }
+  if (backoffFactor !== undefined && (typeof backoffFactor !== 'number' || !Number.isFinite(backoffFactor) || backoffFactor < 1)) {
+    return 'retry.backoffFactor deve ser um número maior ou igual a 1';
+  }
+  if (jitter !== undefined && typeof jitter !== 'boolean') {
+    return 'retry.jitter deve ser booleano';
+  }
+  if (retryOn !== undefined && (!Array.isArray(retryOn) || retryOn.some((type) => typeof type !== 'function'))) {
+    return 'retry.retryOn deve ser uma lista de classes de erro';
+  }
+  return null;
+}
+
+/**
+ * Aplica os valores padrão à política
+ * @param policy - Política informada
+ * @returns Política completa
+ */
+export function resolveRetryPolicy(policy: RetryPolicy): ResolvedRetryPolicy {
+  const defined = Object.entries(policy).filter(([, value]) => value !== undefined);
+  return { ...DEFAULT_RETRY_POLICY, ...Object.fromEntries(defined) };
+}
+
+/**
+ * Indica se o erro dispara uma nova tentativa
+ * @param policy - Política completa
+ * @param error - Erro que encerrou a tentativa; erros do driver ainda não convertidos passam por toFirebirdError
+ * @returns true se o erro, ou sua conversão, for instância de alguma classe de `retryOn`
+ */
+export function isRetryable(policy: ResolvedRetryPolicy, error: unknown): boolean {
+  const failure = toFirebirdError(error);
+  return policy.retryOn.some((type) => error instanceof type || failure instanceof type);
+}
+
+/**
+ * Calcula a espera antes da próxima tentativa (backoff exponencial com jitter)
+ * @param policy - Política completa (também usada pela reconexão automática)
+ * @param attempt - Tentativa que acabou de falhar (base 1)
+ * @param random - Fonte de aleatoriedade, entre 0 e 1 (padrão: Math.random)
+ * @returns Espera em milissegundos
+ */
+export function computeRetryDelay(
+  policy: Pick<ResolvedRetryPolicy, 'initialDelay' | 'maxDelay' | 'backoffFactor' | 'jitter'>,
+  attempt: number,
+  random: () => number = Math.random
+): number {
+  const delay = Math.min(policy.maxDelay, policy.initialDelay * Math.pow(policy.backoffFactor, attempt - 1));
+  return Math.round(policy.jitter ? delay * random() : delay);
+}
@@ -0,0 +1,176 @@
+import { RetryPolicy, validateRetryPolicy } from './RetryPolicy';
+import { SqlPolicy, validateSqlPolicy } from '../services/SqlPolicy';
+
+/**
+ * Parâmetros de transação do Firebird (TPB) e sua conversão para o
+ * comando SET TRANSACTION, que aceita todas as combinações suportadas
+ * pelo servidor (inclusive LOCK TIMEOUT e READ CONSISTENCY do Firebird 4).
+ */
+
+/**
+ * Níveis de isolamento do Firebird
+ * - READ_COMMITTED: enxerga dados confirmados por outras transações
+ * - SNAPSHOT: visão consistente do banco desde o início da transação
+ * - SNAPSHOT_TABLE_STABILITY: snapshot com bloqueio das tabelas acessadas
+ */
+export type TransactionIsolationLevel = 'READ_COMMITTED' | 'SNAPSHOT' | 'SNAPSHOT_TABLE_STABILITY';
+
+/**
+ * Variantes do READ COMMITTED
+ * - RECORD_VERSION: lê a última versão confirmada sem esperar por versões pendentes
+ * - NO_RECORD_VERSION: espera (ou falha) se houver versão não confirmada
+ * - READ_CONSISTENCY: cada instrução enxerga um snapshot consistente (Firebird 4+)
+ */
+export type ReadCommittedMode = 'RECORD_VERSION' | 'NO_RECORD_VERSION' | 'READ_CONSISTENCY';
+
+/**
+ * Interface que define os parâmetros de uma transação
+ */
+export interface TransactionOptions {
+  /** Nível de isolamento (padrão do servidor: SNAPSHOT) */
+  isolationLevel?: TransactionIsolationLevel;
+  /** Variante do READ COMMITTED; válida apenas com isolationLevel READ_COMMITTED */
+  readCommittedMode?: ReadCommittedMode;
+  /** WAIT (true) aguarda a liberação de bloqueios; NO WAIT (false) falha imediatamente */
+  wait?: boolean;
+  /** Tempo máximo de espera por bloqueios em segundos (LOCK TIMEOUT); exige wait */
+  lockTimeout?: number;
+  /** Transação somente leitura (READ ONLY) */
+  readOnly?: boolean;
+  /**
+   * Novas tentativas da unidade de trabalho em conflitos de bloqueio e deadlocks;
+   * false desativa a política da configuração. Não faz parte do SET TRANSACTION.
+   */
+  retry?: RetryPolicy | false;
+  /**
+   * Política de SQL das instruções da transação; apenas restringe FirebirdConfig.sqlPolicy,
+   * salvo com `allowOverride` na configuração.
+   * Não faz parte do SET TRANSACTION.
+   */
+  policy?: SqlPolicy;
+}
+
+const ISOLATION_LEVELS: TransactionIsolationLevel[] = ['READ_COMMITTED', 'SNAPSHOT', 'SNAPSHOT_TABLE_STABILITY'];
+
+/** Cláusulas SQL de cada variante do READ COMMITTED */
+const READ_COMMITTED_CLAUSES: Record<ReadCommittedMode, string> = {
+  RECORD_VERSION: 'RECORD_VERSION',
+  NO_RECORD_VERSION: 'NO RECORD_VERSION',
+  READ_CONSISTENCY: 'READ CONSISTENCY'
+};
+
+/**
+ * Valida uma combinação de parâmetros de transação
+ * @param options - Parâmetros a serem validados
+ * @returns Mensagem de erro, ou null se os parâmetros forem válidos
+ */
+export function validateTransactionOptions(options: TransactionOptions): string | null {
+  if (options.isolationLevel !== undefined && !ISOLATION_LEVELS.includes(options.isolationLevel)) {
+    return `Nível de isolamento inválido: ${options.isolationLevel}`;
+  }
+
+  if (options.readCommittedMode !== undefined) {
+    if (!(options.readCommittedMode in READ_COMMITTED_CLAUSES)) {
+      return `Modo READ COMMITTED inválido: ${options.readCommittedMode}`;
+    }
+    if (options.isolationLevel !== 'READ_COMMITTED') {
+      return 'readCommittedMode exige isolationLevel READ_COMMITTED';
+    }
+  }
+
+  if (options.lockTimeout !== undefined) {
+    if (!Number.isInteger(options.lockTimeout) || options.lockTimeout < 0 || options.lockTimeout > 32767) {
+      return 'lockTimeout deve ser um inteiro entre 0 e 32767 segundos';
+    }
+    if (options.wait === false) {
+      return 'lockTimeout não pode ser usado com NO WAIT';
+    }
+  }
+
+  if (options.retry !== undefined) {
+    const retryError = validateRetryPolicy(options.retry);
+    if (retryError) {
+      return retryError;
+    }
+  }
+
+  if (options.policy !== undefined) {
+    return validateSqlPolicy(options.policy);
+  }
+
+  return null;
+}
+
+/**
+ * Combina os parâmetros padrão da configuração com os informados na chamada
+ * @param defaults - Parâmetros padrão (FirebirdConfig.transaction)
+ * @param options - Parâmetros da chamada
+ * @returns Parâmetros do SET TRANSACTION combinados, ou null se nenhum parâmetro foi definido
+ */
+export function mergeTransactionOptions(
+  defaults?: TransactionOptions,
+  options?: TransactionOptions
+): TransactionOptions | null {
+  const merged: TransactionOptions = { ...defaults, ...options };
+  // A política de novas tentativas e a de SQL são resolvidas à parte
+  delete merged.retry;
+  delete merged.policy;
+
+  // O modo READ COMMITTED padrão não se aplica quando a chamada escolhe outro isolamento
+  if (options?.isolationLevel && options.isolationLevel !== 'READ_COMMITTED' && !options.readCommittedMode) {
+    delete merged.readCommittedMode;
+  }
+
+  const defined = Object.values(merged).some((value) => value !== undefined);
+  return defined ? merged : null;
+}
+
+/**
+ * Obtém a política de novas tentativas da chamada ou, na falta dela, a da configuração
+ * @param defaults - Parâmetros padrão (FirebirdConfig.transaction)
+ * @param options - Parâmetros da chamada
+ * @returns Política a aplicar, ou null se as novas tentativas estiverem desativadas
+ */
+export function mergeRetryPolicy(defaults?: TransactionOptions, options?: TransactionOptions): RetryPolicy | null {
+  const retry = options?.retry !== undefined ? options.retry : defaults?.retry;
+  return retry || null;
+}
+
+/**
+ * Gera o comando SET TRANSACTION correspondente aos parâmetros
+ * @param options - Parâmetros da transação
+ * @returns Comando SET TRANSACTION
+ * @throws Erro se os parâmetros forem inválidos
+ */
+export function buildSetTransactionStatement(options: TransactionOptions): string {
+  const error = validateTransactionOptions(options);
+  if (error) {
+    throw new Error(`Parâmetros de transação inválidos: ${error}`);
+  }
+
+  const parts = ['SET TRANSACTION'];
+
+  parts.push(options.readOnly ? 'READ ONLY' : 'READ WRITE');
+  parts.push(options.wait === false ? 'NO WAIT' : 'WAIT');
+
+  switch (options.isolationLevel) {
+    case 'READ_COMMITTED':
+      parts.push('ISOLATION LEVEL READ COMMITTED');
+      if (options.readCommittedMode) {
+        parts.push(READ_COMMITTED_CLAUSES[options.readCommittedMode]);
+      }
+      break;
+    case 'SNAPSHOT':
+      parts.push('ISOLATION LEVEL SNAPSHOT');
+      break;
+    case 'SNAPSHOT_TABLE_STABILITY':
+      parts.push('ISOLATION LEVEL SNAPSHOT TABLE STABILITY');
+      break;
+  }
+
+  if (options.lockTimeout !== undefined) {
+    parts.push(`LOCK TIMEOUT ${options.lockTimeout}`);
+  }
+
+  return parts.join(' ');
+}
@@ -0,0 +1,358 @@
+import { RetryAttempt } from '../core/RetryPolicy';
+import { SqlPolicyViolation } from '../services/SqlPolicy';
+
+/**
+ * Erros específicos do Firebird Core Framework.
+ *
+ * O knex-firebird-dialect usa o node-firebird-driver-native, que lança Error só
+ * com a mensagem formatada do status vector: uma linha por código, a primeira
+ * do código principal e as seguintes iniciadas por "-". `toFirebirdError`
+ * identifica o código principal pelo texto dessa mensagem e converte o erro na
+ * classe correspondente; a SQLSTATE vem da classe, pois o driver não a repassa.
+ * Erros com `gdscode` e `gdsparams` (node-firebird) e erros de socket do Node
+ * com `code` também são reconhecidos.
+ */
+
+/**
+ * Detalhes do erro extraídos do status vector do Firebird
+ */
+export interface FirebirdErrorDetails {
+  /** Código GDS principal do erro */
+  gdscode?: number;
+  /** SQLSTATE correspondente ao erro */
+  sqlstate?: string;
+  /** Constraint violada, quando houver */
+  constraint?: string;
+  /** Tabela da constraint violada, quando houver */
+  table?: string;
+  /** Erro original retornado pelo driver */
+  cause?: unknown;
+}
+
+/**
+ * Classe base dos erros do banco de dados
+ */
+export class FirebirdError extends Error {
+  /** Código GDS principal do erro */
+  gdscode?: number;
+  /** SQLSTATE correspondente ao erro */
+  sqlstate?: string;
+  /** Constraint violada, quando houver */
+  constraint?: string;
+  /** Tabela da constraint violada, quando houver */
+  table?: string;
+  /** Erro original retornado pelo driver */
+  cause?: unknown;
+
+  constructor(message: string, details: FirebirdErrorDetails = {}) {
+    super(message);
+    this.name = 'FirebirdError';
+    this.gdscode = details.gdscode;
+    this.sqlstate = details.sqlstate;
+    this.constraint = details.constraint;
+    this.table = details.table;
+    this.cause = details.cause;
+  }
+}
+
+/**
+ * Violação de chave primária ou UNIQUE
+ */
+export class UniqueConstraintError extends FirebirdError {
+  constructor(message: string, details: FirebirdErrorDetails = {}) {
+    super(message, { sqlstate: '23000', ...details });
+    this.name = 'UniqueConstraintError';
+  }
+}
+
+/**
+ * Violação de chave estrangeira
+ */
+export class ForeignKeyError extends FirebirdError {
+  constructor(message: string, details: FirebirdErrorDetails = {}) {
+    super(message, { sqlstate: '23000', ...details });
+    this.name = 'ForeignKeyError';
+  }
+}
+
+/**
+ * Conflito de atualização com outra transação (lock conflict / update conflict)
+ */
+export class LockConflictError extends FirebirdError {
+  constructor(message: string, details: FirebirdErrorDetails = {}) {
+    super(message, { sqlstate: '40001', ...details });
+    this.name = 'LockConflictError';
+  }
+}
+
+/**
+ * Deadlock detectado pelo servidor
+ */
+export class DeadlockError extends FirebirdError {
+  constructor(message: string, details: FirebirdErrorDetails = {}) {
+    super(message, { sqlstate: '40001', ...details });
+    this.name = 'DeadlockError';
+  }
+}
+
+/**
+ * Conexão com o servidor perdida ou indisponível
+ */
+export class ConnectionLostError extends FirebirdError {
+  constructor(message: string, details: FirebirdErrorDetails = {}) {
+    super(message, { sqlstate: '08006', ...details });
+    this.name = 'ConnectionLostError';
+  }
+}
+
+/**
+ * Erro lançado sem consultar o banco enquanto a conexão está perdida (circuito aberto).
+ * A conexão perdida que abriu o circuito fica em `cause`.
+ */
+export class ConnectionUnavailableError extends ConnectionLostError {
+  /** Momento (Date.now) da próxima tentativa de reconexão; null sem reconexão agendada */
+  retryAt: number | null;
+
+  constructor(retryAt: number | null = null, cause?: unknown) {
+    const reason = cause instanceof Error ? `: ${cause.message}` : '';
+    super(`Banco de dados indisponível${reason}`, { cause });
+    this.name = 'ConnectionUnavailableError';
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * Usuário ou senha recusados pelo servidor
+ */
+export class AuthenticationError extends FirebirdError {
+  constructor(message: string, details: FirebirdErrorDetails = {}) {
+    super(message, { sqlstate: '28000', ...details });
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * Consulta recusada pela validação do framework, antes de ser enviada ao banco
+ */
+export class QueryValidationError extends FirebirdError {
+  /** Motivo da recusa */
+  reason: string;
+  /** Linha do token inválido, quando houver */
+  line?: number;
+  /** Coluna do token inválido, quando houver */
+  column?: number;
+  /** Violação estruturada da política de SQL, quando houver */
+  violation?: SqlPolicyViolation;
+
+  constructor(reason: string, line?: number, column?: number, violation?: SqlPolicyViolation) {
+    const location = line !== undefined ? ` (linha ${line}, coluna ${column})` : '';
+    super(`Consulta inválida: ${reason}${location}`, { sqlstate: '42000' });
+    this.name = 'QueryValidationError';
+    this.reason = reason;
+    this.line = line;
+    this.column = column;
+    this.violation = violation;
+  }
+}
+
+/**
+ * Erro lançado quando uma consulta excede o tempo limite.
+ * A instrução é cancelada no servidor antes do erro ser lançado.
+ */
+export class QueryTimeoutError extends FirebirdError {
+  /** Tempo limite aplicado, em milissegundos */
+  timeout: number;
+  /** Consulta que excedeu o tempo limite */
+  sql?: string;
+  /** Indica se o cancelamento no servidor foi confirmado */
+  cancelled: boolean;
+
+  constructor(timeout: number, sql?: string, cancelled: boolean = true, cause?: unknown) {
+    super(`Tempo limite da consulta excedido (${timeout} ms)`, { sqlstate: 'HY008', cause });
+    this.name = 'QueryTimeoutError';
+    this.timeout = timeout;
+    this.sql = sql;
+    this.cancelled = cancelled;
+  }
+}
+
+/**
+ * Erro lançado pelo bulkInsert quando um bloco falha com onError: 'rollback'.
+ * Em transação única, as linhas dos blocos anteriores também são desfeitas.
+ */
+export class BulkInsertError extends FirebirdError {
+  /** Tabela da importação */
+  table: string;
+  /** Índice (base 0) do bloco que falhou */
+  chunk: number;
+  /** Índice da primeira linha do bloco */
+  offset: number;
+  /** Quantidade de linhas do bloco */
+  rows: number;
+  /** Linhas inseridas pelos blocos anteriores */
+  inserted: number;
+
+  constructor(table: string, chunk: number, offset: number, rows: number, inserted: number, cause?: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    const failure = cause instanceof FirebirdError ? cause : undefined;
+    super(`Falha ao inserir o bloco ${chunk + 1} em ${table} (linhas ${offset} a ${offset + rows - 1}): ${reason}`, {
+      gdscode: failure?.gdscode,
+      sqlstate: failure?.sqlstate,
+      constraint: failure?.constraint,
+      table,
+      cause
+    });
+    this.name = 'BulkInsertError';
+    this.table = table;
+    this.chunk = chunk;
+    this.offset = offset;
+    this.rows = rows;
+    this.inserted = inserted;
+  }
+}
+
+/**
+ * Erro lançado quando a transação falha depois de novas tentativas.
+ * Repete o código GDS, a SQLSTATE e a constraint do último erro, que fica em `cause`.
+ */
+export class TransactionRetryError extends FirebirdError {
+  /** Histórico das tentativas, da primeira à última */
+  attempts: RetryAttempt[];
+
+  constructor(attempts: RetryAttempt[]) {
+    const last = attempts[attempts.length - 1]?.error;
+    const failure = last instanceof FirebirdError ? last : undefined;
+    const reason = last instanceof Error ? last.message : String(last);
+    super(`Transação falhou após ${attempts.length} tentativas: ${reason}`, {
+      gdscode: failure?.gdscode,
+      sqlstate: failure?.sqlstate,
+      constraint: failure?.constraint,
+      table: failure?.table,
+      cause: last
+    });
+    this.name = 'TransactionRetryError';
+    this.attempts = attempts;
+  }
+}
+
+/** Códigos GDS do Firebird tratados pelo mapeamento */
+const GDS_UNIQUE_KEY_VIOLATION = 335544665;
+const GDS_NO_DUPLICATE = 335544349;
+const GDS_FOREIGN_KEY = 335544466;
+const GDS_DEADLOCK = 335544336;
+const GDS_LOCK_CONFLICT = 335544345;
+const GDS_UPDATE_CONFLICT = 335544451;
+const GDS_RECORD_LOCK = 335544510;
+const GDS_LOGIN = 335544472;
+const GDS_CONNECTION_LOST = [335544721, 335544726, 335544727, 335544741, 335544528, 335544856];
+
+/**
+ * Mensagens dos códigos GDS tratados, como formatadas pelo status vector.
+ * Vale o código cuja mensagem aparece primeiro, que é o código principal.
+ */
+const GDS_MESSAGES: [RegExp, number][] = [
+  [/violation of PRIMARY or UNIQUE KEY constraint/i, GDS_UNIQUE_KEY_VIOLATION],
+  [/attempt to store duplicate value/i, GDS_NO_DUPLICATE],
+  [/violation of FOREIGN KEY constraint/i, GDS_FOREIGN_KEY],
+  [/^-?deadlock$/im, GDS_DEADLOCK],
+  [/lock conflict on no wait transaction/i, GDS_LOCK_CONFLICT],
+  [/update conflicts with concurrent update/i, GDS_UPDATE_CONFLICT],
+  [/lock time-out on wait transaction/i, GDS_RECORD_LOCK],
+  [/Your user name and password are not defined/i, GDS_LOGIN],
+  [/Unable to complete network request to host/i, 335544721],
+  [/Error reading data from the connection/i, 335544726],
+  [/Error writing data to the connection/i, 335544727],
+  [/Connection lost to database/i, 335544741],
+  [/^-?database .* shutdown/im, 335544528],
+  [/connection shutdown/i, 335544856]
+];
+
+/** Códigos de erro de socket do Node que indicam conexão perdida ou recusada */
+const SOCKET_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'EPIPE', 'ETIMEDOUT', 'EHOSTUNREACH', 'ENOTFOUND'];
+
+/** Constraint e tabela na mensagem de violação, quando não vêm nos parâmetros */
+const CONSTRAINT_PATTERN = /constraint "([^"]+)" on table "([^"]+)"/i;
+
+/** Índice na mensagem de duplicidade, quando não vem nos parâmetros */
+const UNIQUE_INDEX_PATTERN = /unique index "([^"]+)"/i;
+
+/**
+ * Converte um erro do driver na classe de erro correspondente ao código GDS
+ * @param error - Erro lançado pelo driver ou pelo Knex
+ * @param prefix - Prefixo da mensagem; quando informado, o resultado é sempre um FirebirdError (opcional)
+ * @returns Erro tipado, o próprio erro se já for um FirebirdError, ou o erro original se não vier do banco
+ */
+export function toFirebirdError(error: unknown, prefix?: string): unknown {
+  if (error instanceof FirebirdError && !prefix) {
+    return error;
+  }
+
+  const source = (error ?? {}) as { message?: string; gdscode?: number; gdsparams?: unknown[]; code?: string };
+  const original = error instanceof Error ? error.message : String(error);
+  const gdscode = typeof source.gdscode === 'number' ? source.gdscode : readGdsCode(original);
+  const message = prefix ? `${prefix}${original}` : original;
+  const details: FirebirdErrorDetails = { gdscode, cause: error };
+
+  switch (gdscode) {
+    case GDS_UNIQUE_KEY_VIOLATION:
+    case GDS_FOREIGN_KEY: {
+      const [constraint, table] = readConstraint(source);
+      const Type = gdscode === GDS_FOREIGN_KEY ? ForeignKeyError : UniqueConstraintError;
+      return new Type(message, { ...details, constraint, table });
+    }
+    case GDS_NO_DUPLICATE: {
+      // Índice único criado sem constraint: o parâmetro é o nome do índice
+      const index = source.gdsparams?.[0] ?? UNIQUE_INDEX_PATTERN.exec(original)?.[1];
+      return new UniqueConstraintError(message, { ...details, constraint: typeof index === 'string' ? index : undefined });
+    }
+    case GDS_LOCK_CONFLICT:
+    case GDS_UPDATE_CONFLICT:
+    case GDS_RECORD_LOCK:
+      return new LockConflictError(message, details);
+    case GDS_DEADLOCK:
+      // O Firebird informa conflitos de atualização como "deadlock" seguido de "update conflicts"
+      return /update conflicts|concurrent transaction/i.test(original)
+        ? new LockConflictError(message, details)
+        : new DeadlockError(message, details);
+    case GDS_LOGIN:
+      return new AuthenticationError(message, details);
+  }
+
+  if ((gdscode !== undefined && GDS_CONNECTION_LOST.includes(gdscode)) || SOCKET_ERROR_CODES.includes(source.code as string)) {
+    return new ConnectionLostError(message, details);
+  }
+  if (gdscode !== undefined || prefix) {
+    return new FirebirdError(message, details);
+  }
+  return error;
+}
+
+/**
+ * Identifica o código GDS principal pelo texto da mensagem do status vector
+ * @param message - Mensagem do erro do driver
+ * @returns Código da primeira mensagem reconhecida, ou undefined
+ */
+function readGdsCode(message: string): number | undefined {
+  let found: { index: number; gdscode: number } | undefined;
+  for (const [pattern, gdscode] of GDS_MESSAGES) {
+    const match = pattern.exec(message);
+    if (match && (!found || match.index < found.index)) {
+      found = { index: match.index, gdscode };
+    }
+  }
+  return found?.gdscode;
+}
+
+/**
+ * Obtém constraint e tabela de uma violação de integridade
+ * @param source - Erro do driver
+ * @returns Nome da constraint e da tabela, quando disponíveis
+ */
+function readConstraint(source: { message?: string; gdsparams?: unknown[] }): [string?, string?] {
+  const [constraint, table] = source.gdsparams || [];
+  if (typeof constraint === 'string' && typeof table === 'string') {
+    return [constraint, table];
+  }
+  const match = CONSTRAINT_PATTERN.exec(source.message || '');
+  return match ? [match[1], match[2]] : [];
+}
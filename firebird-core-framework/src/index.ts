@@ -13,22 +13,124 @@ export { FirebirdCore } from './core/FirebirdCore';
 export { PluginInterface } from './interfaces/PluginInterface';
 export { AdapterInterface } from './interfaces/AdapterInterface';
 
+// Exportar tipos de configuração
+export {
+  TransactionOptions,
+  TransactionIsolationLevel,
+  ReadCommittedMode,
+  buildSetTransactionStatement
+} from './core/TransactionOptions';
+export { ColumnNameTransform, ColumnNameMapper } from './core/ColumnNames';
+export { BlobOptions } from './core/Blobs';
+export { DatabaseConfig, DEFAULT_DATABASE } from './core/ConfigManager';
+export { RetryPolicy, RetryAttempt, RetryNotice, RetryableErrorClass } from './core/RetryPolicy';
+export { ReconnectPolicy, ReconnectNotice } from './core/Reconnection';
+export {
+  ConnectionState,
+  ConnectionStatus,
+  ConnectionStateChange,
+  HeartbeatOptions
+} from './core/ConnectionHealth';
+export {
+  PoolTelemetrySnapshot,
+  PoolUsage,
+  Histogram,
+  HistogramBucket
+} from './core/PoolTelemetry';
+export {
+  ReplicaRouter,
+  ReplicaConfig,
+  ReplicaStatus,
+  ReplicaStrategy,
+  ReadRoutingOptions,
+  isReplicaSafe
+} from './core/ReplicaRouter';
+
+// Exportar serviços
+export {
+  QueryOptions,
+  SelectOptions,
+  InsertOptions,
+  WriteOptions,
+  ProcedureOptions,
+  ExecuteBlockOptions,
+  TransactionQuery,
+  TransactionCallback
+} from './services/QueryService';
+export { ResultStream, StreamOptions } from './services/ResultStream';
+export {
+  ConditionBuilder,
+  Conditions,
+  FieldCondition,
+  FieldOperators,
+  ConditionValue,
+  FieldResolver
+} from './services/ConditionBuilder';
+export {
+  SelectBuilder,
+  SelectShape,
+  SelectColumn,
+  AliasedColumn,
+  AggregateColumn,
+  AggregateFunction,
+  OrderByOption
+} from './services/SelectBuilder';
+export { isValidIdentifier, quoteIdentifier } from './services/SqlIdentifiers';
+export { KeysetPagination, KeysetPage, KeysetOptions } from './services/KeysetPagination';
+export { ProcedureCatalog, ProcedureMetadata, ProcedureParameter } from './services/ProcedureCatalog';
+export {
+  ExecuteBlockBuilder,
+  ExecuteBlock,
+  BlockParameter,
+  ExecuteBlockPolicy,
+  BuiltBlock
+} from './services/ExecuteBlockBuilder';
+export {
+  BulkInsertBuilder,
+  BulkInsertOptions,
+  BulkInsertResult,
+  BulkInsertProgress,
+  BulkInsertFailure,
+  BulkInsertErrorPolicy
+} from './services/BulkInsert';
+export { UpsertBuilder, UpsertOptions, MergeOptions, MergeSourceQuery, BuiltStatement } from './services/UpsertBuilder';
+export { ServerVersion, EngineVersion } from './services/ServerVersion';
+export { SequenceBuilder } from './services/SequenceBuilder';
+export { NamedParameterBinder, NamedBindings } from './services/NamedParameters';
+export { SqlLexer, SqlLexerError, SqlToken, SqlTokenType, SqlStatementType } from './services/SqlLexer';
+export {
+  SqlPolicy,
+  SqlPolicyEngine,
+  SqlPolicyRule,
+  SqlPolicyContext,
+  SqlPolicyViolation,
+  SqlEntryPoint,
+  SqlObjectReference,
+  ValidationResult
+} from './services/SqlPolicy';
+
+// Exportar erros
+export {
+  FirebirdError,
+  FirebirdErrorDetails,
+  UniqueConstraintError,
+  ForeignKeyError,
+  LockConflictError,
+  DeadlockError,
+  ConnectionLostError,
+  ConnectionUnavailableError,
+  AuthenticationError,
+  QueryValidationError,
+  QueryTimeoutError,
+  BulkInsertError,
+  TransactionRetryError,
+  toFirebirdError
+} from './errors/FirebirdErrors';
+
 // Exportar adapters
 export { ExpressAdapter } from './adapters/ExpressAdapter';
 
 // Tipos e interfaces auxiliares
-/**
- * Opções para execução de consultas
- */
-export interface QueryOptions {
-  /** Timeout para a consulta em milissegundos */
-  timeout?: number;
-  /** Indica se a consulta deve ser executada em uma transação */
-  transaction?: boolean;
-  /** Outras opções específicas do driver */
-  [key: string]: any;
-}
-
 /**
  * Tipos de hooks disponíveis para plugins
  */
@@ -45,6 +147,16 @@ export enum PluginHookTypes {
   BEFORE_DISCONNECT = 'beforeDisconnect',
   /** Quando ocorre um erro */
   ON_ERROR = 'onError',
+  /** Antes de uma nova tentativa de transação */
+  ON_RETRY = 'onRetry',
+  /** Quando uma instrução é recusada pela política de SQL */
+  ON_POLICY_VIOLATION = 'onPolicyViolation',
+  /** Quando a conexão com o banco é perdida */
+  ON_DISCONNECTED = 'onDisconnected',
+  /** Quando a conexão é restabelecida pela reconexão automática */
+  ON_RECONNECTED = 'onReconnected',
+  /** A cada transição de estado da conexão */
+  ON_STATE_CHANGE = 'onStateChange',
   /** Na destruição do plugin */
   DESTROY = 'destroy'
 }
\ No newline at end of file
@@ -1,3 +1,8 @@
+import { RetryNotice } from '../core/RetryPolicy';
+import { ReconnectNotice } from '../core/Reconnection';
+import { ConnectionStateChange } from '../core/ConnectionHealth';
+import { SqlPolicyViolation } from '../services/SqlPolicy';
+
 /**
  * Interface base que todos os plugins devem implementar
  */
@@ -22,43 +27,89 @@ export interface PluginInterface {
   /**
    * Executado antes de estabelecer uma conexão
    * @param config - Configuração de conexão
+   * @param database - Nome do banco de origem ('default' para o banco principal, 'default:replica1' para sua primeira réplica)
    * @returns Promise<void>
    */
-  beforeConnect(config: any): Promise<void>;
+  beforeConnect(config: any, database?: string): Promise<void>;
 
   /**
    * Executado após estabelecer uma conexão
    * @param connection - Objeto de conexão
+   * @param database - Nome do banco de origem ('default' para o banco principal, 'default:replica1' para sua primeira réplica)
    * @returns Promise<void>
    */
-  afterConnect(connection: any): Promise<void>;
+  afterConnect(connection: any, database?: string): Promise<void>;
 
   /**
    * Executado antes de executar uma query
    * @param query - Objeto de query contendo sql, bindings, etc.
+   * @param database - Nome do banco de origem ('default' para o banco principal, 'default:replica1' para sua primeira réplica)
    * @returns Promise<void>
    */
-  beforeQuery(query: any): Promise<void>;
+  beforeQuery(query: any, database?: string): Promise<void>;
 
   /**
    * Executado após executar uma query
    * @param result - Resultado da query
+   * @param database - Nome do banco de origem ('default' para o banco principal, 'default:replica1' para sua primeira réplica)
    * @returns Promise<void>
    */
-  afterQuery(result: any): Promise<void>;
+  afterQuery(result: any, database?: string): Promise<void>;
 
   /**
    * Executado antes de desconectar
+   * @param database - Nome do banco de origem ('default' para o banco principal, 'default:replica1' para sua primeira réplica)
    * @returns Promise<void>
    */
-  beforeDisconnect(): Promise<void>;
+  beforeDisconnect(database?: string): Promise<void>;
 
   /**
    * Executado quando ocorre um erro
-   * @param error - Objeto de erro
+   * @param error - Objeto de erro; erros do banco chegam como subclasses de FirebirdError
+   * @param database - Nome do banco de origem ('default' para o banco principal, 'default:replica1' para sua primeira réplica)
+   * @returns Promise<void>
+   */
+  onError(error: any, database?: string): Promise<void>;
+
+  /**
+   * Executado antes de cada nova tentativa de uma transação (opcional)
+   * @param retry - Tentativa que falhou, erro e espera até a próxima
+   * @param database - Nome do banco de origem ('default' para o banco principal, 'default:replica1' para sua primeira réplica)
+   * @returns Promise<void>
+   */
+  onRetry?(retry: RetryNotice, database?: string): Promise<void>;
+
+  /**
+   * Executado quando uma instrução é recusada pela política de SQL (opcional)
+   * @param violation - Regra violada, mensagem, consulta e objeto recusado
+   * @param database - Nome do banco de origem ('default' para o banco principal, 'default:replica1' para sua primeira réplica)
+   * @returns Promise<void>
+   */
+  onPolicyViolation?(violation: SqlPolicyViolation, database?: string): Promise<void>;
+
+  /**
+   * Executado quando a conexão com o banco é perdida (opcional)
+   * @param error - Erro de conexão que abriu o circuito
+   * @param database - Nome do banco de origem ('default' para o banco principal, 'default:replica1' para sua primeira réplica)
+   * @returns Promise<void>
+   */
+  onDisconnected?(error: unknown, database?: string): Promise<void>;
+
+  /**
+   * Executado quando a reconexão automática restabelece a conexão (opcional)
+   * @param reconnect - Tentativas e tempo sem conexão
+   * @param database - Nome do banco de origem ('default' para o banco principal, 'default:replica1' para sua primeira réplica)
+   * @returns Promise<void>
+   */
+  onReconnected?(reconnect: ReconnectNotice, database?: string): Promise<void>;
+
+  /**
+   * Executado a cada transição de estado da conexão (opcional)
+   * @param change - Estado anterior, novo estado e retrato completo da conexão
+   * @param database - Nome do banco de origem ('default' para o banco principal, 'default:replica1' para sua primeira réplica)
    * @returns Promise<void>
    */
-  onError(error: any): Promise<void>;
+  onStateChange?(change: ConnectionStateChange, database?: string): Promise<void>;
 
   /**
    * Executado durante a destruição do plugin
@@ -0,0 +1,297 @@
+import { Knex } from 'knex';
+import { ColumnNameMapper } from '../core/ColumnNames';
+import { assertIdentifiers, toStoredName } from './SqlIdentifiers';
+
+/**
+ * Comportamento do bulkInsert quando um bloco falha
+ * - rollback: interrompe a importação e lança BulkInsertError (em transação única, nada é gravado)
+ * - continue: registra a falha e segue com os próximos blocos
+ */
+export type BulkInsertErrorPolicy = 'rollback' | 'continue';
+
+/**
+ * Progresso informado após cada bloco
+ */
+export interface BulkInsertProgress {
+  table: string;
+  /** Linhas inseridas até o momento */
+  inserted: number;
+  /** Linhas dos blocos que falharam até o momento */
+  failed: number;
+  /** Total de linhas da importação */
+  total: number;
+  /** Número (base 1) do bloco concluído */
+  chunk: number;
+  /** Quantidade de blocos da importação */
+  chunks: number;
+}
+
+/**
+ * Opções do bulkInsert
+ */
+export interface BulkInsertOptions {
+  /** Máximo de linhas por bloco; o bloco pode ser menor para caber nos limites do Firebird (padrão: 500) */
+  chunkSize?: number;
+  /** Executa todos os blocos em uma única transação (padrão: true); com false, cada bloco é confirmado ao terminar */
+  transaction?: boolean;
+  /** Comportamento quando um bloco falha (padrão: rollback) */
+  onError?: BulkInsertErrorPolicy;
+  /** Função chamada após cada bloco */
+  onProgress?: (progress: BulkInsertProgress) => void | Promise<void>;
+  /** Timeout de cada bloco em milissegundos; sobrescreve FirebirdConfig.queryTimeout (0 desativa) */
+  timeout?: number;
+}
+
+/**
+ * Bloco que falhou com onError: 'continue'
+ */
+export interface BulkInsertFailure {
+  /** Índice (base 0) do bloco */
+  chunk: number;
+  /** Índice da primeira linha do bloco */
+  offset: number;
+  /** Quantidade de linhas do bloco */
+  rows: number;
+  /** Erro retornado pelo banco */
+  error: unknown;
+}
+
+/**
+ * Resultado do bulkInsert
+ */
+export interface BulkInsertResult {
+  /** Linhas inseridas */
+  inserted: number;
+  /** Linhas dos blocos que falharam */
+  failed: number;
+  /** Quantidade de blocos executados */
+  chunks: number;
+  /** Blocos que falharam (apenas com onError: 'continue') */
+  failures: BulkInsertFailure[];
+}
+
+/**
+ * Faixa de linhas enviada em um EXECUTE BLOCK
+ */
+export interface BulkInsertChunk {
+  offset: number;
+  count: number;
+}
+
+/**
+ * Importação validada e dividida em blocos
+ */
+export interface BulkInsertPlan {
+  /** Chaves das linhas, na ordem das colunas */
+  keys: string[];
+  /** Início do INSERT de cada linha, até a abertura de VALUES */
+  insert: string;
+  /** Tipo de cada parâmetro (TYPE OF COLUMN), na ordem das colunas */
+  types: string[];
+  chunks: BulkInsertChunk[];
+}
+
+/** Tamanho de cada coluna da tabela na mensagem de parâmetros */
+const TABLE_COLUMNS_SQL = `
+  SELECT TRIM(rf.RDB$FIELD_NAME) AS FIELD_NAME,
+         f.RDB$FIELD_LENGTH AS FIELD_LENGTH
+    FROM RDB$RELATION_FIELDS rf
+    JOIN RDB$FIELDS f ON f.RDB$FIELD_NAME = rf.RDB$FIELD_SOURCE
+   WHERE rf.RDB$RELATION_NAME = ?`;
+
+/** Quantidade padrão de linhas por bloco */
+const DEFAULT_CHUNK_SIZE = 500;
+
+/** Tamanho máximo da mensagem de parâmetros de uma instrução, em bytes */
+const MAX_MESSAGE_SIZE = 65535;
+
+/** Bytes de cada parâmetro além do valor: prefixo de VARCHAR, indicador de nulo e alinhamento */
+const PARAMETER_OVERHEAD = 8;
+
+/** Tamanho máximo do texto da instrução (limite do Firebird 2.5; a partir do 3.0 é 10 MB) */
+const MAX_STATEMENT_LENGTH = 65535;
+
+/** Texto fixo do bloco: cabeçalho, AS, BEGIN e END */
+const BLOCK_OVERHEAD = 'EXECUTE BLOCK ()\nAS\nBEGIN\nEND'.length;
+
+/**
+ * Classe responsável por dividir importações em blocos EXECUTE BLOCK com vários INSERTs.
+ *
+ * Cada bloco envia as linhas como parâmetros tipados pela própria coluna
+ * (`P0 TYPE OF COLUMN TABELA.COLUNA = ?`) e executa um INSERT por linha no
+ * servidor, com uma única ida e volta. O tamanho de cada bloco respeita o
+ * `chunkSize` e os limites do Firebird para a mensagem de parâmetros e para o
+ * texto da instrução, calculados a partir do tamanho das colunas no catálogo.
+ */
+export class BulkInsertBuilder {
+  /**
+   * Lê do catálogo o tamanho de cada coluna da tabela
+   * @param executor - Conexão ou transação usada na consulta ao catálogo
+   * @param tableName - Nome da tabela
+   * @param mapper - Conversão de nomes de colunas em uso (opcional)
+   * @returns Tamanho em bytes de cada coluna, pelo nome gravado no catálogo
+   * @throws Erro se a tabela não existir
+   */
+  async describeColumns(
+    executor: Knex | Knex.Transaction,
+    tableName: string,
+    mapper?: ColumnNameMapper | null
+  ): Promise<Map<string, number>> {
+    const rows: any[] = (await executor.raw(TABLE_COLUMNS_SQL, [this.toIdentifier(tableName, mapper, true)])) || [];
+    if (rows.length === 0) {
+      throw new Error(`Tabela não encontrada: ${tableName}`);
+    }
+
+    // As linhas do catálogo também passam pela conversão de nomes de colunas
+    const read = (row: any, column: string) => row[mapper ? mapper.toProperty(column) : column];
+    return new Map(rows.map((row) => [read(row, 'FIELD_NAME'), Number(read(row, 'FIELD_LENGTH'))]));
+  }
+
+  /**
+   * Valida as linhas e divide a importação em blocos
+   * @param tableName - Nome da tabela
+   * @param rows - Linhas a serem inseridas; todas com as mesmas chaves
+   * @param columns - Tamanho das colunas lido por describeColumns
+   * @param chunkSize - Máximo de linhas por bloco (opcional)
+   * @param mapper - Conversão de nomes de colunas em uso (opcional)
+   * @returns Importação dividida em blocos
+   * @throws Erro se as linhas forem inválidas ou tiverem colunas desconhecidas
+   */
+  prepare(
+    tableName: string,
+    rows: Record<string, any>[],
+    columns: Map<string, number>,
+    chunkSize: number = DEFAULT_CHUNK_SIZE,
+    mapper?: ColumnNameMapper | null
+  ): BulkInsertPlan {
+    if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+      throw new Error('chunkSize deve ser um inteiro maior que zero');
+    }
+
+    const keys = Object.keys(rows[0] || {});
+    if (keys.length === 0) {
+      throw new Error('bulkInsert exige linhas com ao menos uma coluna');
+    }
+    rows.forEach((row, index) => {
+      const rowKeys = row && typeof row === 'object' ? Object.keys(row) : [];
+      if (rowKeys.length !== keys.length || !keys.every((key) => key in row)) {
+        throw new Error(`A linha ${index} do bulkInsert não tem as mesmas colunas da primeira linha`);
+      }
+    });
+
+    const table = this.toIdentifier(tableName, mapper);
+    const identifiers = keys.map((key) => this.toIdentifier(key, mapper));
+    let rowMessage = 0;
+    identifiers.forEach((identifier, index) => {
+      const length = columns.get(toStoredName(identifier));
+      if (length === undefined) {
+        throw new Error(`Coluna desconhecida na tabela ${tableName}: ${keys[index]}`);
+      }
+      rowMessage += length + PARAMETER_OVERHEAD;
+    });
+
+    const plan: BulkInsertPlan = {
+      keys,
+      insert: `INSERT INTO ${table} (${identifiers.join(', ')}) VALUES (`,
+      types: identifiers.map((identifier) => `TYPE OF COLUMN ${table}.${identifier}`),
+      chunks: []
+    };
+
+    // Cada bloco recebe linhas enquanto couber na mensagem e no texto da instrução; ao menos uma linha por bloco
+    let offset = 0;
+    while (offset < rows.length) {
+      let count = 0;
+      let message = 0;
+      let length = BLOCK_OVERHEAD;
+      while (offset + count < rows.length && count < chunkSize) {
+        const rowLength = this.rowLength(plan, count);
+        if (count > 0 && (message + rowMessage > MAX_MESSAGE_SIZE || length + rowLength > MAX_STATEMENT_LENGTH)) {
+          break;
+        }
+        message += rowMessage;
+        length += rowLength;
+        count++;
+      }
+      plan.chunks.push({ offset, count });
+      offset += count;
+    }
+
+    return plan;
+  }
+
+  /**
+   * Monta o EXECUTE BLOCK de um bloco
+   * @param plan - Importação preparada
+   * @param rows - Linhas da importação
+   * @param chunk - Faixa de linhas do bloco
+   * @returns SQL e valores dos parâmetros
+   */
+  build(plan: BulkInsertPlan, rows: Record<string, any>[], chunk: BulkInsertChunk): { sql: string; bindings: any[] } {
+    const declarations: string[] = [];
+    const statements: string[] = [];
+    const bindings: any[] = [];
+
+    for (let index = 0; index < chunk.count; index++) {
+      const row = rows[chunk.offset + index];
+      declarations.push(this.rowDeclarations(plan, index));
+      statements.push(this.rowInsert(plan, index));
+      for (const key of plan.keys) {
+        bindings.push(row[key] === undefined ? null : row[key]);
+      }
+    }
+
+    return {
+      sql: `EXECUTE BLOCK (${declarations.join(', ')})\nAS\nBEGIN\n${statements.join('')}END`,
+      bindings
+    };
+  }
+
+  /**
+   * Calcula o tamanho, em bytes, do texto acrescentado ao bloco por uma linha
+   * @param plan - Importação preparada
+   * @param index - Posição da linha no bloco
+   * @returns Tamanho das declarações e do INSERT da linha
+   */
+  private rowLength(plan: BulkInsertPlan, index: number): number {
+    const separator = index > 0 ? 2 : 0;
+    return separator +
+      Buffer.byteLength(this.rowDeclarations(plan, index)) +
+      Buffer.byteLength(this.rowInsert(plan, index));
+  }
+
+  /**
+   * Declara os parâmetros de uma linha
+   * @param plan - Importação preparada
+   * @param index - Posição da linha no bloco
+   * @returns Declarações no formato `P0 TYPE OF COLUMN TABELA.COLUNA = ?`
+   */
+  private rowDeclarations(plan: BulkInsertPlan, index: number): string {
+    const first = index * plan.keys.length;
+    return plan.types.map((type, column) => `P${first + column} ${type} = ?`).join(', ');
+  }
+
+  /**
+   * Monta o INSERT de uma linha
+   * @param plan - Importação preparada
+   * @param index - Posição da linha no bloco
+   * @returns INSERT referenciando os parâmetros da linha
+   */
+  private rowInsert(plan: BulkInsertPlan, index: number): string {
+    const first = index * plan.keys.length;
+    return `${plan.insert}${plan.keys.map((_, column) => `:P${first + column}`).join(', ')});\n`;
+  }
+
+  /**
+   * Converte um nome informado pela aplicação em identificador SQL validado
+   * @param name - Nome da tabela ou da coluna
+   * @param mapper - Conversão de nomes de colunas em uso (opcional)
+   * @param stored - Retorna o nome gravado no catálogo em vez do identificador
+   * @returns Identificador SQL, ou o nome gravado no catálogo
+   * @throws Erro se o identificador for inválido
+   */
+  private toIdentifier(name: string, mapper?: ColumnNameMapper | null, stored: boolean = false): string {
+    const identifier = mapper ? mapper.toColumn(name) : name;
+    assertIdentifiers([identifier]);
+    return stored ? toStoredName(identifier) : identifier;
+  }
+}
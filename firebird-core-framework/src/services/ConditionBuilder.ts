@@ -0,0 +1,346 @@
+import { Knex } from 'knex';
+import { assertIdentifiers } from './SqlIdentifiers';
+
+/**
+ * Valores aceitos nas condições; todos são enviados como parâmetros
+ */
+export type ConditionValue = string | number | boolean | null | Date;
+
+/**
+ * Operadores aplicáveis a um campo
+ */
+export interface FieldOperators {
+  /** Igual (null gera IS NULL) */
+  $eq?: ConditionValue;
+  /** Diferente (null gera IS NOT NULL) */
+  $ne?: ConditionValue;
+  /** Maior que */
+  $gt?: ConditionValue;
+  /** Maior ou igual */
+  $gte?: ConditionValue;
+  /** Menor que */
+  $lt?: ConditionValue;
+  /** Menor ou igual */
+  $lte?: ConditionValue;
+  /** Contido na lista (IN) */
+  $in?: ConditionValue[];
+  /** Fora da lista (NOT IN) */
+  $nin?: ConditionValue[];
+  /** Entre dois valores, inclusive (BETWEEN) */
+  $between?: [ConditionValue, ConditionValue];
+  /** true gera IS NULL; false gera IS NOT NULL */
+  $null?: boolean;
+  /** Padrão LIKE, com % e _ */
+  $like?: string;
+  /** Padrão NOT LIKE */
+  $notLike?: string;
+  /** Contém o texto, sem diferenciar maiúsculas de minúsculas (CONTAINING) */
+  $containing?: string;
+  /** Começa com o texto (STARTING WITH) */
+  $startingWith?: string;
+  /** Nega os operadores informados */
+  $not?: FieldOperators;
+}
+
+/**
+ * Condição de um campo: valor para igualdade ou objeto de operadores
+ */
+export type FieldCondition = ConditionValue | FieldOperators;
+
+/**
+ * Condições WHERE serializáveis em JSON.
+ * Campos no mesmo objeto são combinados com AND.
+ *
+ * @example
+ * { status: { $in: ['A', 'P'] }, valor: { $gte: 100 }, $or: [{ nome: { $containing: 'silva' } }, { vip: true }] }
+ */
+export interface Conditions {
+  /** Todas as condições devem ser atendidas */
+  $and?: Conditions[];
+  /** Ao menos uma das condições deve ser atendida */
+  $or?: Conditions[];
+  /** Nega o grupo de condições */
+  $not?: Conditions;
+  [field: string]: FieldCondition | Conditions | Conditions[] | undefined;
+}
+
+/** Operadores de comparação e seus equivalentes SQL */
+const COMPARISON_OPERATORS: Record<string, string> = {
+  $gt: '>',
+  $gte: '>=',
+  $lt: '<',
+  $lte: '<=',
+  $like: 'like',
+  $notLike: 'not like'
+};
+
+/** Operadores do Firebird sem suporte no query builder do Knex */
+const FIREBIRD_OPERATORS: Record<string, string> = {
+  $containing: 'containing',
+  $startingWith: 'starting with'
+};
+
+/** Operadores de grupo aceitos no nível das condições */
+const LOGICAL_OPERATORS = ['$and', '$or', '$not'];
+
+/**
+ * Converte o nome de um campo na coluna ou expressão usada no SQL
+ * (ex.: alias de agregação no HAVING)
+ */
+export type FieldResolver = (field: string) => string | Knex.Raw;
+
+/** Resolução padrão: o campo deve ser um identificador válido */
+const resolveIdentifier: FieldResolver = (field) => {
+  assertIdentifiers([field]);
+  return field;
+};
+
+/**
+ * Classe responsável por converter condições em cláusulas WHERE do Knex.
+ * Nomes de campos são validados como identificadores e todos os valores
+ * são enviados como parâmetros, nunca concatenados ao SQL.
+ */
+export class ConditionBuilder {
+  /**
+   * Adiciona as condições ao query builder
+   * @param queryBuilder - Query builder da tabela
+   * @param conditions - Condições WHERE (opcional)
+   * @param resolveField - Conversão dos nomes de campo; por padrão exige identificadores válidos (opcional)
+   * @returns Query builder com as condições
+   * @throws Erro se a condição for inválida
+   */
+  apply(
+    queryBuilder: Knex.QueryBuilder,
+    conditions?: Conditions,
+    resolveField: FieldResolver = resolveIdentifier
+  ): Knex.QueryBuilder {
+    if (conditions === undefined) {
+      return queryBuilder;
+    }
+    this.assertObject(conditions, 'as condições devem ser um objeto');
+    this.applyGroup(queryBuilder, conditions, resolveField);
+    return queryBuilder;
+  }
+
+  /**
+   * Verifica se as condições contêm ao menos um predicado
+   * @param conditions - Condições WHERE (opcional)
+   * @returns true se alguma linha puder ser filtrada pelas condições
+   */
+  hasPredicates(conditions?: Conditions): boolean {
+    if (!conditions || typeof conditions !== 'object') {
+      return false;
+    }
+
+    return Object.entries(conditions).some(([key, value]) => {
+      if (key === '$and' || key === '$or') {
+        return Array.isArray(value) && value.some((item) => this.hasPredicates(item));
+      }
+      if (key === '$not') {
+        return this.hasPredicates(value as Conditions);
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Aplica um grupo de condições combinadas com AND
+   * @param builder - Query builder ou grupo de condições do Knex
+   * @param conditions - Condições do grupo
+   * @param resolveField - Conversão dos nomes de campo
+   */
+  private applyGroup(builder: Knex.QueryBuilder, conditions: Conditions, resolveField: FieldResolver): void {
+    for (const [key, value] of Object.entries(conditions)) {
+      if (key.startsWith('$')) {
+        this.applyLogical(builder, key, value, resolveField);
+      } else {
+        this.applyField(builder, key, resolveField(key), value as FieldCondition);
+      }
+    }
+  }
+
+  /**
+   * Aplica um operador de grupo ($and, $or, $not)
+   * @param builder - Query builder ou grupo de condições do Knex
+   * @param operator - Operador de grupo
+   * @param value - Condições do operador
+   * @param resolveField - Conversão dos nomes de campo
+   */
+  private applyLogical(builder: Knex.QueryBuilder, operator: string, value: any, resolveField: FieldResolver): void {
+    if (!LOGICAL_OPERATORS.includes(operator)) {
+      throw new Error(`Condição inválida: operador desconhecido ${operator}`);
+    }
+
+    if (operator === '$not') {
+      this.assertObject(value, '$not exige um objeto de condições');
+      builder.whereNot((group) => this.applyGroup(group, value, resolveField));
+      return;
+    }
+
+    if (!Array.isArray(value)) {
+      throw new Error(`Condição inválida: ${operator} exige um array de condições`);
+    }
+    value.forEach((item) => this.assertObject(item, `${operator} exige um array de condições`));
+
+    builder.where((group) => {
+      for (const item of value) {
+        if (operator === '$or') {
+          group.orWhere((inner) => this.applyGroup(inner, item, resolveField));
+        } else {
+          group.where((inner) => this.applyGroup(inner, item, resolveField));
+        }
+      }
+    });
+  }
+
+  /**
+   * Aplica a condição de um campo
+   * @param builder - Query builder ou grupo de condições do Knex
+   * @param field - Nome do campo, usado nas mensagens de erro
+   * @param column - Coluna ou expressão correspondente ao campo
+   * @param condition - Valor ou objeto de operadores
+   */
+  private applyField(builder: Knex.QueryBuilder, field: string, column: string | Knex.Raw, condition: FieldCondition): void {
+    if (condition === undefined) {
+      throw new Error(`Condição inválida: valor indefinido para ${field}`);
+    }
+
+    if (this.isScalar(condition)) {
+      this.applyOperator(builder, field, column, '$eq', condition);
+      return;
+    }
+
+    if (Array.isArray(condition)) {
+      throw new Error(`Condição inválida: use $in para comparar ${field} com uma lista`);
+    }
+
+    const operators = Object.entries(condition as FieldOperators);
+    if (operators.length === 0) {
+      throw new Error(`Condição inválida: nenhum operador informado para ${field}`);
+    }
+
+    for (const [operator, value] of operators) {
+      this.applyOperator(builder, field, column, operator, value);
+    }
+  }
+
+  /**
+   * Aplica um operador a um campo
+   * @param builder - Query builder ou grupo de condições do Knex
+   * @param field - Nome do campo, usado nas mensagens de erro
+   * @param column - Coluna ou expressão correspondente ao campo
+   * @param operator - Operador ($eq, $gte, $in...)
+   * @param value - Valor do operador
+   */
+  private applyOperator(
+    builder: Knex.QueryBuilder,
+    field: string,
+    column: string | Knex.Raw,
+    operator: string,
+    value: any
+  ): void {
+    // O Knex aceita expressões (Raw) nos métodos where*, embora os tipos exijam texto
+    const target = column as string;
+
+    switch (operator) {
+      case '$eq':
+        this.assertScalar(field, operator, value);
+        if (value === null) {
+          builder.whereNull(target);
+        } else {
+          builder.where(target, value);
+        }
+        return;
+      case '$ne':
+        this.assertScalar(field, operator, value);
+        if (value === null) {
+          builder.whereNotNull(target);
+        } else {
+          builder.where(target, '<>', value);
+        }
+        return;
+      case '$in':
+      case '$nin':
+        if (!Array.isArray(value)) {
+          throw new Error(`Condição inválida: ${operator} de ${field} exige um array`);
+        }
+        value.forEach((item) => this.assertScalar(field, operator, item));
+        if (operator === '$in') {
+          builder.whereIn(target, value);
+        } else {
+          builder.whereNotIn(target, value);
+        }
+        return;
+      case '$between':
+        if (!Array.isArray(value) || value.length !== 2) {
+          throw new Error(`Condição inválida: $between de ${field} exige dois valores`);
+        }
+        value.forEach((item) => this.assertScalar(field, operator, item));
+        builder.whereBetween(target, value as [any, any]);
+        return;
+      case '$null':
+        if (typeof value !== 'boolean') {
+          throw new Error(`Condição inválida: $null de ${field} exige true ou false`);
+        }
+        if (value) {
+          builder.whereNull(target);
+        } else {
+          builder.whereNotNull(target);
+        }
+        return;
+      case '$not':
+        this.assertObject(value, `$not de ${field} exige um objeto de operadores`);
+        builder.whereNot((group) => this.applyField(group, field, column, value));
+        return;
+    }
+
+    // Apenas chaves próprias: condições vindas de JSON não devem alcançar o protótipo (toString, constructor)
+    if (Object.prototype.hasOwnProperty.call(COMPARISON_OPERATORS, operator)) {
+      this.assertScalar(field, operator, value);
+      builder.where(target, COMPARISON_OPERATORS[operator], value);
+      return;
+    }
+
+    if (Object.prototype.hasOwnProperty.call(FIREBIRD_OPERATORS, operator)) {
+      if (typeof value !== 'string') {
+        throw new Error(`Condição inválida: ${operator} de ${field} exige um texto`);
+      }
+      builder.whereRaw(`?? ${FIREBIRD_OPERATORS[operator]} ?`, [target, value]);
+      return;
+    }
+
+    throw new Error(`Condição inválida: operador desconhecido ${operator} em ${field}`);
+  }
+
+  /**
+   * Verifica se o valor é aceito como parâmetro
+   * @param value - Valor a ser verificado
+   * @returns true se for string, número, booleano, null ou Date
+   */
+  private isScalar(value: unknown): value is ConditionValue {
+    return value === null || value instanceof Date || ['string', 'number', 'boolean'].includes(typeof value);
+  }
+
+  /**
+   * Garante que o valor do operador é aceito como parâmetro
+   * @param field - Nome do campo
+   * @param operator - Operador
+   * @param value - Valor informado
+   */
+  private assertScalar(field: string, operator: string, value: unknown): void {
+    if (!this.isScalar(value)) {
+      throw new Error(`Condição inválida: valor de ${operator} em ${field} deve ser texto, número, booleano, data ou null`);
+    }
+  }
+
+  /**
+   * Garante que o valor é um objeto simples
+   * @param value - Valor informado
+   * @param message - Mensagem usada no erro
+   */
+  private assertObject(value: unknown, message: string): void {
+    if (value === null || typeof value !== 'object' || Array.isArray(value) || value instanceof Date) {
+      throw new Error(`Condição inválida: ${message}`);
+    }
+  }
+}
@@ -0,0 +1,255 @@
+import { isValidIdentifier } from './SqlIdentifiers';
+import { SqlLexer, SqlLexerError, SqlToken } from './SqlLexer';
+
+/**
+ * Parâmetro de entrada de um EXECUTE BLOCK
+ */
+export interface BlockParameter {
+  /** Tipo do parâmetro (ex.: INTEGER, VARCHAR(60), NUMERIC(15,2), TYPE OF COLUMN CLIENTES.NOME) */
+  type: string;
+  /** Valor enviado como parâmetro da instrução */
+  value: any;
+}
+
+/**
+ * Definição de um EXECUTE BLOCK
+ */
+export interface ExecuteBlock {
+  /** Parâmetros de entrada por nome, na ordem da declaração (opcional) */
+  params?: Record<string, BlockParameter>;
+  /** Parâmetros de saída por nome e tipo; cada SUSPEND devolve uma linha com eles (opcional) */
+  returns?: Record<string, string>;
+  /** Corpo do bloco após AS: declarações de variáveis seguidas de BEGIN ... END */
+  body: string;
+}
+
+/**
+ * Política de confiança do executeBlock. O corpo do bloco é código da aplicação e
+ * não passa pelo filtro de palavras-chave das consultas; esta política define o que
+ * ele pode conter.
+ */
+export interface ExecuteBlockPolicy {
+  /** Habilita executeBlock (padrão: false) */
+  enabled?: boolean;
+  /** Permite INSERT, UPDATE, DELETE, MERGE e EXECUTE PROCEDURE no corpo (padrão: true) */
+  allowWrites?: boolean;
+  /** Permite SQL dinâmico com EXECUTE STATEMENT no corpo (padrão: false) */
+  allowDynamicSql?: boolean;
+}
+
+/**
+ * Instrução EXECUTE BLOCK montada
+ */
+export interface BuiltBlock {
+  sql: string;
+  bindings: any[];
+}
+
+/** Palavras-chave de DDL, nunca aceitas no corpo do bloco */
+const DDL_KEYWORDS = ['DROP', 'TRUNCATE', 'ALTER', 'CREATE', 'RECREATE', 'GRANT', 'REVOKE'];
+
+/** Palavras-chave de escrita, aceitas conforme allowWrites */
+const WRITE_KEYWORDS = ['INSERT', 'UPDATE', 'DELETE', 'MERGE'];
+
+/** Nome simples usado em TYPE OF e TYPE OF COLUMN */
+const NAME = '[A-Z][A-Z0-9_$]*';
+
+/** Tipos de dados aceitos nas declarações, já normalizados (maiúsculas, sem espaços extras) */
+const DATA_TYPE_PATTERNS = [
+  /^(SMALLINT|INTEGER|INT|BIGINT|INT128|REAL|DOUBLE PRECISION|DATE|BOOLEAN)$/,
+  /^FLOAT(\(\d+\))?$/,
+  /^DECFLOAT(\((16|34)\))?$/,
+  /^(NUMERIC|DECIMAL)(\(\d+(,\d+)?\))?$/,
+  /^(TIME|TIMESTAMP)( WITH(OUT)? TIME ZONE)?$/,
+  /^(CHAR|CHARACTER|VARCHAR|CHARACTER VARYING|BINARY|VARBINARY)(\(\d+\))?( CHARACTER SET [A-Z0-9_]+)?$/,
+  /^BLOB( SUB_TYPE (TEXT|BINARY|-?\d+))?( CHARACTER SET [A-Z0-9_]+)?$/,
+  new RegExp(`^TYPE OF (COLUMN ${NAME}\\.${NAME}|${NAME})$`)
+];
+
+/**
+ * Classe responsável por montar instruções EXECUTE BLOCK a partir de declarações
+ * tipadas e por aplicar a política de confiança ao corpo do bloco.
+ *
+ * O cabeçalho é gerado pelo framework: nomes e tipos são validados e os valores
+ * vão sempre como parâmetros (`NOME TIPO = ?`). O corpo deve usar os parâmetros
+ * declarados (`:NOME`); marcadores `?` não são aceitos nele.
+ */
+export class ExecuteBlockBuilder {
+  private lexer: SqlLexer = new SqlLexer();
+
+  /**
+   * Monta a instrução EXECUTE BLOCK
+   * @param block - Parâmetros, retornos e corpo do bloco
+   * @param policy - Política de confiança em uso (opcional)
+   * @returns SQL e valores dos parâmetros
+   * @throws Erro se o bloco estiver desabilitado, se alguma declaração for inválida ou se o corpo violar a política
+   */
+  build(block: ExecuteBlock, policy?: ExecuteBlockPolicy): BuiltBlock {
+    if (!policy?.enabled) {
+      throw new Error('executeBlock está desabilitado; habilite-o em FirebirdConfig.executeBlock');
+    }
+    if (!block || typeof block.body !== 'string' || !block.body.trim()) {
+      throw new Error('Bloco inválido: body é obrigatório');
+    }
+
+    const names = new Set<string>();
+    const params = Object.entries(block.params || {});
+    const returns = Object.entries(block.returns || {});
+
+    const inputs = params.map(([name, parameter]) => {
+      if (!parameter || typeof parameter !== 'object' || !('type' in parameter)) {
+        throw new Error(`Bloco inválido: o parâmetro ${name} deve ser informado como { type, value }`);
+      }
+      return `${this.declare(name, parameter.type, names)} = ?`;
+    });
+    const outputs = returns.map(([name, type]) => this.declare(name, type, names));
+
+    const body = this.inspectBody(block.body, policy);
+
+    const header = ['EXECUTE BLOCK'];
+    if (inputs.length > 0) {
+      header.push(` (${inputs.join(', ')})`);
+    }
+    if (outputs.length > 0) {
+      header.push(`\nRETURNS (${outputs.join(', ')})`);
+    }
+
+    return {
+      sql: `${header.join('')}\nAS\n${body}`,
+      bindings: params.map(([, parameter]) => parameter.value)
+    };
+  }
+
+  /**
+   * Valida e formata a declaração de um parâmetro de entrada ou saída
+   * @param name - Nome do parâmetro
+   * @param type - Tipo declarado
+   * @param names - Nomes já declarados no bloco
+   * @returns Declaração no formato `NOME TIPO`
+   * @throws Erro se o nome ou o tipo forem inválidos ou se o nome estiver repetido
+   */
+  private declare(name: string, type: string, names: Set<string>): string {
+    if (!isValidIdentifier(name)) {
+      throw new Error(`Bloco inválido: nome de parâmetro inválido: ${name}`);
+    }
+
+    const key = name.startsWith('"') ? name : name.toUpperCase();
+    if (names.has(key)) {
+      throw new Error(`Bloco inválido: parâmetro declarado mais de uma vez: ${name}`);
+    }
+    names.add(key);
+
+    return `${name} ${this.normalizeType(name, type)}`;
+  }
+
+  /**
+   * Normaliza um tipo de dados e confere se ele é aceito
+   * @param name - Nome do parâmetro, usado na mensagem de erro
+   * @param type - Tipo declarado
+   * @returns Tipo em maiúsculas, com NOT NULL opcional
+   * @throws Erro se o tipo não for reconhecido
+   */
+  private normalizeType(name: string, type: string): string {
+    const normalized = String(type ?? '')
+      .trim()
+      .replace(/\s+/g, ' ')
+      .replace(/\s*([(,.])\s*/g, '$1')
+      .replace(/\s+\)/g, ')')
+      .toUpperCase();
+
+    const notNull = / NOT NULL$/.test(normalized);
+    const base = notNull ? normalized.slice(0, -' NOT NULL'.length) : normalized;
+
+    if (!DATA_TYPE_PATTERNS.some((pattern) => pattern.test(base))) {
+      throw new Error(`Bloco inválido: tipo não suportado para o parâmetro ${name}: ${type}`);
+    }
+    return normalized;
+  }
+
+  /**
+   * Verifica a estrutura do corpo e aplica a política de confiança
+   * @param body - Corpo do bloco
+   * @param policy - Política de confiança em uso
+   * @returns Corpo sem comentários, espaços e terminador finais
+   * @throws Erro com a posição (no corpo) do token que violou a política
+   */
+  private inspectBody(body: string, policy: ExecuteBlockPolicy): string {
+    let tokens: SqlToken[];
+    try {
+      tokens = this.lexer.tokenize(body);
+    } catch (error) {
+      if (error instanceof SqlLexerError) {
+        throw new Error(`Bloco inválido: corpo malformado: ${error.message}`);
+      }
+      throw error;
+    }
+
+    const significant = this.lexer.significant(tokens);
+    const reject = (message: string, token: SqlToken): never => {
+      throw new Error(`Bloco inválido: ${message} (linha ${token.line}, coluna ${token.column} do corpo)`);
+    };
+
+    // Um terminador após o END final é tolerado e removido
+    const last = significant[significant.length - 1];
+    const statement = last?.value === ';' ? significant.slice(0, -1) : significant;
+    const end = last?.value === ';' ? last.position : body.length;
+
+    if (statement.length === 0) {
+      throw new Error('Bloco inválido: body é obrigatório');
+    }
+    if (statement[0].normalized !== 'DECLARE' && statement[0].normalized !== 'BEGIN') {
+      reject('o corpo deve começar por DECLARE ou BEGIN', statement[0]);
+    }
+    if (statement[statement.length - 1].normalized !== 'END') {
+      reject('o corpo deve terminar com o END do bloco principal', statement[statement.length - 1]);
+    }
+
+    for (let i = 0; i < statement.length; i++) {
+      const token = statement[i];
+      const next = statement[i + 1];
+
+      if (token.type === 'parameter' && token.value === '?') {
+        reject('use os parâmetros declarados em params (:NOME) em vez de ?', token);
+      }
+      if (token.type !== 'parameter' && token.value.includes('?')) {
+        // O knex trata todo "?" do SQL como parâmetro, inclusive dentro de literais
+        reject('"?" não é aceito em literais; informe o texto em params', token);
+      }
+      if (token.type === 'unknown') {
+        reject('caractere não reconhecido', token);
+      }
+
+      if (token.type !== 'keyword') {
+        continue;
+      }
+
+      if (DDL_KEYWORDS.includes(token.normalized)) {
+        reject(`Keyword não permitido: ${token.normalized}`, token);
+      }
+
+      if (token.normalized === 'EXECUTE' && next?.normalized === 'STATEMENT') {
+        if (!policy.allowDynamicSql) {
+          reject('EXECUTE STATEMENT não permitido pela política (allowDynamicSql)', token);
+        }
+        continue;
+      }
+
+      if (policy.allowWrites === false) {
+        const previous = statement[i - 1];
+        const lockingRead = token.normalized === 'UPDATE' && previous?.normalized === 'FOR';
+        const write = WRITE_KEYWORDS.includes(token.normalized) ||
+          (token.normalized === 'EXECUTE' && next?.normalized === 'PROCEDURE');
+        if (write && !lockingRead) {
+          reject(`${token.normalized} não permitido pela política (allowWrites)`, token);
+        }
+      }
+    }
+
+    // Comentários são removidos: um "?" dentro deles seria tratado como parâmetro pelo knex
+    return tokens
+      .filter((token) => token.position < end)
+      .map((token) => (token.type === 'comment' ? ' ' : token.value))
+      .join('')
+      .trim();
+  }
+}
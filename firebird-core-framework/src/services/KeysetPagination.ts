@@ -0,0 +1,256 @@
+import { Knex } from 'knex';
+import { ColumnNameMapper } from '../core/ColumnNames';
+import { OrderByOption, SelectShape } from './SelectBuilder';
+import { assertIdentifiers } from './SqlIdentifiers';
+
+/**
+ * Página retornada pela paginação por cursor (keyset)
+ */
+export interface KeysetPage<T = any> {
+  /** Linhas da página, no máximo `limit` */
+  rows: T[];
+  /** Cursor para a próxima página; null quando não há mais linhas */
+  nextCursor: string | null;
+  /** Indica se existem linhas após esta página */
+  hasMore: boolean;
+}
+
+/**
+ * Opções da paginação por cursor
+ */
+export interface KeysetOptions extends Pick<SelectShape, 'orderBy' | 'limit' | 'offset'> {
+  /** Cursor recebido em `nextCursor` da página anterior; omitido na primeira página */
+  after?: string | null;
+}
+
+/**
+ * Consulta por cursor já validada
+ */
+export interface KeysetQuery {
+  /** Critérios de ordenação que formam a chave de paginação */
+  orderBy: OrderByOption[];
+  /** Tamanho da página */
+  limit: number;
+  /** Valores da chave da última linha da página anterior, ou null na primeira página */
+  after: any[] | null;
+}
+
+/** Versão do formato do cursor, para recusar cursores de versões incompatíveis */
+const CURSOR_VERSION = 1;
+
+/**
+ * Classe responsável pela paginação por cursor (keyset).
+ *
+ * Em vez de pular linhas com SKIP, cada página filtra a partir dos valores de
+ * ordenação da última linha da página anterior, ex.: `(DATA < ?) or (DATA = ? and ID < ?)`.
+ * O custo de cada página não cresce com a posição e as linhas não se repetem
+ * nem somem entre páginas quando os dados mudam. Os critérios de ordenação
+ * devem identificar cada linha de forma única (ex.: terminar pela chave primária)
+ * e não podem conter nulos.
+ *
+ * O cursor é opaco para o cliente: um JSON em base64url com os valores da chave
+ * e a ordenação que o gerou. Os valores voltam ao SQL sempre como parâmetros.
+ */
+export class KeysetPagination {
+  /**
+   * Valida as opções e decodifica o cursor
+   * @param options - Ordenação, tamanho da página e cursor
+   * @returns Consulta por cursor validada
+   * @throws Erro se as opções ou o cursor forem inválidos
+   */
+  prepare(options: KeysetOptions): KeysetQuery {
+    const orderBy = !options.orderBy ? [] : Array.isArray(options.orderBy) ? options.orderBy : [options.orderBy];
+
+    if (orderBy.length === 0) {
+      throw new Error('Paginação por cursor exige orderBy com ao menos um campo');
+    }
+    if (!Number.isInteger(options.limit) || (options.limit as number) <= 0) {
+      throw new Error('Paginação por cursor exige limit inteiro maior que zero');
+    }
+    if (options.offset) {
+      throw new Error('Paginação por cursor não aceita offset');
+    }
+    for (const criterion of orderBy) {
+      assertIdentifiers([criterion.field]);
+      if (criterion.nulls) {
+        throw new Error('Paginação por cursor não aceita nulls em orderBy; use colunas sem nulos como chave');
+      }
+    }
+
+    return {
+      orderBy,
+      limit: options.limit as number,
+      after: options.after ? this.decodeCursor(options.after, orderBy) : null
+    };
+  }
+
+  /**
+   * Adiciona o filtro a partir do cursor
+   * @param queryBuilder - Query builder da tabela
+   * @param query - Consulta por cursor validada
+   * @returns Query builder com o filtro da página
+   */
+  apply(queryBuilder: Knex.QueryBuilder, query: KeysetQuery): Knex.QueryBuilder {
+    const after = query.after;
+    if (!after) {
+      return queryBuilder;
+    }
+
+    // (A > a) or (A = a and B > b) or ..., respeitando a direção de cada campo
+    return queryBuilder.where((group) => {
+      query.orderBy.forEach((criterion, index) => {
+        group.orWhere((inner) => {
+          for (let previous = 0; previous < index; previous++) {
+            inner.where(query.orderBy[previous].field, after[previous]);
+          }
+          inner.where(criterion.field, criterion.direction === 'desc' ? '<' : '>', after[index]);
+        });
+      });
+    });
+  }
+
+  /**
+   * Monta a página a partir das linhas lidas. A consulta deve buscar `limit + 1`
+   * linhas: a linha excedente apenas indica que existe uma próxima página.
+   * @param rows - Linhas retornadas pela consulta
+   * @param query - Consulta por cursor validada
+   * @param mapper - Conversão de nomes de colunas aplicada às linhas (opcional)
+   * @returns Página com as linhas, o próximo cursor e o indicador hasMore
+   */
+  toPage<T = any>(rows: T[], query: KeysetQuery, mapper?: ColumnNameMapper | null): KeysetPage<T> {
+    const hasMore = rows.length > query.limit;
+    const pageRows = hasMore ? rows.slice(0, query.limit) : rows;
+    const last = pageRows[pageRows.length - 1] as Record<string, any> | undefined;
+
+    return {
+      rows: pageRows,
+      nextCursor: hasMore && last ? this.encodeCursor(query.orderBy, last, mapper) : null,
+      hasMore
+    };
+  }
+
+  /**
+   * Gera o cursor com os valores de ordenação de uma linha
+   * @param orderBy - Critérios de ordenação
+   * @param row - Última linha da página
+   * @param mapper - Conversão de nomes de colunas aplicada às linhas (opcional)
+   * @returns Cursor opaco em base64url
+   * @throws Erro se algum campo de ordenação não estiver na linha ou for nulo
+   */
+  encodeCursor(orderBy: OrderByOption[], row: Record<string, any>, mapper?: ColumnNameMapper | null): string {
+    const values = orderBy.map((criterion) => {
+      const value = row[this.findRowKey(row, criterion.field, mapper)];
+      if (value === null || value === undefined) {
+        throw new Error(`Valor nulo em ${criterion.field} não pode ser usado como chave de paginação`);
+      }
+      return this.encodeValue(criterion.field, value);
+    });
+
+    const payload = { v: CURSOR_VERSION, k: this.signature(orderBy), d: values };
+    return Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+  }
+
+  /**
+   * Decodifica o cursor e confere se ele foi gerado com a mesma ordenação
+   * @param cursor - Cursor opaco recebido do cliente
+   * @param orderBy - Critérios de ordenação da consulta atual
+   * @returns Valores da chave da última linha
+   * @throws Erro se o cursor for inválido ou de outra ordenação
+   */
+  decodeCursor(cursor: string, orderBy: OrderByOption[]): any[] {
+    let payload: any;
+    try {
+      payload = JSON.parse(Buffer.from(String(cursor), 'base64url').toString('utf8'));
+    } catch {
+      throw new Error('Cursor de paginação inválido');
+    }
+
+    if (
+      !payload || payload.v !== CURSOR_VERSION ||
+      !Array.isArray(payload.k) || !Array.isArray(payload.d) || payload.d.length !== payload.k.length
+    ) {
+      throw new Error('Cursor de paginação inválido');
+    }
+    if (payload.k.join(',') !== this.signature(orderBy).join(',')) {
+      throw new Error('Cursor de paginação não corresponde à ordenação informada');
+    }
+
+    return payload.d.map((value: any) => this.decodeValue(value));
+  }
+
+  /**
+   * Identifica a ordenação que gerou o cursor
+   * @param orderBy - Critérios de ordenação
+   * @returns Lista no formato `CAMPO:direção`
+   */
+  private signature(orderBy: OrderByOption[]): string[] {
+    return orderBy.map((criterion) => `${criterion.field}:${criterion.direction || 'asc'}`);
+  }
+
+  /**
+   * Localiza na linha a propriedade de um campo de ordenação. O Firebird devolve
+   * identificadores simples em maiúsculas e os delimitados sem as aspas.
+   * @param row - Linha retornada pela consulta
+   * @param field - Campo de ordenação
+   * @param mapper - Conversão de nomes de colunas aplicada às linhas (opcional)
+   * @returns Nome da propriedade na linha
+   * @throws Erro se o campo não estiver entre as colunas retornadas
+   */
+  private findRowKey(row: Record<string, any>, field: string, mapper?: ColumnNameMapper | null): string {
+    const column = mapper ? mapper.toColumn(field) : field;
+    const candidates = column.startsWith('"')
+      ? [column.slice(1, -1).replace(/""/g, '"')]
+      : [field, column.toUpperCase()];
+    if (mapper) {
+      candidates.push(...candidates.map((candidate) => mapper.toProperty(candidate)));
+    }
+
+    const key = candidates.find((candidate) => candidate in row);
+    if (key === undefined) {
+      throw new Error(`Campo de ordenação ${field} não está entre as colunas retornadas`);
+    }
+    return key;
+  }
+
+  /**
+   * Converte um valor da chave para JSON, preservando datas e inteiros grandes
+   * @param field - Campo de ordenação
+   * @param value - Valor da linha
+   * @returns Valor serializável
+   * @throws Erro se o tipo não puder ser usado como chave
+   */
+  private encodeValue(field: string, value: any): any {
+    if (value instanceof Date) {
+      return { $date: value.toISOString() };
+    }
+    if (typeof value === 'bigint') {
+      return { $bigint: value.toString() };
+    }
+    if (['string', 'number', 'boolean'].includes(typeof value)) {
+      return value;
+    }
+    throw new Error(`Tipo do campo ${field} não pode ser usado como chave de paginação`);
+  }
+
+  /**
+   * Restaura um valor da chave serializado por encodeValue
+   * @param value - Valor serializado
+   * @returns Valor usado como parâmetro da consulta
+   * @throws Erro se o valor for inválido
+   */
+  private decodeValue(value: any): any {
+    if (value && typeof value === 'object') {
+      if (typeof value.$date === 'string' && !Number.isNaN(Date.parse(value.$date))) {
+        return new Date(value.$date);
+      }
+      if (typeof value.$bigint === 'string' && /^-?\d+$/.test(value.$bigint)) {
+        return BigInt(value.$bigint);
+      }
+      throw new Error('Cursor de paginação inválido');
+    }
+    if (value === null || !['string', 'number', 'boolean'].includes(typeof value)) {
+      throw new Error('Cursor de paginação inválido');
+    }
+    return value;
+  }
+}
@@ -0,0 +1,72 @@
+import { QueryValidationError } from '../errors/FirebirdErrors';
+import { SqlLexer, SqlToken } from './SqlLexer';
+import { BuiltStatement } from './UpsertBuilder';
+
+/**
+ * Valores dos parâmetros nomeados, indexados pelo nome sem os dois-pontos
+ */
+export type NamedBindings = Record<string, any>;
+
+/**
+ * Classe responsável por converter parâmetros nomeados (`:clienteId`) nos
+ * parâmetros posicionais (`?`) aceitos pelo driver do Firebird.
+ *
+ * A consulta é percorrida pelo SqlLexer, de modo que `:nome` dentro de
+ * literais de string, identificadores entre aspas e comentários é preservado.
+ * Um nome repetido vira um `?` por ocorrência, com o mesmo valor repetido
+ * na lista de parâmetros.
+ */
+export class NamedParameterBinder {
+  private lexer = new SqlLexer();
+
+  /**
+   * Converte a consulta com parâmetros nomeados em SQL posicional
+   * @param sql - Consulta com parâmetros `:nome`
+   * @param values - Valores dos parâmetros, indexados pelo nome
+   * @returns SQL com `?` e parâmetros na ordem de ocorrência
+   * @throws QueryValidationError se faltar valor para algum parâmetro, se sobrarem
+   * valores não usados ou se a consulta também tiver parâmetros posicionais
+   */
+  bind(sql: string, values: NamedBindings): BuiltStatement {
+    const tokens = this.lexer.tokenize(sql);
+    const bindings: any[] = [];
+    const used = new Set<string>();
+    let output = '';
+
+    for (const token of tokens) {
+      if (token.type !== 'parameter') {
+        // O knex trata todo `?` como parâmetro, inclusive em literais e comentários; `\?` o preserva
+        output += token.value.replace(/\?/g, '\\?');
+        continue;
+      }
+      if (token.value === '?') {
+        throw this.invalid('Parâmetros posicionais (?) não podem ser combinados com parâmetros nomeados', token);
+      }
+
+      const name = token.normalized;
+      if (!Object.prototype.hasOwnProperty.call(values, name) || values[name] === undefined) {
+        throw this.invalid(`Parâmetro sem valor: :${name}`, token);
+      }
+      used.add(name);
+      bindings.push(values[name]);
+      output += '?';
+    }
+
+    const unused = Object.keys(values).filter((name) => !used.has(name));
+    if (unused.length > 0) {
+      throw new QueryValidationError(`Parâmetros não usados na consulta: ${unused.join(', ')}`);
+    }
+
+    return { sql: output, bindings };
+  }
+
+  /**
+   * Cria o erro de validação apontando o parâmetro
+   * @param reason - Motivo da recusa
+   * @param token - Parâmetro que originou o erro
+   * @returns Erro com linha e coluna do parâmetro
+   */
+  private invalid(reason: string, token: SqlToken): QueryValidationError {
+    return new QueryValidationError(reason, token.line, token.column);
+  }
+}
@@ -0,0 +1,183 @@
+import { Knex } from 'knex';
+import { ColumnNameMapper } from '../core/ColumnNames';
+import { toStoredName } from './SqlIdentifiers';
+import { EngineVersion, ServerVersion } from './ServerVersion';
+
+/**
+ * Parâmetro de entrada de uma stored procedure
+ */
+export interface ProcedureParameter {
+  /** Nome do parâmetro como gravado no catálogo */
+  name: string;
+  /** Indica se o parâmetro tem valor padrão (DEFAULT) e pode ser omitido */
+  hasDefault: boolean;
+}
+
+/**
+ * Metadados de uma stored procedure lidos do catálogo do Firebird
+ */
+export interface ProcedureMetadata {
+  /** Nome da procedure como gravado no catálogo */
+  name: string;
+  /** true para procedures com SUSPEND, false para executáveis, null se o servidor não informar */
+  selectable: boolean | null;
+  /** Parâmetros de entrada, na ordem da declaração */
+  inputs: ProcedureParameter[];
+  /** Nomes dos parâmetros de saída, na ordem da declaração */
+  outputs: string[];
+}
+
+/**
+ * Monta a consulta da procedure e de seus parâmetros; procedures sem parâmetros
+ * retornam uma linha com colunas de parâmetro nulas. RDB$PACKAGE_NAME existe a
+ * partir do Firebird 3.0, quando procedures de pacotes passam a dividir as tabelas.
+ * @param version - Versão do servidor
+ * @returns SQL com um parâmetro, o nome da procedure
+ */
+function procedureMetadataSql(version: EngineVersion): string {
+  const packages = version.major >= 3;
+  return `
+  SELECT p.RDB$PROCEDURE_TYPE AS PROCEDURE_TYPE,
+         TRIM(pp.RDB$PARAMETER_NAME) AS PARAMETER_NAME,
+         pp.RDB$PARAMETER_TYPE AS PARAMETER_TYPE,
+         IIF(pp.RDB$DEFAULT_SOURCE IS NULL, 0, 1) AS HAS_DEFAULT
+    FROM RDB$PROCEDURES p
+    LEFT JOIN RDB$PROCEDURE_PARAMETERS pp
+      ON pp.RDB$PROCEDURE_NAME = p.RDB$PROCEDURE_NAME${packages ? ' AND pp.RDB$PACKAGE_NAME IS NULL' : ''}
+   WHERE p.RDB$PROCEDURE_NAME = ?${packages ? ' AND p.RDB$PACKAGE_NAME IS NULL' : ''}
+   ORDER BY pp.RDB$PARAMETER_TYPE, pp.RDB$PARAMETER_NUMBER`;
+}
+
+/** Valores de RDB$PROCEDURE_TYPE */
+const SELECTABLE_PROCEDURE = 1;
+const EXECUTABLE_PROCEDURE = 2;
+
+/** Valor de RDB$PARAMETER_TYPE dos parâmetros de entrada */
+const INPUT_PARAMETER = 0;
+
+/**
+ * Classe responsável por ler e guardar em cache os parâmetros das stored procedures
+ * (RDB$PROCEDURES e RDB$PROCEDURE_PARAMETERS) e por montar os parâmetros de uma
+ * chamada a partir de um objeto nome-valor.
+ */
+export class ProcedureCatalog {
+  private cache: Map<string, ProcedureMetadata> = new Map();
+
+  /**
+   * @param serverVersion - Versão do servidor, que define a consulta ao catálogo (opcional)
+   */
+  constructor(private readonly serverVersion: ServerVersion = new ServerVersion()) {}
+
+  /**
+   * Obtém os metadados de uma procedure, consultando o catálogo apenas na primeira chamada
+   * @param executor - Conexão ou transação usada na consulta ao catálogo
+   * @param name - Nome da procedure
+   * @param mapper - Conversão de nomes de colunas em uso (opcional)
+   * @returns Promise com os metadados da procedure
+   * @throws Erro se a procedure não existir
+   */
+  async describe(
+    executor: Knex | Knex.Transaction,
+    name: string,
+    mapper?: ColumnNameMapper | null
+  ): Promise<ProcedureMetadata> {
+    const storedName = this.toStoredName(name, mapper);
+    const cached = this.cache.get(storedName);
+    if (cached) {
+      return cached;
+    }
+
+    const version = await this.serverVersion.get(executor, mapper);
+    const rows: any[] = (await executor.raw(procedureMetadataSql(version), [storedName])) || [];
+    if (rows.length === 0) {
+      throw new Error(`Procedure não encontrada: ${name}`);
+    }
+
+    // As linhas do catálogo também passam pela conversão de nomes de colunas
+    const read = (row: any, column: string) => row[mapper ? mapper.toProperty(column) : column];
+    const procedureType = read(rows[0], 'PROCEDURE_TYPE');
+    const metadata: ProcedureMetadata = {
+      name: storedName,
+      selectable: procedureType === SELECTABLE_PROCEDURE ? true : procedureType === EXECUTABLE_PROCEDURE ? false : null,
+      inputs: [],
+      outputs: []
+    };
+
+    for (const row of rows) {
+      const parameterName = read(row, 'PARAMETER_NAME');
+      if (parameterName === null || parameterName === undefined) {
+        continue;
+      }
+      if (read(row, 'PARAMETER_TYPE') === INPUT_PARAMETER) {
+        metadata.inputs.push({ name: parameterName, hasDefault: Boolean(read(row, 'HAS_DEFAULT')) });
+      } else {
+        metadata.outputs.push(parameterName);
+      }
+    }
+
+    this.cache.set(storedName, metadata);
+    return metadata;
+  }
+
+  /**
+   * Monta os valores dos parâmetros de entrada na ordem da declaração
+   * @param metadata - Metadados da procedure
+   * @param params - Valores dos parâmetros por nome
+   * @param mapper - Conversão de nomes de colunas em uso (opcional)
+   * @returns Valores na ordem dos parâmetros de entrada; parâmetros finais com DEFAULT omitidos ficam de fora
+   * @throws Erro se algum parâmetro for desconhecido ou obrigatório estiver ausente
+   */
+  bindParameters(metadata: ProcedureMetadata, params: Record<string, any>, mapper?: ColumnNameMapper | null): any[] {
+    const values = new Map<string, any>();
+    for (const [key, value] of Object.entries(params)) {
+      const storedName = this.toStoredName(key, mapper);
+      if (!metadata.inputs.some((input) => input.name === storedName)) {
+        throw new Error(`Parâmetro desconhecido para a procedure ${metadata.name}: ${key}`);
+      }
+      values.set(storedName, value);
+    }
+
+    // O Firebird só permite omitir parâmetros com DEFAULT no fim da lista
+    let count = metadata.inputs.length;
+    while (count > 0 && !values.has(metadata.inputs[count - 1].name) && metadata.inputs[count - 1].hasDefault) {
+      count--;
+    }
+
+    const bindings: any[] = [];
+    for (const input of metadata.inputs.slice(0, count)) {
+      if (!values.has(input.name)) {
+        throw new Error(
+          input.hasDefault
+            ? `Parâmetro ${input.name} da procedure ${metadata.name} deve ser informado porque parâmetros seguintes foram informados`
+            : `Parâmetro obrigatório ausente para a procedure ${metadata.name}: ${input.name}`
+        );
+      }
+      bindings.push(values.get(input.name));
+    }
+    return bindings;
+  }
+
+  /**
+   * Descarta os metadados em cache (ex.: após ALTER PROCEDURE)
+   * @param name - Procedure a ser descartada; todas quando omitido (opcional)
+   * @param mapper - Conversão de nomes de colunas em uso (opcional)
+   */
+  clear(name?: string, mapper?: ColumnNameMapper | null): void {
+    if (name === undefined) {
+      this.cache.clear();
+    } else {
+      this.cache.delete(this.toStoredName(name, mapper));
+    }
+  }
+
+  /**
+   * Converte um nome informado pela aplicação no nome gravado no catálogo:
+   * identificadores simples em maiúsculas, delimitados sem as aspas
+   * @param name - Nome da procedure ou do parâmetro
+   * @param mapper - Conversão de nomes de colunas em uso (opcional)
+   * @returns Nome como gravado no catálogo
+   */
+  private toStoredName(name: string, mapper?: ColumnNameMapper | null): string {
+    return toStoredName(mapper ? mapper.toColumn(name) : name);
+  }
+}
@@ -1,33 +1,172 @@
 import { Knex } from 'knex';
 import { ConnectionManager } from '../core/ConnectionManager';
 import { PluginManager } from '../core/PluginManager';
+import { SET_TRANSACTION_PARAM, startTransaction } from '../core/FirebirdClient';
+import { createColumnNameMapper, mapRowKeys } from '../core/ColumnNames';
+import { BlobReadSettings, DEFAULT_BLOB_STREAM_THRESHOLD, describeBlobColumns, readBlobColumns } from '../core/Blobs';
+import { isReplicaFailure, isReplicaSafe } from '../core/ReplicaRouter';
+import {
+  RetryAttempt,
+  RetryPolicy,
+  computeRetryDelay,
+  isRetryable,
+  resolveRetryPolicy,
+  validateRetryPolicy
+} from '../core/RetryPolicy';
+import {
+  TransactionOptions,
+  buildSetTransactionStatement,
+  mergeRetryPolicy,
+  mergeTransactionOptions
+} from '../core/TransactionOptions';
+import {
+  BulkInsertError,
+  QueryTimeoutError,
+  QueryValidationError,
+  TransactionRetryError,
+  toFirebirdError
+} from '../errors/FirebirdErrors';
+import { BulkInsertBuilder, BulkInsertOptions, BulkInsertResult } from './BulkInsert';
+import { ConditionBuilder, Conditions } from './ConditionBuilder';
+import { ExecuteBlock, ExecuteBlockBuilder } from './ExecuteBlockBuilder';
+import { KeysetPage, KeysetPagination, KeysetQuery } from './KeysetPagination';
+import { NamedParameterBinder } from './NamedParameters';
+import { ProcedureCatalog } from './ProcedureCatalog';
+import { ResultCursor, ResultStream, StreamOptions } from './ResultStream';
+import { SelectBuilder, SelectShape } from './SelectBuilder';
+import { SEQUENCE_NAME_COLUMN, SEQUENCE_VALUE_COLUMN, SequenceBuilder } from './SequenceBuilder';
+import { EngineVersion, ServerVersion } from './ServerVersion';
+import { assertIdentifiers } from './SqlIdentifiers';
+import {
+  SqlEntryPoint,
+  SqlObjectReference,
+  SqlPolicy,
+  SqlPolicyEngine,
+  SqlPolicyViolation,
+  ValidationResult,
+  mergeSqlPolicies
+} from './SqlPolicy';
+import { BuiltStatement, MergeOptions, UpsertBuilder, UpsertOptions } from './UpsertBuilder';
+
+export { ValidationResult };
 
 /**
  * Interface que define as opções para execução de queries
  */
 export interface QueryOptions {
+  /** Timeout para a consulta em milissegundos; sobrescreve FirebirdConfig.queryTimeout (0 desativa) */
+  timeout?: number;
+  /** Política de SQL da chamada; apenas restringe FirebirdConfig.sqlPolicy, salvo com `allowOverride` na configuração */
+  policy?: SqlPolicy;
+  /** false força a leitura no primário quando há réplicas configuradas (padrão: SELECT vai às réplicas) */
+  replica?: boolean;
+  /** Indica se a consulta deve ser executada em uma transação */
+  transaction?: boolean;
+  /** Outras opções específicas do driver */
   [key: string]: any;
 }
 
 /**
  * Interface que define as opções para execução de select
  */
-export interface SelectOptions {
-  limit?: number;
-  offset?: number;
-  orderBy?: {
-    field: string;
-    direction?: 'asc' | 'desc';
-  };
+export interface SelectOptions extends SelectShape {
+  /** Ativa a paginação por cursor: o resultado passa a ser `{ rows, nextCursor, hasMore }` */
+  keyset?: boolean;
+  /** Cursor da página anterior (`nextCursor`), usado com `keyset` */
+  after?: string | null;
+  /** Timeout para a consulta em milissegundos; sobrescreve FirebirdConfig.queryTimeout (0 desativa) */
+  timeout?: number;
+  /** Retorna um ResultStream em vez de carregar todas as linhas em memória */
+  stream?: boolean;
+  /** Quantidade de linhas buscadas por vez quando stream é true (padrão: 100) */
+  fetchSize?: number;
+  /** false força a leitura no primário quando há réplicas configuradas */
+  replica?: boolean;
+}
+
+/**
+ * Interface que define as opções para execução de insert
+ */
+export interface InsertOptions {
+  /** Colunas devolvidas pela cláusula RETURNING (ex.: chaves geradas) */
+  returning?: string[];
+  /** Timeout para cada instrução em milissegundos; sobrescreve FirebirdConfig.queryTimeout (0 desativa) */
+  timeout?: number;
+}
+
+/**
+ * Interface que define as opções para execução de update e delete
+ */
+export interface WriteOptions extends InsertOptions {
+  /** Permite alterar ou excluir todas as linhas da tabela quando não há condições */
+  allowAll?: boolean;
+}
+
+/**
+ * Interface que define as opções para execução de stored procedures
+ */
+export interface ProcedureOptions {
+  /** true para procedures com SUSPEND (SELECT * FROM PROC); false para EXECUTE PROCEDURE (padrão) */
+  selectable?: boolean;
+  /** Timeout da chamada em milissegundos; sobrescreve FirebirdConfig.queryTimeout (0 desativa) */
+  timeout?: number;
+}
+
+/**
+ * Interface que define as opções para execução de EXECUTE BLOCK
+ */
+export interface ExecuteBlockOptions {
+  /** Timeout do bloco em milissegundos; sobrescreve FirebirdConfig.queryTimeout (0 desativa) */
+  timeout?: number;
+}
+
+/**
+ * Instrução de uma transação executada por executeTransaction
+ */
+export interface TransactionQuery {
+  sql: string;
+  /** Parâmetros posicionais (lista, para `?`) ou nomeados (objeto, para `:nome`) */
+  bindings?: any[] | Record<string, any>;
+  /** Timeout da instrução em milissegundos; sobrescreve FirebirdConfig.queryTimeout (0 desativa) */
+  timeout?: number;
+}
+
+/**
+ * Função de trabalho executada dentro de uma transação interativa.
+ * Recebe um QueryService vinculado à transação.
+ */
+export type TransactionCallback<T> = (trx: QueryService) => Promise<T>;
+
+/**
+ * Estado compartilhado entre os QueryService vinculados a uma mesma transação
+ */
+interface TransactionScope {
+  trx: Knex.Transaction;
+  /** Contador usado para gerar nomes únicos de savepoint */
+  savepoints: number;
+  /** Política de SQL informada nos parâmetros da transação */
+  policy: SqlPolicy | null;
+  /** Indica se a transação executou escritas, que iniciam a janela de leitura após escrita no COMMIT */
+  wrote: boolean;
 }
 
+/** Tempo máximo de espera, em milissegundos, para a instrução encerrar após o cancelamento */
+const CANCEL_GRACE_PERIOD = 5000;
+
+/** Quantidade padrão de linhas buscadas por vez nos streams */
+const DEFAULT_FETCH_SIZE = 100;
+
+/** Marcador usado para identificar o disparo do timeout */
+const TIMED_OUT = Symbol('timedOut');
+
 /**
- * Interface que define o resultado da validação de SQL
+ * Cria uma visão do PluginManager com alguns hooks substituídos; os demais seguem o original
+ * @param pluginManager - PluginManager original
+ * @param hooks - Hooks substituídos
+ * @returns PluginManager com os hooks substituídos
  */
-export interface ValidationResult {
-  valid: boolean;
-  message?: string;
-  error?: string;
+function withHooks(pluginManager: PluginManager, hooks: Partial<Pick<PluginManager, 'beforeQuery' | 'onError'>>): PluginManager {
+  return Object.assign(Object.create(pluginManager), hooks);
 }
 
 /**
@@ -37,13 +176,30 @@ export interface ValidationResult {
 export class QueryService {
   private connectionManager: ConnectionManager;
   private pluginManager: PluginManager | null = null;
+  private policyEngine: SqlPolicyEngine = new SqlPolicyEngine();
+  private conditionBuilder: ConditionBuilder = new ConditionBuilder();
+  private selectBuilder: SelectBuilder = new SelectBuilder(this.conditionBuilder);
+  private keysetPagination: KeysetPagination = new KeysetPagination();
+  private serverVersion: ServerVersion = new ServerVersion();
+  private procedureCatalog: ProcedureCatalog = new ProcedureCatalog(this.serverVersion);
+  private executeBlockBuilder: ExecuteBlockBuilder = new ExecuteBlockBuilder();
+  private bulkInsertBuilder: BulkInsertBuilder = new BulkInsertBuilder();
+  private upsertBuilder: UpsertBuilder = new UpsertBuilder();
+  private sequenceBuilder: SequenceBuilder = new SequenceBuilder();
+  private namedParameters: NamedParameterBinder = new NamedParameterBinder();
+  private replicaServices: WeakMap<ConnectionManager, QueryService> = new WeakMap();
+  /** Serviço que refaz no primário as leituras de réplicas indisponíveis */
+  private replicaFallback: QueryService | null = null;
+  private scope: TransactionScope | null;
 
   /**
    * Construtor da classe QueryService
    * @param connectionManager - Instância do ConnectionManager para obter conexões
+   * @param scope - Transação à qual o serviço está vinculado (uso interno)
    */
-  constructor(connectionManager: ConnectionManager) {
+  constructor(connectionManager: ConnectionManager, scope: TransactionScope | null = null) {
     this.connectionManager = connectionManager;
+    this.scope = scope;
   }
 
   /**
@@ -57,31 +213,29 @@ export class QueryService {
   /**
    * Executa uma consulta SQL no banco de dados
    * @param sql - Consulta SQL a ser executada
-   * @param bindings - Parâmetros de binding para a consulta (opcional)
+   * @param bindings - Parâmetros posicionais (lista, para `?`) ou nomeados (objeto, para `:nome`) (opcional)
    * @param options - Opções adicionais para a execução (opcional)
    * @returns Promise com o resultado da consulta
    * @throws Erro se a conexão não estiver ativa ou se a consulta for inválida
    */
-  async executeQuery(sql: string, bindings?: any[] | object, options?: QueryOptions): Promise<any> {
-    if (!this.connectionManager.isConnected()) {
-      throw new Error('Conexão com o banco de dados não está ativa');
+  async executeQuery<T = any>(sql: string, bindings?: any[] | Record<string, any>, options?: QueryOptions): Promise<T[]> {
+    const replica = this.selectReplica(options?.replica, () => isReplicaSafe(sql));
+    if (replica) {
+      return await this.readFromReplica(replica, (service) => service.executeQuery<T>(sql, bindings, { ...options, replica: false }));
     }
 
+    this.assertConnected();
+
     // Emitir evento beforeQuery para plugins
     if (this.pluginManager) {
       await this.pluginManager.beforeQuery({ sql, bindings, options });
     }
 
-    const connection = this.connectionManager.getConnection();
-
     try {
-      // Validar SQL antes de executar
-      const validation = this.validateSql(sql);
-      if (!validation.valid) {
-        throw new Error(`Consulta inválida: ${validation.error}`);
-      }
+      // Validar SQL antes de executar - dentro de uma transação, operações de escrita são permitidas
+      await this.assertSqlAllowed(sql, this.scope ? 'transaction' : 'query', options?.policy);
 
-      const result = await connection!.raw(sql, bindings || []);
+      const result = await this.runWithTimeout(this.rawQuery(sql, bindings), options?.timeout);
 
       // Emitir evento afterQuery para plugins
       if (this.pluginManager) {
@@ -90,28 +244,46 @@ export class QueryService {
 
       return result;
     } catch (error) {
+      const failure = toFirebirdError(error);
+
       // Emitir evento onError para plugins
       if (this.pluginManager) {
-        await this.pluginManager.onError(error);
+        await this.pluginManager.onError(failure);
       }
-      throw error;
+      throw failure;
     }
   }
 
+  /**
+   * Executa uma consulta SQL retornando as linhas em stream, sem carregá-las em memória.
+   * O cursor mantém uma conexão do pool até o fim da leitura, erro ou interrupção.
+   * @param sql - Consulta SQL a ser executada
+   * @param bindings - Parâmetros posicionais (lista, para `?`) ou nomeados (objeto, para `:nome`) (opcional)
+   * @param options - Opções de leitura (opcional)
+   * @returns ResultStream iterável com `for await`
+   */
+  stream<T = any>(sql: string, bindings?: any[] | Record<string, any>, options?: StreamOptions): ResultStream<T> {
+    return this.createStream<T>(async () => {
+      // Validar SQL antes de abrir o cursor - dentro de uma transação, operações de escrita são permitidas
+      await this.assertSqlAllowed(sql, this.scope ? 'transaction' : 'stream');
+      return this.rawQuery(sql, bindings);
+    }, { sql, bindings, options }, options);
+  }
+
   /**
    * Executa múltiplas consultas SQL em uma transação
-   * @param queries - Array de objetos contendo sql e bindings para cada consulta
+   * @param queries - Array de objetos contendo sql, bindings e timeout para cada consulta
+   * @param options - Parâmetros da transação; sobrescrevem FirebirdConfig.transaction (opcional)
    * @returns Promise com o resultado das consultas executadas
    * @throws Erro se a conexão não estiver ativa ou se alguma consulta for inválida
    */
-  async executeTransaction(queries: Array<{ sql: string; bindings?: any[] | object }>): Promise<any> {
-    if (!this.connectionManager.isConnected()) {
-      throw new Error('Conexão com o banco de dados não está ativa');
-    }
-
-    const connection = this.connectionManager.getConnection();
+  async executeTransaction(
+    queries: TransactionQuery[],
+    options?: TransactionOptions
+  ): Promise<any> {
+    this.assertConnected();
 
-    return await connection!.transaction(async (trx) => {
+    return await this.transaction(async (scoped) => {
       const results = [];
 
       for (const query of queries) {
@@ -121,12 +293,9 @@ export class QueryService {
         }
 
         // Validar SQL antes de executar - para transações, vamos permitir operações de escrita
-        const validation = this.validateSqlForTransaction(query.sql);
-        if (!validation.valid) {
-          throw new Error(`Consulta inválida: ${validation.error}`);
-        }
+        await scoped.assertSqlAllowed(query.sql, 'transaction');
 
-        const result = await trx.raw(query.sql, query.bindings || []);
+        const result = await scoped.runWithTimeout(scoped.rawQuery(query.sql, query.bindings), query.timeout);
         results.push(result);
 
         // Emitir evento afterQuery para plugins
@@ -136,54 +305,496 @@ export class QueryService {
       }
 
       return results;
-    });
+    }, options);
   }
 
   /**
-   * Executa uma consulta SELECT usando o query builder do Knex
-   * @param tableName - Nome da tabela para consulta
-   * @param conditions - Condições WHERE como objeto chave-valor (opcional)
-   * @param options - Opções de paginação e ordenação (opcional)
-   * @returns Promise com o resultado da consulta
-   * @throws Erro se a conexão não estiver ativa
+   * Executa uma unidade de trabalho em uma transação interativa.
+   * O callback recebe um QueryService vinculado à transação, permitindo usar o
+   * resultado de uma instrução nas seguintes. A transação é confirmada quando o
+   * callback termina e desfeita se ele lançar erro. Chamadas aninhadas usam
+   * SAVEPOINT / ROLLBACK TO SAVEPOINT do Firebird.
+   * @param callback - Função de trabalho que recebe o QueryService da transação
+   * @param options - Parâmetros da transação; sobrescrevem FirebirdConfig.transaction (opcional)
+   * @returns Promise com o valor retornado pelo callback
+   * @throws Erro se a conexão não estiver ativa, se os parâmetros forem inválidos ou se o callback falhar
    */
-  async executeSelect(tableName: string, conditions?: Record<string, any>, options?: SelectOptions): Promise<any> {
-    if (!this.connectionManager.isConnected()) {
-      throw new Error('Conexão com o banco de dados não está ativa');
+  async transaction<T>(callback: TransactionCallback<T>, options?: TransactionOptions): Promise<T> {
+    this.assertConnected();
+
+    if (this.scope) {
+      if (options) {
+        throw new Error('Parâmetros de transação não podem ser alterados em transações aninhadas');
+      }
+      return await this.runInSavepoint(this.scope, callback);
     }
 
     const connection = this.connectionManager.getConnection();
+    const defaults = this.connectionManager.getConfig()?.transaction;
+    const settings = mergeTransactionOptions(defaults, options);
+    const retry = mergeRetryPolicy(defaults, options);
+    const config: Knex.TransactionConfig | undefined = settings
+      ? { userParams: { [SET_TRANSACTION_PARAM]: buildSetTransactionStatement(settings) } }
+      : undefined;
 
-    // Emitir evento beforeQuery para plugins
+    const run = async (): Promise<T> => {
+      let scope: TransactionScope | undefined;
+      try {
+        const result = await connection!.transaction(async (trx) => {
+          scope = { trx, savepoints: 0, policy: options?.policy || null, wrote: false };
+          return await callback(this.bindTo(scope));
+        }, config);
+
+        // As escritas só ficam visíveis após o COMMIT; a janela de leitura após escrita conta a partir dele
+        if (scope?.wrote) {
+          this.connectionManager.getReplicaRouter()?.recordWrite();
+        }
+        return result;
+      } catch (error) {
+        // Conflitos e deadlocks também podem surgir no COMMIT, fora das consultas do callback
+        throw toFirebirdError(error);
+      }
+    };
+
+    return retry ? await this.runWithRetry(run, retry) : await run();
+  }
+
+  /**
+   * Executa a transação de novo, do início, enquanto ela falhar com erro retentável
+   * @param run - Executa a transação completa (BEGIN, unidade de trabalho e COMMIT)
+   * @param retry - Política de novas tentativas
+   * @returns Promise com o valor retornado pela transação
+   * @throws TransactionRetryError com o histórico se a transação falhar depois de novas tentativas
+   */
+  private async runWithRetry<T>(run: () => Promise<T>, retry: RetryPolicy): Promise<T> {
+    const invalid = validateRetryPolicy(retry);
+    if (invalid) {
+      throw new Error(`Parâmetros de transação inválidos: ${invalid}`);
+    }
+
+    const policy = resolveRetryPolicy(retry);
+    const attempts: RetryAttempt[] = [];
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await run();
+      } catch (error) {
+        const retryable = attempt < policy.maxAttempts && isRetryable(policy, error);
+        const delay = retryable ? computeRetryDelay(policy, attempt) : 0;
+        attempts.push({ attempt, error, delay });
+
+        if (!retryable) {
+          // Sem nova tentativa, o erro segue como veio
+          throw attempts.length > 1 ? new TransactionRetryError(attempts) : error;
+        }
+
+        // Emitir evento onRetry para plugins
+        if (this.pluginManager) {
+          await this.pluginManager.onRetry({ attempt, error, delay, maxAttempts: policy.maxAttempts });
+        }
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Indica se o serviço está vinculado a uma transação
+   * @returns true se as consultas são executadas dentro de uma transação
+   */
+  isInTransaction(): boolean {
+    return this.scope !== null;
+  }
+
+  /**
+   * Executa o callback protegido por um savepoint da transação atual
+   * @param scope - Transação em andamento
+   * @param callback - Função de trabalho
+   * @returns Promise com o valor retornado pelo callback
+   */
+  private async runInSavepoint<T>(scope: TransactionScope, callback: TransactionCallback<T>): Promise<T> {
+    const name = `SP_${++scope.savepoints}`;
+    await scope.trx.raw(`SAVEPOINT ${name}`);
+
+    try {
+      const result = await callback(this);
+      await scope.trx.raw(`RELEASE SAVEPOINT ${name} ONLY`);
+      return result;
+    } catch (error) {
+      await scope.trx.raw(`ROLLBACK TO SAVEPOINT ${name}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Cria um QueryService vinculado a uma transação, compartilhando o PluginManager
+   * @param scope - Transação à qual o novo serviço será vinculado
+   * @returns QueryService vinculado
+   */
+  private bindTo(scope: TransactionScope): QueryService {
+    const bound = new QueryService(this.connectionManager, scope);
+    bound.procedureCatalog = this.procedureCatalog;
+    bound.serverVersion = this.serverVersion;
     if (this.pluginManager) {
-      await this.pluginManager.beforeQuery({ tableName, conditions, options });
+      bound.setPluginManager(this.pluginManager);
+    }
+    return bound;
+  }
+
+  /**
+   * Obtém o executor das consultas: a transação vinculada ou a conexão do pool
+   * @returns Transação ou instância Knex
+   */
+  private getExecutor(): Knex | Knex.Transaction {
+    return this.scope ? this.scope.trx : this.connectionManager.getConnection()!;
+  }
+
+  /**
+   * Monta a consulta bruta no executor atual. Parâmetros informados como objeto
+   * são tratados como nomeados (:nome) e convertidos em posicionais.
+   * @param sql - Consulta SQL
+   * @param bindings - Lista de parâmetros posicionais ou objeto de parâmetros nomeados (opcional)
+   * @returns Consulta Knex ainda não executada
+   * @throws QueryValidationError se os parâmetros nomeados não corresponderem aos valores
+   */
+  private rawQuery(sql: string, bindings?: any[] | Record<string, any>): Knex.Raw {
+    if (bindings && !Array.isArray(bindings)) {
+      const statement = this.namedParameters.bind(sql, bindings);
+      return this.getExecutor().raw(statement.sql, statement.bindings);
+    }
+    return this.getExecutor().raw(sql, bindings || []);
+  }
+
+  /**
+   * Escolhe a réplica de uma leitura fora de transação
+   * @param replica - Opção `replica` da chamada; false força o primário
+   * @param isRead - Indica se a instrução é somente leitura
+   * @returns ConnectionManager da réplica, ou null para executar no primário
+   */
+  private selectReplica(replica: boolean | undefined, isRead: () => boolean): ConnectionManager | null {
+    if (this.scope || replica === false) {
+      return null;
+    }
+    const router = this.connectionManager.getReplicaRouter();
+    return router && isRead() ? router.select() : null;
+  }
+
+  /**
+   * Executa a leitura na réplica. Se a réplica estiver indisponível, a falha é
+   * registrada (afastando a réplica) e a leitura é refeita no primário. Os hooks
+   * valem uma vez por leitura: a falha da réplica não chega ao onError e a leitura
+   * no primário não repete o beforeQuery.
+   * @param replica - ConnectionManager da réplica
+   * @param read - Leitura, executada pelo QueryService da réplica ou, na falha, pelo do primário
+   * @returns Promise com o resultado da leitura
+   */
+  private async readFromReplica<T>(replica: ConnectionManager, read: (service: QueryService) => Promise<T>): Promise<T> {
+    const router = this.connectionManager.getReplicaRouter()!;
+    let service = this.replicaServices.get(replica);
+    if (!service) {
+      service = new QueryService(replica);
+      if (this.pluginManager) {
+        const pluginManager = this.pluginManager;
+        service.setPluginManager(withHooks(pluginManager, {
+          onError: async (error: any) => {
+            if (!isReplicaFailure(error)) {
+              await pluginManager.onError(error);
+            }
+          }
+        }));
+      }
+      this.replicaServices.set(replica, service);
     }
 
     try {
-      let queryBuilder = connection!(tableName);
+      const result = await read(service);
+      router.reportSuccess(replica);
+      return result;
+    } catch (error) {
+      if (!isReplicaFailure(error)) {
+        throw error;
+      }
+      router.reportFailure(replica);
+      return await read(this.getReplicaFallback());
+    }
+  }
 
-      // Adicionar condições WHERE
-      if (conditions) {
-        for (const [key, value] of Object.entries(conditions)) {
-          queryBuilder = queryBuilder.where(key, value);
-        }
+  /**
+   * Obtém o QueryService do primário usado na volta das leituras de réplicas,
+   * que não repete o beforeQuery já disparado pela réplica
+   * @returns QueryService do primário
+   */
+  private getReplicaFallback(): QueryService {
+    if (!this.replicaFallback) {
+      this.replicaFallback = new QueryService(this.connectionManager);
+      if (this.pluginManager) {
+        this.replicaFallback.setPluginManager(withHooks(this.pluginManager, { beforeQuery: async () => undefined }));
+      }
+    }
+    return this.replicaFallback;
+  }
+
+  /**
+   * Registra as escritas no primário para a janela de leitura após escrita;
+   * dentro de uma transação, a janela começa no COMMIT
+   * @param query - Consulta prestes a ser executada
+   */
+  private trackWrite(query: Knex.QueryBuilder | Knex.Raw): void {
+    const router = this.connectionManager.getReplicaRouter();
+    if (!router || isReplicaSafe(query.toSQL().sql)) {
+      return;
+    }
+    if (this.scope) {
+      this.scope.wrote = true;
+    } else {
+      router.recordWrite();
+    }
+  }
+
+  /**
+   * Garante que a conexão está ativa antes de executar a chamada
+   * @throws ConnectionUnavailableError enquanto a conexão estiver perdida, sem consultar o banco
+   * @throws Error se não houver conexão
+   */
+  private assertConnected(): void {
+    if (!this.connectionManager.isConnected()) {
+      throw this.connectionManager.getUnavailableError() ?? new Error('Conexão com o banco de dados não está ativa');
+    }
+  }
+
+  /**
+   * Executa a consulta respeitando o tempo limite.
+   * A consulta é fixada em uma conexão do pool (ou na conexão da transação) para
+   * que, ao expirar o prazo, a instrução seja cancelada no servidor pela própria
+   * conexão. Se o cancelamento não for confirmado, a conexão é descartada do
+   * pool em vez de ser reutilizada em estado desconhecido.
+   * @param query - Consulta Knex ainda não executada
+   * @param timeout - Tempo limite em milissegundos (padrão: FirebirdConfig.queryTimeout)
+   * @returns Promise com o resultado da consulta
+   * @throws QueryTimeoutError se o tempo limite for excedido
+   */
+  private async runWithTimeout(query: Knex.QueryBuilder | Knex.Raw, timeout?: number): Promise<any> {
+    this.trackWrite(query);
+
+    const limit = timeout ?? this.connectionManager.getConfig()?.queryTimeout;
+    if (!limit) {
+      return await query;
+    }
+
+    const client: any = this.getExecutor().client;
+    const connection = await client.acquireConnection();
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      const execution = Promise.resolve(query.connection(connection));
+      const expired = new Promise<typeof TIMED_OUT>((resolve) => {
+        timer = setTimeout(() => resolve(TIMED_OUT), limit);
+      });
+
+      const outcome = await Promise.race([execution, expired]);
+      if (outcome !== TIMED_OUT) {
+        return outcome;
+      }
+
+      throw await this.cancelStatement(connection, execution, limit, query.toSQL().sql);
+    } finally {
+      clearTimeout(timer);
+      await client.releaseConnection(connection);
+    }
+  }
+
+  /**
+   * Cancela no servidor a instrução em execução na conexão
+   * @param connection - Conexão (attachment) que executa a instrução
+   * @param execution - Promise da execução em andamento
+   * @param timeout - Tempo limite excedido, em milissegundos
+   * @param sql - Consulta cancelada
+   * @returns Erro de timeout a ser lançado
+   */
+  private async cancelStatement(
+    connection: any,
+    execution: Promise<any>,
+    timeout: number,
+    sql: string
+  ): Promise<QueryTimeoutError> {
+    // A rejeição causada pelo cancelamento é esperada e não deve ficar sem tratamento
+    const settled = execution.then(() => undefined, (error) => error);
+
+    let cancelled = false;
+    let cause: unknown;
+    try {
+      await connection.cancelOperation();
+      cancelled = true;
+    } catch (error) {
+      cause = error;
+    }
+
+    if (cancelled) {
+      let timer: NodeJS.Timeout | undefined;
+      const grace = new Promise<typeof TIMED_OUT>((resolve) => {
+        timer = setTimeout(() => resolve(TIMED_OUT), CANCEL_GRACE_PERIOD);
+      });
+      const result = await Promise.race([settled, grace]);
+      clearTimeout(timer);
+
+      if (result === TIMED_OUT) {
+        cancelled = false;
+      } else {
+        cause = result;
       }
+    }
+
+    const error = new QueryTimeoutError(timeout, sql, cancelled, cause);
+
+    // Conexão com instrução possivelmente ativa: o pool a destrói em vez de reutilizá-la
+    if (!cancelled) {
+      connection.__knex__disposed = error;
+    }
+
+    return error;
+  }
+
+  /**
+   * Cria o stream de uma consulta, abrindo o cursor diretamente no driver
+   * @param build - Função que valida e monta a consulta Knex a ser aberta
+   * @param context - Dados da consulta repassados ao hook beforeQuery
+   * @param options - Opções de leitura (opcional)
+   * @returns ResultStream da consulta
+   */
+  private createStream<T>(
+    build: () => Knex.QueryBuilder | Knex.Raw | Promise<Knex.Raw>,
+    context: object,
+    options?: StreamOptions
+  ): ResultStream<T> {
+    return new ResultStream<T>(async () => {
+      this.assertConnected();
+
+      const { sql, bindings } = (await build()).toSQL().toNative();
+      return await this.openCursor(sql, bindings as any[], options?.fetchSize || DEFAULT_FETCH_SIZE);
+    }, this.pluginManager, context, options);
+  }
 
-      // Adicionar opções de paginação
-      if (options?.limit) {
-        queryBuilder = queryBuilder.limit(options.limit);
+  /**
+   * Abre um cursor no servidor usando uma conexão dedicada do pool.
+   * Dentro de uma transação, o cursor usa a conexão e a transação vinculadas;
+   * fora dela, uma transação própria é iniciada e encerrada com o cursor.
+   * @param sql - Consulta com parâmetros posicionais
+   * @param bindings - Valores dos parâmetros
+   * @param fetchSize - Quantidade de linhas buscadas por vez
+   * @returns Cursor aberto
+   */
+  private async openCursor(sql: string, bindings: any[], fetchSize: number): Promise<ResultCursor> {
+    const client: any = this.getExecutor().client;
+    const connection = await client.acquireConnection();
+    let transaction: any = null;
+    let statement: any = null;
+
+    /** Libera os recursos do driver e devolve a conexão ao pool */
+    const release = async (resultSet: any, completed: boolean): Promise<void> => {
+      try {
+        if (resultSet) {
+          await resultSet.close();
+        }
+        if (statement) {
+          await statement.dispose();
+        }
+        if (transaction) {
+          await (completed ? transaction.commit() : transaction.rollback());
+        }
+      } finally {
+        await client.releaseConnection(connection);
       }
+    };
 
-      if (options?.offset) {
-        queryBuilder = queryBuilder.offset(options.offset);
+    try {
+      let active: any;
+      if (this.scope) {
+        // Mesmo contrato do dialeto: a transação ativa fica em connection._transaction
+        active = connection._transaction;
+      } else {
+        const settings = mergeTransactionOptions(this.connectionManager.getConfig()?.transaction);
+        transaction = await startTransaction(connection, settings ? buildSetTransactionStatement(settings) : undefined);
+        active = transaction;
       }
 
-      // Adicionar ordenação
-      if (options?.orderBy) {
-        queryBuilder = queryBuilder.orderBy(options.orderBy.field, options.orderBy.direction || 'asc');
+      statement = await connection.prepare(active, sql);
+      const resultSet = await statement.executeQuery(active, bindings);
+      // O cursor lê direto do driver, sem o FirebirdClient nem o postProcessResponse do Knex
+      const config = this.connectionManager.getConfig();
+      const mapper = createColumnNameMapper(config?.columnNames);
+      const blobSettings: BlobReadSettings = {
+        transaction: active,
+        columns: await describeBlobColumns(statement),
+        charset: config?.options?.encoding,
+        streamThreshold: config?.blobs?.streamThreshold ?? DEFAULT_BLOB_STREAM_THRESHOLD
+      };
+      return {
+        fetch: async () => {
+          const rows = await resultSet.fetchAsObject({ fetchSize });
+          await readBlobColumns(rows, blobSettings);
+          return mapper ? mapRowKeys(rows, mapper) : rows;
+        },
+        close: (completed) => release(resultSet, completed)
+      };
+    } catch (error) {
+      await release(null, false);
+      throw error;
+    }
+  }
+
+  /**
+   * Executa uma consulta SELECT usando o query builder do Knex
+   * @param tableName - Nome da tabela para consulta
+   * @param conditions - Condições WHERE (igualdade ou operadores como $gte, $in e $or) (opcional)
+   * @param options - Opções de projeção, agrupamento, paginação, ordenação e stream (opcional)
+   * @returns Promise com o resultado da consulta, com um ResultStream quando `stream` é true
+   * ou com a página `{ rows, nextCursor, hasMore }` quando `keyset` é true
+   * @throws Erro se a conexão não estiver ativa ou o cursor for inválido
+   */
+  async executeSelect<T = any>(
+    tableName: string,
+    conditions: Conditions | undefined,
+    options: SelectOptions & { stream: true }
+  ): Promise<ResultStream<T>>;
+  async executeSelect<T = any>(
+    tableName: string,
+    conditions: Conditions | undefined,
+    options: SelectOptions & { keyset: true }
+  ): Promise<KeysetPage<T>>;
+  async executeSelect<T = any>(tableName: string, conditions?: Conditions, options?: SelectOptions): Promise<T[]>;
+  async executeSelect(tableName: string, conditions?: Conditions, options?: SelectOptions): Promise<any> {
+    // Streams ficam no primário: o cursor é aberto apenas na leitura, fora da volta ao primário
+    const replica = this.selectReplica(options?.replica, () => !options?.stream);
+    if (replica) {
+      return await this.readFromReplica(replica, (service) => service.executeSelect(tableName, conditions, { ...options, replica: false }));
+    }
+
+    this.assertConnected();
+
+    await this.assertObjectAccess([{ name: tableName, kind: 'table', access: 'read' }]);
+
+    if (options?.keyset) {
+      if (options.stream) {
+        throw new Error('Paginação por cursor não aceita stream');
       }
+      return this.executeKeysetSelect(tableName, conditions, options);
+    }
+
+    if (options?.stream) {
+      // Os hooks são disparados pelo próprio stream, uma vez por leitura completa
+      return this.createStream(
+        () => this.buildSelect(tableName, conditions, options),
+        { tableName, conditions, options },
+        { fetchSize: options.fetchSize }
+      );
+    }
+
+    // Emitir evento beforeQuery para plugins
+    if (this.pluginManager) {
+      await this.pluginManager.beforeQuery({ tableName, conditions, options });
+    }
 
-      const result = await queryBuilder.select();
+    try {
+      const result = await this.runWithTimeout(this.buildSelect(tableName, conditions, options), options?.timeout);
 
       // Emitir evento afterQuery para plugins
       if (this.pluginManager) {
@@ -192,105 +803,826 @@ export class QueryService {
 
       return result;
     } catch (error) {
+      const failure = toFirebirdError(error);
+
       // Emitir evento onError para plugins
       if (this.pluginManager) {
-        await this.pluginManager.onError(error);
+        await this.pluginManager.onError(failure);
       }
-      throw error;
+      throw failure;
     }
   }
 
   /**
-   * Valida uma consulta SQL para prevenir injeção SQL
-   * @param sql - Consulta SQL a ser validada
-   * @returns Objeto com resultado da validação
+   * Executa um SELECT paginado por cursor (keyset)
+   * @param tableName - Nome da tabela para consulta
+   * @param conditions - Condições WHERE (opcional)
+   * @param options - Ordenação, tamanho da página (limit) e cursor (after)
+   * @returns Promise com a página `{ rows, nextCursor, hasMore }`
+   * @throws Erro se as opções ou o cursor forem inválidos
    */
-  validateSql(sql: string): ValidationResult {
-    // Remover espaços em branco extras e converter para maiúsculas para análise
-    const normalizedSql = sql.trim().toUpperCase();
+  private async executeKeysetSelect(
+    tableName: string,
+    conditions: Conditions | undefined,
+    options: SelectOptions
+  ): Promise<KeysetPage> {
+    const keyset = this.keysetPagination.prepare(options);
+
+    // Emitir evento beforeQuery para plugins
+    if (this.pluginManager) {
+      await this.pluginManager.beforeQuery({ tableName, conditions, options });
+    }
 
-    // Verificar palavras-chave perigosas que não devem estar presentes em consultas SELECT
-    const dangerousKeywords = ['DROP', 'TRUNCATE', 'ALTER', 'CREATE'];
+    try {
+      const rows = await this.runWithTimeout(this.buildSelect(tableName, conditions, options, keyset), options.timeout);
+      const mapper = createColumnNameMapper(this.connectionManager.getConfig()?.columnNames);
+      const page = this.keysetPagination.toPage(rows, keyset, mapper);
 
-    for (const keyword of dangerousKeywords) {
-      if (normalizedSql.includes(keyword)) {
-        return { valid: false, error: `Keyword não permitido: ${keyword}` };
+      // Emitir evento afterQuery para plugins
+      if (this.pluginManager) {
+        await this.pluginManager.afterQuery(page);
       }
-    }
 
-    // Para executeQuery, não permitimos operações de escrita (DELETE, UPDATE, INSERT)
-    // Mesmo que a consulta comece com SELECT, se contiver operações de escrita, deve ser rejeitada
-    const writeOperations = ['DELETE', 'UPDATE', 'INSERT'];
-    for (const keyword of writeOperations) {
-      if (normalizedSql.includes(keyword)) {
-        return { valid: false, error: `Keyword não permitido: ${keyword}` };
+      return page;
+    } catch (error) {
+      const failure = toFirebirdError(error);
+
+      // Emitir evento onError para plugins
+      if (this.pluginManager) {
+        await this.pluginManager.onError(failure);
       }
+      throw failure;
     }
-    
-    // Verificar se a consulta parece ser maliciosa (depois de verificar keywords perigosas)
-    if (this.containsSqlInjectionPatterns(sql)) {
-      return { valid: false, error: 'Padrão de injeção SQL detectado' };
-    }
+  }
 
-    // Verificar se a consulta parece ser maliciosa
-    if (this.containsSqlInjectionPatterns(sql)) {
-      return { valid: false, error: 'Padrão de injeção SQL detectado' };
-    }
-    
-    // Verificar se é uma condição OR/AND falsa (como OR 1=1, AND 1=1)
-    const falseConditionPattern = /\b(OR|AND)\s+1\s*=1\b/i;
-    if (falseConditionPattern.test(normalizedSql)) {
-      return { valid: false, error: 'Padrão de injeção SQL detectado' };
+  /**
+   * Monta a consulta SELECT com condições, projeção, agrupamento, paginação e ordenação
+   * @param tableName - Nome da tabela para consulta
+   * @param conditions - Condições WHERE (igualdade ou operadores como $gte, $in e $or) (opcional)
+   * @param options - Projeção, agrupamento, paginação e ordenação (opcional)
+   * @param keyset - Paginação por cursor validada (opcional)
+   * @returns Query builder pronto para execução
+   * @throws Erro se algum identificador ou opção for inválido
+   */
+  private buildSelect(
+    tableName: string,
+    conditions?: Conditions,
+    options?: SelectOptions,
+    keyset?: KeysetQuery
+  ): Knex.QueryBuilder {
+    assertIdentifiers([tableName]);
+
+    // Adicionar condições WHERE
+    const queryBuilder = this.applyConditions(this.getExecutor()(tableName), conditions);
+
+    if (keyset) {
+      // Uma linha além da página indica se existe a próxima
+      this.keysetPagination.apply(queryBuilder, keyset);
+      return this.selectBuilder.apply(queryBuilder, { ...options, orderBy: keyset.orderBy, limit: keyset.limit + 1 });
     }
 
-    return { valid: true, message: 'Consulta válida' };
+    return this.selectBuilder.apply(queryBuilder, options);
   }
 
   /**
-   * Valida uma consulta SQL especificamente para transações, permitindo operações de escrita
-   * @param sql - Consulta SQL a ser validada
-   * @returns Objeto com resultado da validação
+   * Insere uma ou mais linhas usando o query builder do Knex.
+   * O Firebird não aceita múltiplas linhas em um único VALUES, então cada linha
+   * é inserida por uma instrução; várias linhas são inseridas em uma transação.
+   * @param tableName - Nome da tabela
+   * @param rows - Linha ou array de linhas como objetos coluna-valor
+   * @param options - Colunas de RETURNING e timeout (opcional)
+   * @returns Promise com as linhas devolvidas por RETURNING, na ordem da inserção (vazio sem returning)
+   * @throws Erro se a conexão não estiver ativa ou se tabela/colunas forem inválidas
    */
-  private validateSqlForTransaction(sql: string): ValidationResult {
-    // Remover espaços em branco extras e converter para maiúsculas para análise
-    const normalizedSql = sql.trim().toUpperCase();
-
-    // Verificar palavras-chave perigosas que nunca devem ser permitidas
-    const dangerousKeywords = ['DROP', 'TRUNCATE', 'ALTER', 'CREATE'];
+  async executeInsert<T = any>(
+    tableName: string,
+    rows: Record<string, any> | Array<Record<string, any>>,
+    options?: InsertOptions
+  ): Promise<T[]> {
+    this.assertConnected();
 
-    for (const keyword of dangerousKeywords) {
-      if (normalizedSql.includes(keyword)) {
-        return { valid: false, error: `Keyword não permitido: ${keyword}` };
-      }
+    const list = Array.isArray(rows) ? rows : [rows];
+    if (list.length === 0) {
+      throw new Error('Nenhuma linha informada para inserção');
     }
+    assertIdentifiers([tableName, ...list.flatMap((row) => Object.keys(row)), ...(options?.returning || [])]);
+    await this.assertObjectAccess([{ name: tableName, kind: 'table', access: 'write' }]);
 
-    // Verificar se a consulta parece ser maliciosa
-    if (this.containsSqlInjectionPatterns(sql)) {
-      return { valid: false, error: 'Padrão de injeção SQL detectado' };
+    // Emitir evento beforeQuery para plugins
+    if (this.pluginManager) {
+      await this.pluginManager.beforeQuery({ tableName, rows, options });
     }
 
-    return { valid: true, message: 'Consulta válida' };
+    try {
+      const insertAll = async (service: QueryService): Promise<any[]> => {
+        const returned: any[] = [];
+        for (const row of list) {
+          returned.push(...await service.runWrite(service.getExecutor()(tableName).insert(row), options));
+        }
+        return returned;
+      };
+      const result = this.scope || list.length === 1 ? await insertAll(this) : await this.transaction(insertAll);
+
+      // Emitir evento afterQuery para plugins
+      if (this.pluginManager) {
+        await this.pluginManager.afterQuery(result);
+      }
+
+      return result;
+    } catch (error) {
+      const failure = toFirebirdError(error);
+
+      // Emitir evento onError para plugins
+      if (this.pluginManager) {
+        await this.pluginManager.onError(failure);
+      }
+      throw failure;
+    }
   }
 
   /**
-   * Verifica se a consulta contém padrões comuns de injeção SQL
-   * @param sql - Consulta SQL a ser verificada
-   * @returns true se contiver padrões suspeitos, false caso contrário
+   * Insere ou atualiza linhas com UPDATE OR INSERT ... MATCHING (Firebird 2.1+).
+   * Várias linhas são gravadas em uma única transação, uma instrução por linha.
+   * @param tableName - Nome da tabela
+   * @param rows - Linha ou linhas como objeto coluna-valor
+   * @param options - Colunas de MATCHING, RETURNING e timeout (opcional)
+   * @returns Promise com as linhas devolvidas por RETURNING (vazio sem returning)
+   * @throws Erro se nenhuma linha for informada, se algum identificador for inválido ou se o servidor não suportar UPDATE OR INSERT
    */
-  private containsSqlInjectionPatterns(sql: string): boolean {
-    // Verificar padrões comuns de injeção SQL
-    const injectionPatterns = [
-      /(;|\-\-|\#|\/\*|\*\/)/gi,  // Comentários e terminadores
-      /('|")\s*(OR|AND)\s*('|").*('|")\s*=\s*('|")/gi,  // Condições OR/AND falsas
-      /EXEC\s*\(|SP_|XP_/gi,  // Funções de execução
-    ];
+  async upsert<T = any>(
+    tableName: string,
+    rows: Record<string, any> | Array<Record<string, any>>,
+    options?: UpsertOptions
+  ): Promise<T[]> {
+    this.assertConnected();
 
-    for (const pattern of injectionPatterns) {
-      if (pattern.test(sql)) {
-        return true;
-      }
+    const list = Array.isArray(rows) ? rows : [rows];
+    if (list.length === 0) {
+      throw new Error('Nenhuma linha informada para upsert');
     }
+    const statements = list.map((row) => this.upsertBuilder.buildUpsert(tableName, row, options));
+    await this.assertObjectAccess([{ name: tableName, kind: 'table', access: 'write' }]);
 
-    return false;
-  }
-}
\ No newline at end of file
+    // Emitir evento beforeQuery para plugins
+    if (this.pluginManager) {
+      await this.pluginManager.beforeQuery({ tableName, rows, options });
+    }
+
+    try {
+      const upsertAll = async (service: QueryService): Promise<any[]> => {
+        await service.requireServerVersion(2, 1, 'UPDATE OR INSERT');
+        const returned: any[] = [];
+        for (const statement of statements) {
+          returned.push(...await service.runStatement(statement, options?.timeout));
+        }
+        return returned;
+      };
+      const result = this.scope || list.length === 1 ? await upsertAll(this) : await this.transaction(upsertAll);
+
+      // Emitir evento afterQuery para plugins
+      if (this.pluginManager) {
+        await this.pluginManager.afterQuery(result);
+      }
+
+      return result;
+    } catch (error) {
+      const failure = toFirebirdError(error);
+
+      // Emitir evento onError para plugins
+      if (this.pluginManager) {
+        await this.pluginManager.onError(failure);
+      }
+      throw failure;
+    }
+  }
+
+  /**
+   * Sincroniza a tabela a partir de outra tabela ou consulta com MERGE (Firebird 2.1+):
+   * atualiza as linhas encontradas pelas colunas de matching e insere as demais
+   * @param tableName - Nome da tabela de destino
+   * @param options - Origem, colunas, matching, update, insert, returning e timeout
+   * @returns Promise com as linhas devolvidas por RETURNING (vazio sem returning)
+   * @throws Erro se a consulta de origem for inválida, se algum identificador for inválido ou se o servidor não suportar o recurso
+   */
+  async merge<T = any>(tableName: string, options: MergeOptions): Promise<T[]> {
+    this.assertConnected();
+
+    await this.assertObjectAccess([
+      { name: tableName, kind: 'table', access: 'write' },
+      ...(typeof options.source === 'string' ? [{ name: options.source, kind: 'table' as const, access: 'read' as const }] : [])
+    ]);
+
+    // Emitir evento beforeQuery para plugins
+    if (this.pluginManager) {
+      await this.pluginManager.beforeQuery({ tableName, options });
+    }
+
+    try {
+      // A consulta de origem segue as mesmas regras do executeQuery
+      if (typeof options.source !== 'string') {
+        await this.assertSqlAllowed(options.source.sql, 'query');
+      }
+
+      const statement = this.upsertBuilder.buildMerge(tableName, options);
+      await this.requireServerVersion(2, 1, 'MERGE');
+      if (options.returning && options.returning.length > 0) {
+        await this.requireServerVersion(3, 0, 'MERGE com RETURNING');
+      }
+
+      const result = await this.runStatement(statement, options.timeout);
+
+      // Emitir evento afterQuery para plugins
+      if (this.pluginManager) {
+        await this.pluginManager.afterQuery(result);
+      }
+
+      return result;
+    } catch (error) {
+      const failure = toFirebirdError(error);
+
+      // Emitir evento onError para plugins
+      if (this.pluginManager) {
+        await this.pluginManager.onError(failure);
+      }
+      throw failure;
+    }
+  }
+
+  /**
+   * Obtém a versão do servidor Firebird, consultada uma única vez
+   * @returns Promise com a versão do servidor
+   */
+  async getServerVersion(): Promise<EngineVersion> {
+    this.assertConnected();
+    return await this.serverVersion.get(
+      this.getExecutor(),
+      createColumnNameMapper(this.connectionManager.getConfig()?.columnNames)
+    );
+  }
+
+  /**
+   * Obtém o próximo valor de uma sequência (generator). Sem incremento usa
+   * NEXT VALUE FOR; com incremento usa GEN_ID.
+   * @param name - Nome da sequência
+   * @param increment - Quanto somar ao valor atual (opcional)
+   * @returns Promise com o novo valor da sequência
+   * @throws Erro se o nome for inválido ou se o incremento não for inteiro
+   */
+  async nextValue(name: string, increment?: number): Promise<number> {
+    const rows = await this.runSequenceStatement({ sequence: name, increment }, () => this.sequenceBuilder.buildNext(name, increment));
+    return this.readSequenceValue(rows);
+  }
+
+  /**
+   * Obtém o valor atual de uma sequência, sem alterá-lo (GEN_ID com incremento 0)
+   * @param name - Nome da sequência
+   * @returns Promise com o valor atual da sequência
+   * @throws Erro se o nome for inválido
+   */
+  async currentValue(name: string): Promise<number> {
+    const rows = await this.runSequenceStatement({ sequence: name }, () => this.sequenceBuilder.buildCurrent(name));
+    return this.readSequenceValue(rows);
+  }
+
+  /**
+   * Define o valor atual de uma sequência (SET GENERATOR); o próximo valor será value + 1
+   * @param name - Nome da sequência
+   * @param value - Novo valor atual
+   * @throws Erro se o nome for inválido ou se o valor não for inteiro
+   */
+  async setSequence(name: string, value: number | bigint): Promise<void> {
+    await this.runSequenceStatement({ sequence: name, value }, () => this.sequenceBuilder.buildSet(name, value));
+  }
+
+  /**
+   * Lista as sequências do banco, sem as do sistema
+   * @returns Promise com os nomes das sequências como gravados no catálogo
+   */
+  async listSequences(): Promise<string[]> {
+    const rows = await this.runSequenceStatement({ sequences: true }, () => this.sequenceBuilder.buildList());
+    const mapper = createColumnNameMapper(this.connectionManager.getConfig()?.columnNames);
+    return rows.map((row) => row[mapper ? mapper.toProperty(SEQUENCE_NAME_COLUMN) : SEQUENCE_NAME_COLUMN]);
+  }
+
+  /**
+   * Atualiza linhas usando o query builder do Knex
+   * @param tableName - Nome da tabela
+   * @param changes - Colunas alteradas como objeto coluna-valor
+   * @param conditions - Condições WHERE (igualdade ou operadores como $gte, $in e $or)
+   * @param options - Colunas de RETURNING, timeout e allowAll (opcional)
+   * @returns Promise com as linhas devolvidas por RETURNING (vazio sem returning)
+   * @throws Erro se não houver condições e allowAll não for informado
+   */
+  async executeUpdate<T = any>(
+    tableName: string,
+    changes: Record<string, any>,
+    conditions?: Conditions,
+    options?: WriteOptions
+  ): Promise<T[]> {
+    this.assertConnected();
+
+    if (Object.keys(changes).length === 0) {
+      throw new Error('Nenhuma coluna informada para atualização');
+    }
+    this.assertConditioned('UPDATE', conditions, options);
+    assertIdentifiers([tableName, ...Object.keys(changes), ...(options?.returning || [])]);
+    await this.assertObjectAccess([{ name: tableName, kind: 'table', access: 'write' }]);
+
+    // Emitir evento beforeQuery para plugins
+    if (this.pluginManager) {
+      await this.pluginManager.beforeQuery({ tableName, changes, conditions, options });
+    }
+
+    try {
+      const query = this.applyConditions(this.getExecutor()(tableName), conditions).update(changes);
+      const result = await this.runWrite(query, options);
+
+      // Emitir evento afterQuery para plugins
+      if (this.pluginManager) {
+        await this.pluginManager.afterQuery(result);
+      }
+
+      return result;
+    } catch (error) {
+      const failure = toFirebirdError(error);
+
+      // Emitir evento onError para plugins
+      if (this.pluginManager) {
+        await this.pluginManager.onError(failure);
+      }
+      throw failure;
+    }
+  }
+
+  /**
+   * Exclui linhas usando o query builder do Knex
+   * @param tableName - Nome da tabela
+   * @param conditions - Condições WHERE (igualdade ou operadores como $gte, $in e $or)
+   * @param options - Colunas de RETURNING, timeout e allowAll (opcional)
+   * @returns Promise com as linhas devolvidas por RETURNING (vazio sem returning)
+   * @throws Erro se não houver condições e allowAll não for informado
+   */
+  async executeDelete<T = any>(tableName: string, conditions?: Conditions, options?: WriteOptions): Promise<T[]> {
+    this.assertConnected();
+
+    this.assertConditioned('DELETE', conditions, options);
+    assertIdentifiers([tableName, ...(options?.returning || [])]);
+    await this.assertObjectAccess([{ name: tableName, kind: 'table', access: 'write' }]);
+
+    // Emitir evento beforeQuery para plugins
+    if (this.pluginManager) {
+      await this.pluginManager.beforeQuery({ tableName, conditions, options });
+    }
+
+    try {
+      const query = this.applyConditions(this.getExecutor()(tableName), conditions).del();
+      const result = await this.runWrite(query, options);
+
+      // Emitir evento afterQuery para plugins
+      if (this.pluginManager) {
+        await this.pluginManager.afterQuery(result);
+      }
+
+      return result;
+    } catch (error) {
+      const failure = toFirebirdError(error);
+
+      // Emitir evento onError para plugins
+      if (this.pluginManager) {
+        await this.pluginManager.onError(failure);
+      }
+      throw failure;
+    }
+  }
+
+  /**
+   * Executa uma stored procedure, associando os parâmetros por nome conforme
+   * RDB$PROCEDURE_PARAMETERS. Os metadados são lidos uma vez e mantidos em cache.
+   * @param name - Nome da procedure
+   * @param params - Valores dos parâmetros de entrada por nome; parâmetros finais com DEFAULT podem ser omitidos (opcional)
+   * @param options - selectable e timeout (opcional)
+   * @returns Promise com as linhas da procedure selecionável, ou com o objeto dos parâmetros de saída da executável
+   * @throws Erro se a procedure ou algum parâmetro não existir, ou se o modo não corresponder ao tipo da procedure
+   */
+  async executeProcedure<T = any>(
+    name: string,
+    params: Record<string, any> | undefined,
+    options: ProcedureOptions & { selectable: true }
+  ): Promise<T[]>;
+  async executeProcedure<T = Record<string, any>>(
+    name: string,
+    params?: Record<string, any>,
+    options?: ProcedureOptions
+  ): Promise<T>;
+  async executeProcedure(name: string, params: Record<string, any> = {}, options?: ProcedureOptions): Promise<any> {
+    this.assertConnected();
+
+    // Procedures executáveis podem alterar dados; as selecionáveis são lidas como tabelas
+    await this.assertObjectAccess([{ name, kind: 'procedure', access: options?.selectable === true ? 'read' : 'write' }]);
+
+    // Emitir evento beforeQuery para plugins
+    if (this.pluginManager) {
+      await this.pluginManager.beforeQuery({ procedure: name, params, options });
+    }
+
+    try {
+      assertIdentifiers([name]);
+      const executor = this.getExecutor();
+      const mapper = createColumnNameMapper(this.connectionManager.getConfig()?.columnNames);
+      const metadata = await this.procedureCatalog.describe(executor, name, mapper);
+      const selectable = options?.selectable === true;
+
+      if (metadata.selectable !== null && metadata.selectable !== selectable) {
+        throw new Error(
+          metadata.selectable
+            ? `A procedure ${name} é selecionável (SUSPEND); use a opção selectable: true`
+            : `A procedure ${name} é executável; remova a opção selectable`
+        );
+      }
+
+      const values = this.procedureCatalog.bindParameters(metadata, params, mapper);
+      const placeholders = values.length > 0 ? `(${values.map(() => '?').join(', ')})` : '';
+      const sql = selectable ? `select * from ??${placeholders}` : `execute procedure ??${placeholders}`;
+      const response = await this.runWithTimeout(executor.raw(sql, [name, ...values]), options?.timeout);
+
+      // EXECUTE PROCEDURE devolve no máximo uma linha com os parâmetros de saída
+      const result = selectable
+        ? (response || [])
+        : (Array.isArray(response) ? response[0] : response) || {};
+
+      // Emitir evento afterQuery para plugins
+      if (this.pluginManager) {
+        await this.pluginManager.afterQuery(result);
+      }
+
+      return result;
+    } catch (error) {
+      const failure = toFirebirdError(error);
+
+      // Emitir evento onError para plugins
+      if (this.pluginManager) {
+        await this.pluginManager.onError(failure);
+      }
+      throw failure;
+    }
+  }
+
+  /**
+   * Descarta os metadados de procedures em cache, para que sejam lidos novamente
+   * do catálogo (ex.: após ALTER PROCEDURE)
+   * @param name - Procedure a ser descartada; todas quando omitido (opcional)
+   */
+  clearProcedureCache(name?: string): void {
+    this.procedureCatalog.clear(name, createColumnNameMapper(this.connectionManager.getConfig()?.columnNames));
+  }
+
+  /**
+   * Executa um EXECUTE BLOCK montado a partir de parâmetros tipados. O bloco não passa
+   * pela validação de consultas: o corpo é verificado pela política
+   * FirebirdConfig.executeBlock, que precisa estar habilitada, e as tabelas e procedures
+   * do corpo, pelas listas e regras da política de SQL.
+   * @param block - Parâmetros de entrada, parâmetros de saída e corpo do bloco
+   * @param options - Opções da execução, como timeout (opcional)
+   * @returns Promise com as linhas devolvidas por SUSPEND (vazio quando o bloco não tem RETURNS)
+   * @throws Erro se o bloco estiver desabilitado, for inválido ou violar a política
+   */
+  async executeBlock<T = any>(block: ExecuteBlock, options?: ExecuteBlockOptions): Promise<T[]> {
+    this.assertConnected();
+
+    try {
+      const { sql, bindings } = this.executeBlockBuilder.build(block, this.connectionManager.getConfig()?.executeBlock);
+
+      // Tabelas e procedures do corpo seguem a política de SQL, como nos demais métodos de escrita
+      const validation = this.policyEngine.evaluateBlock(sql, this.scope ? 'transaction' : 'query', this.resolvePolicy());
+      if (!validation.valid) {
+        await this.reportViolation(validation.policyViolation);
+        throw this.createValidationError(validation);
+      }
+
+      // Emitir evento beforeQuery para plugins
+      if (this.pluginManager) {
+        await this.pluginManager.beforeQuery({ sql, bindings, options });
+      }
+
+      const response = await this.runWithTimeout(this.getExecutor().raw(sql, bindings), options?.timeout);
+
+      // Sem SUSPEND, o driver devolve a única linha de saída como objeto
+      const result = Array.isArray(response) ? response : response ? [response] : [];
+
+      // Emitir evento afterQuery para plugins
+      if (this.pluginManager) {
+        await this.pluginManager.afterQuery(result);
+      }
+
+      return result;
+    } catch (error) {
+      const failure = toFirebirdError(error);
+
+      // Emitir evento onError para plugins
+      if (this.pluginManager) {
+        await this.pluginManager.onError(failure);
+      }
+      throw failure;
+    }
+  }
+
+  /**
+   * Insere um grande volume de linhas em blocos EXECUTE BLOCK, com uma ida e volta por bloco.
+   * A validação e os hooks de plugins são executados uma única vez para toda a importação.
+   * @param tableName - Nome da tabela
+   * @param rows - Linhas a serem inseridas; todas com as mesmas chaves
+   * @param options - Tamanho dos blocos, transação, política de falha, progresso e timeout (opcional)
+   * @returns Promise com a quantidade de linhas inseridas e os blocos que falharam
+   * @throws BulkInsertError se um bloco falhar com onError: 'rollback'
+   */
+  async bulkInsert(
+    tableName: string,
+    rows: Record<string, any>[],
+    options: BulkInsertOptions = {}
+  ): Promise<BulkInsertResult> {
+    this.assertConnected();
+
+    await this.assertObjectAccess([{ name: tableName, kind: 'table', access: 'write' }]);
+
+    // Emitir evento beforeQuery para plugins
+    if (this.pluginManager) {
+      await this.pluginManager.beforeQuery({ bulkInsert: tableName, rows: rows?.length, options });
+    }
+
+    try {
+      if (!Array.isArray(rows)) {
+        throw new Error('bulkInsert exige um array de linhas');
+      }
+      if (options.onError !== undefined && options.onError !== 'rollback' && options.onError !== 'continue') {
+        throw new Error(`Política de falha inválida no bulkInsert: ${options.onError}`);
+      }
+
+      // Dentro de uma transação, os blocos participam dela; caso contrário, transaction: false confirma cada bloco
+      const result = rows.length === 0
+        ? { inserted: 0, failed: 0, chunks: 0, failures: [] }
+        : this.scope || options.transaction === false
+          ? await this.runBulkInsert(tableName, rows, options)
+          : await this.transaction((scoped) => scoped.runBulkInsert(tableName, rows, options));
+
+      // Emitir evento afterQuery para plugins
+      if (this.pluginManager) {
+        await this.pluginManager.afterQuery(result);
+      }
+
+      return result;
+    } catch (error) {
+      const failure = toFirebirdError(error);
+
+      // Emitir evento onError para plugins
+      if (this.pluginManager) {
+        await this.pluginManager.onError(failure);
+      }
+      throw failure;
+    }
+  }
+
+  /**
+   * Executa os blocos do bulkInsert no executor atual
+   * @param tableName - Nome da tabela
+   * @param rows - Linhas a serem inseridas
+   * @param options - Opções do bulkInsert
+   * @returns Promise com o resultado da importação
+   * @throws BulkInsertError se um bloco falhar com onError: 'rollback'
+   */
+  private async runBulkInsert(
+    tableName: string,
+    rows: Record<string, any>[],
+    options: BulkInsertOptions
+  ): Promise<BulkInsertResult> {
+    const executor = this.getExecutor();
+    const mapper = createColumnNameMapper(this.connectionManager.getConfig()?.columnNames);
+    const columns = await this.bulkInsertBuilder.describeColumns(executor, tableName, mapper);
+    const plan = this.bulkInsertBuilder.prepare(tableName, rows, columns, options.chunkSize, mapper);
+    const result: BulkInsertResult = { inserted: 0, failed: 0, chunks: plan.chunks.length, failures: [] };
+
+    for (let index = 0; index < plan.chunks.length; index++) {
+      const chunk = plan.chunks[index];
+      const { sql, bindings } = this.bulkInsertBuilder.build(plan, rows, chunk);
+
+      try {
+        await this.runWithTimeout(executor.raw(sql, bindings), options.timeout);
+        result.inserted += chunk.count;
+      } catch (error) {
+        const failure = toFirebirdError(error);
+        if (options.onError !== 'continue') {
+          throw new BulkInsertError(tableName, index, chunk.offset, chunk.count, result.inserted, failure);
+        }
+        // Uma instrução que falha é desfeita por inteiro, então a transação segue utilizável
+        result.failed += chunk.count;
+        result.failures.push({ chunk: index, offset: chunk.offset, rows: chunk.count, error: failure });
+      }
+
+      if (options.onProgress) {
+        await options.onProgress({
+          table: tableName,
+          inserted: result.inserted,
+          failed: result.failed,
+          total: rows.length,
+          chunk: index + 1,
+          chunks: plan.chunks.length
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Executa uma instrução de escrita, acrescentando a cláusula RETURNING quando solicitada
+   * @param query - Instrução montada pelo query builder
+   * @param options - Colunas de RETURNING e timeout (opcional)
+   * @returns Promise com as linhas devolvidas por RETURNING (vazio sem returning)
+   */
+  private async runWrite(query: Knex.QueryBuilder, options?: InsertOptions): Promise<any[]> {
+    const returning = options?.returning;
+    if (!returning || returning.length === 0) {
+      await this.runWithTimeout(query, options?.timeout);
+      return [];
+    }
+
+    const { sql, bindings } = query.toSQL();
+    return await this.runStatement({
+      sql: `${sql} returning ${returning.map(() => '??').join(', ')}`,
+      bindings: [...bindings, ...returning]
+    }, options?.timeout);
+  }
+
+  /**
+   * Executa uma instrução montada com `??` e `?`, normalizando as linhas de RETURNING
+   * @param statement - SQL e parâmetros da instrução
+   * @param timeout - Timeout em milissegundos (opcional)
+   * @returns Promise com as linhas devolvidas por RETURNING (vazio sem returning)
+   */
+  private async runStatement(statement: BuiltStatement, timeout?: number): Promise<any[]> {
+    const result = await this.runWithTimeout(this.getExecutor().raw(statement.sql, statement.bindings), timeout);
+
+    // RETURNING de uma única linha é devolvido pelo driver como objeto
+    if (Array.isArray(result)) {
+      return result;
+    }
+    return result ? [result] : [];
+  }
+
+  /**
+   * Executa uma instrução de sequência, com os hooks dos plugins
+   * @param context - Dados repassados ao hook beforeQuery
+   * @param build - Monta a instrução; erros de validação também passam pelo hook onError
+   * @returns Promise com as linhas devolvidas pela instrução
+   */
+  private async runSequenceStatement(context: Record<string, any>, build: () => BuiltStatement): Promise<any[]> {
+    this.assertConnected();
+
+    // Emitir evento beforeQuery para plugins
+    if (this.pluginManager) {
+      await this.pluginManager.beforeQuery(context);
+    }
+
+    try {
+      const result = await this.runStatement(build());
+
+      // Emitir evento afterQuery para plugins
+      if (this.pluginManager) {
+        await this.pluginManager.afterQuery(result);
+      }
+
+      return result;
+    } catch (error) {
+      const failure = toFirebirdError(error);
+
+      // Emitir evento onError para plugins
+      if (this.pluginManager) {
+        await this.pluginManager.onError(failure);
+      }
+      throw failure;
+    }
+  }
+
+  /**
+   * Lê o valor devolvido por uma consulta de sequência
+   * @param rows - Linhas devolvidas pela consulta
+   * @returns Valor da sequência
+   */
+  private readSequenceValue(rows: any[]): number {
+    const mapper = createColumnNameMapper(this.connectionManager.getConfig()?.columnNames);
+    return rows[0]?.[mapper ? mapper.toProperty(SEQUENCE_VALUE_COLUMN) : SEQUENCE_VALUE_COLUMN];
+  }
+
+  /**
+   * Garante que o servidor tenha a versão mínima exigida por um recurso
+   * @param major - Versão principal mínima
+   * @param minor - Versão secundária mínima
+   * @param feature - Recurso que exige a versão
+   * @throws Erro se o servidor for de versão anterior
+   */
+  private async requireServerVersion(major: number, minor: number, feature: string): Promise<void> {
+    await this.serverVersion.require(
+      this.getExecutor(),
+      major,
+      minor,
+      feature,
+      createColumnNameMapper(this.connectionManager.getConfig()?.columnNames)
+    );
+  }
+
+  /**
+   * Impede UPDATE/DELETE sem condições, salvo quando allowAll for informado
+   * @param statement - Tipo da instrução, usado na mensagem de erro
+   * @param conditions - Condições WHERE
+   * @param options - Opções da escrita
+   * @throws Erro se não houver condições e allowAll não for informado
+   */
+  private assertConditioned(statement: string, conditions?: Conditions, options?: WriteOptions): void {
+    if (!this.conditionBuilder.hasPredicates(conditions) && !options?.allowAll) {
+      throw new Error(`${statement} sem condições não é permitido; use allowAll para afetar todas as linhas`);
+    }
+  }
+
+  /**
+   * Adiciona as condições WHERE ao query builder
+   * @param queryBuilder - Query builder da tabela
+   * @param conditions - Condições WHERE, com operadores como $gte, $in e $or (opcional)
+   * @returns Query builder com as condições
+   */
+  private applyConditions(queryBuilder: Knex.QueryBuilder, conditions?: Conditions): Knex.QueryBuilder {
+    return this.conditionBuilder.apply(queryBuilder, conditions);
+  }
+
+  /**
+   * Valida uma consulta SQL para prevenir injeção SQL.
+   * Por padrão apenas instruções SELECT são aceitas; palavras-chave dentro de literais,
+   * identificadores entre aspas ou nomes como UPDATED_AT não são consideradas.
+   * @param sql - Consulta SQL a ser validada
+   * @param policy - Política da chamada, combinada com FirebirdConfig.sqlPolicy (opcional)
+   * @returns Objeto com resultado da validação
+   */
+  validateSql(sql: string, policy?: SqlPolicy): ValidationResult {
+    return this.policyEngine.evaluate(sql, 'query', this.resolvePolicy(policy));
+  }
+
+  /**
+   * Combina as políticas de SQL da configuração, da transação e da chamada;
+   * as duas últimas apenas restringem a da configuração, salvo com `allowOverride`
+   * @param policy - Política da chamada (opcional)
+   * @returns Política em vigor
+   */
+  private resolvePolicy(policy?: SqlPolicy): SqlPolicy {
+    return mergeSqlPolicies(this.connectionManager.getConfig()?.sqlPolicy, this.scope?.policy, policy);
+  }
+
+  /**
+   * Garante que a consulta seja aceita pela política no ponto de entrada
+   * @param sql - Consulta SQL escrita pelo chamador
+   * @param entryPoint - Ponto de entrada da consulta
+   * @param policy - Política da chamada (opcional)
+   * @throws QueryValidationError se a consulta for recusada
+   */
+  private async assertSqlAllowed(sql: string, entryPoint: SqlEntryPoint, policy?: SqlPolicy): Promise<void> {
+    const validation = this.policyEngine.evaluate(sql, entryPoint, this.resolvePolicy(policy));
+    if (!validation.valid) {
+      await this.reportViolation(validation.policyViolation);
+      throw this.createValidationError(validation);
+    }
+  }
+
+  /**
+   * Garante que as tabelas e procedures usadas pelos métodos que montam o SQL sejam permitidas
+   * @param objects - Objetos acessados
+   * @throws QueryValidationError se algum objeto for recusado
+   */
+  private async assertObjectAccess(objects: SqlObjectReference[]): Promise<void> {
+    const violation = this.policyEngine.checkObjects(objects, this.resolvePolicy());
+    if (violation) {
+      await this.reportViolation(violation);
+      throw new QueryValidationError(violation.message, undefined, undefined, violation);
+    }
+  }
+
+  /**
+   * Emite o evento onPolicyViolation para os plugins
+   * @param violation - Violação da política
+   */
+  private async reportViolation(violation?: SqlPolicyViolation): Promise<void> {
+    if (this.pluginManager && violation) {
+      await this.pluginManager.onPolicyViolation(violation);
+    }
+  }
+
+  /**
+   * Cria o erro de validação incluindo a posição do token inválido
+   * @param validation - Resultado da validação
+   * @returns Erro a ser lançado
+   */
+  private createValidationError(validation: ValidationResult): QueryValidationError {
+    return new QueryValidationError(
+      validation.error || 'consulta recusada',
+      validation.violation?.line,
+      validation.violation?.column,
+      validation.policyViolation
+    );
+  }
+}
@@ -0,0 +1,164 @@
+import { Readable } from 'stream';
+import { PluginManager } from '../core/PluginManager';
+import { toFirebirdError } from '../errors/FirebirdErrors';
+
+/**
+ * Cursor aberto no servidor, lido em lotes
+ */
+export interface ResultCursor {
+  /**
+   * Busca o próximo lote de linhas
+   * @returns Linhas do lote; array vazio quando o cursor termina
+   */
+  fetch(): Promise<any[]>;
+  /**
+   * Fecha o cursor e libera a conexão
+   * @param completed - true se todas as linhas foram lidas sem erro
+   */
+  close(completed: boolean): Promise<void>;
+}
+
+/**
+ * Interface que define as opções de leitura em stream
+ */
+export interface StreamOptions {
+  /** Quantidade de linhas buscadas no servidor por vez (padrão: 100) */
+  fetchSize?: number;
+  /** Quantidade de linhas mantidas em memória antes de pausar a leitura (padrão: 16 do Node) */
+  highWaterMark?: number;
+}
+
+/**
+ * Stream de linhas de uma consulta.
+ *
+ * O cursor só é aberto na primeira leitura e mantém uma única conexão do pool
+ * até o fim do stream. Novos lotes são buscados apenas quando o consumidor
+ * pede mais linhas (backpressure). A conexão é liberada ao final da leitura,
+ * em caso de erro ou quando o consumidor interrompe a iteração (`break`).
+ *
+ * Pode ser consumido com `for await` ou encadeado com `pipe`/`pipeline`.
+ */
+export class ResultStream<T = any> extends Readable {
+  private open: () => Promise<ResultCursor>;
+  private pluginManager: PluginManager | null;
+  private context: object;
+  private cursor: ResultCursor | null = null;
+  private reading: Promise<void> | null = null;
+  private started: boolean = false;
+  private completed: boolean = false;
+  private rowCount: number = 0;
+
+  /**
+   * Construtor da classe ResultStream
+   * @param open - Função que abre o cursor no servidor
+   * @param pluginManager - PluginManager para os hooks beforeQuery/afterQuery/onError (opcional)
+   * @param context - Dados da consulta repassados ao hook beforeQuery
+   * @param options - Opções de leitura (opcional)
+   */
+  constructor(
+    open: () => Promise<ResultCursor>,
+    pluginManager: PluginManager | null,
+    context: object,
+    options?: StreamOptions
+  ) {
+    super({ objectMode: true, highWaterMark: options?.highWaterMark });
+    this.open = open;
+    this.pluginManager = pluginManager;
+    this.context = context;
+  }
+
+  /**
+   * Obtém a quantidade de linhas entregues até o momento
+   * @returns Quantidade de linhas lidas
+   */
+  getRowCount(): number {
+    return this.rowCount;
+  }
+
+  /**
+   * Solicitação de leitura do Node; o lote é buscado de forma assíncrona
+   */
+  _read(): void {
+    this.reading = this.readBatch();
+  }
+
+  /**
+   * Lê o próximo lote de linhas do cursor, abrindo-o na primeira leitura
+   */
+  private async readBatch(): Promise<void> {
+    try {
+      if (!this.cursor) {
+        this.started = true;
+        // Emitir evento beforeQuery para plugins uma única vez por stream
+        if (this.pluginManager) {
+          await this.pluginManager.beforeQuery(this.context);
+        }
+        this.cursor = await this.open();
+      }
+
+      const rows = await this.cursor.fetch();
+      if (this.destroyed) {
+        return;
+      }
+
+      if (rows.length === 0) {
+        this.completed = true;
+        this.push(null);
+        return;
+      }
+
+      this.rowCount += rows.length;
+      for (const row of rows) {
+        this.push(row);
+      }
+    } catch (error) {
+      this.destroy(error as Error);
+    }
+  }
+
+  /**
+   * Fecha o cursor e libera a conexão ao final, em caso de erro ou interrupção
+   * @param error - Erro que encerrou o stream, se houver
+   * @param callback - Callback de conclusão do Node
+   */
+  async _destroy(error: Error | null, callback: (error?: Error | null) => void): Promise<void> {
+    // Interromper a iteração (break/return) destrói o stream com AbortError: não é uma falha
+    let failure = error?.name === 'AbortError' ? null : error && (toFirebirdError(error) as Error);
+
+    // Aguarda o lote em andamento para não fechar o cursor durante uma busca
+    if (this.reading) {
+      await this.reading;
+    }
+
+    if (this.cursor) {
+      try {
+        await this.cursor.close(this.completed && !failure);
+      } catch (closeError) {
+        failure = failure || (closeError as Error);
+      }
+      this.cursor = null;
+    }
+
+    try {
+      if (this.pluginManager && this.started) {
+        if (failure) {
+          // Emitir evento onError para plugins
+          await this.pluginManager.onError(failure);
+        } else {
+          // Emitir evento afterQuery para plugins com o total de linhas entregues
+          await this.pluginManager.afterQuery({ rowCount: this.rowCount, completed: this.completed });
+        }
+      }
+    } finally {
+      callback(failure);
+    }
+  }
+
+  /**
+   * Itera sobre as linhas do stream
+   * @returns Iterador assíncrono das linhas
+   */
+  [Symbol.asyncIterator](): NodeJS.AsyncIterator<T> {
+    return super[Symbol.asyncIterator]();
+  }
+}
@@ -0,0 +1,280 @@
+import { Knex } from 'knex';
+import { ConditionBuilder, Conditions } from './ConditionBuilder';
+import { assertIdentifiers } from './SqlIdentifiers';
+
+/**
+ * Funções de agregação aceitas em `columns`
+ */
+export type AggregateFunction = 'count' | 'sum' | 'min' | 'max' | 'avg';
+
+/**
+ * Coluna com alias: `NOME AS CLIENTE`
+ */
+export interface AliasedColumn {
+  column: string;
+  as: string;
+}
+
+/**
+ * Expressão de agregação: `SUM(VALOR) AS TOTAL`
+ */
+export interface AggregateColumn {
+  aggregate: AggregateFunction;
+  /** Coluna agregada; omitida em count gera COUNT(*) */
+  column?: string;
+  /** Alias obrigatório, usado também em `having` */
+  as: string;
+  /** Agrega apenas valores distintos (count, sum e avg) */
+  distinct?: boolean;
+}
+
+/**
+ * Coluna da projeção: nome, coluna com alias ou agregação
+ */
+export type SelectColumn = string | AliasedColumn | AggregateColumn;
+
+/**
+ * Critério de ordenação
+ */
+export interface OrderByOption {
+  field: string;
+  direction?: 'asc' | 'desc';
+  /** Posição dos nulos (NULLS FIRST / NULLS LAST) */
+  nulls?: 'first' | 'last';
+}
+
+/**
+ * Interface que define a forma da consulta SELECT: projeção, agrupamento, ordenação e paginação
+ */
+export interface SelectShape {
+  /** Colunas retornadas (padrão: *) */
+  columns?: SelectColumn[];
+  /** Remove linhas duplicadas (SELECT DISTINCT) */
+  distinct?: boolean;
+  /** Colunas do GROUP BY */
+  groupBy?: string[];
+  /** Condições do HAVING sobre aliases de agregação ou colunas do groupBy */
+  having?: Conditions;
+  limit?: number;
+  offset?: number;
+  /** Um critério ou lista de critérios de ordenação */
+  orderBy?: OrderByOption | OrderByOption[];
+}
+
+type AggregateMethod = (queryBuilder: Knex.QueryBuilder, column: string) => Knex.QueryBuilder;
+
+/** Métodos do Knex para cada agregação */
+const AGGREGATES: Record<AggregateFunction, AggregateMethod> = {
+  count: (queryBuilder, column) => queryBuilder.count(column),
+  sum: (queryBuilder, column) => queryBuilder.sum(column),
+  min: (queryBuilder, column) => queryBuilder.min(column),
+  max: (queryBuilder, column) => queryBuilder.max(column),
+  avg: (queryBuilder, column) => queryBuilder.avg(column)
+};
+
+/** Métodos do Knex para agregações com DISTINCT */
+const DISTINCT_AGGREGATES: Partial<Record<AggregateFunction, AggregateMethod>> = {
+  count: (queryBuilder, column) => queryBuilder.countDistinct(column),
+  sum: (queryBuilder, column) => queryBuilder.sumDistinct(column),
+  avg: (queryBuilder, column) => queryBuilder.avgDistinct(column)
+};
+
+/**
+ * Classe responsável por aplicar projeção, DISTINCT, GROUP BY, HAVING,
+ * ordenação e paginação ao query builder. Todos os identificadores são
+ * validados antes de chegar ao SQL.
+ */
+export class SelectBuilder {
+  private conditionBuilder: ConditionBuilder;
+
+  /**
+   * Construtor da classe SelectBuilder
+   * @param conditionBuilder - Conversor de condições usado no HAVING
+   */
+  constructor(conditionBuilder: ConditionBuilder = new ConditionBuilder()) {
+    this.conditionBuilder = conditionBuilder;
+  }
+
+  /**
+   * Aplica a forma da consulta ao query builder e gera o SELECT
+   * @param queryBuilder - Query builder da tabela, já com as condições WHERE
+   * @param shape - Projeção, agrupamento, ordenação e paginação (opcional)
+   * @returns Query builder pronto para execução
+   * @throws Erro se algum identificador ou opção for inválido
+   */
+  apply(queryBuilder: Knex.QueryBuilder, shape: SelectShape = {}): Knex.QueryBuilder {
+    const columns = this.parseColumns(shape.columns || []);
+    const aggregates = columns.filter((column): column is AggregateColumn => typeof column !== 'string');
+
+    if (shape.groupBy && shape.groupBy.length > 0) {
+      assertIdentifiers(shape.groupBy);
+      queryBuilder.groupBy(shape.groupBy);
+    }
+
+    if (shape.having) {
+      this.applyHaving(queryBuilder, shape.having, aggregates, shape.groupBy || []);
+    }
+
+    // Adicionar opções de paginação
+    if (shape.limit) {
+      queryBuilder.limit(shape.limit);
+    }
+
+    if (shape.offset) {
+      queryBuilder.offset(shape.offset);
+    }
+
+    // Adicionar ordenação
+    if (shape.orderBy) {
+      const criteria = Array.isArray(shape.orderBy) ? shape.orderBy : [shape.orderBy];
+      for (const criterion of criteria) {
+        this.applyOrder(queryBuilder, criterion);
+      }
+    }
+
+    return this.applyColumns(queryBuilder, columns, shape.distinct === true);
+  }
+
+  /**
+   * Valida as colunas da projeção
+   * @param columns - Colunas informadas em `columns`
+   * @returns Colunas na ordem informada: nomes (com alias no formato `COLUNA as ALIAS`) e agregações
+   * @throws Erro se alguma coluna, alias ou agregação for inválida
+   */
+  private parseColumns(columns: SelectColumn[]): Array<string | AggregateColumn> {
+    return columns.map((column) => {
+      if (typeof column === 'string') {
+        assertIdentifiers([column]);
+        return column;
+      }
+      if (column && 'aggregate' in column) {
+        this.assertAggregate(column);
+        return column;
+      }
+      if (column && typeof column.column === 'string' && typeof column.as === 'string') {
+        assertIdentifiers([column.column, column.as]);
+        return `${column.column} as ${column.as}`;
+      }
+      throw new Error('Coluna inválida: informe um nome, { column, as } ou { aggregate, as }');
+    });
+  }
+
+  /**
+   * Valida uma agregação
+   * @param column - Definição da agregação
+   * @throws Erro se a função, a coluna ou o alias forem inválidos
+   */
+  private assertAggregate(column: AggregateColumn): void {
+    if (!Object.prototype.hasOwnProperty.call(AGGREGATES, column.aggregate)) {
+      throw new Error(`Agregação inválida: ${column.aggregate}`);
+    }
+    if (!column.as) {
+      throw new Error(`Agregação ${column.aggregate} exige um alias (as)`);
+    }
+    if (!column.column && column.aggregate !== 'count') {
+      throw new Error(`Agregação ${column.aggregate} exige uma coluna`);
+    }
+    if (column.distinct && !DISTINCT_AGGREGATES[column.aggregate]) {
+      throw new Error(`Agregação ${column.aggregate} não aceita distinct`);
+    }
+    assertIdentifiers(column.column ? [column.column, column.as] : [column.as]);
+  }
+
+  /**
+   * Adiciona as colunas da projeção, na ordem informada
+   * @param queryBuilder - Query builder da tabela
+   * @param columns - Colunas validadas
+   * @param distinct - Gera SELECT DISTINCT
+   * @returns Query builder pronto para execução
+   */
+  private applyColumns(
+    queryBuilder: Knex.QueryBuilder,
+    columns: Array<string | AggregateColumn>,
+    distinct: boolean
+  ): Knex.QueryBuilder {
+    if (columns.length === 0) {
+      return distinct ? queryBuilder.distinct('*') : queryBuilder.select();
+    }
+
+    let result = queryBuilder;
+    for (const column of columns) {
+      if (typeof column === 'string') {
+        result = distinct ? queryBuilder.distinct(column) : queryBuilder.select(column);
+      } else {
+        const method = column.distinct ? DISTINCT_AGGREGATES[column.aggregate]! : AGGREGATES[column.aggregate];
+        result = method(queryBuilder, `${column.column || '*'} as ${column.as}`);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Gera a expressão SQL de uma agregação, usada no HAVING
+   * @param queryBuilder - Query builder da tabela
+   * @param column - Definição da agregação (já validada)
+   * @returns Expressão como `sum(VALOR)` ou `count(distinct CLIENTE)`
+   */
+  private aggregateExpression(queryBuilder: Knex.QueryBuilder, column: AggregateColumn): Knex.Raw {
+    if (!column.column) {
+      return queryBuilder.client.raw(`${column.aggregate}(*)`);
+    }
+    // ?? aplica ao nome da coluna a mesma conversão do restante da consulta
+    const distinct = column.distinct ? 'distinct ' : '';
+    return queryBuilder.client.raw(`${column.aggregate}(${distinct}??)`, [column.column]);
+  }
+
+  /**
+   * Adiciona o HAVING. O Firebird não aceita aliases no HAVING, então cada alias
+   * de agregação é substituído pela expressão correspondente.
+   * @param queryBuilder - Query builder da tabela
+   * @param having - Condições sobre aliases de agregação ou colunas do groupBy
+   * @param aggregates - Agregações da projeção
+   * @param groupBy - Colunas do GROUP BY
+   */
+  private applyHaving(
+    queryBuilder: Knex.QueryBuilder,
+    having: Conditions,
+    aggregates: AggregateColumn[],
+    groupBy: string[]
+  ): void {
+    const resolveField = (field: string): string | Knex.Raw => {
+      const aggregate = aggregates.find((column) => column.as === field);
+      if (aggregate) {
+        return this.aggregateExpression(queryBuilder, aggregate);
+      }
+      if (groupBy.includes(field)) {
+        return field;
+      }
+      throw new Error(`Campo inválido no having: ${field} (use um alias de agregação ou uma coluna do groupBy)`);
+    };
+
+    // Grupos do HAVING são compilados com os métodos where* do Knex
+    queryBuilder.having((group: Knex.QueryBuilder) => {
+      this.conditionBuilder.apply(group, having, resolveField);
+    });
+  }
+
+  /**
+   * Adiciona um critério de ordenação
+   * @param queryBuilder - Query builder da tabela
+   * @param criterion - Campo, direção e posição dos nulos
+   */
+  private applyOrder(queryBuilder: Knex.QueryBuilder, criterion: OrderByOption): void {
+    assertIdentifiers([criterion.field]);
+    const direction = criterion.direction || 'asc';
+    if (direction !== 'asc' && direction !== 'desc') {
+      throw new Error(`Direção de ordenação inválida: ${direction}`);
+    }
+
+    if (!criterion.nulls) {
+      queryBuilder.orderBy(criterion.field, direction);
+      return;
+    }
+    if (criterion.nulls !== 'first' && criterion.nulls !== 'last') {
+      throw new Error(`Posição de nulos inválida: ${criterion.nulls}`);
+    }
+
+    // O Knex emula NULLS FIRST/LAST com expressões; o Firebird tem a cláusula nativa
+    queryBuilder.orderByRaw(`?? ${direction} nulls ${criterion.nulls}`, [criterion.field]);
+  }
+}
@@ -0,0 +1,87 @@
+import { assertIdentifiers } from './SqlIdentifiers';
+import { BuiltStatement } from './UpsertBuilder';
+
+/** Coluna com o valor devolvido pelas consultas de sequência */
+export const SEQUENCE_VALUE_COLUMN = 'SEQUENCE_VALUE';
+
+/** Coluna com o nome devolvido pela listagem de sequências */
+export const SEQUENCE_NAME_COLUMN = 'SEQUENCE_NAME';
+
+/** Sequências criadas pelo usuário, sem as do sistema (RDB$SYSTEM_FLAG = 1) */
+const LIST_SEQUENCES_SQL = `
+  SELECT TRIM(RDB$GENERATOR_NAME) AS ${SEQUENCE_NAME_COLUMN}
+    FROM RDB$GENERATORS
+   WHERE COALESCE(RDB$SYSTEM_FLAG, 0) = 0
+   ORDER BY RDB$GENERATOR_NAME`;
+
+/**
+ * Classe responsável por montar as instruções sobre generators (sequências):
+ * `NEXT VALUE FOR` e `GEN_ID` para obter valores, `SET GENERATOR` para
+ * reposicioná-los e a consulta a RDB$GENERATORS para listá-los.
+ *
+ * Os nomes são validados e enviados como `??`; incrementos vão como parâmetros.
+ * Apenas o valor de `SET GENERATOR`, que não aceita parâmetros, é escrito no SQL
+ * depois de validado como inteiro.
+ */
+export class SequenceBuilder {
+  /**
+   * Monta a consulta do próximo valor da sequência
+   * @param name - Nome da sequência
+   * @param increment - Incremento para GEN_ID; quando omitido, usa NEXT VALUE FOR (opcional)
+   * @returns SQL e parâmetros da consulta
+   * @throws Erro se o nome for inválido ou se o incremento não for inteiro
+   */
+  buildNext(name: string, increment?: number): BuiltStatement {
+    assertIdentifiers([name]);
+    if (increment === undefined) {
+      return { sql: `select next value for ?? as ${SEQUENCE_VALUE_COLUMN} from rdb$database`, bindings: [name] };
+    }
+    this.assertInteger(increment, 'O incremento da sequência');
+    return { sql: `select gen_id(??, ?) as ${SEQUENCE_VALUE_COLUMN} from rdb$database`, bindings: [name, increment] };
+  }
+
+  /**
+   * Monta a consulta do valor atual da sequência, sem alterá-lo
+   * @param name - Nome da sequência
+   * @returns SQL e parâmetros da consulta
+   * @throws Erro se o nome for inválido
+   */
+  buildCurrent(name: string): BuiltStatement {
+    assertIdentifiers([name]);
+    return { sql: `select gen_id(??, 0) as ${SEQUENCE_VALUE_COLUMN} from rdb$database`, bindings: [name] };
+  }
+
+  /**
+   * Monta a instrução que define o valor atual da sequência
+   * @param name - Nome da sequência
+   * @param value - Novo valor atual; o próximo NEXT VALUE FOR devolve o valor seguinte
+   * @returns SQL e parâmetros da instrução
+   * @throws Erro se o nome for inválido ou se o valor não for inteiro
+   */
+  buildSet(name: string, value: number | bigint): BuiltStatement {
+    assertIdentifiers([name]);
+    this.assertInteger(value, 'O valor da sequência');
+    return { sql: `set generator ?? to ${String(value)}`, bindings: [name] };
+  }
+
+  /**
+   * Monta a consulta das sequências do banco
+   * @returns SQL e parâmetros da consulta
+   */
+  buildList(): BuiltStatement {
+    return { sql: LIST_SEQUENCES_SQL, bindings: [] };
+  }
+
+  /**
+   * Garante que o valor seja um inteiro representável com exatidão
+   * @param value - Valor informado
+   * @param label - Descrição do valor, usada na mensagem de erro
+   * @throws Erro se o valor não for inteiro
+   */
+  private assertInteger(value: number | bigint, label: string): void {
+    if (typeof value === 'bigint' || Number.isSafeInteger(value)) {
+      return;
+    }
+    throw new Error(`${label} deve ser um inteiro`);
+  }
+}
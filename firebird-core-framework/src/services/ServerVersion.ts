@@ -0,0 +1,76 @@
+import { Knex } from 'knex';
+import { ColumnNameMapper } from '../core/ColumnNames';
+
+/**
+ * Versão do servidor Firebird
+ */
+export interface EngineVersion {
+  major: number;
+  minor: number;
+  /** Versão como informada pelo servidor (ex.: 4.0.2) */
+  text: string;
+}
+
+/** Versão do engine; a variável ENGINE_VERSION existe a partir do Firebird 2.1 */
+const ENGINE_VERSION_SQL = "SELECT RDB$GET_CONTEXT('SYSTEM', 'ENGINE_VERSION') AS ENGINE_VERSION FROM RDB$DATABASE";
+
+/** Versão assumida quando o servidor não informa ENGINE_VERSION */
+const PRE_2_1: EngineVersion = { major: 2, minor: 0, text: 'anterior a 2.1' };
+
+/**
+ * Classe responsável por identificar a versão do servidor, usada para escolher
+ * ou recusar instruções que dependem dela. A versão é consultada uma única vez.
+ */
+export class ServerVersion {
+  private version: EngineVersion | null = null;
+
+  /**
+   * Obtém a versão do servidor
+   * @param executor - Conexão ou transação usada na consulta
+   * @param mapper - Conversão de nomes de colunas em uso (opcional)
+   * @returns Promise com a versão do servidor
+   */
+  async get(executor: Knex | Knex.Transaction, mapper?: ColumnNameMapper | null): Promise<EngineVersion> {
+    if (this.version) {
+      return this.version;
+    }
+
+    let rows: any[];
+    try {
+      rows = (await executor.raw(ENGINE_VERSION_SQL)) || [];
+    } catch (error) {
+      // Antes do Firebird 2.1 a variável não existe; outros erros não identificam a versão
+      if (!/ENGINE_VERSION/i.test(error instanceof Error ? error.message : String(error))) {
+        throw error;
+      }
+      rows = [];
+    }
+
+    const text = rows[0]?.[mapper ? mapper.toProperty('ENGINE_VERSION') : 'ENGINE_VERSION'];
+    const match = /^(\d+)\.(\d+)/.exec(String(text ?? ''));
+    this.version = match ? { major: Number(match[1]), minor: Number(match[2]), text: String(text) } : PRE_2_1;
+    return this.version;
+  }
+
+  /**
+   * Garante que o servidor tenha a versão mínima exigida por um recurso
+   * @param executor - Conexão ou transação usada na consulta
+   * @param major - Versão principal mínima
+   * @param minor - Versão secundária mínima
+   * @param feature - Recurso que exige a versão, usado na mensagem de erro
+   * @param mapper - Conversão de nomes de colunas em uso (opcional)
+   * @throws Erro se o servidor for de versão anterior
+   */
+  async require(
+    executor: Knex | Knex.Transaction,
+    major: number,
+    minor: number,
+    feature: string,
+    mapper?: ColumnNameMapper | null
+  ): Promise<void> {
+    const version = await this.get(executor, mapper);
+    if (version.major < major || (version.major === major && version.minor < minor)) {
+      throw new Error(`${feature} exige Firebird ${major}.${minor} ou superior (servidor: ${version.text})`);
+    }
+  }
+}
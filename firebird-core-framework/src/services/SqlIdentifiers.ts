@@ -0,0 +1,57 @@
+/**
+ * Validação dos identificadores (tabelas e colunas) usados pelo query builder.
+ *
+ * O knex-firebird-dialect não coloca identificadores entre aspas, então nomes
+ * vindos de fora do código precisam ser validados antes de chegar ao SQL.
+ * Identificadores simples continuam sem aspas (o Firebird os converte para
+ * maiúsculas); nomes com espaços ou minúsculas devem ser informados já entre
+ * aspas duplas, como no dialeto 3 (`"Nome do Cliente"`).
+ */
+
+/** Identificadores simples: letras, números, _ e $, começando por letra */
+const IDENTIFIER_PATTERN = /^[A-Za-z][A-Za-z0-9_$]*$/;
+
+/** Identificadores delimitados do dialeto 3; "?" é recusado por ser marcador de parâmetro */
+const QUOTED_IDENTIFIER_PATTERN = /^"(?:[^"?]|"")+"$/;
+
+/**
+ * Verifica se o nome é um identificador válido do Firebird (simples ou entre aspas)
+ * @param identifier - Nome a ser verificado
+ * @returns true se o identificador for válido
+ */
+export function isValidIdentifier(identifier: string): boolean {
+  return typeof identifier === 'string' &&
+    (IDENTIFIER_PATTERN.test(identifier) || QUOTED_IDENTIFIER_PATTERN.test(identifier));
+}
+
+/**
+ * Coloca um nome entre aspas duplas, escapando as aspas internas (dialeto 3)
+ * @param name - Nome exato do objeto, com maiúsculas e minúsculas
+ * @returns Identificador delimitado
+ */
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Converte um identificador no nome gravado no catálogo do sistema (RDB$...):
+ * identificadores simples em maiúsculas, delimitados sem as aspas
+ * @param identifier - Identificador simples ou entre aspas
+ * @returns Nome como gravado no catálogo
+ */
+export function toStoredName(identifier: string): string {
+  return identifier.startsWith('"') ? identifier.slice(1, -1).replace(/""/g, '"') : identifier.toUpperCase();
+}
+
+/**
+ * Valida um ou mais identificadores
+ * @param identifiers - Identificadores a serem validados
+ * @throws Erro se algum identificador for inválido
+ */
+export function assertIdentifiers(identifiers: string[]): void {
+  for (const identifier of identifiers) {
+    if (!isValidIdentifier(identifier)) {
+      throw new Error(`Identificador inválido: ${identifier}`);
+    }
+  }
+}
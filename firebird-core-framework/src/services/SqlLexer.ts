@@ -0,0 +1,344 @@
+/**
+ * Analisador léxico de SQL para o dialeto do Firebird.
+ *
+ * Reconhece literais de string (inclusive q-strings e literais hexadecimais),
+ * identificadores entre aspas duplas, comentários de linha e de bloco,
+ * parâmetros posicionais (?) e nomeados (:nome), além de identificadores
+ * de sistema contendo `$` (por ex. RDB$DATABASE, MON$STATEMENTS).
+ */
+
+/**
+ * Tipos de token reconhecidos pelo analisador
+ */
+export type SqlTokenType =
+  | 'keyword'
+  | 'identifier'
+  | 'quoted_identifier'
+  | 'string'
+  | 'number'
+  | 'parameter'
+  | 'operator'
+  | 'punctuation'
+  | 'comment'
+  | 'whitespace'
+  | 'unknown';
+
+/**
+ * Token produzido pelo analisador léxico
+ */
+export interface SqlToken {
+  type: SqlTokenType;
+  /** Texto original do token */
+  value: string;
+  /** Valor normalizado (maiúsculas para palavras, conteúdo sem aspas para literais) */
+  normalized: string;
+  /** Posição (base 0) do primeiro caractere do token na consulta */
+  position: number;
+  /** Linha (base 1) do primeiro caractere do token */
+  line: number;
+  /** Coluna (base 1) do primeiro caractere do token */
+  column: number;
+}
+
+/**
+ * Tipos de instrução SQL identificados pelo analisador
+ */
+export type SqlStatementType =
+  | 'SELECT'
+  | 'INSERT'
+  | 'UPDATE'
+  | 'DELETE'
+  | 'MERGE'
+  | 'UPDATE_OR_INSERT'
+  | 'EXECUTE_PROCEDURE'
+  | 'EXECUTE_BLOCK'
+  | 'DDL'
+  | 'DCL'
+  | 'TRANSACTION_CONTROL'
+  | 'UNKNOWN';
+
+/**
+ * Erro lançado quando a consulta não pode ser tokenizada
+ * (literal ou comentário não terminado, por exemplo)
+ */
+export class SqlLexerError extends Error {
+  position: number;
+  line: number;
+  column: number;
+
+  constructor(message: string, position: number, line: number, column: number) {
+    super(`${message} (linha ${line}, coluna ${column})`);
+    this.name = 'SqlLexerError';
+    this.position = position;
+    this.line = line;
+    this.column = column;
+  }
+}
+
+/**
+ * Palavras reservadas relevantes para classificação e validação de instruções.
+ * Palavras fora desta lista são tratadas como identificadores.
+ */
+const KEYWORDS = new Set([
+  'SELECT', 'FROM', 'WHERE', 'AND', 'OR', 'NOT', 'IN', 'IS', 'NULL', 'LIKE', 'BETWEEN',
+  'CONTAINING', 'STARTING', 'WITH', 'AS', 'JOIN', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'OUTER',
+  'CROSS', 'ON', 'GROUP', 'BY', 'HAVING', 'ORDER', 'ASC', 'DESC', 'ASCENDING', 'DESCENDING',
+  'NULLS', 'FIRST', 'LAST', 'SKIP', 'ROWS', 'TO', 'FETCH', 'OFFSET', 'NEXT', 'ONLY', 'ROW',
+  'UNION', 'ALL', 'DISTINCT', 'EXISTS', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END', 'FOR', 'LOCK',
+  'RECURSIVE', 'INSERT', 'INTO', 'VALUES', 'UPDATE', 'SET', 'DELETE', 'MERGE', 'USING',
+  'MATCHED', 'MATCHING', 'RETURNING', 'DEFAULT', 'EXECUTE', 'PROCEDURE', 'BLOCK', 'RETURNS',
+  'DECLARE', 'VARIABLE', 'BEGIN', 'SUSPEND', 'CREATE', 'ALTER', 'DROP', 'RECREATE', 'TRUNCATE',
+  'COMMENT', 'GRANT', 'REVOKE', 'COMMIT', 'ROLLBACK', 'SAVEPOINT', 'RELEASE', 'TRANSACTION',
+  'RETAIN', 'WORK'
+]);
+
+/** Operadores compostos, verificados antes dos operadores simples */
+const COMPOUND_OPERATORS = ['||', '<>', '!=', '^=', '~=', '<=', '>=', '!<', '!>', '^<', '^>', '~<', '~>'];
+
+/** Operadores de um único caractere */
+const SIMPLE_OPERATORS = '=<>+-*/';
+
+/** Pontuação reconhecida */
+const PUNCTUATION = '(),;.[]';
+
+/** Pares de delimitadores aceitos nas q-strings do Firebird 3+ (q'{...}') */
+const Q_STRING_DELIMITERS: { [key: string]: string } = { '(': ')', '{': '}', '[': ']', '<': '>' };
+
+/**
+ * Classe responsável por tokenizar consultas SQL do Firebird
+ * e identificar o tipo de instrução.
+ */
+export class SqlLexer {
+  /**
+   * Converte a consulta em uma lista de tokens
+   * @param sql - Consulta SQL a ser tokenizada
+   * @returns Lista de tokens, incluindo espaços e comentários
+   * @throws SqlLexerError se houver literal, identificador ou comentário não terminado
+   */
+  tokenize(sql: string): SqlToken[] {
+    const tokens: SqlToken[] = [];
+    let pos = 0;
+    let line = 1;
+    let column = 1;
+
+    const push = (type: SqlTokenType, end: number, normalized?: string): void => {
+      const value = sql.slice(pos, end);
+      tokens.push({ type, value, normalized: normalized ?? value, position: pos, line, column });
+
+      // Atualizar linha e coluna a partir do texto consumido
+      for (const char of value) {
+        if (char === '\n') {
+          line++;
+          column = 1;
+        } else {
+          column++;
+        }
+      }
+      pos = end;
+    };
+
+    const fail = (message: string): never => {
+      throw new SqlLexerError(message, pos, line, column);
+    };
+
+    while (pos < sql.length) {
+      const char = sql[pos];
+      const next = sql[pos + 1];
+
+      // Espaços em branco
+      if (/\s/.test(char)) {
+        let end = pos + 1;
+        while (end < sql.length && /\s/.test(sql[end])) end++;
+        push('whitespace', end);
+        continue;
+      }
+
+      // Comentário de linha
+      if (char === '-' && next === '-') {
+        let end = sql.indexOf('\n', pos);
+        if (end === -1) end = sql.length;
+        push('comment', end);
+        continue;
+      }
+
+      // Comentário de bloco
+      if (char === '/' && next === '*') {
+        const end = sql.indexOf('*/', pos + 2);
+        if (end === -1) fail('Comentário não terminado');
+        push('comment', end + 2);
+        continue;
+      }
+
+      // q-string (Firebird 3+): q'{texto}' ou q'!texto!'
+      if ((char === 'q' || char === 'Q') && next === '\'' && pos + 2 < sql.length) {
+        const open = sql[pos + 2];
+        const close = Q_STRING_DELIMITERS[open] || open;
+        const end = sql.indexOf(close + '\'', pos + 3);
+        if (end === -1) fail('Literal de string não terminado');
+        push('string', end + 2, sql.slice(pos + 3, end));
+        continue;
+      }
+
+      // Literal binário hexadecimal: x'0A1B'
+      if ((char === 'x' || char === 'X') && next === '\'') {
+        const end = this.scanQuoted(sql, pos + 1, '\'');
+        if (end === -1) fail('Literal de string não terminado');
+        push('string', end, sql.slice(pos + 2, end - 1));
+        continue;
+      }
+
+      // Literal de string
+      if (char === '\'') {
+        const end = this.scanQuoted(sql, pos, '\'');
+        if (end === -1) fail('Literal de string não terminado');
+        push('string', end, sql.slice(pos + 1, end - 1).replace(/''/g, '\''));
+        continue;
+      }
+
+      // Identificador entre aspas duplas (dialeto 3)
+      if (char === '"') {
+        const end = this.scanQuoted(sql, pos, '"');
+        if (end === -1) fail('Identificador entre aspas não terminado');
+        push('quoted_identifier', end, sql.slice(pos + 1, end - 1).replace(/""/g, '"'));
+        continue;
+      }
+
+      // Palavras: palavras reservadas e identificadores (inclusive RDB$, MON$, etc.)
+      if (/[A-Za-z]/.test(char)) {
+        let end = pos + 1;
+        while (end < sql.length && /[A-Za-z0-9_$]/.test(sql[end])) end++;
+        const upper = sql.slice(pos, end).toUpperCase();
+        push(KEYWORDS.has(upper) ? 'keyword' : 'identifier', end, upper);
+        continue;
+      }
+
+      // Números: inteiros, decimais, notação científica e hexadecimais (0x1F)
+      if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(next || ''))) {
+        const match = /^(0[xX][0-9A-Fa-f]+|[0-9]*\.?[0-9]+(?:[eE][+-]?[0-9]+)?)/.exec(sql.slice(pos));
+        push('number', pos + (match ? match[0].length : 1));
+        continue;
+      }
+
+      // Parâmetro posicional
+      if (char === '?') {
+        push('parameter', pos + 1);
+        continue;
+      }
+
+      // Parâmetro nomeado (:nome)
+      if (char === ':' && /[A-Za-z_]/.test(next || '')) {
+        let end = pos + 2;
+        while (end < sql.length && /[A-Za-z0-9_$]/.test(sql[end])) end++;
+        push('parameter', end, sql.slice(pos + 1, end));
+        continue;
+      }
+
+      const compound = COMPOUND_OPERATORS.find((op) => sql.startsWith(op, pos));
+      if (compound) {
+        push('operator', pos + compound.length);
+        continue;
+      }
+
+      if (SIMPLE_OPERATORS.includes(char)) {
+        push('operator', pos + 1);
+        continue;
+      }
+
+      if (PUNCTUATION.includes(char)) {
+        push('punctuation', pos + 1);
+        continue;
+      }
+
+      push('unknown', pos + 1);
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Retorna apenas os tokens significativos (sem espaços e comentários)
+   * @param tokens - Lista completa de tokens
+   * @returns Tokens significativos
+   */
+  significant(tokens: SqlToken[]): SqlToken[] {
+    return tokens.filter((token) => token.type !== 'whitespace' && token.type !== 'comment');
+  }
+
+  /**
+   * Identifica o tipo da instrução a partir dos tokens
+   * @param tokens - Tokens da consulta (completos ou apenas significativos)
+   * @returns Tipo da instrução
+   */
+  classify(tokens: SqlToken[]): SqlStatementType {
+    const words = this.significant(tokens);
+    const first = words[0];
+    if (!first || first.type !== 'keyword') {
+      // Parênteses iniciais são aceitos em consultas como "(SELECT ...) UNION (SELECT ...)"
+      if (first && first.value === '(') {
+        return this.classify(words.slice(1));
+      }
+      return 'UNKNOWN';
+    }
+
+    const second = words[1]?.normalized;
+
+    switch (first.normalized) {
+      case 'SELECT':
+      case 'WITH':
+        return 'SELECT';
+      case 'INSERT':
+        return 'INSERT';
+      case 'UPDATE':
+        return second === 'OR' && words[2]?.normalized === 'INSERT' ? 'UPDATE_OR_INSERT' : 'UPDATE';
+      case 'DELETE':
+        return 'DELETE';
+      case 'MERGE':
+        return 'MERGE';
+      case 'EXECUTE':
+        if (second === 'PROCEDURE') return 'EXECUTE_PROCEDURE';
+        if (second === 'BLOCK') return 'EXECUTE_BLOCK';
+        return 'UNKNOWN';
+      case 'CREATE':
+      case 'ALTER':
+      case 'DROP':
+      case 'RECREATE':
+      case 'TRUNCATE':
+      case 'COMMENT':
+        return 'DDL';
+      case 'GRANT':
+      case 'REVOKE':
+        return 'DCL';
+      case 'SET':
+        return second === 'TRANSACTION' ? 'TRANSACTION_CONTROL' : 'UNKNOWN';
+      case 'COMMIT':
+      case 'ROLLBACK':
+      case 'SAVEPOINT':
+      case 'RELEASE':
+        return 'TRANSACTION_CONTROL';
+      default:
+        return 'UNKNOWN';
+    }
+  }
+
+  /**
+   * Localiza o fim de um trecho delimitado por aspas, tratando aspas duplicadas como escape
+   * @param sql - Consulta completa
+   * @param start - Posição da aspa de abertura
+   * @param quote - Caractere de aspa
+   * @returns Posição logo após a aspa de fechamento, ou -1 se não terminado
+   */
+  private scanQuoted(sql: string, start: number, quote: string): number {
+    let pos = start + 1;
+    while (pos < sql.length) {
+      if (sql[pos] === quote) {
+        if (sql[pos + 1] === quote) {
+          pos += 2;
+          continue;
+        }
+        return pos + 1;
+      }
+      pos++;
+    }
+    return -1;
+  }
+}
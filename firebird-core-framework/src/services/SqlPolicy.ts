@@ -0,0 +1,646 @@
+import { SqlLexer, SqlLexerError, SqlStatementType, SqlToken } from './SqlLexer';
+
+/**
+ * Pontos de entrada de SQL escrito pelo chamador
+ * - query: executeQuery fora de transação (e a consulta de origem do merge)
+ * - stream: stream fora de transação
+ * - transaction: executeTransaction e consultas feitas dentro de transaction()
+ */
+export type SqlEntryPoint = 'query' | 'stream' | 'transaction';
+
+/**
+ * Tabela ou procedure referenciada por uma instrução
+ */
+export interface SqlObjectReference {
+  /** Nome do objeto, em maiúsculas quando não está entre aspas */
+  name: string;
+  kind: 'table' | 'procedure';
+  /**
+   * Leitura, ou escrita para a tabela alvo de INSERT, UPDATE, DELETE e MERGE
+   * e para a procedure chamada por EXECUTE PROCEDURE
+   */
+  access: 'read' | 'write';
+  /** Token do nome na consulta; ausente nos métodos que montam o SQL */
+  token?: SqlToken;
+}
+
+/**
+ * Dados da instrução repassados às regras personalizadas
+ */
+export interface SqlPolicyContext {
+  sql: string;
+  entryPoint: SqlEntryPoint;
+  statementType: SqlStatementType;
+  /** Tabelas e procedures referenciadas */
+  objects: SqlObjectReference[];
+  /** Tokens significativos (sem espaços e comentários) */
+  tokens: SqlToken[];
+}
+
+/**
+ * Regra personalizada da política
+ */
+export interface SqlPolicyRule {
+  /** Nome da regra, informado nas violações */
+  name: string;
+  /**
+   * Avalia a instrução
+   * @returns Mensagem da violação, ou null/undefined se a instrução for aceita
+   */
+  check(context: SqlPolicyContext): string | null | undefined;
+}
+
+/**
+ * Violação estruturada da política, repassada ao hook onPolicyViolation
+ */
+export interface SqlPolicyViolation {
+  /**
+   * Regra violada: syntax, statement, keyword, injection, table, procedure
+   * ou o nome da regra personalizada
+   */
+  rule: string;
+  message: string;
+  /** Ponto de entrada; ausente nos métodos que montam o SQL (executeSelect, executeInsert...) */
+  entryPoint?: SqlEntryPoint;
+  /** Consulta recusada; ausente nos métodos que montam o SQL */
+  sql?: string;
+  statementType?: SqlStatementType;
+  /** Tabela ou procedure recusada */
+  object?: string;
+  /** Token que violou a política, com sua posição na consulta */
+  token?: SqlToken;
+}
+
+/**
+ * Interface que define a política de SQL.
+ * Pode ser definida em FirebirdConfig.sqlPolicy, nos parâmetros da transação
+ * ou na chamada. As políticas da transação e da chamada apenas restringem a da
+ * configuração (listas intersectadas, allowDdl e tipos de instrução combinados
+ * com E), salvo com `allowOverride`; as regras personalizadas são acumuladas.
+ */
+export interface SqlPolicy {
+  /** Tipos de instrução aceitos em cada ponto de entrada */
+  statements?: Partial<Record<SqlEntryPoint, SqlStatementType[]>>;
+  /** Tabelas que podem ser lidas (ausente: todas); RDB$DATABASE é sempre aceita */
+  readableTables?: string[];
+  /** Tabelas que podem ser alteradas (ausente: todas) */
+  writableTables?: string[];
+  /** Procedures que podem ser executadas (ausente: todas) */
+  procedures?: string[];
+  /**
+   * Procedures que podem ser chamadas por EXECUTE PROCEDURE, que podem alterar dados
+   * (ausente: as de `procedures`); as selecionáveis seguem apenas `procedures`
+   */
+  executableProcedures?: string[];
+  /** Aceita DDL (CREATE, ALTER, DROP...) em query e transaction, para chamadores privilegiados como migrações */
+  allowDdl?: boolean;
+  /** Regras personalizadas, avaliadas depois das demais */
+  rules?: SqlPolicyRule[];
+  /**
+   * Permite que as políticas da transação e da chamada ampliem esta política,
+   * substituindo suas propriedades (padrão: false). Vale apenas em FirebirdConfig.sqlPolicy.
+   */
+  allowOverride?: boolean;
+}
+
+/**
+ * Interface que define o resultado da validação de SQL
+ */
+export interface ValidationResult {
+  valid: boolean;
+  message?: string;
+  error?: string;
+  /** Tipo da instrução identificado pelo analisador léxico */
+  statementType?: SqlStatementType;
+  /** Token que violou a política, com sua posição na consulta */
+  violation?: SqlToken;
+  /** Violação estruturada, com a regra e o objeto recusado */
+  policyViolation?: SqlPolicyViolation;
+}
+
+/** Tipos de instrução aceitos por padrão em cada ponto de entrada */
+const DEFAULT_STATEMENTS: Record<SqlEntryPoint, SqlStatementType[]> = {
+  query: ['SELECT'],
+  stream: ['SELECT'],
+  transaction: ['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'MERGE', 'UPDATE_OR_INSERT', 'EXECUTE_PROCEDURE']
+};
+
+/** Tipos de instrução que alteram dados */
+const WRITE_STATEMENT_TYPES: SqlStatementType[] = ['INSERT', 'UPDATE', 'DELETE', 'MERGE', 'UPDATE_OR_INSERT'];
+
+const STATEMENT_TYPES: SqlStatementType[] = [
+  'SELECT', 'INSERT', 'UPDATE', 'DELETE', 'MERGE', 'UPDATE_OR_INSERT', 'EXECUTE_PROCEDURE',
+  'EXECUTE_BLOCK', 'DDL', 'DCL', 'TRANSACTION_CONTROL', 'UNKNOWN'
+];
+
+/** Palavras-chave de DDL, permitidas apenas com allowDdl */
+const DDL_KEYWORDS = ['DROP', 'TRUNCATE', 'ALTER', 'CREATE', 'RECREATE'];
+
+/** Palavras-chave de escrita, bloqueadas onde nenhuma instrução de escrita é aceita */
+const WRITE_KEYWORDS = ['DELETE', 'UPDATE', 'INSERT', 'MERGE', 'EXECUTE'];
+
+/** Palavras-chave seguidas do nome de uma tabela */
+const REFERENCE_KEYWORDS = ['FROM', 'JOIN', 'INTO', 'UPDATE', 'USING'];
+
+/** Funções que usam FROM nos argumentos, como EXTRACT(YEAR FROM data) */
+const FUNCTIONS_WITH_FROM = ['EXTRACT', 'SUBSTRING', 'TRIM', 'OVERLAY', 'POSITION'];
+
+/** Palavras que separam as instruções do corpo de um EXECUTE BLOCK, além do ";" */
+const BLOCK_BOUNDARIES = ['BEGIN', 'END', 'THEN', 'ELSE', 'DO'];
+
+/** Tabelas de sistema sempre legíveis */
+const ALWAYS_READABLE = ['RDB$DATABASE'];
+
+/**
+ * Valida uma política de SQL
+ * @param policy - Política informada na configuração ou na chamada
+ * @returns Mensagem de erro, ou null se a política for válida
+ */
+export function validateSqlPolicy(policy: unknown): string | null {
+  if (!policy || typeof policy !== 'object') {
+    return 'sqlPolicy deve ser um objeto';
+  }
+
+  const { statements, readableTables, writableTables, procedures, executableProcedures, allowDdl, rules, allowOverride } =
+    policy as SqlPolicy;
+  if (statements !== undefined) {
+    if (!statements || typeof statements !== 'object') {
+      return 'sqlPolicy.statements deve ser um objeto';
+    }
+    for (const [entryPoint, types] of Object.entries(statements)) {
+      if (!(entryPoint in DEFAULT_STATEMENTS)) {
+        return `Ponto de entrada desconhecido em sqlPolicy.statements: ${entryPoint}`;
+      }
+      if (!Array.isArray(types) || types.some((type) => !STATEMENT_TYPES.includes(type))) {
+        return `sqlPolicy.statements.${entryPoint} deve ser uma lista de tipos de instrução`;
+      }
+    }
+  }
+  for (const [name, list] of Object.entries({ readableTables, writableTables, procedures, executableProcedures })) {
+    if (list !== undefined && (!Array.isArray(list) || list.some((item) => typeof item !== 'string'))) {
+      return `sqlPolicy.${name} deve ser uma lista de nomes`;
+    }
+  }
+  if (allowDdl !== undefined && typeof allowDdl !== 'boolean') {
+    return 'sqlPolicy.allowDdl deve ser booleano';
+  }
+  if (allowOverride !== undefined && typeof allowOverride !== 'boolean') {
+    return 'sqlPolicy.allowOverride deve ser booleano';
+  }
+  if (rules !== undefined && (!Array.isArray(rules) ||
+      rules.some((rule) => !rule || typeof rule.name !== 'string' || typeof rule.check !== 'function'))) {
+    return 'sqlPolicy.rules deve ser uma lista de regras com name e check';
+  }
+  return null;
+}
+
+/**
+ * Combina a política da configuração com as da transação e da chamada, que
+ * apenas a restringem, ou a substituem quando a configuração tem `allowOverride`
+ * @param base - Política da configuração
+ * @param policies - Políticas da transação e da chamada, da mais geral para a mais específica
+ * @returns Política combinada
+ */
+export function mergeSqlPolicies(base: SqlPolicy | null | undefined, ...policies: Array<SqlPolicy | null | undefined>): SqlPolicy {
+  const { allowOverride, ...defined } = definedProperties(base || {});
+  let merged: SqlPolicy = defined;
+  for (const policy of policies) {
+    if (policy) {
+      merged = allowOverride ? overridePolicy(merged, policy) : narrowPolicy(merged, policy);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Substitui as propriedades da política pelas informadas, acumulando as regras
+ * @param current - Política em vigor
+ * @param policy - Política mais específica
+ * @returns Política combinada
+ */
+function overridePolicy(current: SqlPolicy, policy: SqlPolicy): SqlPolicy {
+  const { statements, rules, allowOverride, ...rest } = definedProperties(policy);
+  const merged: SqlPolicy = { ...current, ...rest };
+  if (statements) {
+    merged.statements = { ...current.statements, ...statements };
+  }
+  if (rules) {
+    merged.rules = [...(current.rules || []), ...rules];
+  }
+  return merged;
+}
+
+/**
+ * Restringe a política: intersecta os tipos de instrução e as listas de nomes,
+ * combina allowDdl com E e acumula as regras
+ * @param current - Política em vigor
+ * @param policy - Política mais específica
+ * @returns Política combinada, nunca mais permissiva que `current`
+ */
+function narrowPolicy(current: SqlPolicy, policy: SqlPolicy): SqlPolicy {
+  const { statements, readableTables, writableTables, procedures, executableProcedures, allowDdl, rules } = policy;
+  const merged: SqlPolicy = { ...current };
+
+  if (statements) {
+    merged.statements = { ...current.statements };
+    for (const [entryPoint, types] of Object.entries(statements) as [SqlEntryPoint, SqlStatementType[]][]) {
+      const allowed = current.statements?.[entryPoint] || DEFAULT_STATEMENTS[entryPoint];
+      merged.statements[entryPoint] = allowed.filter((type) => types.includes(type));
+    }
+  }
+
+  const lists = {
+    readableTables: intersectNames(current.readableTables, readableTables),
+    writableTables: intersectNames(current.writableTables, writableTables),
+    procedures: intersectNames(current.procedures, procedures),
+    // Sem executableProcedures, valem as de procedures em cada política
+    executableProcedures: executableProcedures || procedures
+      ? intersectNames(current.executableProcedures ?? current.procedures, executableProcedures ?? procedures)
+      : current.executableProcedures
+  };
+  Object.assign(merged, definedProperties(lists));
+
+  if (allowDdl !== undefined) {
+    merged.allowDdl = current.allowDdl === true && allowDdl;
+  }
+  if (rules) {
+    merged.rules = [...(current.rules || []), ...rules];
+  }
+  return merged;
+}
+
+/**
+ * Intersecta duas listas de nomes, sem diferenciar maiúsculas de minúsculas
+ * @param current - Nomes permitidos (ausente: todos)
+ * @param names - Nomes da política mais específica (ausente: todos)
+ * @returns Nomes presentes nas duas listas, ou undefined se ambas estiverem ausentes
+ */
+function intersectNames(current?: string[], names?: string[]): string[] | undefined {
+  if (!current || !names) {
+    return current || names;
+  }
+  const allowed = current.map((name) => name.toUpperCase());
+  return names.filter((name) => allowed.includes(name.toUpperCase()));
+}
+
+/**
+ * Remove as propriedades undefined de uma política
+ * @param policy - Política informada
+ * @returns Cópia apenas com as propriedades definidas
+ */
+function definedProperties<T extends object>(policy: T): T {
+  return Object.fromEntries(Object.entries(policy).filter(([, value]) => value !== undefined)) as T;
+}
+
+/**
+ * Classe responsável por avaliar instruções SQL contra a política:
+ * tipo da instrução por ponto de entrada, padrões de injeção, DDL,
+ * tabelas e procedures referenciadas e regras personalizadas.
+ */
+export class SqlPolicyEngine {
+  private lexer: SqlLexer;
+
+  /**
+   * @param lexer - Analisador léxico usado para tokenizar as consultas
+   */
+  constructor(lexer: SqlLexer = new SqlLexer()) {
+    this.lexer = lexer;
+  }
+
+  /**
+   * Avalia uma consulta escrita pelo chamador
+   * @param sql - Consulta SQL
+   * @param entryPoint - Ponto de entrada da consulta
+   * @param policy - Política aplicada (padrão: regras fixas do framework)
+   * @returns Resultado da validação, com a violação estruturada quando recusada
+   */
+  evaluate(sql: string, entryPoint: SqlEntryPoint, policy: SqlPolicy = {}): ValidationResult {
+    let tokens: SqlToken[];
+    try {
+      tokens = this.lexer.tokenize(sql);
+    } catch (error) {
+      if (error instanceof SqlLexerError) {
+        const message = `Consulta malformada: ${error.message}`;
+        return { valid: false, error: message, policyViolation: { rule: 'syntax', message, entryPoint, sql } };
+      }
+      throw error;
+    }
+
+    const significant = this.lexer.significant(tokens);
+    if (significant.length === 0) {
+      const message = 'Consulta vazia';
+      return { valid: false, error: message, policyViolation: { rule: 'syntax', message, entryPoint, sql } };
+    }
+
+    const statementType = this.lexer.classify(significant);
+    const reject = (rule: string, error: string, violation?: SqlToken, object?: string): ValidationResult => ({
+      valid: false,
+      error,
+      statementType,
+      violation,
+      policyViolation: { rule, message: error, entryPoint, sql, statementType, object, token: violation }
+    });
+
+    // Verificar se o tipo de instrução é aceito no ponto de entrada
+    const allowed = this.allowedStatements(entryPoint, policy);
+    if (!allowed.includes(statementType)) {
+      const first = significant[0];
+      return first.type === 'keyword'
+        ? reject('statement', `Keyword não permitido: ${first.normalized}`, first)
+        : reject('statement', 'Instrução não reconhecida', first);
+    }
+
+    const allowWrites = allowed.some((type) => WRITE_STATEMENT_TYPES.includes(type));
+    for (const token of tokens) {
+      // Comentários e caracteres desconhecidos fora de literais são usados para truncar consultas
+      if (token.type === 'comment' || token.type === 'unknown') {
+        return reject('injection', 'Padrão de injeção SQL detectado', token);
+      }
+
+      // Apenas um terminador final é aceito; ";" no meio indica múltiplas instruções
+      if (token.type === 'punctuation' && token.value === ';' && token !== significant[significant.length - 1]) {
+        return reject('injection', 'Padrão de injeção SQL detectado', token);
+      }
+
+      if (token.type !== 'keyword') {
+        continue;
+      }
+
+      if (!policy.allowDdl && DDL_KEYWORDS.includes(token.normalized)) {
+        return reject('keyword', `Keyword não permitido: ${token.normalized}`, token);
+      }
+
+      // A palavra inicial já foi aceita pelo tipo da instrução (ex.: EXECUTE PROCEDURE)
+      if (!allowWrites && WRITE_KEYWORDS.includes(token.normalized) && token !== significant[0]) {
+        // SELECT ... FOR UPDATE é uma leitura com bloqueio pessimista
+        const previous = significant[significant.indexOf(token) - 1];
+        if (!(token.normalized === 'UPDATE' && previous?.normalized === 'FOR')) {
+          return reject('keyword', `Keyword não permitido: ${token.normalized}`, token);
+        }
+      }
+    }
+
+    // Verificar condições sempre verdadeiras (como OR 1=1, AND 'a'='a')
+    const tautology = this.findTautology(significant);
+    if (tautology) {
+      return reject('injection', 'Padrão de injeção SQL detectado', tautology);
+    }
+
+    const objects = statementType === 'DDL' ? [] : this.collectObjects(significant, statementType);
+    const denied = this.checkObjects(objects, policy);
+    if (denied) {
+      return reject(denied.rule, denied.message, denied.token, denied.object);
+    }
+
+    for (const rule of policy.rules || []) {
+      const message = rule.check({ sql, entryPoint, statementType, objects, tokens: significant });
+      if (message) {
+        return reject(rule.name, message);
+      }
+    }
+
+    return { valid: true, message: 'Consulta válida', statementType };
+  }
+
+  /**
+   * Avalia um EXECUTE BLOCK montado pelo framework. Os tipos de instrução e as
+   * palavras-chave do corpo seguem a política executeBlock, aplicada na montagem;
+   * aqui valem as tabelas e procedures referenciadas e as regras personalizadas.
+   * @param sql - Instrução EXECUTE BLOCK completa
+   * @param entryPoint - Ponto de entrada repassado às regras personalizadas
+   * @param policy - Política aplicada
+   * @returns Resultado da validação, com a violação estruturada quando recusada
+   */
+  evaluateBlock(sql: string, entryPoint: SqlEntryPoint, policy: SqlPolicy = {}): ValidationResult {
+    const statementType: SqlStatementType = 'EXECUTE_BLOCK';
+    const significant = this.lexer.significant(this.lexer.tokenize(sql));
+    const objects = this.splitBlock(significant)
+      .flatMap((statement) => this.collectObjects(statement, this.lexer.classify(statement)));
+
+    const reject = (rule: string, error: string, violation?: SqlToken, object?: string): ValidationResult => ({
+      valid: false,
+      error,
+      statementType,
+      violation,
+      policyViolation: { rule, message: error, entryPoint, sql, statementType, object, token: violation }
+    });
+
+    const denied = this.checkObjects(objects, policy);
+    if (denied) {
+      return reject(denied.rule, denied.message, denied.token, denied.object);
+    }
+
+    for (const rule of policy.rules || []) {
+      const message = rule.check({ sql, entryPoint, statementType, objects, tokens: significant });
+      if (message) {
+        return reject(rule.name, message);
+      }
+    }
+
+    return { valid: true, message: 'Consulta válida', statementType };
+  }
+
+  /**
+   * Verifica se as tabelas e procedures podem ser acessadas
+   * @param objects - Objetos referenciados
+   * @param policy - Política aplicada
+   * @returns Violação do primeiro objeto recusado, ou null se todos forem aceitos
+   */
+  checkObjects(objects: SqlObjectReference[], policy: SqlPolicy): SqlPolicyViolation | null {
+    for (const object of objects) {
+      let list: string[] | undefined;
+      let message: string;
+      if (object.kind === 'procedure') {
+        list = object.access === 'write' ? policy.executableProcedures ?? policy.procedures : policy.procedures;
+        message = `Procedure não permitida: ${object.name}`;
+      } else if (object.access === 'write') {
+        list = policy.writableTables;
+        message = `Tabela não permitida para escrita: ${object.name}`;
+      } else {
+        list = policy.readableTables && [...policy.readableTables, ...ALWAYS_READABLE];
+        message = `Tabela não permitida para leitura: ${object.name}`;
+      }
+
+      const name = object.name.toUpperCase();
+      if (list && !list.some((item) => item.toUpperCase() === name)) {
+        return { rule: object.kind, message, object: object.name, token: object.token };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Obtém os tipos de instrução aceitos no ponto de entrada
+   * @param entryPoint - Ponto de entrada
+   * @param policy - Política aplicada
+   * @returns Tipos aceitos
+   */
+  private allowedStatements(entryPoint: SqlEntryPoint, policy: SqlPolicy): SqlStatementType[] {
+    const allowed = policy.statements?.[entryPoint] || DEFAULT_STATEMENTS[entryPoint];
+    return policy.allowDdl && entryPoint !== 'stream' ? [...allowed, 'DDL'] : allowed;
+  }
+
+  /**
+   * Separa o corpo de um EXECUTE BLOCK em instruções, para que cada uma comece
+   * pela palavra que define seu tipo (ex.: IF (...) THEN UPDATE ..., FOR SELECT ... DO)
+   * @param tokens - Tokens significativos do EXECUTE BLOCK
+   * @returns Instruções do corpo; o cabeçalho, até o AS, é descartado
+   */
+  private splitBlock(tokens: SqlToken[]): SqlToken[][] {
+    const statements: SqlToken[][] = [];
+    let current: SqlToken[] | null = null;
+    let depth = 0;
+    let cases = 0;
+
+    for (const token of tokens) {
+      // IF, DO e WHILE não são palavras-chave do analisador léxico e chegam como identificadores
+      const word = token.type === 'keyword' || token.type === 'identifier' ? token.normalized : null;
+      if (token.value === '(' || token.value === ')') {
+        depth += token.value === '(' ? 1 : -1;
+      } else if (word === 'CASE') {
+        cases++;
+      } else if (word === 'END' && cases > 0) {
+        // END de uma expressão CASE, não de um bloco BEGIN ... END
+        cases--;
+        current?.push(token);
+        continue;
+      }
+
+      if (!current) {
+        // O corpo começa após o AS do cabeçalho
+        if (depth === 0 && word === 'AS') {
+          current = [];
+          statements.push(current);
+        }
+        continue;
+      }
+
+      const boundary = token.value === ';' || (word !== null && cases === 0 && BLOCK_BOUNDARIES.includes(word));
+      if (depth === 0 && boundary) {
+        current = [];
+        statements.push(current);
+      } else if (current.length > 0 || word !== 'FOR') {
+        current.push(token);
+      }
+    }
+
+    return statements.filter((statement) => statement.length > 0);
+  }
+
+  /**
+   * Identifica as tabelas e procedures referenciadas pela instrução.
+   * Nomes definidos em WITH (CTEs) não são considerados tabelas.
+   * @param tokens - Tokens significativos
+   * @param statementType - Tipo da instrução
+   * @returns Objetos referenciados, na ordem em que aparecem
+   */
+  private collectObjects(tokens: SqlToken[], statementType: SqlStatementType): SqlObjectReference[] {
+    const isName = (token?: SqlToken) => token?.type === 'identifier' || token?.type === 'quoted_identifier';
+    const objects: SqlObjectReference[] = [];
+    const cteNames = new Set<string>();
+
+    tokens.forEach((token, index) => {
+      const previous = tokens[index - 1]?.normalized;
+      const defined = tokens[index + 1]?.normalized === 'AS' && tokens[index + 2]?.value === '(';
+      if (isName(token) && (defined || previous === 'WITH' || previous === 'RECURSIVE')) {
+        cteNames.add(token.normalized);
+      }
+    });
+
+    const add = (token: SqlToken, kind: SqlObjectReference['kind'], access: SqlObjectReference['access']) => {
+      if (!cteNames.has(token.normalized)) {
+        objects.push({ name: token.normalized, kind, access, token });
+      }
+    };
+
+    // A primeira referência de uma instrução de escrita é a tabela alterada
+    let writeTarget = WRITE_STATEMENT_TYPES.includes(statementType);
+    const parentheses: string[] = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      const previous = tokens[i - 1];
+
+      if (token.value === '(') {
+        parentheses.push(previous?.normalized || '');
+        continue;
+      }
+      if (token.value === ')') {
+        parentheses.pop();
+        continue;
+      }
+      if (token.type !== 'keyword') {
+        continue;
+      }
+
+      if (token.normalized === 'PROCEDURE' && previous?.normalized === 'EXECUTE' && isName(tokens[i + 1])) {
+        add(tokens[i + 1], 'procedure', 'write');
+        continue;
+      }
+
+      if (
+        !REFERENCE_KEYWORDS.includes(token.normalized) ||
+        (token.normalized === 'FROM' && (previous?.normalized === 'DISTINCT' ||
+          FUNCTIONS_WITH_FROM.includes(parentheses[parentheses.length - 1]))) ||
+        (token.normalized === 'UPDATE' && (previous?.normalized === 'FOR' || tokens[i + 1]?.normalized === 'OR'))
+      ) {
+        continue;
+      }
+
+      let j = i + 1;
+      while (isName(tokens[j])) {
+        const selectable = tokens[j + 1]?.value === '(' && (token.normalized === 'FROM' || token.normalized === 'JOIN');
+        if (selectable) {
+          add(tokens[j], 'procedure', 'read');
+        } else {
+          add(tokens[j], 'table', writeTarget ? 'write' : 'read');
+        }
+        writeTarget = false;
+
+        // Tabelas separadas por vírgula: FROM A X, B Y
+        if (token.normalized !== 'FROM' || selectable) {
+          break;
+        }
+        j++;
+        if (tokens[j]?.normalized === 'AS') {
+          j++;
+        }
+        if (isName(tokens[j])) {
+          j++;
+        }
+        if (tokens[j]?.value !== ',') {
+          break;
+        }
+        j++;
+      }
+      writeTarget = false;
+    }
+
+    return objects;
+  }
+
+  /**
+   * Procura condições OR/AND comparando dois literais iguais
+   * @param tokens - Tokens significativos da consulta
+   * @returns Token OR/AND que inicia a condição, ou undefined se não houver
+   */
+  private findTautology(tokens: SqlToken[]): SqlToken | undefined {
+    const isLiteral = (token?: SqlToken) => token?.type === 'number' || token?.type === 'string';
+
+    for (let i = 0; i < tokens.length - 3; i++) {
+      const [connector, left, operator, right] = tokens.slice(i, i + 4);
+      if (
+        connector.type === 'keyword' &&
+        (connector.normalized === 'OR' || connector.normalized === 'AND') &&
+        isLiteral(left) &&
+        operator.value === '=' &&
+        isLiteral(right) &&
+        left.normalized === right.normalized
+      ) {
+        return connector;
+      }
+    }
+
+    return undefined;
+  }
+}
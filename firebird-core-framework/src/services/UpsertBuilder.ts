@@ -0,0 +1,168 @@
+import { assertIdentifiers } from './SqlIdentifiers';
+
+/**
+ * Opções do upsert (UPDATE OR INSERT)
+ */
+export interface UpsertOptions {
+  /** Colunas que identificam a linha existente (MATCHING); quando omitido, a chave primária da tabela */
+  matching?: string[];
+  /** Colunas devolvidas pela cláusula RETURNING */
+  returning?: string[];
+  /** Timeout para cada instrução em milissegundos; sobrescreve FirebirdConfig.queryTimeout (0 desativa) */
+  timeout?: number;
+}
+
+/**
+ * Consulta de origem do MERGE
+ */
+export interface MergeSourceQuery {
+  /** Consulta SELECT; passa pela mesma validação do executeQuery */
+  sql: string;
+  bindings?: any[];
+}
+
+/**
+ * Opções do merge (MERGE a partir de uma tabela ou consulta)
+ */
+export interface MergeOptions {
+  /** Tabela de origem, ou consulta SELECT com seus parâmetros */
+  source: string | MergeSourceQuery;
+  /** Colunas da origem copiadas para a tabela; os nomes são os mesmos nas duas */
+  columns: string[];
+  /** Colunas comparadas entre origem e tabela (ON) */
+  matching: string[];
+  /** Colunas atualizadas quando a linha existe (padrão: columns sem matching; [] não atualiza) */
+  update?: string[];
+  /** Insere as linhas da origem que não existem na tabela (padrão: true) */
+  insert?: boolean;
+  /** Colunas devolvidas pela cláusula RETURNING (Firebird 3+) */
+  returning?: string[];
+  /** Timeout da instrução em milissegundos; sobrescreve FirebirdConfig.queryTimeout (0 desativa) */
+  timeout?: number;
+}
+
+/**
+ * Instrução montada; identificadores vão como `??` e valores como `?`
+ */
+export interface BuiltStatement {
+  sql: string;
+  bindings: any[];
+}
+
+/**
+ * Classe responsável por montar as instruções de upsert do Firebird:
+ * `UPDATE OR INSERT ... MATCHING` para linhas informadas pela aplicação e
+ * `MERGE` para sincronizar a tabela a partir de outra tabela ou consulta.
+ *
+ * Os identificadores são validados e enviados como `??`, passando pela
+ * conversão de nomes de colunas; os valores vão sempre como parâmetros.
+ */
+export class UpsertBuilder {
+  /**
+   * Monta o UPDATE OR INSERT de uma linha
+   * @param tableName - Nome da tabela
+   * @param row - Linha como objeto coluna-valor
+   * @param options - Colunas de MATCHING e RETURNING (opcional)
+   * @returns SQL e parâmetros da instrução
+   * @throws Erro se algum identificador for inválido ou se a linha não tiver as colunas de matching
+   */
+  buildUpsert(tableName: string, row: Record<string, any>, options?: UpsertOptions): BuiltStatement {
+    const keys = Object.keys(row || {});
+    const matching = options?.matching || [];
+    const returning = options?.returning || [];
+
+    if (keys.length === 0) {
+      throw new Error('Upsert exige linhas com ao menos uma coluna');
+    }
+    assertIdentifiers([tableName, ...keys, ...matching, ...returning]);
+    for (const column of matching) {
+      if (!keys.includes(column)) {
+        throw new Error(`A coluna ${column} de matching deve estar presente em todas as linhas do upsert`);
+      }
+    }
+
+    const parts = [`update or insert into ?? (${this.list(keys, '??')}) values (${this.list(keys, '?')})`];
+    if (matching.length > 0) {
+      parts.push(`matching (${this.list(matching, '??')})`);
+    }
+    if (returning.length > 0) {
+      parts.push(`returning ${this.list(returning, '??')}`);
+    }
+
+    return {
+      sql: parts.join(' '),
+      bindings: [tableName, ...keys, ...keys.map((key) => (row[key] === undefined ? null : row[key])), ...matching, ...returning]
+    };
+  }
+
+  /**
+   * Monta o MERGE a partir de uma tabela ou consulta de origem
+   * @param tableName - Nome da tabela de destino
+   * @param options - Origem, colunas, matching, update, insert e returning
+   * @returns SQL e parâmetros da instrução
+   * @throws Erro se algum identificador for inválido ou se as listas de colunas forem inconsistentes
+   */
+  buildMerge(tableName: string, options: MergeOptions): BuiltStatement {
+    const columns = options.columns || [];
+    const matching = options.matching || [];
+    const update = options.update ?? columns.filter((column) => !matching.includes(column));
+    const insert = options.insert !== false;
+    const returning = options.returning || [];
+
+    if (columns.length === 0) {
+      throw new Error('Merge exige columns com ao menos uma coluna');
+    }
+    if (matching.length === 0) {
+      throw new Error('Merge exige matching com ao menos uma coluna');
+    }
+    if (update.length === 0 && !insert) {
+      throw new Error('Merge sem update e sem insert não altera nenhuma linha');
+    }
+    assertIdentifiers([tableName, ...columns, ...matching, ...update, ...returning]);
+    for (const [list, column] of [...matching.map((c) => ['matching', c]), ...update.map((c) => ['update', c])]) {
+      if (!columns.includes(column)) {
+        throw new Error(`A coluna ${column} de ${list} deve estar em columns`);
+      }
+    }
+
+    const sql: string[] = ['merge into ?? T using'];
+    const bindings: any[] = [tableName];
+
+    if (typeof options.source === 'string') {
+      assertIdentifiers([options.source]);
+      sql.push('?? S');
+      bindings.push(options.source);
+    } else {
+      sql.push(`(${options.source.sql.trim().replace(/;$/, '')}) S`);
+      bindings.push(...(options.source.bindings || []));
+    }
+
+    sql.push(`on ${matching.map(() => 'T.?? = S.??').join(' and ')}`);
+    bindings.push(...matching.flatMap((column) => [column, column]));
+
+    if (update.length > 0) {
+      sql.push(`when matched then update set ${update.map(() => '?? = S.??').join(', ')}`);
+      bindings.push(...update.flatMap((column) => [column, column]));
+    }
+    if (insert) {
+      sql.push(`when not matched then insert (${this.list(columns, '??')}) values (${columns.map(() => 'S.??').join(', ')})`);
+      bindings.push(...columns, ...columns);
+    }
+    if (returning.length > 0) {
+      sql.push(`returning ${this.list(returning, '??')}`);
+      bindings.push(...returning);
+    }
+
+    return { sql: sql.join(' '), bindings };
+  }
+
+  /**
+   * Repete um marcador para cada item da lista
+   * @param items - Itens da lista
+   * @param placeholder - Marcador (`?` ou `??`)
+   * @returns Marcadores separados por vírgula
+   */
+  private list(items: string[], placeholder: string): string {
+    return items.map(() => placeholder).join(', ');
+  }
+}
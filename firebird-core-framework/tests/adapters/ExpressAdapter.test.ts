@@ -1,4 +1,5 @@
 import { ExpressAdapter } from '../../src/adapters/ExpressAdapter';
+import { QueryValidationError } from '../../src/errors/FirebirdErrors';
 
 describe('ExpressAdapter', () => {
   let core: any;
@@ -34,4 +35,90 @@ describe('ExpressAdapter', () => {
     expect(app.get).toHaveBeenCalledWith('/health', expect.any(Function));
     expect(app.post).toHaveBeenCalledWith('/query', expect.any(Function));
   });
+
+  describe('/query', () => {
+    let handler: (req: any, res: any) => Promise<void>;
+    let res: any;
+
+    beforeEach(() => {
+      adapter.setupFrameworkRoutes(app);
+      handler = app.post.mock.calls[0][1];
+      res = { status: jest.fn(() => res), json: jest.fn() };
+    });
+
+    it('deve repassar parâmetros posicionais e nomeados', async () => {
+      await handler({ body: { sql: 'SELECT * FROM CLIENTES WHERE ID = :id', bindings: { id: 1 } } }, res);
+      await handler({ body: { sql: 'SELECT * FROM CLIENTES WHERE ID = ?', bindings: [1] } }, res);
+      await handler({ body: { sql: 'SELECT * FROM CLIENTES' } }, res);
+
+      expect(core.executeQuery).toHaveBeenNthCalledWith(1, 'SELECT * FROM CLIENTES WHERE ID = :id', { id: 1 });
+      expect(core.executeQuery).toHaveBeenNthCalledWith(2, 'SELECT * FROM CLIENTES WHERE ID = ?', [1]);
+      expect(core.executeQuery).toHaveBeenNthCalledWith(3, 'SELECT * FROM CLIENTES', undefined);
+      expect(res.status).toHaveBeenCalledWith(200);
+    });
+
+    it('deve responder 400 para parâmetros inválidos', async () => {
+      await handler({ body: { sql: 'SELECT 1 FROM RDB$DATABASE', bindings: 'id=1' } }, res);
+
+      expect(core.executeQuery).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({ error: 'bindings deve ser uma lista ou um objeto' });
+
+      core.executeQuery.mockRejectedValue(new QueryValidationError('Parâmetro sem valor: :id', 1, 34));
+      await handler({ body: { sql: 'SELECT * FROM CLIENTES WHERE ID = :id', bindings: {} } }, res);
+
+      expect(res.status).toHaveBeenLastCalledWith(400);
+      expect(res.json).toHaveBeenLastCalledWith({ error: 'Consulta inválida: Parâmetro sem valor: :id (linha 1, coluna 34)' });
+    });
+
+    it('deve executar no banco informado em database', async () => {
+      const fiscal = { isConnected: jest.fn(() => false), executeQuery: jest.fn(async () => [{ TOTAL: 3 }]) };
+      core.getDatabaseNames = jest.fn(() => ['default', 'fiscal']);
+      core.db = jest.fn(() => fiscal);
+
+      await handler({ body: { sql: 'SELECT COUNT(*) AS TOTAL FROM NOTAS', database: 'fiscal' } }, res);
+
+      expect(core.db).toHaveBeenCalledWith('fiscal');
+      expect(fiscal.executeQuery).toHaveBeenCalledWith('SELECT COUNT(*) AS TOTAL FROM NOTAS', undefined);
+      expect(core.executeQuery).not.toHaveBeenCalled();
+      expect(res.json).toHaveBeenCalledWith([{ TOTAL: 3 }]);
+
+      await handler({ body: { sql: 'SELECT 1 FROM RDB$DATABASE' }, query: { database: 'legado' } }, res);
+
+      expect(res.status).toHaveBeenLastCalledWith(404);
+      expect(res.json).toHaveBeenLastCalledWith({ error: 'Banco de dados não configurado: legado' });
+
+      const health = app.get.mock.calls[0][1];
+      await health({ query: { database: 'fiscal' } }, res);
+
+      expect(res.json).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'ok', connected: false, database: 'fiscal' }));
+    });
+  });
+
+  describe('/health', () => {
+    let health: (req: any, res: any) => Promise<void>;
+    let res: any;
+
+    beforeEach(() => {
+      adapter.setupFrameworkRoutes(app);
+      health = app.get.mock.calls[0][1];
+      res = { status: jest.fn(() => res), json: jest.fn() };
+    });
+
+    it('deve incluir o estado da conexão e responder 503 com o banco fora do ar', async () => {
+      const status = { state: 'degraded', since: 1, latency: 900, consecutiveFailures: 0, lastSuccessAt: 1, lastError: null, retryAt: null };
+      core.getStatus = jest.fn(() => status);
+
+      await health({ query: {} }, res);
+
+      expect(res.status).toHaveBeenLastCalledWith(200);
+      expect(res.json).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'ok', state: 'degraded', connection: status }));
+
+      core.getStatus.mockReturnValue({ ...status, state: 'down', retryAt: 5000 });
+      await health({ query: {} }, res);
+
+      expect(res.status).toHaveBeenLastCalledWith(503);
+      expect(res.json).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'error', state: 'down' }));
+    });
+  });
 });
\ No newline at end of file
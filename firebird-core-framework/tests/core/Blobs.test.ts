@@ -0,0 +1,298 @@
+import { Readable } from 'stream';
+import FirebirdDialect from 'knex-firebird-dialect';
+import {
+  charsetToEncoding,
+  describeBlobColumns,
+  readBlobColumns,
+  validateBlobOptions,
+  writeBlobParameters
+} from '../../src/core/Blobs';
+import { FirebirdClient } from '../../src/core/FirebirdClient';
+
+/**
+ * Simula o attachment do node-firebird-driver: BLOBs guardados em memória, lidos por
+ * openBlob em pedaços do tamanho do buffer e gravados por createBlob
+ */
+function fakeAttachment() {
+  const stored = new Map<number, Buffer>();
+  let nextId = 1;
+  const attachment: any = {
+    reads: [] as number[],
+    opened: [] as any[],
+    openBlob: jest.fn(async (transaction: any, blob: any) => {
+      attachment.opened.push(transaction);
+      const content = stored.get(blob.id[0]);
+      if (!content) {
+        throw new Error('invalid BLOB ID');
+      }
+      let position = 0;
+      return {
+        length: Promise.resolve(content.length),
+        read: jest.fn(async (buffer: Buffer) => {
+          if (position >= content.length) {
+            return -1;
+          }
+          const count = content.copy(buffer, 0, position);
+          attachment.reads.push(count);
+          position += count;
+          return count;
+        }),
+        close: jest.fn().mockResolvedValue(undefined)
+      };
+    }),
+    createBlob: jest.fn(async () => {
+      const id = nextId++;
+      const chunks: Buffer[] = [];
+      const blob = { attachment, id: Uint8Array.from([id, 0, 0, 0, 0, 0, 0, 0]) };
+      return {
+        blob,
+        chunks,
+        write: jest.fn(async (buffer: Buffer) => {
+          chunks.push(Buffer.from(buffer));
+        }),
+        close: jest.fn(async () => {
+          stored.set(id, Buffer.concat(chunks));
+        }),
+        cancel: jest.fn().mockResolvedValue(undefined)
+      };
+    }),
+    /** Grava um BLOB e devolve a referência no formato do driver */
+    blob(content: Buffer) {
+      const id = nextId++;
+      stored.set(id, content);
+      return { attachment, id: Uint8Array.from([id, 0, 0, 0, 0, 0, 0, 0]) };
+    },
+    stored
+  };
+  return attachment;
+}
+
+/** Simula a instrução preparada pelo driver, com os metadados de saída das colunas */
+function fakeStatement(attachment: any, columns: Array<{ alias: string; type: number; subType?: number; charSet?: number }>) {
+  const status = {};
+  attachment.client = { statusAction: jest.fn(async (action: (status: any) => Promise<any>) => await action(status)) };
+  return {
+    attachment,
+    outMetadata: {
+      getCountSync: () => columns.length,
+      getTypeSync: (_status: any, index: number) => columns[index].type,
+      getSubTypeSync: (_status: any, index: number) => columns[index].subType ?? 0,
+      getCharSetSync: (_status: any, index: number) => columns[index].charSet ?? 4,
+      getAliasSync: (_status: any, index: number) => columns[index].alias
+    }
+  };
+}
+
+/** Lê um Readable até o fim */
+async function drain(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+describe('Blobs', () => {
+  const transaction = { name: 'trx' };
+  let attachment: any;
+  let columns: Map<string, any>;
+
+  beforeEach(async () => {
+    attachment = fakeAttachment();
+    columns = await describeBlobColumns(fakeStatement(attachment, [
+      { alias: 'ID', type: 496 },
+      { alias: 'XML', type: 520, subType: 1, charSet: 4 },
+      { alias: 'LEGADO', type: 520, subType: 1, charSet: 0 },
+      { alias: 'ARQUIVO', type: 520, subType: 0, charSet: 0 },
+      { alias: 'HASH', type: 452, charSet: 1 }
+    ]));
+  });
+
+  describe('describeBlobColumns', () => {
+    it('deve ler as colunas BLOB dos metadados de saída da instrução', () => {
+      expect([...columns]).toEqual([
+        ['XML', { subType: 1, charSet: 4 }],
+        ['LEGADO', { subType: 1, charSet: 0 }],
+        ['ARQUIVO', { subType: 0, charSet: 0 }]
+      ]);
+    });
+
+    it('deve devolver nenhuma coluna para instruções sem resultado', async () => {
+      expect((await describeBlobColumns({ attachment, outMetadata: undefined })).size).toBe(0);
+    });
+  });
+
+  describe('readBlobColumns', () => {
+    it('deve decodificar BLOBs de texto e manter BLOBs binários como Buffer', async () => {
+      const rows = [{
+        ID: 1,
+        XML: attachment.blob(Buffer.from('<nota>ação</nota>')),
+        ARQUIVO: attachment.blob(Buffer.from([1, 2, 3])),
+        HASH: Buffer.from('abc')
+      }];
+
+      await readBlobColumns(rows, { transaction, columns, streamThreshold: 1024 });
+
+      expect(rows[0]).toEqual({ ID: 1, XML: '<nota>ação</nota>', ARQUIVO: Buffer.from([1, 2, 3]), HASH: Buffer.from('abc') });
+      expect(attachment.opened).toEqual([transaction, transaction]);
+    });
+
+    it('deve decodificar BLOBs de texto com charset NONE pelo charset da conexão', async () => {
+      const rows = [{
+        LEGADO: attachment.blob(Buffer.from([0x61, 0xe7, 0xe3, 0x6f])),
+        XML: attachment.blob(Buffer.from('ação'))
+      }];
+
+      await readBlobColumns(rows, { transaction, columns, charset: 'WIN1252', streamThreshold: 0 });
+
+      expect(rows[0]).toEqual({ LEGADO: 'ação', XML: 'ação' });
+    });
+
+    it('deve ler BLOBs em segmentos e devolver os binários acima do limite como Readable', async () => {
+      const content = Buffer.alloc(150000, 7);
+      const rows = [{ ARQUIVO: attachment.blob(content), XML: attachment.blob(Buffer.alloc(20, 0x41)) }];
+
+      await readBlobColumns(rows, { transaction, columns, streamThreshold: 10 });
+
+      expect(attachment.reads).toEqual([65535, 65535, 18930, 20]);
+      expect(rows[0].ARQUIVO).toBeInstanceOf(Readable);
+      expect(await drain(rows[0].ARQUIVO as any)).toEqual(content);
+      expect(rows[0].XML).toBe('A'.repeat(20));
+    });
+
+    it('deve ler como binários os BLOBs sem coluna descrita e aceitar uma única linha', async () => {
+      const row = { OUTRO: attachment.blob(Buffer.from('texto')) };
+
+      await readBlobColumns(row, { transaction, columns: new Map(), streamThreshold: 0 });
+
+      expect(row.OUTRO).toEqual(Buffer.from('texto'));
+    });
+
+    it('deve fechar o BLOB e propagar erros da leitura', async () => {
+      const blob = attachment.blob(Buffer.from([1]));
+      const stream = { length: Promise.resolve(1), read: jest.fn().mockRejectedValue(new Error('read failed')), close: jest.fn() };
+      attachment.openBlob.mockResolvedValueOnce(stream);
+
+      await expect(readBlobColumns([{ ARQUIVO: blob }], { transaction, columns, streamThreshold: 0 }))
+        .rejects.toThrow('read failed');
+      expect(stream.close).toHaveBeenCalled();
+      await expect(readBlobColumns([{ ARQUIVO: { attachment, id: new Uint8Array(8) } }], { transaction, columns, streamThreshold: 0 }))
+        .rejects.toThrow('invalid BLOB ID');
+    });
+  });
+
+  describe('writeBlobParameters', () => {
+    it('deve gravar parâmetros Readable como BLOB na transação, em segmentos', async () => {
+      const content = Buffer.alloc(70000, 3);
+      const bindings = await writeBlobParameters(attachment, transaction, [10, Readable.from([content, Buffer.from([4])]), 'x']);
+
+      expect(attachment.createBlob).toHaveBeenCalledWith(transaction);
+      expect(bindings[0]).toBe(10);
+      expect(bindings[2]).toBe('x');
+      expect(bindings[1].chunks.map((chunk: Buffer) => chunk.length)).toEqual([65535, 4465, 1]);
+      expect(attachment.stored.get(bindings[1].blob.id[0])).toEqual(Buffer.concat([content, Buffer.from([4])]));
+    });
+
+    it('deve cancelar o BLOB se a leitura do stream falhar', async () => {
+      const failing = new Readable({
+        read() {
+          this.destroy(new Error('ENOENT'));
+        }
+      });
+
+      await expect(writeBlobParameters(attachment, transaction, [failing])).rejects.toThrow('ENOENT');
+      const blobStream = await attachment.createBlob.mock.results[0].value;
+      expect(blobStream.cancel).toHaveBeenCalled();
+      expect(blobStream.close).not.toHaveBeenCalled();
+    });
+  });
+
+  it('deve converter charsets do Firebird para o TextDecoder', () => {
+    expect(charsetToEncoding()).toBe('utf-8');
+    expect(charsetToEncoding('win1252')).toBe('windows-1252');
+    expect(charsetToEncoding('ISO8859_1')).toBe('iso-8859-1');
+    expect(charsetToEncoding('DOS866')).toBe('ibm866');
+    expect(charsetToEncoding('OCTETS')).toBe('utf-8');
+  });
+
+  it('deve validar as opções de BLOB', () => {
+    expect(validateBlobOptions({})).toBeNull();
+    expect(validateBlobOptions({ streamThreshold: 65536 })).toBeNull();
+    expect(validateBlobOptions({ streamThreshold: 1.5 })).toBe('blobs.streamThreshold deve ser um inteiro maior ou igual a zero');
+    expect(validateBlobOptions('1MB')).toBe('blobs.streamThreshold deve ser um inteiro maior ou igual a zero');
+  });
+
+  describe('FirebirdClient', () => {
+    let client: any;
+    let driverTransaction: any;
+    let dialectQuery: jest.SpyInstance;
+
+    beforeEach(() => {
+      client = new (FirebirdClient as any)({
+        client: FirebirdClient,
+        connection: { encoding: 'ISO8859_1' },
+        pool: { min: 0, max: 1 },
+        userParams: { firebirdBlobs: { streamThreshold: 2 } }
+      });
+      driverTransaction = {
+        commit: jest.fn().mockResolvedValue(undefined),
+        rollback: jest.fn().mockResolvedValue(undefined)
+      };
+      attachment.startTransaction = jest.fn().mockResolvedValue(driverTransaction);
+      attachment.prepare = jest.fn(async () => fakeStatement(attachment, [
+        { alias: 'LEGADO', type: 520, subType: 1, charSet: 0 },
+        { alias: 'ARQUIVO', type: 520, subType: 0 }
+      ]));
+      // Dialeto sobre o node-firebird-driver: prepara e executa na transação em conn._transaction
+      dialectQuery = jest.spyOn(FirebirdDialect.prototype as any, '_query').mockImplementation(async function (conn: any, obj: any) {
+        await conn.prepare(conn._transaction, obj.sql);
+        obj.response = [[{ LEGADO: attachment.blob(Buffer.from([0xe9])), ARQUIVO: attachment.blob(Buffer.from([1, 2, 3])) }], []];
+        return obj;
+      });
+    });
+
+    afterEach(async () => {
+      dialectQuery.mockRestore();
+      await client.destroy();
+    });
+
+    it('deve ler os BLOBs na transação própria da consulta, com o charset e o limite da configuração', async () => {
+      const obj = await client._query(attachment, { sql: 'SELECT LEGADO, ARQUIVO FROM NOTAS', bindings: [] });
+
+      const [row] = obj.response[0];
+      expect(row.LEGADO).toBe('é');
+      expect(row.ARQUIVO).toBeInstanceOf(Readable);
+      expect(await drain(row.ARQUIVO)).toEqual(Buffer.from([1, 2, 3]));
+      expect(attachment.prepare).toHaveBeenCalledWith(driverTransaction, 'SELECT LEGADO, ARQUIVO FROM NOTAS');
+      expect(attachment.opened).toEqual([driverTransaction, driverTransaction]);
+      expect(driverTransaction.commit).toHaveBeenCalled();
+      expect(attachment._transaction).toBeUndefined();
+      expect(Object.prototype.hasOwnProperty.call(attachment, 'prepare')).toBe(true);
+    });
+
+    it('deve usar a transação Knex em andamento sem encerrá-la', async () => {
+      const knexTransaction = { commit: jest.fn(), rollback: jest.fn() };
+      attachment._transaction = knexTransaction;
+
+      await client._query(attachment, { sql: 'SELECT LEGADO, ARQUIVO FROM NOTAS', bindings: [] });
+
+      expect(attachment.startTransaction).not.toHaveBeenCalled();
+      expect(attachment.opened).toEqual([knexTransaction, knexTransaction]);
+      expect(knexTransaction.commit).not.toHaveBeenCalled();
+      expect(attachment._transaction).toBe(knexTransaction);
+    });
+
+    it('deve gravar parâmetros Readable e desfazer a transação própria em caso de erro', async () => {
+      dialectQuery.mockRejectedValueOnce(new Error('violation of PRIMARY KEY'));
+      const obj: any = { sql: 'INSERT INTO NOTAS (ID, PDF) VALUES (?, ?)', bindings: [1, Readable.from([Buffer.from('pdf')])] };
+
+      await expect(client._query(attachment, obj)).rejects.toThrow('violation of PRIMARY KEY');
+
+      expect(attachment.createBlob).toHaveBeenCalledWith(driverTransaction);
+      expect(attachment.stored.get(obj.bindings[1].blob.id[0])).toEqual(Buffer.from('pdf'));
+      expect(driverTransaction.rollback).toHaveBeenCalled();
+      expect(driverTransaction.commit).not.toHaveBeenCalled();
+      expect(attachment._transaction).toBeUndefined();
+    });
+  });
+});
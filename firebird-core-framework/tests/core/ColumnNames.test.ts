@@ -0,0 +1,77 @@
+import { createColumnNameMapper, mapRowKeys, validateColumnNameTransform } from '../../src/core/ColumnNames';
+
+describe('ColumnNames', () => {
+  describe('createColumnNameMapper', () => {
+    it('não deve criar conversão para none ou ausente', () => {
+      expect(createColumnNameMapper()).toBeNull();
+      expect(createColumnNameMapper('none')).toBeNull();
+    });
+
+    it('deve converter para minúsculas e de volta', () => {
+      const mapper = createColumnNameMapper('lowercase')!;
+
+      expect(mapper.toProperty('NOME_CLIENTE')).toBe('nome_cliente');
+      expect(mapper.toColumn('nome_cliente')).toBe('NOME_CLIENTE');
+    });
+
+    it('deve converter para camelCase e de volta sem perder informação', () => {
+      const mapper = createColumnNameMapper('camelCase')!;
+      const columns = ['NOME_CLIENTE', 'ID', 'ENDERECO_2', 'MD5', 'RDB$RELATION_NAME'];
+
+      expect(columns.map((column) => mapper.toProperty(column))).toEqual([
+        'nomeCliente', 'id', 'endereco_2', 'md5', 'rdb$relationName'
+      ]);
+      for (const column of columns) {
+        expect(mapper.toColumn(mapper.toProperty(column))).toBe(column);
+      }
+    });
+
+    it('deve manter identificadores entre aspas e colunas com minúsculas', () => {
+      const mapper = createColumnNameMapper('camelCase')!;
+
+      expect(mapper.toProperty('Data Cadastro')).toBe('Data Cadastro');
+      expect(mapper.toColumn('"Data Cadastro"')).toBe('"Data Cadastro"');
+    });
+
+    it('deve aceitar conversão personalizada', () => {
+      const custom = { toProperty: (column: string) => `c_${column}`, toColumn: (property: string) => property.slice(2) };
+
+      expect(createColumnNameMapper(custom)).toBe(custom);
+    });
+  });
+
+  describe('mapRowKeys', () => {
+    it('deve converter as chaves de listas de linhas e de linhas isoladas', () => {
+      const mapper = createColumnNameMapper('camelCase')!;
+      const data = new Date();
+
+      expect(mapRowKeys([{ NOME_CLIENTE: 'Ana', DATA_CADASTRO: data }], mapper)).toEqual([
+        { nomeCliente: 'Ana', dataCadastro: data }
+      ]);
+      expect(mapRowKeys({ ID: 1 }, mapper)).toEqual({ id: 1 });
+    });
+
+    it('deve manter resultados que não são linhas', () => {
+      const mapper = createColumnNameMapper('lowercase')!;
+      const buffer = Buffer.from('x');
+
+      expect(mapRowKeys(undefined, mapper)).toBeUndefined();
+      expect(mapRowKeys(3, mapper)).toBe(3);
+      expect(mapRowKeys(buffer, mapper)).toBe(buffer);
+    });
+  });
+
+  describe('validateColumnNameTransform', () => {
+    it('deve aceitar os modos conhecidos e objetos com as duas funções', () => {
+      expect(validateColumnNameTransform('camelCase')).toBeNull();
+      expect(validateColumnNameTransform({ toProperty: String, toColumn: String })).toBeNull();
+    });
+
+    it('deve rejeitar valores desconhecidos', () => {
+      expect(validateColumnNameTransform('snake')).toBe(
+        'columnNames deve ser none, lowercase, camelCase ou um objeto com toProperty e toColumn'
+      );
+      expect(validateColumnNameTransform({ toProperty: String })).not.toBeNull();
+    });
+  });
+});
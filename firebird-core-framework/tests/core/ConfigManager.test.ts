@@ -143,6 +143,140 @@ describe('ConfigManager', () => {
       expect(result.valid).toBe(false);
       expect(result.error).toBe('Campos obrigatórios ausentes: database');
     });
+
+    it('deve validar parâmetros padrão de transação', () => {
+      const result = configManager.validateConfig({
+        ...testConfig,
+        transaction: { isolationLevel: 'SNAPSHOT', wait: false, lockTimeout: 5 }
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe('Parâmetros de transação inválidos: lockTimeout não pode ser usado com NO WAIT');
+    });
+
+    it('deve validar a política de SQL', () => {
+      const result = configManager.validateConfig({
+        ...testConfig,
+        sqlPolicy: { statements: { query: ['SELECT', 'DROP'] } } as any
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe('sqlPolicy.statements.query deve ser uma lista de tipos de instrução');
+    });
+
+    it('deve validar a política de novas tentativas das transações', () => {
+      const result = configManager.validateConfig({
+        ...testConfig,
+        transaction: { retry: { maxAttempts: 3, backoffFactor: 0 } }
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe('Parâmetros de transação inválidos: retry.backoffFactor deve ser um número maior ou igual a 1');
+    });
+
+    it('deve rejeitar timeout padrão negativo', () => {
+      const result = configManager.validateConfig({ ...testConfig, queryTimeout: -1 });
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe('queryTimeout deve ser um número não negativo');
+    });
+
+    it('deve rejeitar conversão de nomes de colunas desconhecida', () => {
+      const result = configManager.validateConfig({ ...testConfig, columnNames: 'snake' as any });
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe('columnNames deve ser none, lowercase, camelCase ou um objeto com toProperty e toColumn');
+    });
+
+    it('deve validar a política do executeBlock', () => {
+      expect(configManager.validateConfig({ ...testConfig, executeBlock: { enabled: true, allowWrites: false } }).valid).toBe(true);
+
+      const result = configManager.validateConfig({ ...testConfig, executeBlock: { enabled: 'sim' } as any });
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe('executeBlock deve ser um objeto com enabled, allowWrites e allowDynamicSql booleanos');
+    });
+
+    it('deve validar as opções de BLOB', () => {
+      expect(configManager.validateConfig({ ...testConfig, blobs: { streamThreshold: 0 } }).valid).toBe(true);
+
+      const result = configManager.validateConfig({ ...testConfig, blobs: { streamThreshold: -1 } });
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe('blobs.streamThreshold deve ser um inteiro maior ou igual a zero');
+    });
+
+    it('deve validar a política de reconexão', () => {
+      expect(configManager.validateConfig({ ...testConfig, reconnect: false }).valid).toBe(true);
+      expect(configManager.validateConfig({ ...testConfig, reconnect: { initialDelay: 250, maxAttempts: 10 } }).valid).toBe(true);
+
+      expect(configManager.validateConfig({ ...testConfig, reconnect: { failureThreshold: 0 } }).error).toBe(
+        'reconnect.failureThreshold deve ser um inteiro maior ou igual a 1'
+      );
+      expect(configManager.validateConfig({ ...testConfig, reconnect: { maxDelay: -1 } }).error).toBe('reconnect.maxDelay deve ser um número não negativo');
+      expect(configManager.validateConfig({ ...testConfig, reconnect: true as any }).error).toBe('reconnect deve ser um objeto ou false');
+    });
+
+    it('deve validar o heartbeat', () => {
+      expect(configManager.validateConfig({ ...testConfig, heartbeat: { interval: 5000, degradedLatency: 0 } }).valid).toBe(true);
+
+      expect(configManager.validateConfig({ ...testConfig, heartbeat: {} as any }).error).toBe('heartbeat.interval deve ser um número positivo');
+      expect(configManager.validateConfig({ ...testConfig, heartbeat: { interval: 5000, timeout: 0 } }).error).toBe('heartbeat.timeout deve ser um número positivo');
+      expect(configManager.validateConfig({ ...testConfig, heartbeat: { interval: 5000, failureThreshold: 0 } }).error).toBe(
+        'heartbeat.failureThreshold deve ser um inteiro maior ou igual a 1'
+      );
+      expect(configManager.validateConfig({ ...testConfig, heartbeat: 5000 as any }).error).toBe(
+        'heartbeat deve ser um objeto com o intervalo em milissegundos'
+      );
+    });
+
+    it('deve validar as réplicas de leitura e o roteamento', () => {
+      expect(configManager.validateConfig({
+        ...testConfig,
+        replicas: [{ host: 'replica1' }],
+        readRouting: { strategy: 'least-busy', readYourWritesWindow: 2000 }
+      }).valid).toBe(true);
+
+      expect(configManager.validateConfig({ ...testConfig, replicas: [{ host: 'replica1' }], readRouting: { ejectAfter: 0 } })).toEqual({
+        valid: false,
+        error: 'readRouting.ejectAfter deve ser um inteiro maior ou igual a 1'
+      });
+    });
+
+    it('deve validar os bancos nomeados com as propriedades herdadas do principal', () => {
+      expect(configManager.validateConfig({ ...testConfig, databases: { fiscal: { database: '/dados/fiscal.fdb' } } }).valid).toBe(true);
+
+      expect(configManager.validateConfig({ ...testConfig, databases: { fiscal: { port: -1 } } })).toEqual({
+        valid: false,
+        error: 'databases.fiscal: Porta deve ser um número positivo'
+      });
+      expect(configManager.validateConfig({ ...testConfig, databases: { default: {} } }).error).toBe('Nome de banco inválido: default');
+      expect(configManager.validateConfig({ ...testConfig, databases: { 'erp antigo': {} } }).error).toBe('Nome de banco inválido: erp antigo');
+      expect(configManager.validateConfig({ ...testConfig, databases: ['fiscal'] as any }).error).toBe(
+        'databases deve ser um objeto com a configuração de cada banco'
+      );
+    });
+  });
+
+  describe('bancos nomeados', () => {
+    it('deve combinar a configuração do banco nomeado com a do principal', () => {
+      const manager = new ConfigManager({
+        ...testConfig,
+        pool: { min: 1, max: 10 },
+        databases: { fiscal: { database: '/dados/fiscal.fdb', pool: { max: 4 } }, arquivo: { host: 'arquivo.local' } }
+      });
+
+      expect(manager.getDatabaseNames()).toEqual(['default', 'fiscal', 'arquivo']);
+      expect(manager.getDatabaseConfig('fiscal')).toMatchObject({
+        host: testConfig.host,
+        username: testConfig.username,
+        database: '/dados/fiscal.fdb',
+        pool: { min: 1, max: 4 },
+        databases: undefined
+      });
+      expect(manager.getDatabaseConfig('default')).toBeNull();
+      expect(manager.getDatabaseConfig('toString')).toBeNull();
+    });
   });
 
   describe('get e set', () => {
@@ -2,6 +2,7 @@ import { ConnectionManager, ConnectionResult, ValidationResult } from '../../src
 import { ConfigManager, FirebirdConfig } from '../../src/core/ConfigManager';
 import { PluginManager } from '../../src/core/PluginManager';
 import { PluginInterface } from '../../src/interfaces/PluginInterface';
+import { AuthenticationError, ConnectionLostError, ConnectionUnavailableError } from '../../src/errors/FirebirdErrors';
 import knex from 'knex';
 
 // Mock do Knex
@@ -15,6 +16,7 @@ jest.mock('knex', () => {
         on: jest.fn(),
         numFree: jest.fn().mockReturnValue(5),
         numUsed: jest.fn().mockReturnValue(3),
+        numPendingAcquires: jest.fn().mockReturnValue(0),
         numPendingCreates: jest.fn().mockReturnValue(0)
       }
     }
@@ -225,6 +227,30 @@ describe('ConnectionManager', () => {
       expect(mockPluginManager.onErrorCalled).toBe(true);
       expect(mockPluginManager.errorParams).toBeInstanceOf(Error);
     });
+
+    it('deve lançar AuthenticationError quando o servidor recusar o usuário', async () => {
+      const mockKnex = require('knex');
+      mockKnex.mockImplementationOnce(() => ({
+        raw: jest.fn().mockRejectedValue(new Error('Your user name and password are not defined')),
+        on: jest.fn(),
+        destroy: jest.fn().mockResolvedValue(undefined),
+        client: {
+          pool: {
+            on: jest.fn()
+          }
+        }
+      }));
+
+      const manager = new ConnectionManager(testConfig);
+      manager.setPluginManager(mockPluginManager);
+
+      const error = await manager.connect().catch((failure) => failure);
+
+      expect(error).toBeInstanceOf(AuthenticationError);
+      expect(error.message).toBe('Falha na conexão: Your user name and password are not defined');
+      expect(error.gdscode).toBe(335544472);
+      expect(mockPluginManager.errorParams).toBe(error);
+    });
   });
 
   describe('disconnect', () => {
@@ -461,6 +487,27 @@ describe('ConnectionManager', () => {
     });
   });
 
+  describe('getPoolTelemetry', () => {
+    it('deve acompanhar os eventos do pool e informar o uso atual', async () => {
+      expect(connectionManager.getPoolTelemetry().current).toBeNull();
+
+      await connectionManager.connect();
+      const pool = connectionManager.getConnection()!.client.pool;
+      const listeners = (pool.on as jest.Mock).mock.calls;
+      listeners.filter(([event]: [string]) => event === 'createSuccess').forEach(([, listener]: any[]) => listener(1, {}));
+      listeners.filter(([event]: [string]) => event === 'release').forEach(([, listener]: any[]) => listener({}));
+
+      const telemetry = connectionManager.getPoolTelemetry();
+      expect(telemetry.current).toEqual({ free: 5, used: 3, pendingAcquires: 0, pendingCreates: 0 });
+      expect(telemetry.creates.succeeded).toBe(1);
+      expect(telemetry.releases).toBe(1);
+      expect(telemetry.highWater).toEqual({ used: 3, pendingAcquires: 0, size: 8 });
+
+      connectionManager.resetPoolTelemetry();
+      expect(connectionManager.getPoolTelemetry()).toMatchObject({ creates: { succeeded: 0 }, releases: 0, connectionAge: { count: 1 } });
+    });
+  });
+
   describe('integração com PluginManager', () => {
     it('deve chamar hooks de query durante monitoramento', async () => {
       connectionManager.setPluginManager(mockPluginManager);
@@ -564,5 +611,454 @@ describe('ConnectionManager', () => {
          })
        );
      });
+
+     it('deve configurar os hooks do Knex para a conversão de nomes de colunas', async () => {
+       const manager = new ConnectionManager({ ...testConfig, columnNames: 'camelCase' });
+       await manager.connect();
+
+       const knexConfig = (knex as unknown as jest.Mock).mock.calls.slice(-1)[0][0];
+       const origImpl = (value: string) => value;
+
+       expect(knexConfig.wrapIdentifier('nomeCliente', origImpl)).toBe('NOME_CLIENTE');
+       expect(knexConfig.wrapIdentifier('*', origImpl)).toBe('*');
+       expect(knexConfig.postProcessResponse([{ NOME_CLIENTE: 'Ana' }])).toEqual([{ nomeCliente: 'Ana' }]);
+     });
+
+     it('não deve configurar hooks sem conversão de nomes de colunas', async () => {
+       const manager = new ConnectionManager(testConfig);
+       await manager.connect();
+
+       const knexConfig = (knex as unknown as jest.Mock).mock.calls.slice(-1)[0][0];
+
+       expect(knexConfig.wrapIdentifier).toBeUndefined();
+       expect(knexConfig.postProcessResponse).toBeUndefined();
+     });
+
+     it('deve repassar as opções de BLOB ao cliente Firebird', async () => {
+       const manager = new ConnectionManager({ ...testConfig, blobs: { streamThreshold: 4096 } });
+       await manager.connect();
+
+       const knexConfig = (knex as unknown as jest.Mock).mock.calls.slice(-1)[0][0];
+
+       expect(knexConfig.userParams).toEqual({ firebirdBlobs: { streamThreshold: 4096 } });
+     });
    });
- });
+
+  describe('réplicas de leitura', () => {
+    it('deve conectar as réplicas com a configuração do primário e desconectá-las junto', async () => {
+      const manager = new ConnectionManager({
+        ...testConfig,
+        replicas: [{ host: 'replica1' }, { host: 'replica2', port: 3051 }],
+        readRouting: { strategy: 'least-busy' }
+      });
+      expect(manager.getReplicaRouter()).toBeNull();
+
+      await manager.connect();
+
+      const connections = (knex as unknown as jest.Mock).mock.calls.map(([config]) => config.connection);
+      expect(connections).toEqual([
+        expect.objectContaining({ host: 'localhost', port: 3050 }),
+        expect.objectContaining({ host: 'replica1', port: 3050, database: 'test.fdb' }),
+        expect.objectContaining({ host: 'replica2', port: 3051, database: 'test.fdb' })
+      ]);
+      const router = manager.getReplicaRouter()!;
+      expect(router.getStatus().map((replica) => replica.healthy)).toEqual([true, true]);
+      expect(router.select()?.getConfig().host).toBe('replica1');
+
+      await manager.disconnect();
+      expect(manager.getReplicaRouter()).toBeNull();
+      expect(router.getStatus().map((replica) => replica.healthy)).toEqual([false, false]);
+    });
+
+    it('deve repassar aos plugins os eventos das réplicas com o nome de cada réplica', async () => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      const plugin: any = {
+        name: 'Auditoria',
+        init: jest.fn().mockResolvedValue(undefined),
+        beforeConnect: jest.fn().mockResolvedValue(undefined),
+        beforeQuery: jest.fn().mockResolvedValue(undefined),
+        beforeDisconnect: jest.fn().mockResolvedValue(undefined)
+      };
+      const pluginManager = new PluginManager();
+      pluginManager.register(plugin);
+      const manager = new ConnectionManager({ ...testConfig, replicas: [{ host: 'replica1' }, { host: 'replica2' }] });
+      manager.setPluginManager(pluginManager);
+
+      await manager.connect();
+      const [, replica] = (knex as unknown as jest.Mock).mock.results.map((result) => result.value);
+      const [, onQuery] = replica.on.mock.calls.find(([event]: [string]) => event === 'query');
+      onQuery({ sql: 'SELECT * FROM PEDIDOS' });
+      await manager.disconnect();
+
+      expect(plugin.beforeConnect.mock.calls.map(([, database]: string[]) => database)).toEqual(['default', 'default:replica1', 'default:replica2']);
+      expect(plugin.beforeQuery).toHaveBeenCalledWith({ sql: 'SELECT * FROM PEDIDOS' }, 'default:replica1');
+      expect(plugin.beforeDisconnect.mock.calls.map(([database]: string[]) => database).sort()).toEqual(['default', 'default:replica1', 'default:replica2']);
+    });
+
+    it('não deve criar roteador sem réplicas configuradas', async () => {
+      await connectionManager.connect();
+
+      expect(connectionManager.getReplicaRouter()).toBeNull();
+    });
+  });
+
+  describe('reconexão automática', () => {
+    const connectionReset = () => Object.assign(new Error('read ECONNRESET'), { code: 'ECONNRESET' });
+    let plugin: any;
+    let pluginManager: PluginManager;
+
+    /** Simula uma instância do Knex cujo teste de conexão resolve ou rejeita */
+    function fakeKnex(fails = false) {
+      const attachment = {
+        startTransaction: jest.fn().mockResolvedValue({ commit: jest.fn().mockResolvedValue(undefined) }),
+        executeSingleton: jest.fn().mockResolvedValue([1])
+      };
+      const instance = {
+        raw: fails
+          ? jest.fn().mockRejectedValue(Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }))
+          : jest.fn().mockResolvedValue([{ test: 1 }]),
+        on: jest.fn(),
+        destroy: jest.fn().mockResolvedValue(undefined),
+        client: {
+          pool: { on: jest.fn() },
+          acquireConnection: jest.fn().mockResolvedValue(attachment),
+          releaseConnection: jest.fn().mockResolvedValue(undefined)
+        },
+        attachment
+      };
+      (knex as unknown as jest.Mock).mockImplementationOnce(() => instance);
+      return instance;
+    }
+
+    /** Emite um evento registrado pelo monitoramento da instância */
+    function emit(instance: any, event: string, ...args: any[]) {
+      instance.on.mock.calls
+        .filter(([name]: [string]) => name === event)
+        .forEach(([, listener]: [string, (...args: any[]) => void]) => listener(...args));
+    }
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: 10000 });
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      plugin = {
+        name: 'Monitor',
+        init: jest.fn().mockResolvedValue(undefined),
+        onDisconnected: jest.fn().mockResolvedValue(undefined),
+        onReconnected: jest.fn().mockResolvedValue(undefined)
+      };
+      pluginManager = new PluginManager('default');
+      pluginManager.register(plugin);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+    });
+
+    it('deve abrir o circuito na perda da conexão e reconectar com backoff', async () => {
+      const manager = new ConnectionManager({ ...testConfig, reconnect: { initialDelay: 100, jitter: false } });
+      manager.setPluginManager(pluginManager);
+      const first = fakeKnex();
+      await manager.connect();
+
+      emit(first, 'query-error', connectionReset());
+
+      expect(manager.isConnected()).toBe(false);
+      expect(manager.getConnection()).toBeNull();
+      expect(first.destroy).toHaveBeenCalled();
+      expect(plugin.onDisconnected).toHaveBeenCalledWith(expect.any(ConnectionLostError), 'default');
+      const unavailable = manager.getUnavailableError();
+      expect(unavailable).toBeInstanceOf(ConnectionUnavailableError);
+      expect(unavailable).toMatchObject({ retryAt: 10100, message: 'Banco de dados indisponível: read ECONNRESET' });
+
+      const failed = fakeKnex(true);
+      await jest.advanceTimersByTimeAsync(100);
+      expect(failed.raw).toHaveBeenCalled();
+      expect(failed.destroy).toHaveBeenCalled();
+      expect(manager.getUnavailableError()).toMatchObject({ retryAt: 10300, message: 'Banco de dados indisponível: connect ECONNREFUSED' });
+
+      const second = fakeKnex();
+      await jest.advanceTimersByTimeAsync(200);
+      expect(manager.isConnected()).toBe(true);
+      expect(manager.getConnection()).toBe(second);
+      expect(manager.getUnavailableError()).toBeNull();
+      expect(plugin.onReconnected).toHaveBeenCalledWith({ attempts: 2, downtime: 300 }, 'default');
+
+      // Erros do pool descartado não abrem o circuito de novo
+      emit(first, 'query-error', connectionReset());
+      expect(manager.isConnected()).toBe(true);
+      await manager.disconnect();
+    });
+
+    it('deve abrir o circuito apenas após as falhas de conexão seguidas', async () => {
+      const manager = new ConnectionManager({ ...testConfig, reconnect: { failureThreshold: 2 } });
+      const instance = fakeKnex();
+      await manager.connect();
+
+      emit(instance, 'query-error', new Error('Table unknown'));
+      emit(instance, 'query-error', connectionReset());
+      emit(instance, 'query-response', [], {});
+      emit(instance, 'query-error', connectionReset());
+      expect(manager.isConnected()).toBe(true);
+
+      emit(instance.client.pool, 'createFail', 7, connectionReset());
+      expect(manager.isConnected()).toBe(false);
+      await manager.disconnect();
+    });
+
+    it('deve aguardar uma nova chamada de connect com a reconexão desativada', async () => {
+      const manager = new ConnectionManager({ ...testConfig, reconnect: false });
+      const instance = fakeKnex();
+      await manager.connect();
+
+      emit(instance, 'query-error', connectionReset());
+      await jest.advanceTimersByTimeAsync(60000);
+
+      expect(manager.getUnavailableError()).toMatchObject({ retryAt: null });
+      expect(knex).toHaveBeenCalledTimes(1);
+
+      fakeKnex();
+      await manager.connect();
+      expect(manager.isConnected()).toBe(true);
+      expect(manager.getUnavailableError()).toBeNull();
+      await manager.disconnect();
+    });
+
+    it('deve cancelar a reconexão agendada ao desconectar', async () => {
+      const manager = new ConnectionManager(testConfig);
+      const instance = fakeKnex();
+      await manager.connect();
+
+      emit(instance, 'query-error', connectionReset());
+      await manager.disconnect();
+      await jest.advanceTimersByTimeAsync(60000);
+
+      expect(knex).toHaveBeenCalledTimes(1);
+      expect(manager.isConnected()).toBe(false);
+      expect(manager.getUnavailableError()).toBeNull();
+    });
+
+    it('deve encerrar a reconexão, o heartbeat e as réplicas ao atualizar a conexão durante a queda', async () => {
+      const manager = new ConnectionManager({
+        ...testConfig,
+        replicas: [{ host: 'replica1' }],
+        heartbeat: { interval: 1000 },
+        reconnect: { initialDelay: 100, jitter: false }
+      });
+      const instance = fakeKnex();
+      await manager.connect();
+      const router = manager.getReplicaRouter()!;
+
+      emit(instance, 'query-error', connectionReset());
+      const updated = fakeKnex();
+      await manager.updateConnection({ host: 'novo-servidor' });
+      await jest.advanceTimersByTimeAsync(5000);
+
+      // Primário e réplica, antes e depois da atualização; nenhuma reconexão agendada
+      expect(knex).toHaveBeenCalledTimes(4);
+      expect(manager.getConnection()).toBe(updated);
+      expect(manager.getUnavailableError()).toBeNull();
+      expect(router.getStatus()[0].healthy).toBe(false);
+      expect(manager.getReplicaRouter()).not.toBe(router);
+      expect(updated.raw).toHaveBeenCalledTimes(1);
+      expect(updated.attachment.executeSingleton).toHaveBeenCalledTimes(5);
+      expect(instance.raw).toHaveBeenCalledTimes(1);
+      expect(instance.client.acquireConnection).not.toHaveBeenCalled();
+      await manager.disconnect();
+    });
+  });
+
+  describe('heartbeat e estado da conexão', () => {
+    let plugin: any;
+    let pluginManager: PluginManager;
+
+    /**
+     * Simula uma instância do Knex; cada resposta é a latência do teste ou o erro lançado.
+     * O connect() testa pelo Knex e o heartbeat direto na conexão do driver obtida do pool.
+     */
+    function fakeKnex(...responses: Array<number | Error>) {
+      const respond = () => {
+        const response = responses.length > 1 ? responses.shift() : responses[0];
+        return new Promise((resolve, reject) => {
+          setTimeout(() => (response instanceof Error ? reject(response) : resolve([{ test: 1 }])), response instanceof Error ? 0 : response);
+        });
+      };
+      const transaction = { commit: jest.fn().mockResolvedValue(undefined), rollback: jest.fn().mockResolvedValue(undefined) };
+      const attachment: any = {
+        startTransaction: jest.fn().mockResolvedValue(transaction),
+        executeSingleton: jest.fn(respond),
+        cancelOperation: jest.fn().mockResolvedValue(undefined)
+      };
+      const instance = {
+        raw: jest.fn(respond),
+        on: jest.fn(),
+        destroy: jest.fn().mockResolvedValue(undefined),
+        client: {
+          pool: { on: jest.fn() },
+          acquireConnection: jest.fn().mockResolvedValue(attachment),
+          releaseConnection: jest.fn().mockResolvedValue(undefined)
+        },
+        attachment,
+        transaction
+      };
+      (knex as unknown as jest.Mock).mockImplementationOnce(() => instance);
+      return instance;
+    }
+
+    /** Conecta avançando o relógio até o teste de conexão responder */
+    async function connect(manager: ConnectionManager) {
+      const connecting = manager.connect();
+      await jest.advanceTimersByTimeAsync(10);
+      await connecting;
+    }
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: 10000 });
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      plugin = { name: 'Monitor', init: jest.fn().mockResolvedValue(undefined), onStateChange: jest.fn().mockResolvedValue(undefined) };
+      pluginManager = new PluginManager('default');
+      pluginManager.register(plugin);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+    });
+
+    it('deve informar o estado durante e após a conexão', async () => {
+      const manager = new ConnectionManager(testConfig);
+      manager.setPluginManager(pluginManager);
+      fakeKnex(5);
+
+      expect(manager.getStatus()).toMatchObject({ state: 'down', latency: null, lastSuccessAt: null });
+      const connecting = manager.connect();
+      expect(manager.getStatus().state).toBe('connecting');
+      await jest.advanceTimersByTimeAsync(10);
+      await connecting;
+
+      expect(manager.getStatus()).toEqual({
+        state: 'healthy',
+        since: 10005,
+        latency: 5,
+        consecutiveFailures: 0,
+        lastSuccessAt: 10005,
+        lastError: null,
+        retryAt: null
+      });
+      expect(plugin.onStateChange.mock.calls.map(([change]: any[]) => [change.from, change.to])).toEqual([
+        ['down', 'connecting'],
+        ['connecting', 'healthy']
+      ]);
+      expect(plugin.onStateChange).toHaveBeenLastCalledWith(expect.objectContaining({ status: manager.getStatus() }), 'default');
+
+      await manager.disconnect();
+      expect(manager.getStatus().state).toBe('down');
+    });
+
+    it('deve medir a latência e degradar com heartbeats lentos ou falhando', async () => {
+      const manager = new ConnectionManager({ ...testConfig, heartbeat: { interval: 1000, timeout: 500, degradedLatency: 100 } });
+      manager.setPluginManager(pluginManager);
+      const instance = fakeKnex(5, 200, new Error('Table unknown'), 800, 5);
+      await connect(manager);
+
+      await jest.advanceTimersByTimeAsync(1200);
+      expect(instance.attachment.executeSingleton).toHaveBeenCalledTimes(1);
+      expect(instance.transaction.commit).toHaveBeenCalledTimes(1);
+      expect(manager.getStatus()).toMatchObject({ state: 'degraded', latency: 200, consecutiveFailures: 0 });
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(manager.getStatus()).toMatchObject({ state: 'degraded', latency: 200, consecutiveFailures: 1, lastError: 'Table unknown' });
+
+      await jest.advanceTimersByTimeAsync(1500);
+      expect(manager.getStatus()).toMatchObject({ consecutiveFailures: 2, lastError: 'Heartbeat sem resposta em 500 ms' });
+      expect(instance.attachment.cancelOperation).toHaveBeenCalledTimes(1);
+      expect(instance.attachment.__knex__disposed).toBeUndefined();
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(manager.getStatus()).toMatchObject({ state: 'healthy', latency: 5, consecutiveFailures: 0, lastSuccessAt: 14010, lastError: null });
+      expect(plugin.onStateChange.mock.calls.map(([change]: any[]) => change.to)).toEqual(['connecting', 'healthy', 'degraded', 'healthy']);
+
+      await manager.disconnect();
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(instance.attachment.executeSingleton).toHaveBeenCalledTimes(4);
+      expect(instance.client.releaseConnection).toHaveBeenCalledTimes(4);
+      // A sonda não passa pelo Knex, que repassaria a consulta ao log e aos plugins
+      expect(instance.raw).toHaveBeenCalledTimes(1);
+    });
+
+    it('deve marcar como perdida a conexão que não responde a heartbeat.failureThreshold testes seguidos', async () => {
+      const manager = new ConnectionManager({
+        ...testConfig,
+        heartbeat: { interval: 1000, timeout: 500, failureThreshold: 3 },
+        reconnect: { initialDelay: 100, jitter: false }
+      });
+      manager.setPluginManager(pluginManager);
+      const instance = fakeKnex(5, 60000);
+      instance.attachment.cancelOperation.mockRejectedValue(new Error('Cancelamento indisponível'));
+      await connect(manager);
+
+      await jest.advanceTimersByTimeAsync(1500);
+      expect(manager.getStatus()).toMatchObject({ state: 'degraded', consecutiveFailures: 1, lastError: 'Heartbeat sem resposta em 500 ms' });
+      // Sem o cancelamento confirmado, o pool destrói a conexão quando ela for devolvida
+      expect(instance.attachment.__knex__disposed).toBeInstanceOf(Error);
+
+      // A sonda travada continua ocupando a conexão: nenhuma outra é iniciada, mas cada intervalo conta como falha
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(manager.getStatus()).toMatchObject({ state: 'degraded', consecutiveFailures: 2 });
+      expect(instance.client.acquireConnection).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(550);
+      expect(manager.getStatus()).toMatchObject({
+        state: 'down',
+        lastError: 'Heartbeat falhou 3 vezes seguidas: Heartbeat sem resposta em 500 ms',
+        retryAt: 13105
+      });
+      expect(manager.getUnavailableError()).toBeInstanceOf(ConnectionUnavailableError);
+      expect(instance.destroy).toHaveBeenCalled();
+      expect(instance.attachment.executeSingleton).toHaveBeenCalledTimes(1);
+      expect(plugin.onStateChange.mock.calls.map(([change]: any[]) => change.to)).toEqual(['connecting', 'healthy', 'degraded', 'down']);
+      await manager.disconnect();
+    });
+
+    it('deve abrir o circuito com o erro de conexão do heartbeat', async () => {
+      const manager = new ConnectionManager({ ...testConfig, heartbeat: { interval: 1000 }, reconnect: { initialDelay: 100, jitter: false } });
+      const instance = fakeKnex(5, new Error('Error writing data to the connection.'));
+      await connect(manager);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(manager.getStatus()).toMatchObject({ state: 'down', lastError: 'Error writing data to the connection.', retryAt: 11106 });
+      expect(instance.transaction.rollback).toHaveBeenCalledTimes(1);
+      expect(instance.client.releaseConnection).toHaveBeenCalledWith(instance.attachment);
+      await manager.disconnect();
+    });
+
+    it('deve passar para down com a conexão perdida', async () => {
+      const manager = new ConnectionManager({ ...testConfig, heartbeat: { interval: 1000 }, reconnect: { initialDelay: 100, jitter: false } });
+      const instance = fakeKnex(5);
+      await connect(manager);
+
+      const [, listener] = instance.on.mock.calls.find(([name]: [string]) => name === 'query-error');
+      listener(Object.assign(new Error('read ECONNRESET'), { code: 'ECONNRESET' }));
+
+      expect(manager.getStatus()).toMatchObject({ state: 'down', lastError: 'read ECONNRESET', retryAt: 10110 });
+
+      await jest.advanceTimersByTimeAsync(1000);
+      // Sem conexão, o heartbeat não consulta o pool descartado
+      expect(instance.client.acquireConnection).not.toHaveBeenCalled();
+      await manager.disconnect();
+    });
+
+    it('deve abrir o circuito com o erro do driver que traz apenas a mensagem', async () => {
+      const manager = new ConnectionManager({ ...testConfig, heartbeat: { interval: 1000 }, reconnect: { initialDelay: 100, jitter: false } });
+      const instance = fakeKnex(5);
+      await connect(manager);
+
+      const [, listener] = instance.on.mock.calls.find(([name]: [string]) => name === 'query-error');
+      listener(new Error('Error reading data from the connection.'));
+
+      expect(manager.getStatus()).toMatchObject({ state: 'down', lastError: 'Error reading data from the connection.', retryAt: 10110 });
+      expect(manager.getUnavailableError()).toBeInstanceOf(ConnectionUnavailableError);
+      await manager.disconnect();
+    });
+  });
+});
@@ -90,10 +90,23 @@ describe('FirebirdCore', () => {
         return result;
       }),
       executeTransaction: jest.fn(),
+      transaction: jest.fn(),
       executeSelect: jest.fn(),
+      stream: jest.fn(),
+      executeInsert: jest.fn(),
+      executeUpdate: jest.fn(),
+      executeDelete: jest.fn(),
+      executeProcedure: jest.fn(),
+      executeBlock: jest.fn(),
+      bulkInsert: jest.fn(),
+      upsert: jest.fn(),
+      merge: jest.fn(),
+      nextValue: jest.fn(),
+      currentValue: jest.fn(),
+      setSequence: jest.fn(),
+      listSequences: jest.fn(),
       setPluginManager: jest.fn(),
       validateSql: jest.fn(),
-      validateSqlForTransaction: jest.fn(),
     } as any;
 
     // Criar instância da fachada com dependências injetadas
@@ -159,7 +172,7 @@ describe('FirebirdCore', () => {
 
   describe('Método executeQuery', () => {
     it('deve chamar executeQuery do QueryService', async () => {
-      const queryResult = { rows: [] };
+      const queryResult = [{ id: 1 }];
       queryService.executeQuery.mockResolvedValue(queryResult);
 
       const result = await core.executeQuery('SELECT * FROM users', []);
@@ -177,9 +190,129 @@ describe('FirebirdCore', () => {
       const queries = [{ sql: 'SELECT * FROM users' }];
       const result = await core.executeTransaction(queries);
 
-      expect(queryService.executeTransaction).toHaveBeenCalledWith(queries);
+      expect(queryService.executeTransaction).toHaveBeenCalledWith(queries, undefined);
       expect(result).toEqual(transactionResult);
     });
+
+    it('deve repassar os parâmetros da transação', async () => {
+      const queries = [{ sql: 'SELECT * FROM users' }];
+      const options = { isolationLevel: 'SNAPSHOT' as const, readOnly: true };
+
+      await core.executeTransaction(queries, options);
+
+      expect(queryService.executeTransaction).toHaveBeenCalledWith(queries, options);
+    });
+  });
+
+  describe('Método transaction', () => {
+    it('deve delegar a unidade de trabalho ao QueryService', async () => {
+      queryService.transaction.mockResolvedValue(42);
+      const callback = jest.fn();
+
+      const result = await core.transaction(callback);
+
+      expect(queryService.transaction).toHaveBeenCalledWith(callback, undefined);
+      expect(result).toBe(42);
+    });
+  });
+
+  describe('Método executeSelect', () => {
+    it('deve delegar a consulta ao QueryService', async () => {
+      queryService.executeSelect.mockResolvedValue([{ id: 1 }]);
+      const options = { limit: 10, stream: false };
+
+      const result = await core.executeSelect('users', { active: true }, options);
+
+      expect(queryService.executeSelect).toHaveBeenCalledWith('users', { active: true }, options);
+      expect(result).toEqual([{ id: 1 }]);
+    });
+  });
+
+  describe('Métodos de escrita', () => {
+    it('deve delegar executeInsert ao QueryService', async () => {
+      queryService.executeInsert.mockResolvedValue([{ ID: 10 }]);
+
+      const result = await core.executeInsert('clientes', { nome: 'Ana' }, { returning: ['ID'] });
+
+      expect(queryService.executeInsert).toHaveBeenCalledWith('clientes', { nome: 'Ana' }, { returning: ['ID'] });
+      expect(result).toEqual([{ ID: 10 }]);
+    });
+
+    it('deve delegar executeUpdate ao QueryService', async () => {
+      await core.executeUpdate('clientes', { nome: 'Ana' }, { id: 10 });
+
+      expect(queryService.executeUpdate).toHaveBeenCalledWith('clientes', { nome: 'Ana' }, { id: 10 }, undefined);
+    });
+
+    it('deve delegar executeDelete ao QueryService', async () => {
+      await core.executeDelete('clientes', { id: 10 }, { returning: ['ID'] });
+
+      expect(queryService.executeDelete).toHaveBeenCalledWith('clientes', { id: 10 }, { returning: ['ID'] });
+    });
+
+    it('deve delegar executeProcedure ao QueryService', async () => {
+      queryService.executeProcedure.mockResolvedValue({ TOTAL: 90 });
+
+      const result = await core.executeProcedure('CALCULAR_TOTAL', { CLIENTE_ID: 7 });
+
+      expect(queryService.executeProcedure).toHaveBeenCalledWith('CALCULAR_TOTAL', { CLIENTE_ID: 7 }, undefined);
+      expect(result).toEqual({ TOTAL: 90 });
+    });
+
+    it('deve delegar executeBlock ao QueryService', async () => {
+      const block = { body: 'BEGIN END' };
+      queryService.executeBlock.mockResolvedValue([]);
+
+      await core.executeBlock(block, { timeout: 1000 });
+
+      expect(queryService.executeBlock).toHaveBeenCalledWith(block, { timeout: 1000 });
+    });
+
+    it('deve delegar bulkInsert ao QueryService', async () => {
+      const rows = [{ NOME: 'Ana' }];
+      queryService.bulkInsert.mockResolvedValue({ inserted: 1, failed: 0, chunks: 1, failures: [] });
+
+      const result = await core.bulkInsert('clientes', rows, { chunkSize: 200 });
+
+      expect(queryService.bulkInsert).toHaveBeenCalledWith('clientes', rows, { chunkSize: 200 });
+      expect(result.inserted).toBe(1);
+    });
+
+    it('deve delegar upsert e merge ao QueryService', async () => {
+      const mergeOptions = { source: 'IMP_PRODUTOS', columns: ['CODIGO'], matching: ['CODIGO'] };
+
+      await core.upsert('produtos', { CODIGO: 'A1' }, { matching: ['CODIGO'] });
+      await core.merge('produtos', mergeOptions);
+
+      expect(queryService.upsert).toHaveBeenCalledWith('produtos', { CODIGO: 'A1' }, { matching: ['CODIGO'] });
+      expect(queryService.merge).toHaveBeenCalledWith('produtos', mergeOptions);
+    });
+
+    it('deve delegar as operações de sequência ao QueryService', async () => {
+      queryService.nextValue.mockResolvedValue(11);
+      queryService.listSequences.mockResolvedValue(['GEN_PEDIDOS']);
+
+      expect(await core.nextValue('GEN_PEDIDOS', 10)).toBe(11);
+      await core.currentValue('GEN_PEDIDOS');
+      await core.setSequence('GEN_PEDIDOS', 0);
+      expect(await core.listSequences()).toEqual(['GEN_PEDIDOS']);
+
+      expect(queryService.nextValue).toHaveBeenCalledWith('GEN_PEDIDOS', 10);
+      expect(queryService.currentValue).toHaveBeenCalledWith('GEN_PEDIDOS');
+      expect(queryService.setSequence).toHaveBeenCalledWith('GEN_PEDIDOS', 0);
+    });
+  });
+
+  describe('Método stream', () => {
+    it('deve retornar o stream do QueryService', () => {
+      const stream = {} as any;
+      queryService.stream.mockReturnValue(stream);
+
+      const result = core.stream('SELECT * FROM users', [], { fetchSize: 500 });
+
+      expect(queryService.stream).toHaveBeenCalledWith('SELECT * FROM users', [], { fetchSize: 500 });
+      expect(result).toBe(stream);
+    });
   });
 
   describe('Método use', () => {
@@ -238,6 +371,90 @@ describe('FirebirdCore', () => {
     });
   });
 
+  describe('Múltiplos bancos', () => {
+    const config = {
+      host: 'erp.local',
+      port: 3050,
+      username: 'SYSDBA',
+      password: 'masterkey',
+      database: '/dados/erp.fdb',
+      databases: { fiscal: { database: '/dados/fiscal.fdb', pool: { max: 4 } } }
+    };
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('deve criar uma fachada com pool próprio para cada banco nomeado', () => {
+      const multi = new FirebirdCore(config);
+      const fiscal = multi.db('fiscal');
+
+      expect(multi.db()).toBe(multi);
+      expect(multi.db('fiscal')).toBe(fiscal);
+      expect(fiscal.db('default')).toBe(multi);
+      expect(fiscal.getDatabaseName()).toBe('fiscal');
+      expect(multi.getDatabaseNames()).toEqual(['default', 'fiscal']);
+      expect((fiscal as any).connectionManager).not.toBe((multi as any).connectionManager);
+      expect((fiscal as any).connectionManager.getConfig()).toMatchObject({
+        host: 'erp.local',
+        database: '/dados/fiscal.fdb',
+        pool: { max: 4 }
+      });
+      expect(() => multi.db('legado')).toThrow('Banco de dados não configurado: legado');
+    });
+
+    it('deve executar no banco selecionado e informar o nome do banco aos plugins', async () => {
+      const multi = new FirebirdCore(config);
+      const plugin = new TestPlugin();
+      multi.use(plugin);
+      const fiscal = multi.db('fiscal');
+      const raw = jest.fn().mockResolvedValue([{ TOTAL: 3 }]);
+      jest.spyOn((fiscal as any).connectionManager, 'isConnected').mockReturnValue(true);
+      jest.spyOn((fiscal as any).connectionManager, 'getConnection').mockReturnValue({ raw });
+
+      const result = await multi.db('fiscal').executeQuery('SELECT COUNT(*) AS TOTAL FROM NOTAS');
+
+      expect(result).toEqual([{ TOTAL: 3 }]);
+      expect(raw).toHaveBeenCalledWith('SELECT COUNT(*) AS TOTAL FROM NOTAS', []);
+      expect(plugin.beforeQuery).toHaveBeenCalledWith(expect.objectContaining({ sql: 'SELECT COUNT(*) AS TOTAL FROM NOTAS' }), 'fiscal');
+      expect(plugin.afterQuery).toHaveBeenCalledWith([{ TOTAL: 3 }], 'fiscal');
+    });
+
+    it('deve conectar e desconectar todos os bancos pela fachada principal', async () => {
+      const multi = new FirebirdCore(config);
+      const connected = new Set<string>();
+      jest.spyOn(ConnectionManager.prototype, 'connect').mockImplementation(async function (this: ConnectionManager) {
+        connected.add(this.getConfig().database);
+        return { success: true, message: 'Conexão estabelecida com sucesso' };
+      });
+      jest.spyOn(ConnectionManager.prototype, 'isConnected').mockImplementation(function (this: ConnectionManager) {
+        return connected.has(this.getConfig().database);
+      });
+      jest.spyOn(ConnectionManager.prototype, 'disconnect').mockImplementation(async function (this: ConnectionManager) {
+        connected.delete(this.getConfig().database);
+      });
+
+      await multi.connect();
+      expect([...connected]).toEqual(['/dados/erp.fdb', '/dados/fiscal.fdb']);
+      expect(multi.db('fiscal').isConnected()).toBe(true);
+
+      await multi.disconnect();
+      expect(connected.size).toBe(0);
+    });
+
+    it('deve desconectar os bancos nomeados que aguardam reconexão', async () => {
+      const multi = new FirebirdCore(config);
+      const fiscalManager: ConnectionManager = (multi.db('fiscal') as any).connectionManager;
+      const disconnect = jest.spyOn(fiscalManager, 'disconnect').mockResolvedValue(undefined);
+      jest.spyOn(fiscalManager, 'isConnected').mockReturnValue(false);
+      jest.spyOn((multi as any).connectionManager, 'disconnect').mockResolvedValue(undefined);
+
+      await multi.disconnect();
+
+      expect(disconnect).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('Fluxo completo com plugin', () => {
     it.skip('deve executar o fluxo completo de plugin -> connection -> query -> plugin', async () => {
       // Configuração do mock
@@ -1,4 +1,5 @@
 import { PluginManager } from '../../src/core/PluginManager';
+import { DEFAULT_DATABASE } from '../../src/core/ConfigManager';
 import { PluginInterface } from '../../src/interfaces/PluginInterface';
 
 // Mock de um plugin para testes
@@ -243,6 +244,74 @@ describe('PluginManager', () => {
     });
   });
 
+  describe('onRetry', () => {
+    it('deve chamar onRetry apenas nos plugins que o implementam', async () => {
+      const retrying = Object.assign(new MockPlugin(), { onRetry: jest.fn().mockResolvedValue(undefined) });
+      const notice = { attempt: 1, error: new Error('lock conflict'), delay: 50, maxAttempts: 3 };
+
+      pluginManager.register(new MockPlugin());
+      pluginManager.register(retrying);
+
+      await pluginManager.onRetry(notice);
+
+      expect(retrying.onRetry).toHaveBeenCalledWith(notice, DEFAULT_DATABASE);
+    });
+  });
+
+  describe('onPolicyViolation', () => {
+    it('deve repassar a violação aos plugins que implementam o hook', async () => {
+      const auditor = Object.assign(new MockPlugin(), { onPolicyViolation: jest.fn().mockResolvedValue(undefined) });
+      const violation = { rule: 'table', message: 'Tabela não permitida para leitura: SENHAS', object: 'SENHAS' };
+
+      pluginManager.register(new MockPlugin());
+      pluginManager.register(auditor);
+
+      await pluginManager.onPolicyViolation(violation);
+
+      expect(auditor.onPolicyViolation).toHaveBeenCalledWith(violation, DEFAULT_DATABASE);
+    });
+  });
+
+  describe('onDisconnected e onReconnected', () => {
+    it('deve repassar a perda e a retomada da conexão aos plugins que implementam os hooks', async () => {
+      const monitor = Object.assign(new MockPlugin(), {
+        onDisconnected: jest.fn().mockResolvedValue(undefined),
+        onReconnected: jest.fn().mockResolvedValue(undefined)
+      });
+      const error = new Error('connection reset');
+
+      pluginManager.register(new MockPlugin());
+      pluginManager.register(monitor);
+
+      await pluginManager.onDisconnected(error);
+      await pluginManager.onReconnected({ attempts: 3, downtime: 4500 });
+
+      expect(monitor.onDisconnected).toHaveBeenCalledWith(error, DEFAULT_DATABASE);
+      expect(monitor.onReconnected).toHaveBeenCalledWith({ attempts: 3, downtime: 4500 }, DEFAULT_DATABASE);
+    });
+  });
+
+  describe('forDatabase', () => {
+    it('deve compartilhar os plugins e repassar o nome do banco aos hooks', async () => {
+      const auditor = Object.assign(new MockPlugin(), {
+        beforeQuery: jest.fn().mockResolvedValue(undefined),
+        beforeDisconnect: jest.fn().mockResolvedValue(undefined)
+      });
+      const principal = new PluginManager();
+      const fiscal = principal.forDatabase('fiscal');
+      const query = { sql: 'SELECT * FROM NOTAS' };
+
+      principal.register(auditor);
+      await fiscal.beforeQuery(query);
+      await principal.beforeQuery(query);
+      await fiscal.beforeDisconnect();
+
+      expect(auditor.beforeQuery).toHaveBeenNthCalledWith(1, query, 'fiscal');
+      expect(auditor.beforeQuery).toHaveBeenNthCalledWith(2, query, DEFAULT_DATABASE);
+      expect(auditor.beforeDisconnect).toHaveBeenCalledWith('fiscal');
+    });
+  });
+
   describe('destroy', () => {
     it('deve chamar o método destroy de todos os plugins registrados', async () => {
       const mockPlugin1 = new MockPlugin();
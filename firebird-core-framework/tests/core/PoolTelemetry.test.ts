@@ -0,0 +1,118 @@
+import { EventEmitter } from 'events';
+import { TimeoutError } from 'tarn';
+import { PoolTelemetry } from '../../src/core/PoolTelemetry';
+
+/** Simula o pool do tarn: os eventos são emitidos pelo teste e o uso é ajustado em `usage` */
+function fakePool() {
+  const emitter = new EventEmitter();
+  const usage = { free: 0, used: 0, pendingAcquires: 0, pendingCreates: 0 };
+  const pool = {
+    usage,
+    destroyed: false,
+    on: (event: string, listener: (...args: any[]) => void) => emitter.on(event, listener),
+    emit: (event: string, ...args: any[]) => emitter.emit(event, ...args),
+    numFree: () => usage.free,
+    numUsed: () => usage.used,
+    numPendingAcquires: () => usage.pendingAcquires,
+    numPendingCreates: () => usage.pendingCreates
+  };
+  return pool;
+}
+
+describe('PoolTelemetry', () => {
+  let telemetry: PoolTelemetry;
+  let pool: ReturnType<typeof fakePool>;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 10000 });
+    telemetry = new PoolTelemetry();
+    pool = fakePool();
+    telemetry.attach(pool);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('deve contar os pedidos de conexão e registrar a espera no histograma', async () => {
+    const connection = {};
+    pool.emit('createRequest', 1);
+    pool.emit('createSuccess', 1, connection);
+    pool.emit('acquireRequest', 2);
+    pool.emit('acquireRequest', 3);
+    pool.emit('acquireRequest', 4);
+    pool.usage.pendingAcquires = 2;
+    await jest.advanceTimersByTimeAsync(3);
+
+    pool.usage.used = 1;
+    pool.emit('acquireSuccess', 2, connection);
+    await jest.advanceTimersByTimeAsync(297);
+    pool.emit('release', connection);
+    pool.emit('acquireSuccess', 3, connection);
+    pool.emit('acquireFail', 4, new TimeoutError('Timeout'));
+
+    const snapshot = telemetry.snapshot(pool);
+    expect(snapshot.acquires).toEqual({ requested: 3, succeeded: 2, failed: 1, timeouts: 1 });
+    expect(snapshot.creates).toEqual({ requested: 1, succeeded: 1, failed: 0 });
+    expect(snapshot.releases).toBe(1);
+    expect(snapshot.highWater).toEqual({ used: 1, pendingAcquires: 2, size: 1 });
+    expect(snapshot.acquireWait).toMatchObject({ count: 2, sum: 303, max: 300 });
+    expect(snapshot.acquireWait.buckets.filter((bucket) => bucket.count > 0)).toEqual([
+      { le: 5, count: 1 },
+      { le: 500, count: 1 }
+    ]);
+    expect(snapshot.acquireWait.buckets[snapshot.acquireWait.buckets.length - 1]).toEqual({ le: null, count: 0 });
+    expect(snapshot.current).toEqual({ free: 0, used: 1, pendingAcquires: 2, pendingCreates: 0 });
+  });
+
+  it('deve distinguir afastamentos do encerramento do pool e medir a idade das conexões', async () => {
+    const [first, second, third] = [{}, {}, {}];
+    pool.emit('createSuccess', 1, first);
+    pool.emit('createSuccess', 2, second);
+    await jest.advanceTimersByTimeAsync(30000);
+    pool.emit('createSuccess', 3, third);
+    pool.emit('createFail', 4, new Error('connect ECONNREFUSED'));
+    await jest.advanceTimersByTimeAsync(500);
+
+    // Conexão ociosa fechada pelo tarn
+    pool.emit('destroyRequest', 5, first);
+
+    let snapshot = telemetry.snapshot(pool);
+    expect(snapshot.destroys).toEqual({ total: 1, evictions: 1 });
+    expect(snapshot.creates.failed).toBe(1);
+    expect(snapshot.connectionAge).toMatchObject({ count: 2, max: 30500 });
+    expect(snapshot.connectionAge.buckets.filter((bucket) => bucket.count > 0)).toEqual([
+      { le: 1000, count: 1 },
+      { le: 60000, count: 1 }
+    ]);
+    expect(snapshot.connectionLifetime).toMatchObject({ count: 1, sum: 30500 });
+
+    pool.destroyed = true;
+    pool.emit('destroyRequest', 6, second);
+    pool.emit('destroyRequest', 7, third);
+
+    snapshot = telemetry.snapshot(null);
+    expect(snapshot.destroys).toEqual({ total: 3, evictions: 1 });
+    expect(snapshot.connectionAge.count).toBe(0);
+    expect(snapshot.current).toBeNull();
+  });
+
+  it('deve zerar os contadores no reset mantendo a idade das conexões abertas', async () => {
+    pool.emit('createSuccess', 1, {});
+    pool.emit('acquireRequest', 2);
+    pool.usage.used = 4;
+    pool.emit('acquireSuccess', 2, {});
+    await jest.advanceTimersByTimeAsync(2000);
+
+    pool.usage.used = 1;
+    telemetry.reset(pool);
+
+    const snapshot = telemetry.snapshot(pool);
+    expect(snapshot.since).toBe(12000);
+    expect(snapshot.acquires).toEqual({ requested: 0, succeeded: 0, failed: 0, timeouts: 0 });
+    expect(snapshot.acquireWait).toMatchObject({ count: 0, sum: 0, max: null });
+    expect(snapshot.creates.succeeded).toBe(0);
+    expect(snapshot.highWater).toEqual({ used: 1, pendingAcquires: 0, size: 1 });
+    expect(snapshot.connectionAge).toMatchObject({ count: 1, max: 2000 });
+  });
+});
@@ -0,0 +1,159 @@
+import {
+  ReplicaRouter,
+  isReplicaFailure,
+  isReplicaSafe,
+  resolveReplicaConfigs,
+  validateReplicas
+} from '../../src/core/ReplicaRouter';
+import { ConnectionLostError } from '../../src/errors/FirebirdErrors';
+
+/** Simula o ConnectionManager de uma réplica */
+function replica(host: string, numUsed = 0) {
+  let connected = false;
+  return {
+    connect: jest.fn(async () => {
+      connected = true;
+    }),
+    disconnect: jest.fn(async () => {
+      connected = false;
+    }),
+    isConnected: jest.fn(() => connected),
+    getPoolInfo: jest.fn(() => ({ numFree: 1, numUsed, numPendingCreates: 0 })),
+    getConfig: jest.fn(() => ({ host, database: '/dados/erp.fdb' }))
+  };
+}
+
+describe('ReplicaRouter', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('deve alternar entre as réplicas conectadas em round-robin', async () => {
+    const a = replica('a');
+    const b = replica('b');
+    const router = new ReplicaRouter([a, b] as any);
+
+    expect(router.select()).toBeNull();
+    await router.connect();
+
+    expect([router.select(), router.select(), router.select()]).toEqual([a, b, a]);
+  });
+
+  it('deve escolher a réplica com menos conexões em uso em least-busy', async () => {
+    const a = replica('a', 4);
+    const b = replica('b', 1);
+    const router = new ReplicaRouter([a, b] as any, { strategy: 'least-busy' });
+    await router.connect();
+
+    expect(router.select()).toBe(b);
+    expect(router.select()).toBe(b);
+  });
+
+  it('deve manter as leituras no primário durante a janela após uma escrita', async () => {
+    const a = replica('a');
+    const router = new ReplicaRouter([a] as any, { readYourWritesWindow: 500 });
+    await router.connect();
+
+    router.recordWrite();
+    now += 499;
+    expect(router.select()).toBeNull();
+
+    now += 1;
+    expect(router.select()).toBe(a);
+  });
+
+  it('deve afastar a réplica após as falhas seguidas e voltar a usá-la depois do período', async () => {
+    const a = replica('a');
+    const b = replica('b');
+    const router = new ReplicaRouter([a, b] as any, { ejectAfter: 2, ejectFor: 10000 });
+    await router.connect();
+
+    router.reportFailure(a as any);
+    router.reportSuccess(a as any);
+    router.reportFailure(a as any);
+    expect(router.getStatus()[0]).toMatchObject({ healthy: true, failures: 1, ejectedUntil: null });
+
+    router.reportFailure(a as any);
+    expect(router.getStatus()[0]).toEqual({ host: 'a', database: '/dados/erp.fdb', healthy: false, failures: 2, ejectedUntil: 11000 });
+    expect([router.select(), router.select()]).toEqual([b, b]);
+
+    now = 11000;
+    expect([router.select(), router.select()]).toContain(a);
+  });
+
+  it('deve afastar a réplica que não conecta e reconectá-la depois do período', async () => {
+    const a = replica('a');
+    a.connect.mockRejectedValueOnce(new ConnectionLostError('Falha na conexão: connection refused'));
+    const router = new ReplicaRouter([a] as any, { ejectFor: 5000 });
+
+    await router.connect();
+    expect(router.getStatus()[0]).toMatchObject({ healthy: false, ejectedUntil: 6000 });
+    expect(router.select()).toBeNull();
+
+    now = 6000;
+    expect(router.select()).toBeNull();
+    await Promise.resolve();
+    expect(a.connect).toHaveBeenCalledTimes(2);
+    expect(router.select()).toBe(a);
+
+    await router.disconnect();
+    expect(a.disconnect).toHaveBeenCalled();
+  });
+
+  it('deve identificar as consultas que podem ir às réplicas', () => {
+    expect(isReplicaSafe('SELECT * FROM PEDIDOS FETCH NEXT 10 ROWS ONLY')).toBe(true);
+    expect(isReplicaSafe("WITH T AS (SELECT 'FOR UPDATE' AS A FROM RDB$DATABASE) SELECT * FROM T")).toBe(true);
+    expect(isReplicaSafe('UPDATE PEDIDOS SET STATUS = 1')).toBe(false);
+    expect(isReplicaSafe('SELECT * FROM PEDIDOS WHERE ID = 1 FOR UPDATE')).toBe(false);
+    expect(isReplicaSafe('SELECT * FROM PEDIDOS WITH LOCK')).toBe(false);
+    expect(isReplicaSafe('SELECT NEXT VALUE FOR GEN_PEDIDOS FROM RDB$DATABASE')).toBe(false);
+    expect(isReplicaSafe('SELECT GEN_ID(GEN_PEDIDOS, 1) FROM RDB$DATABASE')).toBe(false);
+    expect(isReplicaSafe("SELECT 'aberto FROM X")).toBe(false);
+  });
+
+  it('deve refazer no primário apenas as falhas de conexão', () => {
+    expect(isReplicaFailure(new ConnectionLostError('connection reset'))).toBe(true);
+    expect(isReplicaFailure(Object.assign(new Error('Knex: Timeout acquiring a connection'), { name: 'KnexTimeoutError' }))).toBe(true);
+    expect(isReplicaFailure(new Error('Error reading data from the connection.'))).toBe(true);
+    expect(isReplicaFailure(new Error('connection shutdown'))).toBe(true);
+    expect(isReplicaFailure(new Error('Table unknown'))).toBe(false);
+  });
+
+  it('deve completar a configuração das réplicas com a do primário', () => {
+    const configs = resolveReplicaConfigs({
+      host: 'primario',
+      port: 3050,
+      username: 'SYSDBA',
+      password: 'masterkey',
+      database: '/dados/erp.fdb',
+      pool: { min: 2, max: 10 },
+      queryTimeout: 5000,
+      replicas: [{ host: 'replica1', pool: { max: 20 } }],
+      readRouting: { strategy: 'least-busy' }
+    });
+
+    expect(configs).toEqual([expect.objectContaining({
+      host: 'replica1',
+      database: '/dados/erp.fdb',
+      pool: { min: 2, max: 20 },
+      queryTimeout: 5000,
+      replicas: undefined,
+      readRouting: undefined
+    })]);
+  });
+
+  it('deve validar as réplicas e o roteamento', () => {
+    expect(validateReplicas([{ host: 'replica1' }], { strategy: 'round-robin', readYourWritesWindow: 2000 })).toBeNull();
+    expect(validateReplicas('replica1')).toBe('replicas deve ser uma lista de objetos com a conexão de cada réplica');
+    expect(validateReplicas([], { strategy: 'random' })).toBe('readRouting.strategy deve ser round-robin ou least-busy');
+    expect(validateReplicas([], { ejectFor: -1 })).toBe('readRouting.ejectFor deve ser um número não negativo');
+    expect(validateReplicas([], { ejectAfter: 0 })).toBe('readRouting.ejectAfter deve ser um inteiro maior ou igual a 1');
+  });
+});
@@ -0,0 +1,85 @@
+import {
+  computeRetryDelay,
+  isRetryable,
+  resolveRetryPolicy,
+  validateRetryPolicy
+} from '../../src/core/RetryPolicy';
+import {
+  ConnectionLostError,
+  DeadlockError,
+  LockConflictError,
+  TransactionRetryError,
+  UniqueConstraintError
+} from '../../src/errors/FirebirdErrors';
+
+describe('RetryPolicy', () => {
+  it('deve aplicar os valores padrão sem sobrescrevê-los com undefined', () => {
+    expect(resolveRetryPolicy({ maxAttempts: 5, jitter: undefined })).toEqual({
+      maxAttempts: 5,
+      initialDelay: 50,
+      maxDelay: 2000,
+      backoffFactor: 2,
+      jitter: true,
+      retryOn: [LockConflictError, DeadlockError]
+    });
+  });
+
+  it('deve calcular o backoff exponencial limitado por maxDelay', () => {
+    const policy = resolveRetryPolicy({ initialDelay: 100, maxDelay: 500, jitter: false });
+
+    expect([1, 2, 3, 4].map((attempt) => computeRetryDelay(policy, attempt))).toEqual([100, 200, 400, 500]);
+  });
+
+  it('deve sortear a espera entre 0 e o backoff com jitter', () => {
+    const policy = resolveRetryPolicy({ initialDelay: 100 });
+
+    expect(computeRetryDelay(policy, 2, () => 0.5)).toBe(100);
+    expect(computeRetryDelay(policy, 2, () => 0)).toBe(0);
+  });
+
+  it('deve tentar de novo apenas as classes de retryOn', () => {
+    const defaults = resolveRetryPolicy({});
+    const custom = resolveRetryPolicy({ retryOn: [ConnectionLostError] });
+
+    expect(isRetryable(defaults, new LockConflictError('lock conflict'))).toBe(true);
+    expect(isRetryable(defaults, new DeadlockError('deadlock'))).toBe(true);
+    expect(isRetryable(defaults, new UniqueConstraintError('violation'))).toBe(false);
+    expect(isRetryable(custom, new LockConflictError('lock conflict'))).toBe(false);
+    expect(isRetryable(custom, new ConnectionLostError('connection lost'))).toBe(true);
+  });
+
+  it('deve classificar erros do driver ainda não convertidos', () => {
+    const defaults = resolveRetryPolicy({});
+    const lockConflict = new Error('lock conflict on no wait transaction\n-deadlock\n-update conflicts with concurrent update');
+
+    expect(isRetryable(defaults, lockConflict)).toBe(true);
+    expect(isRetryable(defaults, new Error('deadlock'))).toBe(true);
+    expect(isRetryable(defaults, new Error('violation of FOREIGN KEY constraint "FK_ITENS" on table "ITENS"'))).toBe(false);
+    expect(isRetryable(defaults, new Error('Falha no callback'))).toBe(false);
+  });
+
+  it('deve validar a política', () => {
+    expect(validateRetryPolicy(false)).toBeNull();
+    expect(validateRetryPolicy({ maxAttempts: 4, initialDelay: 0, retryOn: [LockConflictError] })).toBeNull();
+    expect(validateRetryPolicy(true)).toBe('retry deve ser um objeto ou false');
+    expect(validateRetryPolicy({ maxAttempts: 0 })).toBe('retry.maxAttempts deve ser um inteiro maior ou igual a 1');
+    expect(validateRetryPolicy({ maxDelay: -1 })).toBe('retry.maxDelay deve ser um número não negativo');
+    expect(validateRetryPolicy({ backoffFactor: 0.5 })).toBe('retry.backoffFactor deve ser um número maior ou igual a 1');
+    expect(validateRetryPolicy({ retryOn: ['LockConflictError'] })).toBe('retry.retryOn deve ser uma lista de classes de erro');
+  });
+
+  it('deve montar TransactionRetryError com o histórico e os dados do último erro', () => {
+    const first = new LockConflictError('lock conflict on no wait transaction', { gdscode: 335544345 });
+    const last = new DeadlockError('deadlock', { gdscode: 335544336 });
+
+    const error = new TransactionRetryError([
+      { attempt: 1, error: first, delay: 50 },
+      { attempt: 2, error: last, delay: 0 }
+    ]);
+
+    expect(error.message).toBe('Transação falhou após 2 tentativas: deadlock');
+    expect(error).toMatchObject({ name: 'TransactionRetryError', gdscode: 335544336, sqlstate: '40001' });
+    expect(error.cause).toBe(last);
+    expect(error.attempts.map((attempt) => attempt.error)).toEqual([first, last]);
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  buildSetTransactionStatement,
+  mergeRetryPolicy,
+  mergeTransactionOptions,
+  validateTransactionOptions
+} from '../../src/core/TransactionOptions';
+
+describe('TransactionOptions', () => {
+  describe('buildSetTransactionStatement', () => {
+    it('deve gerar transação somente leitura em SNAPSHOT para relatórios', () => {
+      expect(buildSetTransactionStatement({ isolationLevel: 'SNAPSHOT', readOnly: true }))
+        .toBe('SET TRANSACTION READ ONLY WAIT ISOLATION LEVEL SNAPSHOT');
+    });
+
+    it('deve gerar NO WAIT para caminhos OLTP', () => {
+      expect(buildSetTransactionStatement({ isolationLevel: 'READ_COMMITTED', readCommittedMode: 'RECORD_VERSION', wait: false }))
+        .toBe('SET TRANSACTION READ WRITE NO WAIT ISOLATION LEVEL READ COMMITTED RECORD_VERSION');
+    });
+
+    it.each([
+      ['NO_RECORD_VERSION', 'READ COMMITTED NO RECORD_VERSION'],
+      ['READ_CONSISTENCY', 'READ COMMITTED READ CONSISTENCY']
+    ] as const)('deve gerar a variante %s do READ COMMITTED', (mode, clause) => {
+      expect(buildSetTransactionStatement({ isolationLevel: 'READ_COMMITTED', readCommittedMode: mode }))
+        .toContain(`ISOLATION LEVEL ${clause}`);
+    });
+
+    it('deve gerar SNAPSHOT TABLE STABILITY com LOCK TIMEOUT', () => {
+      expect(buildSetTransactionStatement({ isolationLevel: 'SNAPSHOT_TABLE_STABILITY', lockTimeout: 10 }))
+        .toBe('SET TRANSACTION READ WRITE WAIT ISOLATION LEVEL SNAPSHOT TABLE STABILITY LOCK TIMEOUT 10');
+    });
+
+    it('deve lançar erro para parâmetros inválidos', () => {
+      expect(() => buildSetTransactionStatement({ isolationLevel: 'SERIALIZABLE' as any }))
+        .toThrow('Parâmetros de transação inválidos: Nível de isolamento inválido: SERIALIZABLE');
+    });
+  });
+
+  describe('validateTransactionOptions', () => {
+    it('deve aceitar parâmetros válidos', () => {
+      expect(validateTransactionOptions({ isolationLevel: 'READ_COMMITTED', readCommittedMode: 'READ_CONSISTENCY', lockTimeout: 3 }))
+        .toBeNull();
+    });
+
+    it('deve exigir READ_COMMITTED para readCommittedMode', () => {
+      expect(validateTransactionOptions({ isolationLevel: 'SNAPSHOT', readCommittedMode: 'RECORD_VERSION' }))
+        .toBe('readCommittedMode exige isolationLevel READ_COMMITTED');
+    });
+
+    it('deve rejeitar lockTimeout fora do intervalo', () => {
+      expect(validateTransactionOptions({ lockTimeout: -1 }))
+        .toBe('lockTimeout deve ser um inteiro entre 0 e 32767 segundos');
+    });
+  });
+
+  describe('mergeTransactionOptions', () => {
+    it('deve retornar null quando nenhum parâmetro for definido', () => {
+      expect(mergeTransactionOptions(undefined, undefined)).toBeNull();
+    });
+
+    it('deve sobrescrever os padrões com os parâmetros da chamada', () => {
+      expect(mergeTransactionOptions({ wait: false, readOnly: false }, { readOnly: true }))
+        .toEqual({ wait: false, readOnly: true });
+    });
+
+    it('deve descartar o modo READ COMMITTED padrão quando a chamada escolhe outro isolamento', () => {
+      expect(mergeTransactionOptions(
+        { isolationLevel: 'READ_COMMITTED', readCommittedMode: 'RECORD_VERSION' },
+        { isolationLevel: 'SNAPSHOT' }
+      )).toEqual({ isolationLevel: 'SNAPSHOT' });
+    });
+
+    it('deve deixar a política de novas tentativas fora do SET TRANSACTION', () => {
+      expect(mergeTransactionOptions({ retry: { maxAttempts: 5 } }, undefined)).toBeNull();
+      expect(mergeTransactionOptions({ wait: false }, { retry: false })).toEqual({ wait: false });
+    });
+  });
+
+  describe('mergeRetryPolicy', () => {
+    it('deve preferir a política da chamada, inclusive false', () => {
+      expect(mergeRetryPolicy({ retry: { maxAttempts: 5 } }, undefined)).toEqual({ maxAttempts: 5 });
+      expect(mergeRetryPolicy({ retry: { maxAttempts: 5 } }, { retry: { maxAttempts: 2 } })).toEqual({ maxAttempts: 2 });
+      expect(mergeRetryPolicy({ retry: { maxAttempts: 5 } }, { retry: false })).toBeNull();
+      expect(mergeRetryPolicy(undefined, { wait: false })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import {
+  AuthenticationError,
+  BulkInsertError,
+  ConnectionLostError,
+  DeadlockError,
+  FirebirdError,
+  ForeignKeyError,
+  LockConflictError,
+  QueryTimeoutError,
+  QueryValidationError,
+  UniqueConstraintError,
+  toFirebirdError
+} from '../../src/errors/FirebirdErrors';
+
+/** Simula o erro do node-firebird-driver-native: só a mensagem formatada do status vector */
+function driverError(...lines: string[]): Error {
+  return new Error(lines.join('\n-'));
+}
+
+describe('FirebirdErrors', () => {
+  describe('toFirebirdError', () => {
+    it('deve mapear violação de chave única com constraint e tabela', () => {
+      const cause = driverError(
+        'violation of PRIMARY or UNIQUE KEY constraint "PK_CLIENTES" on table "CLIENTES"',
+        'Problematic key value is ("ID" = 1)'
+      );
+
+      const error = toFirebirdError(cause) as UniqueConstraintError;
+
+      expect(error).toBeInstanceOf(UniqueConstraintError);
+      expect(error).toBeInstanceOf(FirebirdError);
+      expect(error).toMatchObject({
+        name: 'UniqueConstraintError',
+        gdscode: 335544665,
+        sqlstate: '23000',
+        constraint: 'PK_CLIENTES',
+        table: 'CLIENTES',
+        message: cause.message
+      });
+      expect(error.cause).toBe(cause);
+    });
+
+    it('deve mapear violação de chave estrangeira', () => {
+      const cause = driverError(
+        'violation of FOREIGN KEY constraint "FK_PEDIDOS_CLIENTE" on table "PEDIDOS"',
+        'Foreign key reference target does not exist',
+        'Problematic key value is ("CLIENTE_ID" = 7)'
+      );
+
+      expect(toFirebirdError(cause)).toMatchObject({
+        name: 'ForeignKeyError',
+        gdscode: 335544466,
+        constraint: 'FK_PEDIDOS_CLIENTE',
+        table: 'PEDIDOS'
+      });
+      expect(toFirebirdError(cause)).toBeInstanceOf(ForeignKeyError);
+    });
+
+    it('deve usar o índice como constraint em duplicidade de índice único', () => {
+      const error = toFirebirdError(
+        driverError('attempt to store duplicate value (visible to active transactions) in unique index "UNQ_EMAIL"')
+      );
+
+      expect(error).toBeInstanceOf(UniqueConstraintError);
+      expect(error).toMatchObject({ constraint: 'UNQ_EMAIL', table: undefined });
+    });
+
+    it('deve distinguir conflito de atualização de deadlock', () => {
+      const lock = toFirebirdError(
+        driverError('lock conflict on no wait transaction', 'deadlock', 'update conflicts with concurrent update')
+      );
+      expect(lock).toBeInstanceOf(LockConflictError);
+      expect(lock).toMatchObject({ gdscode: 335544345 });
+      expect(
+        toFirebirdError(driverError('deadlock', 'update conflicts with concurrent update', 'concurrent transaction number is 42'))
+      ).toBeInstanceOf(LockConflictError);
+
+      const deadlock = toFirebirdError(driverError('deadlock'));
+      expect(deadlock).toBeInstanceOf(DeadlockError);
+      expect(deadlock).toMatchObject({ gdscode: 335544336, sqlstate: '40001' });
+    });
+
+    it('deve mapear falhas de conexão e de autenticação', () => {
+      const socket = Object.assign(new Error('connect ECONNREFUSED 127.0.0.1:3050'), { code: 'ECONNREFUSED' });
+
+      expect(toFirebirdError(socket)).toBeInstanceOf(ConnectionLostError);
+      expect(toFirebirdError(driverError('Error writing data to the connection.', 'send_packet/send'))).toMatchObject({
+        name: 'ConnectionLostError',
+        gdscode: 335544727,
+        sqlstate: '08006'
+      });
+      expect(toFirebirdError(driverError('Error reading data from the connection.'))).toBeInstanceOf(ConnectionLostError);
+      expect(toFirebirdError(driverError('connection shutdown'))).toBeInstanceOf(ConnectionLostError);
+      expect(
+        toFirebirdError(
+          driverError('Your user name and password are not defined. Ask your database administrator to set up a Firebird login.')
+        )
+      ).toMatchObject({
+        name: 'AuthenticationError',
+        gdscode: 335544472,
+        sqlstate: '28000'
+      });
+    });
+
+    it('deve ler o código e os parâmetros quando o driver os informa', () => {
+      const cause = Object.assign(new Error('violation of PRIMARY or UNIQUE KEY constraint'), {
+        gdscode: 335544665,
+        gdsparams: ['PK_CLIENTES', 'CLIENTES']
+      });
+
+      expect(toFirebirdError(cause)).toMatchObject({
+        name: 'UniqueConstraintError',
+        gdscode: 335544665,
+        constraint: 'PK_CLIENTES',
+        table: 'CLIENTES'
+      });
+    });
+
+    it('deve usar FirebirdError para códigos GDS sem classe própria', () => {
+      const error = toFirebirdError(Object.assign(new Error('Table unknown'), { gdscode: 335544580 }));
+
+      expect(error).toBeInstanceOf(FirebirdError);
+      expect(error).toMatchObject({ name: 'FirebirdError', gdscode: 335544580, sqlstate: undefined });
+    });
+
+    it('deve manter erros que não vêm do banco e erros já convertidos', () => {
+      const plain = new Error('Falha no callback');
+      const typed = new QueryTimeoutError(1000);
+
+      expect(toFirebirdError(plain)).toBe(plain);
+      expect(toFirebirdError(typed)).toBe(typed);
+    });
+
+    it('deve sempre criar um FirebirdError com o prefixo informado', () => {
+      const plain = toFirebirdError(new Error('Connection failed'), 'Falha na conexão: ');
+      const auth = toFirebirdError(driverError('Your user name and password are not defined'), 'Falha na conexão: ');
+
+      expect(plain).toBeInstanceOf(FirebirdError);
+      expect(plain).toMatchObject({ message: 'Falha na conexão: Connection failed' });
+      expect(auth).toBeInstanceOf(AuthenticationError);
+      expect(auth).toMatchObject({ message: 'Falha na conexão: Your user name and password are not defined' });
+    });
+  });
+
+  it('deve montar QueryValidationError com a posição do token', () => {
+    const error = new QueryValidationError('Keyword não permitido: DROP', 1, 1);
+
+    expect(error.message).toBe('Consulta inválida: Keyword não permitido: DROP (linha 1, coluna 1)');
+    expect(error).toMatchObject({ reason: 'Keyword não permitido: DROP', line: 1, column: 1, sqlstate: '42000' });
+    expect(new QueryValidationError('Consulta vazia').message).toBe('Consulta inválida: Consulta vazia');
+  });
+
+  it('deve manter QueryTimeoutError e BulkInsertError na hierarquia', () => {
+    const cause = toFirebirdError(driverError('violation of PRIMARY or UNIQUE KEY constraint "PK_ITENS" on table "ITENS"'));
+    const bulk = new BulkInsertError('ITENS', 1, 500, 500, 500, cause);
+
+    expect(new QueryTimeoutError(1000)).toMatchObject({ name: 'QueryTimeoutError', sqlstate: 'HY008' });
+    expect(bulk).toBeInstanceOf(FirebirdError);
+    expect(bulk).toMatchObject({ table: 'ITENS', constraint: 'PK_ITENS', gdscode: 335544665, sqlstate: '23000' });
+    expect(bulk.cause).toBe(cause);
+  });
+});
@@ -0,0 +1,90 @@
+import { createColumnNameMapper } from '../../src/core/ColumnNames';
+import { BulkInsertBuilder } from '../../src/services/BulkInsert';
+
+describe('BulkInsertBuilder', () => {
+  let builder: BulkInsertBuilder;
+  const columns = new Map([['ID', 4], ['NOME', 240], ['EMAIL', 400]]);
+  const rows = (count: number) => Array.from({ length: count }, (_, index) => ({ NOME: `Cliente ${index}`, EMAIL: null }));
+
+  beforeEach(() => {
+    builder = new BulkInsertBuilder();
+  });
+
+  describe('describeColumns', () => {
+    it('deve ler o tamanho das colunas da tabela no catálogo', async () => {
+      const executor = { raw: jest.fn().mockResolvedValue([{ FIELD_NAME: 'ID', FIELD_LENGTH: 4 }, { FIELD_NAME: 'NOME', FIELD_LENGTH: 240 }]) };
+
+      const result = await builder.describeColumns(executor as any, 'clientes');
+
+      expect(executor.raw).toHaveBeenCalledWith(expect.stringContaining('RDB$RELATION_FIELDS'), ['CLIENTES']);
+      expect(result).toEqual(new Map([['ID', 4], ['NOME', 240]]));
+    });
+
+    it('deve rejeitar tabelas inexistentes e nomes inválidos', async () => {
+      const executor = { raw: jest.fn().mockResolvedValue([]) };
+
+      await expect(builder.describeColumns(executor as any, 'NAO_EXISTE')).rejects.toThrow('Tabela não encontrada: NAO_EXISTE');
+      await expect(builder.describeColumns(executor as any, 'X; DROP TABLE Y')).rejects.toThrow('Identificador inválido');
+    });
+  });
+
+  describe('prepare e build', () => {
+    it('deve montar um EXECUTE BLOCK com um INSERT parametrizado por linha', () => {
+      const data = rows(2);
+      const plan = builder.prepare('CLIENTES', data, columns);
+
+      const { sql, bindings } = builder.build(plan, data, plan.chunks[0]);
+
+      expect(plan.chunks).toEqual([{ offset: 0, count: 2 }]);
+      expect(sql).toBe(
+        'EXECUTE BLOCK (P0 TYPE OF COLUMN CLIENTES.NOME = ?, P1 TYPE OF COLUMN CLIENTES.EMAIL = ?, ' +
+        'P2 TYPE OF COLUMN CLIENTES.NOME = ?, P3 TYPE OF COLUMN CLIENTES.EMAIL = ?)\n' +
+        'AS\n' +
+        'BEGIN\n' +
+        'INSERT INTO CLIENTES (NOME, EMAIL) VALUES (:P0, :P1);\n' +
+        'INSERT INTO CLIENTES (NOME, EMAIL) VALUES (:P2, :P3);\n' +
+        'END'
+      );
+      expect(bindings).toEqual(['Cliente 0', null, 'Cliente 1', null]);
+    });
+
+    it('deve respeitar o chunkSize', () => {
+      const plan = builder.prepare('CLIENTES', rows(100), columns, 40);
+
+      expect(plan.chunks).toEqual([{ offset: 0, count: 40 }, { offset: 40, count: 40 }, { offset: 80, count: 20 }]);
+    });
+
+    it('deve reduzir os blocos para caber no limite da mensagem de parâmetros', () => {
+      // (240 + 8) + (400 + 8) = 656 bytes por linha: 99 linhas cabem em 64 KB
+      const plan = builder.prepare('CLIENTES', rows(500), columns, 500);
+
+      expect(plan.chunks[0]).toEqual({ offset: 0, count: 99 });
+      expect(plan.chunks.reduce((total, chunk) => total + chunk.count, 0)).toBe(500);
+    });
+
+    it('deve manter ao menos uma linha por bloco', () => {
+      const wide = new Map([['TEXTO', 70000]]);
+
+      const plan = builder.prepare('NOTAS', [{ TEXTO: 'a' }, { TEXTO: 'b' }], wide);
+
+      expect(plan.chunks).toEqual([{ offset: 0, count: 1 }, { offset: 1, count: 1 }]);
+    });
+
+    it('deve converter chaves e tabela com a conversão de nomes de colunas', () => {
+      const data = [{ nomeCliente: 'Ana' }];
+      const plan = builder.prepare('itensVenda', data, new Map([['NOME_CLIENTE', 60]]), 500, createColumnNameMapper('camelCase'));
+
+      expect(builder.build(plan, data, plan.chunks[0]).sql).toContain('INSERT INTO ITENS_VENDA (NOME_CLIENTE) VALUES (:P0);');
+    });
+
+    it('deve rejeitar linhas com colunas diferentes, colunas desconhecidas e chunkSize inválido', () => {
+      expect(() => builder.prepare('CLIENTES', [{ NOME: 'a' }, { EMAIL: 'b' }], columns)).toThrow(
+        'A linha 1 do bulkInsert não tem as mesmas colunas da primeira linha'
+      );
+      expect(() => builder.prepare('CLIENTES', [{ CPF: '1' }], columns)).toThrow('Coluna desconhecida na tabela CLIENTES: CPF');
+      expect(() => builder.prepare('CLIENTES', [{ 'NOME, ID': 'a' }], columns)).toThrow('Identificador inválido');
+      expect(() => builder.prepare('CLIENTES', [{}], columns)).toThrow('bulkInsert exige linhas com ao menos uma coluna');
+      expect(() => builder.prepare('CLIENTES', rows(1), columns, 0)).toThrow('chunkSize deve ser um inteiro maior que zero');
+    });
+  });
+});
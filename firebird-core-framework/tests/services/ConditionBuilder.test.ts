@@ -0,0 +1,168 @@
+import { ConditionBuilder } from '../../src/services/ConditionBuilder';
+
+/**
+ * Query builder simulado que registra as chamadas recebidas.
+ * Grupos (callbacks) são registrados como a lista de chamadas internas.
+ */
+const createRecorder = () => {
+  const calls: any[] = [];
+  const methods = ['where', 'orWhere', 'whereNot', 'whereNull', 'whereNotNull', 'whereIn', 'whereNotIn', 'whereBetween', 'whereRaw'];
+  const builder: any = { calls };
+
+  for (const method of methods) {
+    builder[method] = jest.fn((...args: any[]) => {
+      if (typeof args[0] === 'function') {
+        const group = createRecorder();
+        args[0](group);
+        calls.push([method, group.calls]);
+      } else {
+        calls.push([method, ...args]);
+      }
+      return builder;
+    });
+  }
+
+  return builder;
+};
+
+describe('ConditionBuilder', () => {
+  let conditionBuilder: ConditionBuilder;
+  let queryBuilder: any;
+
+  beforeEach(() => {
+    conditionBuilder = new ConditionBuilder();
+    queryBuilder = createRecorder();
+  });
+
+  describe('apply', () => {
+    it('deve manter a igualdade para valores simples', () => {
+      conditionBuilder.apply(queryBuilder, { status: 'A', ativo: true });
+
+      expect(queryBuilder.calls).toEqual([
+        ['where', 'status', 'A'],
+        ['where', 'ativo', true]
+      ]);
+    });
+
+    it('deve gerar IS NULL para valores nulos', () => {
+      conditionBuilder.apply(queryBuilder, { cancelado_em: null, baixa: { $null: false }, obs: { $ne: null } });
+
+      expect(queryBuilder.calls).toEqual([
+        ['whereNull', 'cancelado_em'],
+        ['whereNotNull', 'baixa'],
+        ['whereNotNull', 'obs']
+      ]);
+    });
+
+    it('deve aplicar operadores de comparação com valores como parâmetros', () => {
+      conditionBuilder.apply(queryBuilder, { valor: { $gte: 100, $lt: 500 }, codigo: { $ne: 7 } });
+
+      expect(queryBuilder.calls).toEqual([
+        ['where', 'valor', '>=', 100],
+        ['where', 'valor', '<', 500],
+        ['where', 'codigo', '<>', 7]
+      ]);
+    });
+
+    it('deve aplicar listas, intervalos e padrões', () => {
+      conditionBuilder.apply(queryBuilder, {
+        status: { $in: ['A', 'P'] },
+        uf: { $nin: ['SP'] },
+        data: { $between: ['2023-01-01', '2023-12-31'] },
+        email: { $like: '%@exemplo.com' }
+      });
+
+      expect(queryBuilder.calls).toEqual([
+        ['whereIn', 'status', ['A', 'P']],
+        ['whereNotIn', 'uf', ['SP']],
+        ['whereBetween', 'data', ['2023-01-01', '2023-12-31']],
+        ['where', 'email', 'like', '%@exemplo.com']
+      ]);
+    });
+
+    it('deve aplicar CONTAINING e STARTING WITH do Firebird', () => {
+      conditionBuilder.apply(queryBuilder, { nome: { $containing: 'silva' }, cep: { $startingWith: '01' } });
+
+      expect(queryBuilder.calls).toEqual([
+        ['whereRaw', '?? containing ?', ['nome', 'silva']],
+        ['whereRaw', '?? starting with ?', ['cep', '01']]
+      ]);
+    });
+
+    it('deve agrupar $or, $and e $not', () => {
+      conditionBuilder.apply(queryBuilder, {
+        $or: [{ vip: true }, { valor: { $gt: 1000 } }],
+        $not: { uf: 'SP' },
+        codigo: { $not: { $in: [1, 2] } }
+      });
+
+      expect(queryBuilder.calls).toEqual([
+        ['where', [
+          ['orWhere', [['where', 'vip', true]]],
+          ['orWhere', [['where', 'valor', '>', 1000]]]
+        ]],
+        ['whereNot', [['where', 'uf', 'SP']]],
+        ['whereNot', [['whereIn', 'codigo', [1, 2]]]]
+      ]);
+    });
+
+    it('deve aceitar condições recebidas como JSON', () => {
+      const conditions = JSON.parse('{"valor":{"$gte":100},"$or":[{"nome":{"$containing":"silva"}},{"status":"A"}]}');
+
+      conditionBuilder.apply(queryBuilder, conditions);
+
+      expect(queryBuilder.calls).toHaveLength(2);
+    });
+
+    it('deve rejeitar nomes de campo inválidos', () => {
+      expect(() => conditionBuilder.apply(queryBuilder, { 'nome = nome OR 1': 1 })).toThrow(
+        'Identificador inválido: nome = nome OR 1'
+      );
+    });
+
+    it('deve rejeitar operadores desconhecidos', () => {
+      expect(() => conditionBuilder.apply(queryBuilder, { valor: { $regex: '.*' } } as any)).toThrow(
+        'Condição inválida: operador desconhecido $regex em valor'
+      );
+      expect(() => conditionBuilder.apply(queryBuilder, { $nor: [] } as any)).toThrow(
+        'Condição inválida: operador desconhecido $nor'
+      );
+    });
+
+    it('deve rejeitar chaves herdadas do protótipo como operadores', () => {
+      const conditions = JSON.parse('{ "valor": { "toString": 1 }, "nome": { "constructor": "x" } }');
+
+      expect(() => conditionBuilder.apply(queryBuilder, { valor: conditions.valor })).toThrow(
+        'Condição inválida: operador desconhecido toString em valor'
+      );
+      expect(() => conditionBuilder.apply(queryBuilder, { nome: conditions.nome })).toThrow(
+        'Condição inválida: operador desconhecido constructor em nome'
+      );
+    });
+
+    it('deve rejeitar valores que não podem ser parâmetros', () => {
+      expect(() => conditionBuilder.apply(queryBuilder, { valor: { $gt: { $raw: '1' } } } as any)).toThrow(
+        'Condição inválida: valor de $gt em valor deve ser texto, número, booleano, data ou null'
+      );
+      expect(() => conditionBuilder.apply(queryBuilder, { status: ['A'] } as any)).toThrow(
+        'Condição inválida: use $in para comparar status com uma lista'
+      );
+      expect(() => conditionBuilder.apply(queryBuilder, { data: { $between: [1] } } as any)).toThrow(
+        'Condição inválida: $between de data exige dois valores'
+      );
+    });
+  });
+
+  describe('hasPredicates', () => {
+    it('deve identificar condições vazias', () => {
+      expect(conditionBuilder.hasPredicates(undefined)).toBe(false);
+      expect(conditionBuilder.hasPredicates({})).toBe(false);
+      expect(conditionBuilder.hasPredicates({ $or: [], $and: [{}] })).toBe(false);
+    });
+
+    it('deve identificar condições com predicados', () => {
+      expect(conditionBuilder.hasPredicates({ id: 1 })).toBe(true);
+      expect(conditionBuilder.hasPredicates({ $or: [{}, { id: 1 }] })).toBe(true);
+    });
+  });
+});
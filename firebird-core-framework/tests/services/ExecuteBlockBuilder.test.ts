@@ -0,0 +1,127 @@
+import { ExecuteBlockBuilder } from '../../src/services/ExecuteBlockBuilder';
+
+describe('ExecuteBlockBuilder', () => {
+  let builder: ExecuteBlockBuilder;
+  const enabled = { enabled: true };
+
+  beforeEach(() => {
+    builder = new ExecuteBlockBuilder();
+  });
+
+  describe('build', () => {
+    it('deve montar o cabeçalho a partir das declarações tipadas', () => {
+      const { sql, bindings } = builder.build({
+        params: {
+          CLIENTE_ID: { type: 'integer', value: 7 },
+          NOME: { type: 'varchar( 60 ) character set utf8', value: 'Ana' }
+        },
+        returns: { TOTAL: 'numeric(15, 2)' },
+        body: `
+          BEGIN
+            FOR SELECT VALOR FROM VENDAS WHERE CLIENTE_ID = :CLIENTE_ID INTO :TOTAL DO
+              SUSPEND;
+          END;
+        `
+      }, enabled);
+
+      expect(sql).toBe(
+        'EXECUTE BLOCK (CLIENTE_ID INTEGER = ?, NOME VARCHAR(60) CHARACTER SET UTF8 = ?)\n' +
+        'RETURNS (TOTAL NUMERIC(15,2))\n' +
+        'AS\n' +
+        'BEGIN\n' +
+        '            FOR SELECT VALOR FROM VENDAS WHERE CLIENTE_ID = :CLIENTE_ID INTO :TOTAL DO\n' +
+        '              SUSPEND;\n' +
+        '          END'
+      );
+      expect(bindings).toEqual([7, 'Ana']);
+    });
+
+    it('deve aceitar bloco sem parâmetros, com declarações e comentários', () => {
+      const { sql, bindings } = builder.build({
+        body: 'DECLARE VARIABLE N INTEGER; /* contador */ BEGIN N = 1; END'
+      }, enabled);
+
+      expect(sql).toBe('EXECUTE BLOCK\nAS\nDECLARE VARIABLE N INTEGER;   BEGIN N = 1; END');
+      expect(bindings).toEqual([]);
+    });
+
+    it('deve aceitar NOT NULL, domínios e TYPE OF COLUMN', () => {
+      const { sql } = builder.build({
+        params: {
+          A: { type: 'bigint not null', value: 1 },
+          B: { type: 'type of column clientes.nome', value: 'x' },
+          C: { type: 'TYPE OF DM_VALOR', value: 2 }
+        },
+        body: 'BEGIN END'
+      }, enabled);
+
+      expect(sql).toContain('(A BIGINT NOT NULL = ?, B TYPE OF COLUMN CLIENTES.NOME = ?, C TYPE OF DM_VALOR = ?)');
+    });
+
+    it('deve recusar nomes, tipos e declarações inválidos', () => {
+      expect(() => builder.build({ params: { 'A; DROP': { type: 'INTEGER', value: 1 } }, body: 'BEGIN END' }, enabled))
+        .toThrow('Bloco inválido: nome de parâmetro inválido: A; DROP');
+      expect(() => builder.build({ params: { A: { type: 'INTEGER = 1) AS BEGIN END --', value: 1 } }, body: 'BEGIN END' }, enabled))
+        .toThrow('Bloco inválido: tipo não suportado para o parâmetro A');
+      expect(() => builder.build({ params: { A: 1 as any }, body: 'BEGIN END' }, enabled))
+        .toThrow('Bloco inválido: o parâmetro A deve ser informado como { type, value }');
+      expect(() => builder.build({ params: { a: { type: 'INTEGER', value: 1 } }, returns: { A: 'INTEGER' }, body: 'BEGIN END' }, enabled))
+        .toThrow('Bloco inválido: parâmetro declarado mais de uma vez: A');
+    });
+  });
+
+  describe('política de confiança', () => {
+    it('deve exigir que executeBlock esteja habilitado', () => {
+      expect(() => builder.build({ body: 'BEGIN END' })).toThrow(
+        'executeBlock está desabilitado; habilite-o em FirebirdConfig.executeBlock'
+      );
+      expect(() => builder.build({ body: 'BEGIN END' }, { enabled: false })).toThrow('executeBlock está desabilitado');
+    });
+
+    it('deve aceitar escrita no corpo por padrão e recusá-la com allowWrites false', () => {
+      const body = 'BEGIN UPDATE CLIENTES SET ATIVO = 0 WHERE ID = :ID; END';
+      const params = { ID: { type: 'INTEGER', value: 1 } };
+
+      expect(() => builder.build({ params, body }, enabled)).not.toThrow();
+      expect(() => builder.build({ params, body }, { enabled: true, allowWrites: false })).toThrow(
+        'Bloco inválido: UPDATE não permitido pela política (allowWrites) (linha 1, coluna 7 do corpo)'
+      );
+      expect(() => builder.build({ body: 'BEGIN EXECUTE PROCEDURE RECALCULAR; END' }, { enabled: true, allowWrites: false }))
+        .toThrow('EXECUTE não permitido pela política (allowWrites)');
+    });
+
+    it('deve recusar EXECUTE STATEMENT salvo com allowDynamicSql', () => {
+      const body = "BEGIN EXECUTE STATEMENT 'DELETE FROM LOGS'; END";
+
+      expect(() => builder.build({ body }, enabled)).toThrow(
+        'Bloco inválido: EXECUTE STATEMENT não permitido pela política (allowDynamicSql)'
+      );
+      expect(() => builder.build({ body }, { enabled: true, allowDynamicSql: true })).not.toThrow();
+    });
+
+    it('deve recusar DDL mesmo com a política mais permissiva', () => {
+      expect(() => builder.build({ body: 'BEGIN DROP TABLE CLIENTES; END' }, { enabled: true, allowDynamicSql: true }))
+        .toThrow('Bloco inválido: Keyword não permitido: DROP');
+    });
+
+    it('deve recusar marcadores ? no corpo, inclusive em literais', () => {
+      expect(() => builder.build({ body: 'BEGIN DELETE FROM X WHERE ID = ?; END' }, enabled)).toThrow(
+        'use os parâmetros declarados em params (:NOME) em vez de ?'
+      );
+      expect(() => builder.build({ body: "BEGIN INSERT INTO LOGS VALUES ('ok?'); END" }, enabled)).toThrow(
+        '"?" não é aceito em literais; informe o texto em params'
+      );
+    });
+
+    it('deve exigir corpo iniciado por DECLARE ou BEGIN e terminado em END', () => {
+      expect(() => builder.build({ body: 'SELECT 1 FROM RDB$DATABASE' }, enabled)).toThrow(
+        'o corpo deve começar por DECLARE ou BEGIN'
+      );
+      expect(() => builder.build({ body: 'BEGIN END; SELECT 1 FROM RDB$DATABASE' }, enabled)).toThrow(
+        'o corpo deve terminar com o END do bloco principal'
+      );
+      expect(() => builder.build({ body: "BEGIN 'aberto END" }, enabled)).toThrow('Bloco inválido: corpo malformado');
+      expect(() => builder.build({ body: '  ' }, enabled)).toThrow('Bloco inválido: body é obrigatório');
+    });
+  });
+});
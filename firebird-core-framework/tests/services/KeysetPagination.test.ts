@@ -0,0 +1,108 @@
+import knex, { Knex } from 'knex';
+import { FirebirdClient } from '../../src/core/FirebirdClient';
+import { KeysetPagination } from '../../src/services/KeysetPagination';
+import { OrderByOption } from '../../src/services/SelectBuilder';
+
+describe('KeysetPagination', () => {
+  // Instância sem conexão: usada apenas para compilar o SQL
+  const db: Knex = knex({ client: FirebirdClient as any });
+  const orderBy: OrderByOption[] = [{ field: 'DATA', direction: 'desc' }, { field: 'ID' }];
+  let pagination: KeysetPagination;
+
+  beforeEach(() => {
+    pagination = new KeysetPagination();
+  });
+
+  afterAll(async () => {
+    await db.destroy();
+  });
+
+  describe('prepare', () => {
+    it('deve aceitar a primeira página sem cursor', () => {
+      expect(pagination.prepare({ orderBy: { field: 'ID' }, limit: 10 })).toEqual({
+        orderBy: [{ field: 'ID' }],
+        limit: 10,
+        after: null
+      });
+    });
+
+    it('deve exigir ordenação e tamanho de página', () => {
+      expect(() => pagination.prepare({ limit: 10 })).toThrow('Paginação por cursor exige orderBy com ao menos um campo');
+      expect(() => pagination.prepare({ orderBy, limit: 0 })).toThrow('Paginação por cursor exige limit inteiro maior que zero');
+      expect(() => pagination.prepare({ orderBy, limit: 10, offset: 20 })).toThrow('Paginação por cursor não aceita offset');
+      expect(() => pagination.prepare({ orderBy: { field: 'ID', nulls: 'last' }, limit: 10 })).toThrow(
+        'Paginação por cursor não aceita nulls em orderBy'
+      );
+    });
+
+    it('deve rejeitar cursores inválidos ou de outra ordenação', () => {
+      const cursor = pagination.encodeCursor(orderBy, { DATA: new Date(), ID: 1 });
+
+      expect(() => pagination.prepare({ orderBy, limit: 10, after: 'nao-e-um-cursor' })).toThrow('Cursor de paginação inválido');
+      expect(() => pagination.prepare({ orderBy: { field: 'ID' }, limit: 10, after: cursor })).toThrow(
+        'Cursor de paginação não corresponde à ordenação informada'
+      );
+    });
+  });
+
+  describe('cursor', () => {
+    it('deve preservar datas e inteiros grandes', () => {
+      const data = new Date('2023-05-01T12:30:00.000Z');
+      const cursor = pagination.encodeCursor(orderBy, { DATA: data, ID: BigInt('9007199254740993') });
+
+      expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(pagination.decodeCursor(cursor, orderBy)).toEqual([data, BigInt('9007199254740993')]);
+    });
+
+    it('deve localizar campos devolvidos em maiúsculas e identificadores entre aspas', () => {
+      const criteria: OrderByOption[] = [{ field: 'data' }, { field: '"Codigo"' }];
+      const cursor = pagination.encodeCursor(criteria, { DATA: '2023-01-01', Codigo: 7 });
+
+      expect(pagination.decodeCursor(cursor, criteria)).toEqual(['2023-01-01', 7]);
+    });
+
+    it('deve rejeitar campos ausentes ou nulos', () => {
+      expect(() => pagination.encodeCursor(orderBy, { ID: 1 })).toThrow('Campo de ordenação DATA não está entre as colunas retornadas');
+      expect(() => pagination.encodeCursor(orderBy, { DATA: null, ID: 1 })).toThrow(
+        'Valor nulo em DATA não pode ser usado como chave de paginação'
+      );
+    });
+  });
+
+  describe('apply', () => {
+    it('não deve filtrar a primeira página', () => {
+      const query = pagination.prepare({ orderBy, limit: 10 });
+
+      expect(pagination.apply(db('PEDIDOS'), query).toSQL().toNative().sql).toBe('select   * from PEDIDOS');
+    });
+
+    it('deve filtrar a partir da última linha respeitando a direção de cada campo', () => {
+      const data = new Date('2023-05-01T00:00:00.000Z');
+      const after = pagination.encodeCursor(orderBy, { DATA: data, ID: 42 });
+      const query = pagination.prepare({ orderBy, limit: 10, after });
+
+      const { sql, bindings } = pagination.apply(db('PEDIDOS').where('STATUS', 'A'), query).toSQL().toNative();
+
+      expect(sql).toBe('select   * from PEDIDOS where STATUS = ? and ((DATA < ?) or (DATA = ? and ID > ?))');
+      expect(bindings).toEqual(['A', data, data, 42]);
+    });
+  });
+
+  describe('toPage', () => {
+    it('deve usar a linha excedente apenas para indicar a próxima página', () => {
+      const query = pagination.prepare({ orderBy: { field: 'ID' }, limit: 2 });
+
+      const page = pagination.toPage([{ ID: 1 }, { ID: 2 }, { ID: 3 }], query);
+
+      expect(page.rows).toEqual([{ ID: 1 }, { ID: 2 }]);
+      expect(page.hasMore).toBe(true);
+      expect(pagination.decodeCursor(page.nextCursor as string, query.orderBy)).toEqual([2]);
+    });
+
+    it('deve encerrar a paginação na última página', () => {
+      const query = pagination.prepare({ orderBy: { field: 'ID' }, limit: 2 });
+
+      expect(pagination.toPage([{ ID: 5 }], query)).toEqual({ rows: [{ ID: 5 }], nextCursor: null, hasMore: false });
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import knexLib from 'knex';
+import { FirebirdClient } from '../../src/core/FirebirdClient';
+import { QueryValidationError } from '../../src/errors/FirebirdErrors';
+import { NamedParameterBinder } from '../../src/services/NamedParameters';
+
+describe('NamedParameterBinder', () => {
+  let binder: NamedParameterBinder;
+
+  beforeEach(() => {
+    binder = new NamedParameterBinder();
+  });
+
+  it('deve converter os parâmetros na ordem de ocorrência, repetindo os valores de nomes repetidos', () => {
+    const statement = binder.bind(
+      'SELECT * FROM PEDIDOS WHERE CLIENTE_ID = :clienteId AND DATA >= :inicio OR VENDEDOR_ID = :clienteId',
+      { inicio: '2024-01-01', clienteId: 7 }
+    );
+
+    expect(statement).toEqual({
+      sql: 'SELECT * FROM PEDIDOS WHERE CLIENTE_ID = ? AND DATA >= ? OR VENDEDOR_ID = ?',
+      bindings: [7, '2024-01-01', 7]
+    });
+  });
+
+  it('deve ignorar dois-pontos em literais, identificadores entre aspas e comentários', () => {
+    const sql = [
+      "SELECT ':naoParametro' AS A, \"Col:x\" AS B, q'{:tambem}' AS C -- :comentario",
+      '/* :bloco */ FROM CLIENTES WHERE ID = :id'
+    ].join('\n');
+
+    expect(binder.bind(sql, { id: 1 })).toEqual({
+      sql: sql.replace(':id', '?'),
+      bindings: [1]
+    });
+  });
+
+  it('deve preservar interrogações de literais e comentários no SQL enviado ao driver', () => {
+    const knex = knexLib({ client: FirebirdClient as any });
+    const statement = binder.bind("SELECT 'quem?' AS PERGUNTA FROM CLIENTES /* ok? */ WHERE ID = :id", { id: 5 });
+
+    expect(knex.raw(statement.sql, statement.bindings).toSQL().toNative()).toEqual({
+      sql: "SELECT 'quem?' AS PERGUNTA FROM CLIENTES /* ok? */ WHERE ID = ?",
+      bindings: [5]
+    });
+  });
+
+  it('deve recusar parâmetros sem valor, valores não usados e parâmetros posicionais', () => {
+    expect(() => binder.bind('SELECT * FROM CLIENTES\nWHERE ID = :id', { id: undefined })).toThrow(
+      new QueryValidationError('Parâmetro sem valor: :id', 2, 12)
+    );
+    expect(() => binder.bind('SELECT * FROM CLIENTES WHERE ID = :id', { id: 1, nome: 'Ana', ativo: true })).toThrow(
+      'Consulta inválida: Parâmetros não usados na consulta: nome, ativo'
+    );
+    expect(() => binder.bind('SELECT * FROM CLIENTES WHERE ID = :id AND NOME = ?', { id: 1 })).toThrow(
+      'Consulta inválida: Parâmetros posicionais (?) não podem ser combinados com parâmetros nomeados (linha 1, coluna 50)'
+    );
+  });
+
+  it('deve aceitar valores nulos e consultas sem parâmetros', () => {
+    expect(binder.bind('UPDATE CLIENTES SET EMAIL = :email WHERE ID = :id', { email: null, id: 3 }).bindings).toEqual([null, 3]);
+    expect(binder.bind('SELECT 1 FROM RDB$DATABASE', {})).toEqual({ sql: 'SELECT 1 FROM RDB$DATABASE', bindings: [] });
+  });
+});
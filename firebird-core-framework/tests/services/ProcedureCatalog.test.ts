@@ -0,0 +1,137 @@
+import { createColumnNameMapper } from '../../src/core/ColumnNames';
+import { ProcedureCatalog, ProcedureMetadata } from '../../src/services/ProcedureCatalog';
+
+describe('ProcedureCatalog', () => {
+  let catalog: ProcedureCatalog;
+  let executor: any;
+  let serverVersion: any;
+
+  /** Linha de RDB$PROCEDURE_PARAMETERS no formato da consulta do catálogo */
+  const parameter = (name: string | null, type: number | null, hasDefault = false, procedureType = 2) => ({
+    PROCEDURE_TYPE: procedureType,
+    PARAMETER_NAME: name,
+    PARAMETER_TYPE: type,
+    HAS_DEFAULT: hasDefault ? 1 : 0
+  });
+
+  beforeEach(() => {
+    serverVersion = { get: jest.fn().mockResolvedValue({ major: 4, minor: 0, text: '4.0.2' }) };
+    catalog = new ProcedureCatalog(serverVersion);
+    executor = {
+      raw: jest.fn().mockResolvedValue([
+        parameter('CLIENTE_ID', 0),
+        parameter('DESCONTO', 0, true),
+        parameter('TOTAL', 1)
+      ])
+    };
+  });
+
+  describe('describe', () => {
+    it('deve ler os parâmetros de entrada e saída do catálogo', async () => {
+      const metadata = await catalog.describe(executor, 'calcular_total');
+
+      expect(executor.raw).toHaveBeenCalledWith(expect.stringContaining('RDB$PROCEDURE_PARAMETERS'), ['CALCULAR_TOTAL']);
+      expect(executor.raw.mock.calls[0][0]).toContain('p.RDB$PACKAGE_NAME IS NULL');
+      expect(metadata).toEqual({
+        name: 'CALCULAR_TOTAL',
+        selectable: false,
+        inputs: [{ name: 'CLIENTE_ID', hasDefault: false }, { name: 'DESCONTO', hasDefault: true }],
+        outputs: ['TOTAL']
+      });
+    });
+
+    it('deve consultar o catálogo sem pacotes nem expressões booleanas antes do Firebird 3.0', async () => {
+      serverVersion.get.mockResolvedValue({ major: 2, minor: 5, text: '2.5.9' });
+
+      const metadata = await catalog.describe(executor, 'CALCULAR_TOTAL');
+
+      const sql: string = executor.raw.mock.calls[0][0];
+      expect(sql).not.toContain('RDB$PACKAGE_NAME');
+      expect(sql).toContain('IIF(pp.RDB$DEFAULT_SOURCE IS NULL, 0, 1)');
+      expect(serverVersion.get).toHaveBeenCalledWith(executor, undefined);
+      expect(metadata.inputs[1]).toEqual({ name: 'DESCONTO', hasDefault: true });
+    });
+
+    it('deve consultar o catálogo uma única vez por procedure', async () => {
+      await catalog.describe(executor, 'CALCULAR_TOTAL');
+      await catalog.describe(executor, 'calcular_total');
+
+      expect(executor.raw).toHaveBeenCalledTimes(1);
+
+      catalog.clear('CALCULAR_TOTAL');
+      await catalog.describe(executor, 'CALCULAR_TOTAL');
+
+      expect(executor.raw).toHaveBeenCalledTimes(2);
+    });
+
+    it('deve aceitar procedures sem parâmetros', async () => {
+      executor.raw.mockResolvedValue([parameter(null, null, false, 1)]);
+
+      expect(await catalog.describe(executor, 'LISTAR')).toEqual({ name: 'LISTAR', selectable: true, inputs: [], outputs: [] });
+    });
+
+    it('deve usar o nome exato de identificadores entre aspas', async () => {
+      await catalog.describe(executor, '"Calcular"');
+
+      expect(executor.raw).toHaveBeenCalledWith(expect.any(String), ['Calcular']);
+    });
+
+    it('deve ler o catálogo com a conversão de nomes de colunas', async () => {
+      const mapper = createColumnNameMapper('camelCase');
+      executor.raw.mockResolvedValue([{ procedureType: 2, parameterName: 'CLIENTE_ID', parameterType: 0, hasDefault: false }]);
+
+      const metadata = await catalog.describe(executor, 'calcularTotal', mapper);
+
+      expect(executor.raw).toHaveBeenCalledWith(expect.any(String), ['CALCULAR_TOTAL']);
+      expect(metadata.inputs).toEqual([{ name: 'CLIENTE_ID', hasDefault: false }]);
+    });
+
+    it('deve rejeitar procedures inexistentes', async () => {
+      executor.raw.mockResolvedValue([]);
+
+      await expect(catalog.describe(executor, 'NAO_EXISTE')).rejects.toThrow('Procedure não encontrada: NAO_EXISTE');
+    });
+  });
+
+  describe('bindParameters', () => {
+    const metadata: ProcedureMetadata = {
+      name: 'CALCULAR_TOTAL',
+      selectable: false,
+      inputs: [
+        { name: 'CLIENTE_ID', hasDefault: false },
+        { name: 'DATA_BASE', hasDefault: true },
+        { name: 'DESCONTO', hasDefault: true }
+      ],
+      outputs: ['TOTAL']
+    };
+
+    it('deve ordenar os valores conforme a declaração, independente da ordem das chaves', () => {
+      expect(catalog.bindParameters(metadata, { desconto: 5, cliente_id: 7, data_base: null })).toEqual([7, null, 5]);
+    });
+
+    it('deve omitir parâmetros finais com valor padrão', () => {
+      expect(catalog.bindParameters(metadata, { CLIENTE_ID: 7 })).toEqual([7]);
+    });
+
+    it('deve rejeitar parâmetros desconhecidos e obrigatórios ausentes', () => {
+      expect(() => catalog.bindParameters(metadata, { CLIENTE_ID: 7, VALOR: 1 })).toThrow(
+        'Parâmetro desconhecido para a procedure CALCULAR_TOTAL: VALOR'
+      );
+      expect(() => catalog.bindParameters(metadata, { DESCONTO: 5 })).toThrow(
+        'Parâmetro obrigatório ausente para a procedure CALCULAR_TOTAL: CLIENTE_ID'
+      );
+    });
+
+    it('deve exigir parâmetros com valor padrão seguidos de parâmetros informados', () => {
+      expect(() => catalog.bindParameters(metadata, { CLIENTE_ID: 7, DESCONTO: 5 })).toThrow(
+        'Parâmetro DATA_BASE da procedure CALCULAR_TOTAL deve ser informado porque parâmetros seguintes foram informados'
+      );
+    });
+
+    it('deve aplicar a conversão de nomes de colunas aos nomes dos parâmetros', () => {
+      const mapper = createColumnNameMapper('camelCase');
+
+      expect(catalog.bindParameters(metadata, { clienteId: 7 }, mapper)).toEqual([7]);
+    });
+  });
+});
@@ -1,6 +1,17 @@
 import { QueryService } from '../../src/services/QueryService';
 import { ConnectionManager } from '../../src/core/ConnectionManager';
 import { PluginManager } from '../../src/core/PluginManager';
+import { ReplicaRouter } from '../../src/core/ReplicaRouter';
+import { ResultStream } from '../../src/services/ResultStream';
+import {
+  ConnectionLostError,
+  ConnectionUnavailableError,
+  LockConflictError,
+  QueryTimeoutError,
+  QueryValidationError,
+  TransactionRetryError,
+  UniqueConstraintError
+} from '../../src/errors/FirebirdErrors';
 
 // Mock do ConnectionManager
 jest.mock('../../src/core/ConnectionManager');
@@ -85,6 +96,17 @@ describe('QueryService', () => {
       await expect(queryService.executeQuery('SELECT 1')).rejects.toThrow('Conexão com o banco de dados não está ativa');
     });
 
+    it('deve falhar sem consultar o banco enquanto a conexão estiver perdida', async () => {
+      const unavailable = new ConnectionUnavailableError(Date.now() + 1000, new ConnectionLostError('connection reset'));
+      mockConnectionManager.isConnected.mockReturnValue(false);
+      mockConnectionManager.getUnavailableError.mockReturnValue(unavailable);
+
+      await expect(queryService.executeQuery('SELECT 1 FROM RDB$DATABASE')).rejects.toBe(unavailable);
+      await expect(queryService.transaction(async () => undefined)).rejects.toBeInstanceOf(ConnectionLostError);
+      expect(mockConnection.raw).not.toHaveBeenCalled();
+      expect(mockConnection.transaction).not.toHaveBeenCalled();
+    });
+
     it('deve chamar onError quando ocorre erro na execução', async () => {
       const sql = 'SELECT * FROM invalid_table';
       const error = new Error('Table not found');
@@ -94,6 +116,47 @@ describe('QueryService', () => {
       await expect(queryService.executeQuery(sql)).rejects.toThrow(error);
       expect(mockPluginManager.onError).toHaveBeenCalledWith(error);
     });
+
+    it('deve converter erros do banco pela mensagem do driver antes de lançar e de chamar onError', async () => {
+      const cause = new Error('violation of PRIMARY or UNIQUE KEY constraint "PK_USERS" on table "USERS"\n-Problematic key value is ("ID" = 1)');
+      mockConnection.raw.mockRejectedValue(cause);
+
+      const error = await queryService.executeQuery('SELECT * FROM users').catch((failure) => failure);
+
+      expect(error).toBeInstanceOf(UniqueConstraintError);
+      expect(error).toMatchObject({ constraint: 'PK_USERS', table: 'USERS', cause });
+      expect(mockPluginManager.onError).toHaveBeenCalledWith(error);
+    });
+
+    it('deve lançar QueryValidationError para consultas recusadas', async () => {
+      const error = await queryService.executeQuery('DROP TABLE users').catch((failure) => failure);
+
+      expect(error).toBeInstanceOf(QueryValidationError);
+      expect(error).toMatchObject({ reason: 'Keyword não permitido: DROP', line: 1, column: 1 });
+      expect(mockPluginManager.onError).toHaveBeenCalledWith(error);
+    });
+
+    it('deve converter parâmetros nomeados em posicionais', async () => {
+      const sql = 'SELECT * FROM PEDIDOS WHERE CLIENTE_ID = :clienteId AND (VENDEDOR_ID = :clienteId OR STATUS = :status)';
+      mockConnection.raw.mockResolvedValue([]);
+
+      await queryService.executeQuery(sql, { clienteId: 7, status: 'A' });
+
+      expect(mockPluginManager.beforeQuery).toHaveBeenCalledWith({ sql, bindings: { clienteId: 7, status: 'A' }, options: undefined });
+      expect(mockConnection.raw).toHaveBeenCalledWith(
+        'SELECT * FROM PEDIDOS WHERE CLIENTE_ID = ? AND (VENDEDOR_ID = ? OR STATUS = ?)',
+        [7, 7, 'A']
+      );
+    });
+
+    it('deve recusar parâmetros nomeados sem valor antes de executar', async () => {
+      const error = await queryService.executeQuery('SELECT * FROM PEDIDOS WHERE ID = :id', {}).catch((failure) => failure);
+
+      expect(error).toBeInstanceOf(QueryValidationError);
+      expect(error.message).toBe('Consulta inválida: Parâmetro sem valor: :id (linha 1, coluna 34)');
+      expect(mockConnection.raw).not.toHaveBeenCalled();
+      expect(mockPluginManager.onError).toHaveBeenCalledWith(error);
+    });
   });
 
   describe('executeTransaction', () => {
@@ -129,6 +192,242 @@ describe('QueryService', () => {
 
       await expect(queryService.executeTransaction(queries)).rejects.toThrow('Consulta inválida: Keyword não permitido: DROP');
     });
+
+    it('deve incluir linha e coluna na mensagem de erro da transação', async () => {
+      await expect(queryService.executeTransaction([{ sql: 'INSERT INTO T (A) VALUES (1); DROP TABLE T' }]))
+        .rejects.toThrow('Consulta inválida: Padrão de injeção SQL detectado (linha 1, coluna 29)');
+    });
+
+    it('deve converter conflitos de atualização lançados pela transação', async () => {
+      mockConnection.transaction.mockRejectedValue(new Error('deadlock\n-update conflicts with concurrent update'));
+
+      await expect(queryService.executeTransaction([{ sql: 'SELECT * FROM users' }])).rejects.toBeInstanceOf(LockConflictError);
+    });
+
+    it('deve aceitar parâmetros nomeados em cada instrução', async () => {
+      const mockTrx = { raw: jest.fn().mockResolvedValue([]) };
+      mockConnection.transaction.mockImplementation(async (callback: any) => await callback(mockTrx));
+
+      await queryService.executeTransaction([
+        { sql: 'UPDATE PEDIDOS SET STATUS = :status WHERE ID = :id', bindings: { status: 'F', id: 10 } },
+        { sql: 'DELETE FROM ITENS WHERE PEDIDO_ID = ?', bindings: [10] }
+      ]);
+
+      expect(mockTrx.raw).toHaveBeenNthCalledWith(1, 'UPDATE PEDIDOS SET STATUS = ? WHERE ID = ?', ['F', 10]);
+      expect(mockTrx.raw).toHaveBeenNthCalledWith(2, 'DELETE FROM ITENS WHERE PEDIDO_ID = ?', [10]);
+    });
+  });
+
+  describe('transaction', () => {
+    let trxMock: any;
+
+    beforeEach(() => {
+      trxMock = Object.assign(jest.fn(), { raw: jest.fn() });
+      mockConnection.transaction.mockImplementation(async (callback: any) => await callback(trxMock));
+    });
+
+    it('deve fornecer um QueryService vinculado à transação', async () => {
+      trxMock.raw
+        .mockResolvedValueOnce([{ ID: 42 }])
+        .mockResolvedValueOnce([]);
+
+      const result = await queryService.transaction(async (trx) => {
+        const [pedido] = await trx.executeQuery('INSERT INTO PEDIDOS (CLIENTE) VALUES (?) RETURNING ID', [7]);
+        await trx.executeQuery('INSERT INTO ITENS (PEDIDO_ID, PRODUTO) VALUES (?, ?)', [pedido.ID, 3]);
+        return pedido.ID;
+      });
+
+      expect(result).toBe(42);
+      expect(mockConnection.transaction).toHaveBeenCalledTimes(1);
+      expect(mockConnection.raw).not.toHaveBeenCalled();
+      expect(trxMock.raw).toHaveBeenNthCalledWith(2, 'INSERT INTO ITENS (PEDIDO_ID, PRODUTO) VALUES (?, ?)', [42, 3]);
+    });
+
+    it('deve disparar os hooks dos plugins para cada instrução', async () => {
+      trxMock.raw.mockResolvedValue([]);
+
+      await queryService.transaction(async (trx) => {
+        await trx.executeQuery('SELECT * FROM PEDIDOS');
+        await trx.executeQuery('DELETE FROM PEDIDOS WHERE ID = ?', [1]);
+      });
+
+      expect(mockPluginManager.beforeQuery).toHaveBeenCalledTimes(2);
+      expect(mockPluginManager.afterQuery).toHaveBeenCalledTimes(2);
+    });
+
+    it('deve executar executeSelect com o query builder da transação', async () => {
+      const mockQueryBuilder = { where: jest.fn().mockReturnThis(), select: jest.fn().mockResolvedValue([{ ID: 1 }]) };
+      trxMock.mockReturnValueOnce(mockQueryBuilder);
+
+      const rows = await queryService.transaction(async (trx) => trx.executeSelect('PEDIDOS', { ID: 1 }));
+
+      expect(trxMock).toHaveBeenCalledWith('PEDIDOS');
+      expect(mockConnection).not.toHaveBeenCalled();
+      expect(rows).toEqual([{ ID: 1 }]);
+    });
+
+    it('deve usar SAVEPOINT em transações aninhadas', async () => {
+      trxMock.raw.mockResolvedValue([]);
+
+      await queryService.transaction(async (trx) => {
+        expect(trx.isInTransaction()).toBe(true);
+        await trx.transaction(async (inner) => {
+          await inner.executeQuery('UPDATE PEDIDOS SET STATUS = ? WHERE ID = ?', ['PAGO', 1]);
+        });
+      });
+
+      expect(mockConnection.transaction).toHaveBeenCalledTimes(1);
+      expect(trxMock.raw.mock.calls.map((call: any[]) => call[0])).toEqual([
+        'SAVEPOINT SP_1',
+        'UPDATE PEDIDOS SET STATUS = ? WHERE ID = ?',
+        'RELEASE SAVEPOINT SP_1 ONLY'
+      ]);
+    });
+
+    it('deve desfazer apenas o savepoint quando a transação aninhada falhar', async () => {
+      const failure = new Error('violação de chave');
+      trxMock.raw.mockImplementation(async (sql: string) => {
+        if (sql.startsWith('INSERT')) throw failure;
+        return [];
+      });
+
+      const result = await queryService.transaction(async (trx) => {
+        await expect(trx.transaction(async (inner) => {
+          await inner.executeQuery('INSERT INTO LOG (MSG) VALUES (?)', ['x']);
+        })).rejects.toThrow(failure);
+        return 'ok';
+      });
+
+      expect(result).toBe('ok');
+      expect(trxMock.raw).toHaveBeenCalledWith('ROLLBACK TO SAVEPOINT SP_1');
+      expect(trxMock.raw).not.toHaveBeenCalledWith('RELEASE SAVEPOINT SP_1 ONLY');
+    });
+
+    it('deve propagar o erro do callback para desfazer a transação', async () => {
+      const failure = new Error('falha');
+
+      await expect(queryService.transaction(async () => {
+        throw failure;
+      })).rejects.toThrow(failure);
+    });
+
+    it('deve iniciar a transação com os parâmetros informados', async () => {
+      await queryService.transaction(async () => undefined, { isolationLevel: 'SNAPSHOT', readOnly: true });
+
+      expect(mockConnection.transaction).toHaveBeenCalledWith(expect.any(Function), {
+        userParams: { firebirdSetTransaction: 'SET TRANSACTION READ ONLY WAIT ISOLATION LEVEL SNAPSHOT' }
+      });
+    });
+
+    it('deve usar os parâmetros padrão da configuração', async () => {
+      mockConnectionManager.getConfig.mockReturnValue({ transaction: { wait: false } } as any);
+
+      await queryService.executeTransaction([{ sql: 'SELECT * FROM PEDIDOS' }], {
+        isolationLevel: 'READ_COMMITTED',
+        readCommittedMode: 'READ_CONSISTENCY'
+      });
+
+      expect(mockConnection.transaction).toHaveBeenCalledWith(expect.any(Function), {
+        userParams: {
+          firebirdSetTransaction: 'SET TRANSACTION READ WRITE NO WAIT ISOLATION LEVEL READ COMMITTED READ CONSISTENCY'
+        }
+      });
+    });
+
+    it('não deve definir parâmetros quando nenhum for informado', async () => {
+      await queryService.transaction(async () => undefined);
+
+      expect(mockConnection.transaction).toHaveBeenCalledWith(expect.any(Function), undefined);
+    });
+
+    it('deve rejeitar parâmetros inválidos sem iniciar a transação', async () => {
+      await expect(queryService.transaction(async () => undefined, { wait: false, lockTimeout: 10 }))
+        .rejects.toThrow('Parâmetros de transação inválidos: lockTimeout não pode ser usado com NO WAIT');
+      expect(mockConnection.transaction).not.toHaveBeenCalled();
+    });
+
+    it('deve rejeitar parâmetros em transações aninhadas', async () => {
+      await expect(queryService.transaction(async (trx) => {
+        await trx.transaction(async () => undefined, { readOnly: true });
+      })).rejects.toThrow('Parâmetros de transação não podem ser alterados em transações aninhadas');
+    });
+
+    it('não deve estar em transação fora do callback', () => {
+      expect(queryService.isInTransaction()).toBe(false);
+    });
+  });
+
+  describe('novas tentativas', () => {
+    const lockConflict = () => new Error('lock conflict on no wait transaction\n-deadlock\n-update conflicts with concurrent update');
+    const retry = { maxAttempts: 3, initialDelay: 0 };
+
+    it('deve executar a unidade de trabalho de novo até ela ser confirmada', async () => {
+      const work = jest.fn().mockResolvedValue('ok');
+      mockConnection.transaction
+        .mockRejectedValueOnce(lockConflict())
+        .mockImplementation(async (callback: any) => await callback({ raw: mockConnection.raw }));
+
+      const result = await queryService.transaction(work, { retry });
+
+      expect(result).toBe('ok');
+      expect(mockConnection.transaction).toHaveBeenCalledTimes(2);
+      expect(mockPluginManager.onRetry).toHaveBeenCalledTimes(1);
+      expect(mockPluginManager.onRetry).toHaveBeenCalledWith(expect.objectContaining({
+        attempt: 1,
+        maxAttempts: 3,
+        error: expect.any(LockConflictError)
+      }));
+    });
+
+    it('deve tentar de novo quando a unidade de trabalho lançar o erro do driver sem conversão', async () => {
+      const work = jest.fn().mockRejectedValueOnce(lockConflict()).mockResolvedValue('ok');
+      mockConnection.transaction.mockImplementation(async (callback: any) => await callback({ raw: mockConnection.raw }));
+
+      await expect(queryService.transaction(work, { retry })).resolves.toBe('ok');
+      expect(work).toHaveBeenCalledTimes(2);
+      expect(mockPluginManager.onRetry).toHaveBeenCalledWith(expect.objectContaining({ error: expect.any(LockConflictError) }));
+    });
+
+    it('deve lançar TransactionRetryError com o histórico ao esgotar as tentativas', async () => {
+      mockConnection.raw.mockRejectedValue(lockConflict());
+      mockConnection.transaction.mockImplementation(async (callback: any) => await callback({ raw: mockConnection.raw }));
+
+      const error = await queryService.executeTransaction(
+        [{ sql: 'UPDATE estoque SET quantidade = quantidade - 1 WHERE produto_id = ?', bindings: [1] }],
+        { retry }
+      ).catch((failure) => failure);
+
+      expect(error).toBeInstanceOf(TransactionRetryError);
+      expect(error.attempts).toHaveLength(3);
+      expect(error.attempts.map((attempt: any) => attempt.attempt)).toEqual([1, 2, 3]);
+      expect(error.cause).toBeInstanceOf(LockConflictError);
+      expect(mockConnection.raw).toHaveBeenCalledTimes(3);
+      expect(mockPluginManager.onRetry).toHaveBeenCalledTimes(2);
+    });
+
+    it('deve usar a política da configuração e lançar erros não retentáveis sem nova tentativa', async () => {
+      mockConnectionManager.getConfig.mockReturnValue({ transaction: { retry } } as any);
+      const violation = new Error('violation of FOREIGN KEY constraint "FK_ITENS" on table "ITENS"');
+      mockConnection.transaction.mockRejectedValue(violation);
+
+      await expect(queryService.transaction(jest.fn())).rejects.toMatchObject({ name: 'ForeignKeyError', cause: violation });
+      expect(mockConnection.transaction).toHaveBeenCalledTimes(1);
+      expect(mockPluginManager.onRetry).not.toHaveBeenCalled();
+    });
+
+    it('deve permitir desativar a política da configuração na chamada', async () => {
+      mockConnectionManager.getConfig.mockReturnValue({ transaction: { retry } } as any);
+      mockConnection.transaction.mockRejectedValue(lockConflict());
+
+      await expect(queryService.transaction(jest.fn(), { retry: false })).rejects.toBeInstanceOf(LockConflictError);
+      expect(mockConnection.transaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('deve rejeitar políticas inválidas', async () => {
+      await expect(queryService.transaction(jest.fn(), { retry: { maxAttempts: 0 } }))
+        .rejects.toThrow('Parâmetros de transação inválidos: retry.maxAttempts deve ser um inteiro maior ou igual a 1');
+      expect(mockConnection.transaction).not.toHaveBeenCalled();
+    });
   });
 
   describe('executeSelect', () => {
@@ -163,6 +462,966 @@ describe('QueryService', () => {
       expect(mockPluginManager.afterQuery).toHaveBeenCalledWith(mockResult);
       expect(result).toBe(mockResult);
     });
+
+    it('deve aplicar projeção, agrupamento e ordenação por várias colunas', async () => {
+      const mockQueryBuilder = {
+        groupBy: jest.fn().mockReturnThis(),
+        orderBy: jest.fn().mockReturnThis(),
+        orderByRaw: jest.fn().mockReturnThis(),
+        sum: jest.fn().mockReturnThis(),
+        select: jest.fn().mockResolvedValue([{ CLIENTE: 1, TOTAL: 50 }])
+      };
+      mockConnection.mockReturnValueOnce(mockQueryBuilder);
+
+      await queryService.executeSelect('VENDAS', undefined, {
+        columns: ['CLIENTE', { aggregate: 'sum', column: 'VALOR', as: 'TOTAL' }],
+        groupBy: ['CLIENTE'],
+        orderBy: [{ field: 'TOTAL', direction: 'desc', nulls: 'last' }, { field: 'CLIENTE' }]
+      });
+
+      expect(mockQueryBuilder.select).toHaveBeenCalledWith('CLIENTE');
+      expect(mockQueryBuilder.sum).toHaveBeenCalledWith('VALOR as TOTAL');
+      expect(mockQueryBuilder.groupBy).toHaveBeenCalledWith(['CLIENTE']);
+      expect(mockQueryBuilder.orderByRaw).toHaveBeenCalledWith('?? desc nulls last', ['TOTAL']);
+      expect(mockQueryBuilder.orderBy).toHaveBeenCalledWith('CLIENTE', 'asc');
+    });
+
+    it('deve paginar por cursor buscando uma linha além da página', async () => {
+      const mockQueryBuilder = {
+        where: jest.fn().mockReturnThis(),
+        orderBy: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        select: jest.fn().mockResolvedValue([{ ID: 1 }, { ID: 2 }, { ID: 3 }])
+      };
+      mockConnection.mockReturnValueOnce(mockQueryBuilder);
+
+      const page = await queryService.executeSelect('PEDIDOS', undefined, { keyset: true, orderBy: { field: 'ID' }, limit: 2 });
+
+      expect(mockQueryBuilder.limit).toHaveBeenCalledWith(3);
+      expect(mockQueryBuilder.orderBy).toHaveBeenCalledWith('ID', 'asc');
+      expect(page.rows).toEqual([{ ID: 1 }, { ID: 2 }]);
+      expect(page.hasMore).toBe(true);
+      expect(mockPluginManager.afterQuery).toHaveBeenCalledWith(page);
+
+      const next = { where: jest.fn().mockReturnThis(), orderBy: jest.fn().mockReturnThis(), limit: jest.fn().mockReturnThis(), select: jest.fn().mockResolvedValue([{ ID: 3 }]) };
+      mockConnection.mockReturnValueOnce(next);
+
+      const last = await queryService.executeSelect('PEDIDOS', undefined, {
+        keyset: true,
+        orderBy: { field: 'ID' },
+        limit: 2,
+        after: page.nextCursor
+      });
+
+      expect(next.where).toHaveBeenCalledWith(expect.any(Function));
+      expect(last).toEqual({ rows: [{ ID: 3 }], nextCursor: null, hasMore: false });
+    });
+
+    it('deve rejeitar a paginação por cursor com stream', async () => {
+      await expect(
+        queryService.executeSelect('PEDIDOS', undefined, { keyset: true, stream: true, orderBy: { field: 'ID' }, limit: 2 } as any)
+      ).rejects.toThrow('Paginação por cursor não aceita stream');
+    });
+
+    it('deve rejeitar nomes de tabela inválidos', async () => {
+      await expect(queryService.executeSelect('VENDAS; DROP TABLE VENDAS')).rejects.toThrow('Identificador inválido');
+      expect(mockConnection).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('timeout', () => {
+    let pooledConnection: any;
+    let rejectExecution: (error: Error) => void;
+
+    /** Cria uma consulta Knex simulada que só termina quando for cancelada */
+    const slowQuery = () => {
+      const execution = new Promise((_, reject) => { rejectExecution = reject; });
+      return {
+        connection: jest.fn().mockReturnValue(execution),
+        toSQL: jest.fn().mockReturnValue({ sql: 'SELECT * FROM users' })
+      };
+    };
+
+    beforeEach(() => {
+      pooledConnection = {
+        cancelOperation: jest.fn(async () => rejectExecution(new Error('operation was cancelled')))
+      };
+      mockConnection.client = {
+        acquireConnection: jest.fn().mockResolvedValue(pooledConnection),
+        releaseConnection: jest.fn().mockResolvedValue(undefined)
+      };
+    });
+
+    it('deve fixar a consulta em uma conexão e devolvê-la ao pool', async () => {
+      const query = { connection: jest.fn().mockResolvedValue(['ok']), toSQL: jest.fn() };
+      mockConnection.raw.mockReturnValue(query);
+
+      const result = await queryService.executeQuery('SELECT * FROM users', [], { timeout: 1000 });
+
+      expect(result).toEqual(['ok']);
+      expect(query.connection).toHaveBeenCalledWith(pooledConnection);
+      expect(mockConnection.client.releaseConnection).toHaveBeenCalledWith(pooledConnection);
+    });
+
+    it('deve cancelar a instrução no servidor e lançar QueryTimeoutError', async () => {
+      mockConnection.raw.mockReturnValue(slowQuery());
+
+      const promise = queryService.executeQuery('SELECT * FROM users', [], { timeout: 10 });
+
+      await expect(promise).rejects.toBeInstanceOf(QueryTimeoutError);
+      await expect(promise).rejects.toMatchObject({ timeout: 10, sql: 'SELECT * FROM users', cancelled: true });
+      expect(pooledConnection.cancelOperation).toHaveBeenCalled();
+      expect(pooledConnection.__knex__disposed).toBeUndefined();
+      expect(mockConnection.client.releaseConnection).toHaveBeenCalledWith(pooledConnection);
+      expect(mockPluginManager.onError).toHaveBeenCalledWith(expect.any(QueryTimeoutError));
+    });
+
+    it('deve descartar a conexão quando o cancelamento falhar', async () => {
+      mockConnection.raw.mockReturnValue(slowQuery());
+      pooledConnection.cancelOperation.mockRejectedValue(new Error('connection lost'));
+
+      const promise = queryService.executeQuery('SELECT * FROM users', [], { timeout: 10 });
+
+      await expect(promise).rejects.toMatchObject({ cancelled: false });
+      expect(pooledConnection.__knex__disposed).toBeInstanceOf(QueryTimeoutError);
+      expect(mockConnection.client.releaseConnection).toHaveBeenCalledWith(pooledConnection);
+      rejectExecution(new Error('connection lost'));
+    });
+
+    it('deve usar o timeout padrão da configuração', async () => {
+      mockConnectionManager.getConfig.mockReturnValue({ queryTimeout: 10 } as any);
+      mockConnection.raw.mockReturnValue(slowQuery());
+
+      await expect(queryService.executeQuery('SELECT * FROM users')).rejects.toBeInstanceOf(QueryTimeoutError);
+    });
+
+    it('deve permitir desativar o timeout padrão na consulta', async () => {
+      mockConnectionManager.getConfig.mockReturnValue({ queryTimeout: 10 } as any);
+      mockConnection.raw.mockResolvedValue(['ok']);
+
+      await queryService.executeQuery('SELECT * FROM users', [], { timeout: 0 });
+
+      expect(mockConnection.client.acquireConnection).not.toHaveBeenCalled();
+    });
+
+    it('deve aplicar o timeout de cada instrução da transação', async () => {
+      const trxMock = { raw: jest.fn().mockReturnValue(slowQuery()), client: mockConnection.client };
+      mockConnection.transaction.mockImplementation(async (callback: any) => await callback(trxMock));
+
+      await expect(
+        queryService.executeTransaction([{ sql: 'UPDATE users SET active = 0', timeout: 10 }])
+      ).rejects.toBeInstanceOf(QueryTimeoutError);
+      expect(pooledConnection.cancelOperation).toHaveBeenCalled();
+    });
+
+    it('deve aplicar o timeout no executeSelect', async () => {
+      const mockQueryBuilder = { select: jest.fn().mockReturnValue(slowQuery()) };
+      mockConnection.mockReturnValueOnce(mockQueryBuilder);
+
+      await expect(queryService.executeSelect('users', undefined, { timeout: 10 })).rejects.toBeInstanceOf(QueryTimeoutError);
+    });
+  });
+
+  describe('stream', () => {
+    let attachment: any;
+    let driverTransaction: any;
+    let statement: any;
+    let resultSet: any;
+
+    beforeEach(() => {
+      resultSet = {
+        fetchAsObject: jest.fn()
+          .mockResolvedValueOnce([{ ID: 1 }, { ID: 2 }])
+          .mockResolvedValueOnce([]),
+        close: jest.fn().mockResolvedValue(undefined)
+      };
+      statement = {
+        executeQuery: jest.fn().mockResolvedValue(resultSet),
+        dispose: jest.fn().mockResolvedValue(undefined)
+      };
+      driverTransaction = {
+        commit: jest.fn().mockResolvedValue(undefined),
+        rollback: jest.fn().mockResolvedValue(undefined)
+      };
+      attachment = {
+        startTransaction: jest.fn().mockResolvedValue(driverTransaction),
+        prepare: jest.fn().mockResolvedValue(statement)
+      };
+      mockConnection.client = {
+        acquireConnection: jest.fn().mockResolvedValue(attachment),
+        releaseConnection: jest.fn().mockResolvedValue(undefined)
+      };
+      mockConnection.raw.mockImplementation((sql: string, bindings: any[]) => ({
+        toSQL: () => ({ toNative: () => ({ sql, bindings }) })
+      }));
+    });
+
+    it('deve ler as linhas por um cursor em uma única conexão', async () => {
+      const rows = [];
+      for await (const row of queryService.stream('SELECT * FROM users WHERE active = ?', [1], { fetchSize: 500 })) {
+        rows.push(row);
+      }
+
+      expect(rows).toEqual([{ ID: 1 }, { ID: 2 }]);
+      expect(mockConnection.client.acquireConnection).toHaveBeenCalledTimes(1);
+      expect(attachment.prepare).toHaveBeenCalledWith(driverTransaction, 'SELECT * FROM users WHERE active = ?');
+      expect(statement.executeQuery).toHaveBeenCalledWith(driverTransaction, [1]);
+      expect(resultSet.fetchAsObject).toHaveBeenCalledWith({ fetchSize: 500 });
+      expect(resultSet.close).toHaveBeenCalled();
+      expect(statement.dispose).toHaveBeenCalled();
+      expect(driverTransaction.commit).toHaveBeenCalled();
+      expect(mockConnection.client.releaseConnection).toHaveBeenCalledWith(attachment);
+    });
+
+    it('deve aplicar a conversão de nomes de colunas às linhas do cursor', async () => {
+      mockConnectionManager.getConfig.mockReturnValue({ columnNames: 'camelCase' } as any);
+      resultSet.fetchAsObject.mockReset().mockResolvedValueOnce([{ NOME_CLIENTE: 'Ana' }]).mockResolvedValueOnce([]);
+
+      const rows = [];
+      for await (const row of queryService.stream('SELECT NOME_CLIENTE FROM clientes')) {
+        rows.push(row);
+      }
+
+      expect(rows).toEqual([{ nomeCliente: 'Ana' }]);
+    });
+
+    it('deve ler os BLOBs de cada lote na transação do cursor', async () => {
+      mockConnectionManager.getConfig.mockReturnValue({ columnNames: 'camelCase', blobs: { streamThreshold: 0 } } as any);
+      const contents = [Buffer.from('<a/>'), Buffer.from('<b/>')];
+      const openBlob = jest.fn(async (_transaction: any, blob: any) => {
+        const content = contents[blob.id[0]];
+        let done = false;
+        return {
+          length: Promise.resolve(content.length),
+          read: async (buffer: Buffer) => (done ? -1 : (done = true, content.copy(buffer))),
+          close: jest.fn()
+        };
+      });
+      const blobAttachment: any = { openBlob, client: { statusAction: async (action: any) => await action({}) } };
+      const blob = (index: number) => ({ attachment: blobAttachment, id: Uint8Array.from([index, 0, 0, 0, 0, 0, 0, 0]) });
+      statement.attachment = blobAttachment;
+      statement.outMetadata = {
+        getCountSync: () => 1,
+        getTypeSync: () => 520,
+        getSubTypeSync: () => 1,
+        getCharSetSync: () => 4,
+        getAliasSync: () => 'XML_NOTA'
+      };
+      resultSet.fetchAsObject.mockReset()
+        .mockResolvedValueOnce([{ XML_NOTA: blob(0) }])
+        .mockResolvedValueOnce([{ XML_NOTA: blob(1) }])
+        .mockResolvedValueOnce([]);
+
+      const rows = [];
+      for await (const row of queryService.stream('SELECT XML_NOTA FROM notas')) {
+        rows.push(row);
+      }
+
+      expect(rows).toEqual([{ xmlNota: '<a/>' }, { xmlNota: '<b/>' }]);
+      expect(openBlob.mock.calls.map(([transaction]) => transaction)).toEqual([driverTransaction, driverTransaction]);
+    });
+
+    it('deve disparar afterQuery uma única vez com a quantidade de linhas', async () => {
+      for await (const _row of queryService.stream('SELECT * FROM users')) {
+        // consumir todas as linhas
+      }
+
+      expect(mockPluginManager.beforeQuery).toHaveBeenCalledTimes(1);
+      expect(mockPluginManager.afterQuery).toHaveBeenCalledTimes(1);
+      expect(mockPluginManager.afterQuery).toHaveBeenCalledWith({ rowCount: 2, completed: true });
+    });
+
+    it('deve liberar a conexão quando a iteração for interrompida', async () => {
+      resultSet.fetchAsObject.mockReset().mockResolvedValue([{ ID: 1 }, { ID: 2 }]);
+      const stream = queryService.stream('SELECT * FROM users');
+      for await (const _row of stream) {
+        break;
+      }
+      await new Promise((resolve) => stream.once('close', resolve));
+
+      expect(driverTransaction.rollback).toHaveBeenCalled();
+      expect(mockConnection.client.releaseConnection).toHaveBeenCalledWith(attachment);
+    });
+
+    it('deve rejeitar consultas inválidas sem adquirir conexão', async () => {
+      const stream = queryService.stream('DELETE FROM users');
+
+      await expect(stream[Symbol.asyncIterator]().next()).rejects.toThrow('Consulta inválida: Keyword não permitido: DELETE');
+      expect(mockConnection.client.acquireConnection).not.toHaveBeenCalled();
+      expect(mockPluginManager.onError).toHaveBeenCalled();
+    });
+
+    it('deve liberar a conexão se a abertura do cursor falhar', async () => {
+      attachment.prepare.mockRejectedValue(new Error('Table unknown'));
+
+      await expect(queryService.stream('SELECT * FROM users')[Symbol.asyncIterator]().next()).rejects.toThrow('Table unknown');
+      expect(driverTransaction.rollback).toHaveBeenCalled();
+      expect(mockConnection.client.releaseConnection).toHaveBeenCalledWith(attachment);
+    });
+
+    it('deve usar a transação vinculada dentro de transaction', async () => {
+      const activeTransaction = { commit: jest.fn(), rollback: jest.fn() };
+      attachment._transaction = activeTransaction;
+      const trxMock = Object.assign(jest.fn(), { raw: mockConnection.raw, client: mockConnection.client });
+      mockConnection.transaction.mockImplementation(async (callback: any) => await callback(trxMock));
+
+      await queryService.transaction(async (trx) => {
+        for await (const _row of trx.stream('SELECT * FROM users')) {
+          // consumir todas as linhas
+        }
+      });
+
+      expect(attachment.startTransaction).not.toHaveBeenCalled();
+      expect(statement.executeQuery).toHaveBeenCalledWith(activeTransaction, []);
+      expect(activeTransaction.commit).not.toHaveBeenCalled();
+    });
+
+    it('deve retornar um stream no executeSelect com a opção stream', async () => {
+      const mockQueryBuilder = {
+        where: jest.fn().mockReturnThis(),
+        select: jest.fn().mockReturnValue({
+          toSQL: () => ({ toNative: () => ({ sql: 'select * from "users" where "active" = ?', bindings: [true] }) })
+        })
+      };
+      mockConnection.mockReturnValueOnce(mockQueryBuilder);
+
+      const stream = await queryService.executeSelect('users', { active: true }, { stream: true });
+      const rows = [];
+      for await (const row of stream) {
+        rows.push(row);
+      }
+
+      expect(rows).toHaveLength(2);
+      expect(statement.executeQuery).toHaveBeenCalledWith(driverTransaction, [true]);
+      expect(mockPluginManager.beforeQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('escrita', () => {
+    let writeBuilder: any;
+
+    beforeEach(() => {
+      writeBuilder = {
+        where: jest.fn().mockReturnThis(),
+        insert: jest.fn().mockReturnThis(),
+        update: jest.fn().mockReturnThis(),
+        del: jest.fn().mockReturnThis(),
+        toSQL: jest.fn().mockReturnValue({ sql: 'insert into CLIENTES (NOME) values (?)', bindings: ['Ana'] }),
+        then: (resolve: any, reject: any) => Promise.resolve(undefined).then(resolve, reject)
+      };
+      mockConnection.mockReturnValue(writeBuilder);
+    });
+
+    it('deve inserir uma linha e devolver as colunas de RETURNING', async () => {
+      mockConnection.raw.mockResolvedValue({ ID: 10 });
+
+      const result = await queryService.executeInsert('CLIENTES', { NOME: 'Ana' }, { returning: ['ID'] });
+
+      expect(writeBuilder.insert).toHaveBeenCalledWith({ NOME: 'Ana' });
+      expect(mockConnection.raw).toHaveBeenCalledWith('insert into CLIENTES (NOME) values (?) returning ??', ['Ana', 'ID']);
+      expect(result).toEqual([{ ID: 10 }]);
+      expect(mockPluginManager.afterQuery).toHaveBeenCalledWith([{ ID: 10 }]);
+    });
+
+    it('deve inserir várias linhas em uma transação, uma instrução por linha', async () => {
+      const trxMock = Object.assign(jest.fn().mockReturnValue(writeBuilder), {
+        raw: jest.fn().mockResolvedValueOnce({ ID: 1 }).mockResolvedValueOnce({ ID: 2 })
+      });
+      mockConnection.transaction.mockImplementation(async (callback: any) => await callback(trxMock));
+
+      const result = await queryService.executeInsert('CLIENTES', [{ NOME: 'Ana' }, { NOME: 'Bia' }], { returning: ['ID'] });
+
+      expect(mockConnection.transaction).toHaveBeenCalled();
+      expect(writeBuilder.insert).toHaveBeenCalledTimes(2);
+      expect(result).toEqual([{ ID: 1 }, { ID: 2 }]);
+      expect(mockPluginManager.beforeQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('deve inserir sem RETURNING pelo query builder', async () => {
+      const result = await queryService.executeInsert('CLIENTES', { NOME: 'Ana' });
+
+      expect(mockConnection.raw).not.toHaveBeenCalled();
+      expect(result).toEqual([]);
+    });
+
+    it('deve atualizar as linhas que atendem às condições', async () => {
+      writeBuilder.toSQL.mockReturnValue({ sql: 'update CLIENTES set NOME = ? where ID = ?', bindings: ['Ana', 10] });
+      mockConnection.raw.mockResolvedValue([{ ID: 10, NOME: 'Ana' }]);
+
+      const result = await queryService.executeUpdate('CLIENTES', { NOME: 'Ana' }, { ID: 10 }, { returning: ['ID', 'NOME'] });
+
+      expect(writeBuilder.where).toHaveBeenCalledWith('ID', 10);
+      expect(writeBuilder.update).toHaveBeenCalledWith({ NOME: 'Ana' });
+      expect(mockConnection.raw).toHaveBeenCalledWith(
+        'update CLIENTES set NOME = ? where ID = ? returning ??, ??',
+        ['Ana', 10, 'ID', 'NOME']
+      );
+      expect(result).toEqual([{ ID: 10, NOME: 'Ana' }]);
+    });
+
+    it('deve excluir as linhas que atendem às condições', async () => {
+      await queryService.executeDelete('CLIENTES', { ID: 10 });
+
+      expect(writeBuilder.where).toHaveBeenCalledWith('ID', 10);
+      expect(writeBuilder.del).toHaveBeenCalled();
+    });
+
+    it('deve recusar UPDATE e DELETE sem condições', async () => {
+      await expect(queryService.executeUpdate('CLIENTES', { ATIVO: 0 })).rejects.toThrow(
+        'UPDATE sem condições não é permitido; use allowAll para afetar todas as linhas'
+      );
+      await expect(queryService.executeDelete('CLIENTES', {})).rejects.toThrow('DELETE sem condições não é permitido');
+      expect(writeBuilder.update).not.toHaveBeenCalled();
+      expect(writeBuilder.del).not.toHaveBeenCalled();
+    });
+
+    it('deve permitir UPDATE sem condições com allowAll', async () => {
+      await queryService.executeUpdate('CLIENTES', { ATIVO: 0 }, undefined, { allowAll: true });
+
+      expect(writeBuilder.update).toHaveBeenCalledWith({ ATIVO: 0 });
+    });
+
+    it('deve rejeitar identificadores inválidos', async () => {
+      await expect(
+        queryService.executeInsert('CLIENTES', { 'NOME) VALUES (1); --': 'x' })
+      ).rejects.toThrow('Identificador inválido: NOME) VALUES (1); --');
+      await expect(
+        queryService.executeDelete('CLIENTES', { ID: 1 }, { returning: ['ID; DROP TABLE X'] })
+      ).rejects.toThrow('Identificador inválido');
+    });
+  });
+
+  describe('condições com operadores', () => {
+    it('deve converter operadores do executeSelect em cláusulas do query builder', async () => {
+      const mockQueryBuilder = {
+        where: jest.fn().mockReturnThis(),
+        whereIn: jest.fn().mockReturnThis(),
+        select: jest.fn().mockResolvedValue([])
+      };
+      mockConnection.mockReturnValueOnce(mockQueryBuilder);
+
+      await queryService.executeSelect('vendas', { valor: { $gte: 100 }, status: { $in: ['A', 'P'] } });
+
+      expect(mockQueryBuilder.where).toHaveBeenCalledWith('valor', '>=', 100);
+      expect(mockQueryBuilder.whereIn).toHaveBeenCalledWith('status', ['A', 'P']);
+    });
+
+    it('deve disparar onError para condições inválidas', async () => {
+      mockConnection.mockReturnValueOnce({ where: jest.fn().mockReturnThis() });
+
+      await expect(queryService.executeSelect('vendas', { valor: { $regex: 'x' } } as any)).rejects.toThrow(
+        'Condição inválida: operador desconhecido $regex em valor'
+      );
+      expect(mockPluginManager.onError).toHaveBeenCalled();
+    });
+
+    it('deve considerar $or vazio como UPDATE sem condições', async () => {
+      await expect(queryService.executeUpdate('vendas', { status: 'C' }, { $or: [] })).rejects.toThrow(
+        'UPDATE sem condições não é permitido'
+      );
+    });
+  });
+
+  describe('executeProcedure', () => {
+    const catalogRow = (name: string | null, type: number | null, procedureType = 2) => ({
+      PROCEDURE_TYPE: procedureType,
+      PARAMETER_NAME: name,
+      PARAMETER_TYPE: type,
+      HAS_DEFAULT: 0
+    });
+    const engineVersion = [{ ENGINE_VERSION: '4.0.2' }];
+
+    it('deve executar procedure executável associando os parâmetros por nome', async () => {
+      mockConnection.raw
+        .mockResolvedValueOnce(engineVersion)
+        .mockResolvedValueOnce([catalogRow('CLIENTE_ID', 0), catalogRow('DESCONTO', 0), catalogRow('TOTAL', 1)])
+        .mockResolvedValueOnce([{ TOTAL: 90 }]);
+
+      const result = await queryService.executeProcedure('CALCULAR_TOTAL', { DESCONTO: 10, CLIENTE_ID: 7 });
+
+      expect(mockConnection.raw).toHaveBeenLastCalledWith('execute procedure ??(?, ?)', ['CALCULAR_TOTAL', 7, 10]);
+      expect(result).toEqual({ TOTAL: 90 });
+      expect(mockPluginManager.beforeQuery).toHaveBeenCalledWith({
+        procedure: 'CALCULAR_TOTAL',
+        params: { DESCONTO: 10, CLIENTE_ID: 7 },
+        options: undefined
+      });
+      expect(mockPluginManager.afterQuery).toHaveBeenCalledWith({ TOTAL: 90 });
+    });
+
+    it('deve retornar as linhas de procedure selecionável e reutilizar os metadados', async () => {
+      const rows = [{ ID: 1 }, { ID: 2 }];
+      mockConnection.raw
+        .mockResolvedValueOnce(engineVersion)
+        .mockResolvedValueOnce([catalogRow(null, null, 1)])
+        .mockResolvedValueOnce(rows)
+        .mockResolvedValueOnce(rows);
+
+      await queryService.executeProcedure('LISTAR_PEDIDOS', {}, { selectable: true });
+      const result = await queryService.executeProcedure('LISTAR_PEDIDOS', undefined, { selectable: true });
+
+      expect(mockConnection.raw).toHaveBeenCalledTimes(4);
+      expect(mockConnection.raw).toHaveBeenLastCalledWith('select * from ??', ['LISTAR_PEDIDOS']);
+      expect(result).toBe(rows);
+    });
+
+    it('deve rejeitar modo que não corresponde ao tipo da procedure', async () => {
+      mockConnection.raw.mockResolvedValueOnce(engineVersion).mockResolvedValueOnce([catalogRow(null, null, 1)]);
+
+      await expect(queryService.executeProcedure('LISTAR_PEDIDOS')).rejects.toThrow(
+        'A procedure LISTAR_PEDIDOS é selecionável (SUSPEND); use a opção selectable: true'
+      );
+      expect(mockConnection.raw).toHaveBeenCalledTimes(2);
+      expect(mockPluginManager.onError).toHaveBeenCalled();
+    });
+
+    it('deve rejeitar nome de procedure inválido sem consultar o catálogo', async () => {
+      await expect(queryService.executeProcedure('X; DROP TABLE Y')).rejects.toThrow('Identificador inválido');
+      expect(mockConnection.raw).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('executeBlock', () => {
+    const block = {
+      params: { CLIENTE_ID: { type: 'INTEGER', value: 7 } },
+      returns: { TOTAL: 'NUMERIC(15,2)' },
+      body: 'BEGIN SELECT SUM(VALOR) FROM VENDAS WHERE CLIENTE_ID = :CLIENTE_ID INTO :TOTAL; SUSPEND; END'
+    };
+
+    beforeEach(() => {
+      mockConnectionManager.getConfig.mockReturnValue({ executeBlock: { enabled: true } } as any);
+    });
+
+    it('deve executar o bloco sem o filtro de consultas e retornar as linhas de SUSPEND', async () => {
+      const rows = [{ TOTAL: 150 }];
+      mockConnection.raw.mockResolvedValue(rows);
+
+      const result = await queryService.executeBlock(block);
+
+      const expectedSql = 'EXECUTE BLOCK (CLIENTE_ID INTEGER = ?)\nRETURNS (TOTAL NUMERIC(15,2))\nAS\n' + block.body;
+      expect(mockConnection.raw).toHaveBeenCalledWith(expectedSql, [7]);
+      expect(mockPluginManager.beforeQuery).toHaveBeenCalledWith({ sql: expectedSql, bindings: [7], options: undefined });
+      expect(mockPluginManager.afterQuery).toHaveBeenCalledWith(rows);
+      expect(result).toBe(rows);
+    });
+
+    it('deve normalizar a linha única de blocos sem SUSPEND', async () => {
+      mockConnection.raw.mockResolvedValueOnce({ TOTAL: 150 }).mockResolvedValueOnce(undefined);
+
+      expect(await queryService.executeBlock(block)).toEqual([{ TOTAL: 150 }]);
+      expect(await queryService.executeBlock({ body: 'BEGIN END' })).toEqual([]);
+    });
+
+    it('deve recusar o bloco quando a política não o habilita', async () => {
+      mockConnectionManager.getConfig.mockReturnValue({} as any);
+
+      await expect(queryService.executeBlock(block)).rejects.toThrow('executeBlock está desabilitado');
+      expect(mockConnection.raw).not.toHaveBeenCalled();
+      expect(mockPluginManager.onError).toHaveBeenCalled();
+    });
+
+    it('deve aplicar a política de SQL às tabelas e procedures do corpo', async () => {
+      mockPluginManager.onPolicyViolation.mockResolvedValue();
+      mockConnectionManager.getConfig.mockReturnValue({
+        executeBlock: { enabled: true },
+        sqlPolicy: { writableTables: ['PEDIDOS'] }
+      } as any);
+
+      const error = await queryService.executeBlock({ body: 'BEGIN DELETE FROM CLIENTES; END' }).catch((failure) => failure);
+
+      expect(error).toBeInstanceOf(QueryValidationError);
+      expect(error.message).toBe('Consulta inválida: Tabela não permitida para escrita: CLIENTES (linha 3, coluna 19)');
+      expect(mockPluginManager.onPolicyViolation).toHaveBeenCalledWith(expect.objectContaining({
+        rule: 'table',
+        object: 'CLIENTES',
+        entryPoint: 'query',
+        statementType: 'EXECUTE_BLOCK'
+      }));
+      expect(mockPluginManager.beforeQuery).not.toHaveBeenCalled();
+      expect(mockConnection.raw).not.toHaveBeenCalled();
+    });
+
+    it('deve executar o bloco na transação em andamento', async () => {
+      const trxMock = Object.assign(jest.fn(), { raw: jest.fn().mockResolvedValue([]) });
+      mockConnection.transaction.mockImplementation(async (callback: (trx: any) => Promise<any>) => callback(trxMock));
+
+      await queryService.transaction((trx) => trx.executeBlock({ body: 'BEGIN DELETE FROM LOGS; END' }));
+
+      expect(trxMock.raw).toHaveBeenCalledWith('EXECUTE BLOCK\nAS\nBEGIN DELETE FROM LOGS; END', []);
+      expect(mockConnection.raw).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('bulkInsert', () => {
+    const catalog = [{ FIELD_NAME: 'ID', FIELD_LENGTH: 4 }, { FIELD_NAME: 'NOME', FIELD_LENGTH: 240 }];
+    const rows = [{ ID: 1, NOME: 'Ana' }, { ID: 2, NOME: 'Bia' }, { ID: 3, NOME: 'Caio' }];
+
+    it('deve inserir os blocos em uma única transação, informando o progresso', async () => {
+      mockConnection.raw.mockResolvedValueOnce(catalog).mockResolvedValue(undefined);
+      const onProgress = jest.fn();
+
+      const result = await queryService.bulkInsert('CLIENTES', rows, { chunkSize: 2, onProgress });
+
+      expect(mockConnection.transaction).toHaveBeenCalledTimes(1);
+      expect(mockConnection.raw).toHaveBeenCalledTimes(3);
+      expect(mockConnection.raw).toHaveBeenNthCalledWith(2, expect.stringContaining('EXECUTE BLOCK'), [1, 'Ana', 2, 'Bia']);
+      expect(mockConnection.raw).toHaveBeenNthCalledWith(3, expect.stringContaining('EXECUTE BLOCK'), [3, 'Caio']);
+      expect(onProgress).toHaveBeenLastCalledWith({ table: 'CLIENTES', inserted: 3, failed: 0, total: 3, chunk: 2, chunks: 2 });
+      expect(result).toEqual({ inserted: 3, failed: 0, chunks: 2, failures: [] });
+      expect(mockPluginManager.beforeQuery).toHaveBeenCalledTimes(1);
+      expect(mockPluginManager.afterQuery).toHaveBeenCalledWith(result);
+    });
+
+    it('deve interromper com BulkInsertError quando um bloco falha com a política rollback', async () => {
+      const failure = new Error('violation of PRIMARY or UNIQUE KEY constraint');
+      mockConnection.raw.mockResolvedValueOnce(catalog).mockResolvedValueOnce(undefined).mockRejectedValueOnce(failure);
+
+      const promise = queryService.bulkInsert('CLIENTES', rows, { chunkSize: 2 });
+
+      await expect(promise).rejects.toMatchObject({
+        name: 'BulkInsertError',
+        table: 'CLIENTES',
+        chunk: 1,
+        offset: 2,
+        rows: 1,
+        inserted: 2,
+        cause: failure,
+        message: 'Falha ao inserir o bloco 2 em CLIENTES (linhas 2 a 2): violation of PRIMARY or UNIQUE KEY constraint'
+      });
+      expect(mockPluginManager.onError).toHaveBeenCalled();
+    });
+
+    it('deve registrar a falha e seguir com a política continue, sem transação única', async () => {
+      const failure = new Error('falha');
+      mockConnection.raw.mockResolvedValueOnce(catalog).mockRejectedValueOnce(failure).mockResolvedValueOnce(undefined);
+
+      const result = await queryService.bulkInsert('CLIENTES', rows, { chunkSize: 2, transaction: false, onError: 'continue' });
+
+      expect(mockConnection.transaction).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        inserted: 1,
+        failed: 2,
+        chunks: 2,
+        failures: [{ chunk: 0, offset: 0, rows: 2, error: failure }]
+      });
+    });
+
+    it('deve aceitar lista vazia e rejeitar política inválida sem acessar o banco', async () => {
+      expect(await queryService.bulkInsert('CLIENTES', [])).toEqual({ inserted: 0, failed: 0, chunks: 0, failures: [] });
+      await expect(queryService.bulkInsert('CLIENTES', rows, { onError: 'ignore' as any })).rejects.toThrow(
+        'Política de falha inválida no bulkInsert: ignore'
+      );
+      expect(mockConnection.raw).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('upsert e merge', () => {
+    const version = (text: string) => [{ ENGINE_VERSION: text }];
+
+    it('deve gravar várias linhas com UPDATE OR INSERT em uma transação', async () => {
+      mockConnection.raw
+        .mockResolvedValueOnce(version('4.0.2'))
+        .mockResolvedValueOnce({ ID: 10 })
+        .mockResolvedValueOnce({ ID: 11 });
+
+      const result = await queryService.upsert(
+        'PRODUTOS',
+        [{ CODIGO: 'A1', PRECO: 2 }, { CODIGO: 'A2', PRECO: 3 }],
+        { matching: ['CODIGO'], returning: ['ID'] }
+      );
+
+      expect(mockConnection.transaction).toHaveBeenCalledTimes(1);
+      expect(mockConnection.raw).toHaveBeenLastCalledWith(
+        'update or insert into ?? (??, ??) values (?, ?) matching (??) returning ??',
+        ['PRODUTOS', 'CODIGO', 'PRECO', 'A2', 3, 'CODIGO', 'ID']
+      );
+      expect(result).toEqual([{ ID: 10 }, { ID: 11 }]);
+    });
+
+    it('deve reutilizar a versão do servidor e recusar servidores sem UPDATE OR INSERT', async () => {
+      mockConnection.raw.mockRejectedValueOnce(new Error('Context variable ENGINE_VERSION is not found in namespace SYSTEM'));
+
+      await expect(queryService.upsert('PRODUTOS', { CODIGO: 'A1' })).rejects.toThrow(
+        'UPDATE OR INSERT exige Firebird 2.1 ou superior (servidor: anterior a 2.1)'
+      );
+      await expect(queryService.upsert('PRODUTOS', { CODIGO: 'A1' })).rejects.toThrow('UPDATE OR INSERT exige Firebird 2.1');
+      expect(mockConnection.raw).toHaveBeenCalledTimes(1);
+      expect(mockPluginManager.onError).toHaveBeenCalled();
+    });
+
+    it('deve validar a consulta de origem do merge', async () => {
+      await expect(queryService.merge('PRODUTOS', {
+        source: { sql: 'DELETE FROM IMP_PRODUTOS' },
+        columns: ['CODIGO'],
+        matching: ['CODIGO']
+      })).rejects.toThrow('Consulta inválida: Keyword não permitido: DELETE');
+      expect(mockConnection.raw).not.toHaveBeenCalled();
+    });
+
+    it('deve executar o merge e exigir Firebird 3 para RETURNING', async () => {
+      mockConnection.raw.mockResolvedValueOnce(version('2.5.9')).mockResolvedValueOnce(undefined);
+      const options = {
+        source: { sql: 'SELECT CODIGO, PRECO FROM IMP_PRODUTOS WHERE LOTE = ?', bindings: [42] },
+        columns: ['CODIGO', 'PRECO'],
+        matching: ['CODIGO']
+      };
+
+      expect(await queryService.merge('PRODUTOS', options)).toEqual([]);
+      expect(mockConnection.raw).toHaveBeenLastCalledWith(expect.stringContaining('merge into ?? T using (SELECT'), expect.arrayContaining([42]));
+
+      await expect(queryService.merge('PRODUTOS', { ...options, returning: ['ID'] })).rejects.toThrow(
+        'MERGE com RETURNING exige Firebird 3.0 ou superior (servidor: 2.5.9)'
+      );
+    });
+  });
+
+  describe('sequências', () => {
+    it('deve obter o próximo valor e o valor atual', async () => {
+      mockConnection.raw
+        .mockResolvedValueOnce([{ SEQUENCE_VALUE: 41 }])
+        .mockResolvedValueOnce([{ SEQUENCE_VALUE: 51 }])
+        .mockResolvedValueOnce([{ SEQUENCE_VALUE: 51 }]);
+
+      expect(await queryService.nextValue('GEN_PEDIDOS')).toBe(41);
+      expect(await queryService.nextValue('GEN_PEDIDOS', 10)).toBe(51);
+      expect(await queryService.currentValue('GEN_PEDIDOS')).toBe(51);
+
+      expect(mockConnection.raw).toHaveBeenNthCalledWith(1, expect.stringContaining('next value for ??'), ['GEN_PEDIDOS']);
+      expect(mockConnection.raw).toHaveBeenNthCalledWith(2, expect.stringContaining('gen_id(??, ?)'), ['GEN_PEDIDOS', 10]);
+      expect(mockPluginManager.beforeQuery).toHaveBeenCalledWith({ sequence: 'GEN_PEDIDOS', increment: 10 });
+    });
+
+    it('deve ler os resultados com a conversão de nomes de colunas', async () => {
+      mockConnectionManager.getConfig.mockReturnValue({ columnNames: 'camelCase' } as any);
+      mockConnection.raw
+        .mockResolvedValueOnce([{ sequenceValue: 7 }])
+        .mockResolvedValueOnce([{ sequenceName: 'GEN_ITENS' }, { sequenceName: 'GEN_PEDIDOS' }]);
+
+      expect(await queryService.currentValue('GEN_ITENS')).toBe(7);
+      expect(await queryService.listSequences()).toEqual(['GEN_ITENS', 'GEN_PEDIDOS']);
+    });
+
+    it('deve definir o valor e rejeitar valores inválidos antes de executar', async () => {
+      mockConnection.raw.mockResolvedValueOnce(undefined);
+
+      await queryService.setSequence('GEN_PEDIDOS', 1000);
+      expect(mockConnection.raw).toHaveBeenCalledWith('set generator ?? to 1000', ['GEN_PEDIDOS']);
+
+      await expect(queryService.setSequence('GEN_PEDIDOS', 1.5)).rejects.toThrow('O valor da sequência deve ser um inteiro');
+      expect(mockConnection.raw).toHaveBeenCalledTimes(1);
+      expect(mockPluginManager.onError).toHaveBeenCalled();
+    });
+
+    it('deve usar a transação em andamento', async () => {
+      mockConnection.raw.mockResolvedValueOnce(undefined).mockResolvedValueOnce([{ SEQUENCE_VALUE: 3 }]);
+
+      const id = await queryService.transaction(async (trx) => {
+        await trx.setSequence('GEN_PEDIDOS', 2);
+        return await trx.nextValue('GEN_PEDIDOS');
+      });
+
+      expect(id).toBe(3);
+      expect(mockConnection.transaction).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('réplicas de leitura', () => {
+    /** Simula o resultado de knex.raw: uma Promise com toSQL */
+    const raw = (rows: any[] | Error) => jest.fn((sql: string) => Object.assign(
+      rows instanceof Error ? Promise.reject(rows) : Promise.resolve(rows),
+      { toSQL: () => ({ sql }) }
+    ));
+
+    let replicaRaw: jest.Mock;
+    let replicaManager: any;
+    let router: ReplicaRouter;
+
+    beforeEach(() => {
+      mockConnection.raw = raw([{ ORIGEM: 'primario' }]);
+      replicaRaw = raw([{ ORIGEM: 'replica' }]);
+      replicaManager = {
+        isConnected: jest.fn(() => true),
+        getConnection: jest.fn(() => ({ raw: replicaRaw })),
+        getConfig: jest.fn(() => ({ host: 'replica1', database: '/dados/erp.fdb' })),
+        getReplicaRouter: jest.fn(() => null)
+      };
+      router = new ReplicaRouter([replicaManager], { readYourWritesWindow: 60000 });
+      mockConnectionManager.getReplicaRouter.mockReturnValue(router);
+    });
+
+    it('deve ler da réplica as consultas SELECT', async () => {
+      const result = await queryService.executeQuery('SELECT * FROM PEDIDOS WHERE ID = ?', [1]);
+
+      expect(result).toEqual([{ ORIGEM: 'replica' }]);
+      expect(replicaRaw).toHaveBeenCalledWith('SELECT * FROM PEDIDOS WHERE ID = ?', [1]);
+      expect(mockConnection.raw).not.toHaveBeenCalled();
+      expect(mockPluginManager.afterQuery).toHaveBeenCalledWith([{ ORIGEM: 'replica' }]);
+    });
+
+    it('deve executar as escritas no primário e manter as leituras seguintes nele', async () => {
+      mockConnectionManager.getConfig.mockReturnValue({ sqlPolicy: { statements: { query: ['SELECT', 'UPDATE'] } } } as any);
+      await queryService.executeQuery('UPDATE PEDIDOS SET STATUS = 1');
+      const result = await queryService.executeQuery('SELECT * FROM PEDIDOS');
+
+      expect(result).toEqual([{ ORIGEM: 'primario' }]);
+      expect(mockConnection.raw).toHaveBeenCalledTimes(2);
+      expect(replicaRaw).not.toHaveBeenCalled();
+    });
+
+    it('deve manter no primário as consultas com bloqueio e as marcadas com replica: false', async () => {
+      await queryService.executeQuery('SELECT * FROM PEDIDOS WITH LOCK', undefined, { replica: false });
+      await queryService.executeQuery('SELECT * FROM PEDIDOS', undefined, { replica: false });
+
+      expect(mockConnection.raw).toHaveBeenCalledTimes(2);
+      expect(replicaRaw).not.toHaveBeenCalled();
+    });
+
+    it('deve refazer a leitura no primário e afastar a réplica que perdeu a conexão', async () => {
+      replicaRaw = raw(new ConnectionLostError('Conexão perdida: connection reset'));
+
+      const result = await queryService.executeQuery('SELECT * FROM PEDIDOS');
+
+      expect(result).toEqual([{ ORIGEM: 'primario' }]);
+      expect(router.getStatus()[0]).toMatchObject({ healthy: false, failures: 1 });
+      expect(router.select()).toBeNull();
+    });
+
+    it('deve afastar a réplica com o erro do driver que traz apenas a mensagem', async () => {
+      replicaRaw = raw(new Error('Error writing data to the connection.\n-send_packet/send'));
+
+      const result = await queryService.executeQuery('SELECT * FROM PEDIDOS');
+
+      expect(result).toEqual([{ ORIGEM: 'primario' }]);
+      expect(router.getStatus()[0]).toMatchObject({ healthy: false, failures: 1 });
+    });
+
+    it('deve disparar os hooks uma única vez quando a leitura volta ao primário', async () => {
+      replicaRaw = raw(new ConnectionLostError('Conexão perdida: connection reset'));
+
+      await queryService.executeQuery('SELECT * FROM PEDIDOS', [], { timeout: 0 });
+
+      expect(mockPluginManager.beforeQuery).toHaveBeenCalledTimes(1);
+      expect(mockPluginManager.beforeQuery).toHaveBeenCalledWith({ sql: 'SELECT * FROM PEDIDOS', bindings: [], options: { timeout: 0, replica: false } });
+      expect(mockPluginManager.onError).not.toHaveBeenCalled();
+      expect(mockPluginManager.afterQuery).toHaveBeenCalledTimes(1);
+      expect(mockPluginManager.afterQuery).toHaveBeenCalledWith([{ ORIGEM: 'primario' }]);
+    });
+
+    it('deve repassar ao onError as falhas da réplica que não a afastam', async () => {
+      replicaRaw = raw(new Error('Table unknown PEDIDOZ'));
+
+      await expect(queryService.executeQuery('SELECT * FROM PEDIDOZ')).rejects.toThrow('Table unknown PEDIDOZ');
+
+      expect(mockPluginManager.onError).toHaveBeenCalledTimes(1);
+      expect(mockConnection.raw).not.toHaveBeenCalled();
+    });
+
+    it('deve manter no primário os streams do executeSelect', async () => {
+      const stream = await queryService.executeSelect('PEDIDOS', undefined, { stream: true });
+
+      expect(stream).toBeInstanceOf(ResultStream);
+      expect(replicaManager.isConnected).not.toHaveBeenCalled();
+      expect(router.getStatus()[0]).toMatchObject({ healthy: true, failures: 0 });
+      stream.destroy();
+    });
+
+    it('deve executar no primário as leituras dentro de transação e abrir a janela no COMMIT', async () => {
+      await queryService.transaction(async (trx) => {
+        await trx.executeQuery('SELECT * FROM PEDIDOS');
+        await trx.executeQuery('INSERT INTO PEDIDOS (ID) VALUES (1)');
+      });
+      expect(replicaRaw).not.toHaveBeenCalled();
+      expect(router.select()).toBeNull();
+    });
+  });
+
+  describe('política de SQL', () => {
+    beforeEach(() => {
+      mockPluginManager.onPolicyViolation.mockResolvedValue();
+    });
+
+    it('deve aplicar a política da configuração e notificar a violação aos plugins', async () => {
+      mockConnectionManager.getConfig.mockReturnValue({ sqlPolicy: { readableTables: ['PEDIDOS'] } } as any);
+
+      const error = await queryService.executeQuery('SELECT * FROM USUARIOS').catch((failure) => failure);
+
+      expect(error).toBeInstanceOf(QueryValidationError);
+      expect(error.message).toBe('Consulta inválida: Tabela não permitida para leitura: USUARIOS (linha 1, coluna 15)');
+      expect(error.violation).toMatchObject({ rule: 'table', object: 'USUARIOS', entryPoint: 'query' });
+      expect(mockPluginManager.onPolicyViolation).toHaveBeenCalledWith(error.violation);
+      expect(mockPluginManager.onError).toHaveBeenCalledWith(error);
+      expect(mockConnection.raw).not.toHaveBeenCalled();
+    });
+
+    it('deve aceitar DDL com a política da chamada quando a configuração permite substituí-la', async () => {
+      mockConnectionManager.getConfig.mockReturnValue({ sqlPolicy: { allowOverride: true } } as any);
+      mockConnection.raw.mockResolvedValue([]);
+
+      await queryService.executeQuery('CREATE TABLE LOG_IMPORTACAO (ID INTEGER)', [], { policy: { allowDdl: true } });
+
+      expect(mockConnection.raw).toHaveBeenCalledWith('CREATE TABLE LOG_IMPORTACAO (ID INTEGER)', []);
+    });
+
+    it('não deve permitir que a política da chamada ou da transação amplie a da configuração', async () => {
+      mockConnectionManager.getConfig.mockReturnValue({
+        sqlPolicy: { readableTables: ['PEDIDOS'], writableTables: ['PEDIDOS'] }
+      } as any);
+      mockConnection.raw.mockResolvedValue([]);
+
+      await expect(queryService.executeQuery('DROP TABLE PEDIDOS', [], { policy: { allowDdl: true } }))
+        .rejects.toThrow('Consulta inválida: Keyword não permitido: DROP');
+      await expect(queryService.executeQuery('SELECT * FROM USUARIOS', [], { policy: { readableTables: ['USUARIOS'] } }))
+        .rejects.toThrow('Tabela não permitida para leitura: USUARIOS');
+      await expect(queryService.executeQuery('UPDATE PEDIDOS SET STATUS = 1', [], { policy: { statements: { query: ['UPDATE'] } } }))
+        .rejects.toThrow('Keyword não permitido: UPDATE');
+      await expect(queryService.transaction(async (trx) => {
+        await trx.executeDelete('CLIENTES', { ID: 1 });
+      }, { policy: { writableTables: ['PEDIDOS', 'CLIENTES'] } })).rejects.toThrow('Tabela não permitida para escrita: CLIENTES');
+
+      expect(mockPluginManager.onPolicyViolation).toHaveBeenCalledTimes(4);
+      expect(mockConnection.raw).not.toHaveBeenCalled();
+    });
+
+    it('deve aplicar a política da transação às instruções do callback', async () => {
+      mockConnection.raw.mockResolvedValue([]);
+
+      await expect(queryService.transaction(async (trx) => {
+        await trx.executeQuery('UPDATE PEDIDOS SET STATUS = ? WHERE ID = ?', ['PAGO', 1]);
+        await trx.executeQuery('DELETE FROM CLIENTES WHERE ID = ?', [1]);
+      }, { policy: { writableTables: ['PEDIDOS'] } })).rejects.toThrow('Tabela não permitida para escrita: CLIENTES');
+
+      expect(mockConnection.raw).toHaveBeenCalledTimes(1);
+    });
+
+    it('deve verificar as tabelas dos métodos que montam o SQL', async () => {
+      mockConnectionManager.getConfig.mockReturnValue({
+        sqlPolicy: { writableTables: ['PEDIDOS'], procedures: ['CALCULAR_FRETE'] }
+      } as any);
+
+      await expect(queryService.executeDelete('CLIENTES', { ID: 1 })).rejects.toBeInstanceOf(QueryValidationError);
+      await expect(queryService.executeProcedure('APAGAR_TUDO')).rejects.toThrow('Consulta inválida: Procedure não permitida: APAGAR_TUDO');
+      expect(mockPluginManager.onPolicyViolation).toHaveBeenCalledWith({
+        rule: 'procedure',
+        message: 'Procedure não permitida: APAGAR_TUDO',
+        object: 'APAGAR_TUDO',
+        token: undefined
+      });
+      expect(mockPluginManager.beforeQuery).not.toHaveBeenCalled();
+    });
+
+    it('deve verificar procedures executáveis contra executableProcedures', async () => {
+      mockConnectionManager.getConfig.mockReturnValue({
+        sqlPolicy: { procedures: ['LISTAR_PEDIDOS', 'RECALCULAR'], executableProcedures: [] }
+      } as any);
+      mockConnection.raw.mockResolvedValueOnce([{ ENGINE_VERSION: '4.0.2' }]).mockResolvedValueOnce([
+        { PROCEDURE_TYPE: 1, PARAMETER_NAME: null, PARAMETER_TYPE: null, HAS_DEFAULT: 0 }
+      ]).mockResolvedValueOnce([]);
+
+      await expect(queryService.executeProcedure('RECALCULAR')).rejects.toThrow(
+        'Consulta inválida: Procedure não permitida: RECALCULAR'
+      );
+      await expect(queryService.executeProcedure('LISTAR_PEDIDOS', {}, { selectable: true })).resolves.toEqual([]);
+    });
   });
 
   describe('validateSql', () => {
@@ -189,5 +1448,52 @@ describe('QueryService', () => {
       expect(result.valid).toBe(false);
       expect(result.error).toBe('Padrão de injeção SQL detectado');
     });
+
+    it('deve aceitar colunas que contêm palavras-chave no nome', () => {
+      const result = queryService['validateSql']('SELECT UPDATED_AT, CREATED_BY FROM PEDIDOS');
+      expect(result.valid).toBe(true);
+      expect(result.statementType).toBe('SELECT');
+    });
+
+    it('deve aceitar palavras-chave e terminadores dentro de literais', () => {
+      const result = queryService['validateSql']("SELECT * FROM PEDIDOS WHERE STATUS = 'DELETED; -- x'");
+      expect(result.valid).toBe(true);
+    });
+
+    it('deve aceitar tabelas de sistema com $ e terminador final', () => {
+      const result = queryService['validateSql']('SELECT 1 AS test FROM RDB$DATABASE;');
+      expect(result.valid).toBe(true);
+    });
+
+    it('deve aceitar SELECT ... FOR UPDATE', () => {
+      const result = queryService['validateSql']('SELECT * FROM PEDIDOS WHERE ID = ? FOR UPDATE WITH LOCK');
+      expect(result.valid).toBe(true);
+    });
+
+    it('deve informar o token e a posição que violaram a validação', () => {
+      const result = queryService['validateSql']('SELECT * FROM users;\nDELETE FROM users');
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe('Padrão de injeção SQL detectado');
+      expect(result.violation).toMatchObject({ value: ';', position: 19, line: 1, column: 20 });
+    });
+
+    it('deve rejeitar comentários fora de literais', () => {
+      const result = queryService['validateSql']("SELECT * FROM users WHERE name = 'a' -- AND active = 1");
+      expect(result.valid).toBe(false);
+      expect(result.violation?.type).toBe('comment');
+    });
+
+    it('deve rejeitar subconsulta com palavra-chave de escrita', () => {
+      const result = queryService['validateSql']('SELECT * FROM users WHERE id IN (UPDATE users SET a = 1)');
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe('Keyword não permitido: UPDATE');
+      expect(result.violation?.column).toBe(34);
+    });
+
+    it('deve rejeitar consulta malformada', () => {
+      const result = queryService['validateSql']("SELECT * FROM users WHERE name = 'abc");
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('Literal de string não terminado');
+    });
   });
 });
\ No newline at end of file
@@ -0,0 +1,135 @@
+import { pipeline, Writable } from 'stream';
+import { ResultCursor, ResultStream } from '../../src/services/ResultStream';
+import { PluginManager } from '../../src/core/PluginManager';
+
+// Mock do PluginManager
+jest.mock('../../src/core/PluginManager');
+
+describe('ResultStream', () => {
+  let mockPluginManager: jest.Mocked<PluginManager>;
+  let cursor: jest.Mocked<ResultCursor>;
+
+  /** Cria um cursor simulado que entrega os lotes informados */
+  const createCursor = (batches: any[][]): jest.Mocked<ResultCursor> => {
+    const pending = [...batches];
+    return {
+      fetch: jest.fn(async () => pending.shift() || []),
+      close: jest.fn().mockResolvedValue(undefined)
+    };
+  };
+
+  /** Aguarda o encerramento do stream (liberação do cursor) */
+  const closed = (stream: ResultStream) =>
+    stream.closed ? Promise.resolve() : new Promise((resolve) => stream.once('close', resolve));
+
+  beforeEach(() => {
+    mockPluginManager = new PluginManager() as jest.Mocked<PluginManager>;
+    mockPluginManager.beforeQuery.mockResolvedValue();
+    mockPluginManager.afterQuery.mockResolvedValue();
+    mockPluginManager.onError.mockResolvedValue();
+    cursor = createCursor([[{ id: 1 }, { id: 2 }], [{ id: 3 }]]);
+  });
+
+  it('deve entregar todas as linhas com for await', async () => {
+    const stream = new ResultStream(async () => cursor, mockPluginManager, { sql: 'SELECT * FROM T' });
+    const rows = [];
+
+    for await (const row of stream) {
+      rows.push(row);
+    }
+
+    expect(rows).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+    expect(cursor.close).toHaveBeenCalledWith(true);
+  });
+
+  it('deve disparar os hooks uma única vez com a quantidade de linhas', async () => {
+    const stream = new ResultStream(async () => cursor, mockPluginManager, { sql: 'SELECT * FROM T' });
+
+    for await (const _row of stream) {
+      // consumir todas as linhas
+    }
+
+    expect(mockPluginManager.beforeQuery).toHaveBeenCalledTimes(1);
+    expect(mockPluginManager.beforeQuery).toHaveBeenCalledWith({ sql: 'SELECT * FROM T' });
+    expect(mockPluginManager.afterQuery).toHaveBeenCalledTimes(1);
+    expect(mockPluginManager.afterQuery).toHaveBeenCalledWith({ rowCount: 3, completed: true });
+  });
+
+  it('não deve abrir o cursor antes da primeira leitura', () => {
+    const open = jest.fn(async () => cursor);
+
+    new ResultStream(open, mockPluginManager, {});
+
+    expect(open).not.toHaveBeenCalled();
+  });
+
+  it('deve fechar o cursor quando a iteração for interrompida', async () => {
+    cursor = createCursor([[{ id: 1 }, { id: 2 }], [{ id: 3 }], [{ id: 4 }]]);
+    const stream = new ResultStream(async () => cursor, mockPluginManager, {});
+
+    for await (const row of stream) {
+      if (row.id === 1) {
+        break;
+      }
+    }
+    await closed(stream);
+
+    expect(cursor.close).toHaveBeenCalledWith(false);
+    expect(cursor.fetch.mock.calls.length).toBeLessThan(4);
+    expect(mockPluginManager.afterQuery).toHaveBeenCalledWith(expect.objectContaining({ completed: false }));
+  });
+
+  it('deve buscar novos lotes apenas quando o consumidor pedir mais linhas', async () => {
+    const batches = Array.from({ length: 10 }, (_, i) => [{ id: i }]);
+    cursor = createCursor(batches);
+    const stream = new ResultStream(async () => cursor, mockPluginManager, {}, { highWaterMark: 2 });
+
+    stream.once('readable', () => undefined);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(cursor.fetch.mock.calls.length).toBeLessThanOrEqual(3);
+    stream.destroy();
+    await closed(stream);
+    expect(cursor.close).toHaveBeenCalledWith(false);
+  });
+
+  it('deve propagar erros do cursor, fechá-lo e disparar onError', async () => {
+    const error = new Error('falha na leitura');
+    cursor.fetch.mockRejectedValueOnce(error);
+    const stream = new ResultStream(async () => cursor, mockPluginManager, {});
+
+    await expect((async () => {
+      for await (const _row of stream) {
+        // consumir todas as linhas
+      }
+    })()).rejects.toThrow('falha na leitura');
+
+    expect(cursor.close).toHaveBeenCalledWith(false);
+    expect(mockPluginManager.onError).toHaveBeenCalledWith(error);
+    expect(mockPluginManager.afterQuery).not.toHaveBeenCalled();
+  });
+
+  it('deve propagar erros na abertura do cursor', async () => {
+    const stream = new ResultStream(async () => { throw new Error('Consulta inválida'); }, mockPluginManager, {});
+
+    await expect(stream[Symbol.asyncIterator]().next()).rejects.toThrow('Consulta inválida');
+    expect(mockPluginManager.onError).toHaveBeenCalled();
+  });
+
+  it('deve funcionar com pipeline', async () => {
+    const stream = new ResultStream(async () => cursor, null, {});
+    const received: any[] = [];
+    const sink = new Writable({
+      objectMode: true,
+      write(row, _encoding, callback) {
+        received.push(row);
+        callback();
+      }
+    });
+
+    await new Promise<void>((resolve, reject) => pipeline(stream, sink, (error) => (error ? reject(error) : resolve())));
+
+    expect(received).toHaveLength(3);
+    expect(stream.getRowCount()).toBe(3);
+  });
+});
@@ -0,0 +1,102 @@
+import knex, { Knex } from 'knex';
+import { FirebirdClient } from '../../src/core/FirebirdClient';
+import { SelectBuilder, SelectShape } from '../../src/services/SelectBuilder';
+
+describe('SelectBuilder', () => {
+  // Instância sem conexão: usada apenas para compilar o SQL
+  const db: Knex = knex({ client: FirebirdClient as any });
+  let selectBuilder: SelectBuilder;
+
+  /** Compila a consulta e retorna o SQL com parâmetros posicionais */
+  const compile = (tableName: string, shape?: SelectShape) =>
+    selectBuilder.apply(db(tableName), shape).toSQL().toNative();
+
+  beforeEach(() => {
+    selectBuilder = new SelectBuilder();
+  });
+
+  afterAll(async () => {
+    await db.destroy();
+  });
+
+  it('deve selecionar todas as colunas quando a projeção não for informada', () => {
+    expect(compile('CLIENTES').sql).toBe('select   * from CLIENTES');
+  });
+
+  it('deve projetar colunas com alias na ordem informada', () => {
+    const { sql } = compile('CLIENTES', { columns: ['ID', { column: 'NOME', as: 'CLIENTE' }, '"Data Cadastro"'] });
+
+    expect(sql).toBe('select   ID, NOME as CLIENTE, "Data Cadastro" from CLIENTES');
+  });
+
+  it('deve gerar SELECT DISTINCT', () => {
+    expect(compile('CLIENTES', { columns: ['UF'], distinct: true }).sql).toBe('select   distinct UF from CLIENTES');
+    expect(compile('CLIENTES', { distinct: true }).sql).toBe('select   distinct * from CLIENTES');
+  });
+
+  it('deve agrupar com agregações e resolver os aliases no HAVING', () => {
+    const { sql, bindings } = compile('VENDAS', {
+      columns: [
+        'CLIENTE',
+        { aggregate: 'sum', column: 'VALOR', as: 'TOTAL' },
+        { aggregate: 'count', as: 'QTD' },
+        { aggregate: 'count', column: 'PRODUTO', as: 'PRODUTOS', distinct: true }
+      ],
+      groupBy: ['CLIENTE'],
+      having: { TOTAL: { $gte: 1000 }, $or: [{ QTD: { $gt: 2 } }, { CLIENTE: { $in: [1, 2] } }] }
+    });
+
+    expect(sql).toBe(
+      'select   CLIENTE, sum(VALOR) as TOTAL, count(*) as QTD, count(distinct PRODUTO) as PRODUTOS from VENDAS ' +
+      'group by CLIENTE having (sum(VALOR) >= ? and ((count(*) > ?) or (CLIENTE in (?, ?))))'
+    );
+    expect(bindings).toEqual([1000, 2, 1, 2]);
+  });
+
+  it('deve ordenar por várias colunas com NULLS FIRST/LAST nativo', () => {
+    const { sql } = compile('VENDAS', {
+      orderBy: [{ field: 'DATA', direction: 'desc', nulls: 'last' }, { field: 'ID' }],
+      limit: 10,
+      offset: 20
+    });
+
+    expect(sql).toBe('select first ? skip ? * from VENDAS order by DATA desc nulls last, ID asc');
+  });
+
+  it('deve aceitar um único critério de ordenação', () => {
+    expect(compile('VENDAS', { orderBy: { field: 'ID', direction: 'desc' } }).sql).toBe(
+      'select   * from VENDAS order by ID desc'
+    );
+  });
+
+  it('deve rejeitar identificadores inválidos', () => {
+    expect(() => compile('VENDAS', { columns: ['ID; DROP TABLE VENDAS'] })).toThrow('Identificador inválido');
+    expect(() => compile('VENDAS', { columns: [{ column: 'NOME', as: 'A B' }] })).toThrow('Identificador inválido: A B');
+    expect(() => compile('VENDAS', { groupBy: ['1=1'] })).toThrow('Identificador inválido: 1=1');
+    expect(() => compile('VENDAS', { orderBy: { field: 'ID desc' } })).toThrow('Identificador inválido: ID desc');
+  });
+
+  it('deve rejeitar agregações e ordenações inválidas', () => {
+    expect(() => compile('VENDAS', { columns: [{ aggregate: 'median', column: 'VALOR', as: 'M' } as any] })).toThrow(
+      'Agregação inválida: median'
+    );
+    expect(() => compile('VENDAS', { columns: [{ aggregate: 'sum', as: 'TOTAL' }] })).toThrow(
+      'Agregação sum exige uma coluna'
+    );
+    expect(() => compile('VENDAS', { columns: [{ aggregate: 'max', column: 'VALOR', as: 'M', distinct: true }] })).toThrow(
+      'Agregação max não aceita distinct'
+    );
+    expect(() => compile('VENDAS', { orderBy: { field: 'ID', direction: 'up' as any } })).toThrow(
+      'Direção de ordenação inválida: up'
+    );
+    expect(() => compile('VENDAS', { orderBy: { field: 'ID', nulls: 'middle' as any } })).toThrow(
+      'Posição de nulos inválida: middle'
+    );
+  });
+
+  it('deve rejeitar campos do HAVING que não são agregações nem colunas do groupBy', () => {
+    expect(() => compile('VENDAS', { columns: ['CLIENTE'], groupBy: ['CLIENTE'], having: { VALOR: 1 } })).toThrow(
+      'Campo inválido no having: VALOR'
+    );
+  });
+});
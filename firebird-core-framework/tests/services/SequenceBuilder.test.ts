@@ -0,0 +1,52 @@
+import knexLib from 'knex';
+import { FirebirdClient } from '../../src/core/FirebirdClient';
+import { SequenceBuilder } from '../../src/services/SequenceBuilder';
+
+describe('SequenceBuilder', () => {
+  const knex = knexLib({ client: FirebirdClient as any });
+  let builder: SequenceBuilder;
+
+  /** SQL final, com os identificadores substituídos pelo knex */
+  const compile = (statement: { sql: string; bindings: any[] }) => knex.raw(statement.sql, statement.bindings).toSQL();
+
+  beforeEach(() => {
+    builder = new SequenceBuilder();
+  });
+
+  it('deve usar NEXT VALUE FOR sem incremento e GEN_ID com incremento', () => {
+    expect(compile(builder.buildNext('GEN_PEDIDOS')).sql).toBe(
+      'select next value for GEN_PEDIDOS as SEQUENCE_VALUE from rdb$database'
+    );
+
+    const compiled = compile(builder.buildNext('GEN_PEDIDOS', 10));
+    expect(compiled.sql).toBe('select gen_id(GEN_PEDIDOS, ?) as SEQUENCE_VALUE from rdb$database');
+    expect(compiled.bindings).toEqual([10]);
+  });
+
+  it('deve ler o valor atual com GEN_ID e incremento zero', () => {
+    expect(compile(builder.buildCurrent('"Gen Pedidos"')).sql).toBe(
+      'select gen_id("Gen Pedidos", 0) as SEQUENCE_VALUE from rdb$database'
+    );
+  });
+
+  it('deve definir o valor com SET GENERATOR, aceitando bigint', () => {
+    expect(compile(builder.buildSet('GEN_PEDIDOS', 100)).sql).toBe('set generator GEN_PEDIDOS to 100');
+    expect(compile(builder.buildSet('GEN_PEDIDOS', -5)).sql).toBe('set generator GEN_PEDIDOS to -5');
+    expect(compile(builder.buildSet('GEN_PEDIDOS', BigInt('9007199254740993'))).sql).toBe('set generator GEN_PEDIDOS to 9007199254740993');
+  });
+
+  it('deve listar apenas as sequências do usuário', () => {
+    const { sql, bindings } = builder.buildList();
+
+    expect(sql).toContain('FROM RDB$GENERATORS');
+    expect(sql).toContain('COALESCE(RDB$SYSTEM_FLAG, 0) = 0');
+    expect(bindings).toEqual([]);
+  });
+
+  it('deve rejeitar nomes inválidos e valores não inteiros', () => {
+    expect(() => builder.buildNext('GEN; DROP TABLE X')).toThrow('Identificador inválido');
+    expect(() => builder.buildNext('GEN_PEDIDOS', 1.5)).toThrow('O incremento da sequência deve ser um inteiro');
+    expect(() => builder.buildSet('GEN_PEDIDOS', '1; DROP TABLE X' as any)).toThrow('O valor da sequência deve ser um inteiro');
+    expect(() => builder.buildSet('GEN_PEDIDOS', Number.NaN)).toThrow('O valor da sequência deve ser um inteiro');
+  });
+});
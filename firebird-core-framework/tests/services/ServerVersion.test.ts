@@ -0,0 +1,46 @@
+import { createColumnNameMapper } from '../../src/core/ColumnNames';
+import { ServerVersion } from '../../src/services/ServerVersion';
+
+describe('ServerVersion', () => {
+  let serverVersion: ServerVersion;
+
+  beforeEach(() => {
+    serverVersion = new ServerVersion();
+  });
+
+  it('deve ler a versão do engine uma única vez', async () => {
+    const executor = { raw: jest.fn().mockResolvedValue([{ ENGINE_VERSION: '4.0.2' }]) };
+
+    expect(await serverVersion.get(executor as any)).toEqual({ major: 4, minor: 0, text: '4.0.2' });
+    await serverVersion.get(executor as any);
+
+    expect(executor.raw).toHaveBeenCalledTimes(1);
+    expect(executor.raw).toHaveBeenCalledWith(expect.stringContaining("RDB$GET_CONTEXT('SYSTEM', 'ENGINE_VERSION')"));
+  });
+
+  it('deve ler a versão com a conversão de nomes de colunas', async () => {
+    const executor = { raw: jest.fn().mockResolvedValue([{ engineVersion: '5.0.1' }]) };
+
+    expect((await serverVersion.get(executor as any, createColumnNameMapper('camelCase'))).major).toBe(5);
+  });
+
+  it('deve identificar servidores anteriores ao 2.1 e repassar outros erros', async () => {
+    const old = { raw: jest.fn().mockRejectedValue(new Error('Context variable ENGINE_VERSION is not found in namespace SYSTEM')) };
+
+    await expect(serverVersion.require(old as any, 2, 1, 'MERGE')).rejects.toThrow(
+      'MERGE exige Firebird 2.1 ou superior (servidor: anterior a 2.1)'
+    );
+
+    const failing = { raw: jest.fn().mockRejectedValue(new Error('connection lost')) };
+    await expect(new ServerVersion().get(failing as any)).rejects.toThrow('connection lost');
+  });
+
+  it('deve comparar versão principal e secundária', async () => {
+    const executor = { raw: jest.fn().mockResolvedValue([{ ENGINE_VERSION: '2.5.9' }]) };
+
+    await expect(serverVersion.require(executor as any, 2, 1, 'UPDATE OR INSERT')).resolves.toBeUndefined();
+    await expect(serverVersion.require(executor as any, 3, 0, 'MERGE com RETURNING')).rejects.toThrow(
+      'MERGE com RETURNING exige Firebird 3.0 ou superior (servidor: 2.5.9)'
+    );
+  });
+});
@@ -0,0 +1,105 @@
+import { SqlLexer, SqlLexerError } from '../../src/services/SqlLexer';
+
+describe('SqlLexer', () => {
+  let lexer: SqlLexer;
+
+  beforeEach(() => {
+    lexer = new SqlLexer();
+  });
+
+  describe('tokenize', () => {
+    it('deve separar palavras-chave, identificadores e pontuação', () => {
+      const tokens = lexer.significant(lexer.tokenize('SELECT UPDATED_AT, CREATED_BY FROM PEDIDOS'));
+
+      expect(tokens.map((token) => [token.type, token.normalized])).toEqual([
+        ['keyword', 'SELECT'],
+        ['identifier', 'UPDATED_AT'],
+        ['punctuation', ','],
+        ['identifier', 'CREATED_BY'],
+        ['keyword', 'FROM'],
+        ['identifier', 'PEDIDOS']
+      ]);
+    });
+
+    it('deve reconhecer identificadores de sistema com $', () => {
+      const tokens = lexer.significant(lexer.tokenize('SELECT 1 FROM RDB$DATABASE'));
+
+      expect(tokens[3]).toMatchObject({ type: 'identifier', normalized: 'RDB$DATABASE' });
+    });
+
+    it('deve tratar literais de string com aspas escapadas', () => {
+      const tokens = lexer.significant(lexer.tokenize("SELECT * FROM T WHERE NOME = 'D''AVILA; --'"));
+      const literal = tokens[tokens.length - 1];
+
+      expect(literal.type).toBe('string');
+      expect(literal.normalized).toBe("D'AVILA; --");
+    });
+
+    it('deve reconhecer q-strings e literais hexadecimais', () => {
+      const tokens = lexer.significant(lexer.tokenize("SELECT q'{it's}', x'0A1B' FROM RDB$DATABASE"));
+
+      expect(tokens[1]).toMatchObject({ type: 'string', normalized: "it's" });
+      expect(tokens[3]).toMatchObject({ type: 'string', normalized: '0A1B' });
+    });
+
+    it('deve reconhecer identificadores entre aspas duplas', () => {
+      const tokens = lexer.significant(lexer.tokenize('SELECT "Update" FROM "Minha ""Tabela"""'));
+
+      expect(tokens[1]).toMatchObject({ type: 'quoted_identifier', normalized: 'Update' });
+      expect(tokens[3]).toMatchObject({ type: 'quoted_identifier', normalized: 'Minha "Tabela"' });
+    });
+
+    it('deve reconhecer comentários de linha e de bloco', () => {
+      const tokens = lexer.tokenize('SELECT 1 /* bloco */ FROM T -- linha');
+
+      expect(tokens.filter((token) => token.type === 'comment').map((token) => token.value)).toEqual([
+        '/* bloco */',
+        '-- linha'
+      ]);
+    });
+
+    it('deve reconhecer parâmetros posicionais e nomeados', () => {
+      const tokens = lexer.significant(lexer.tokenize('SELECT * FROM T WHERE A = ? AND B = :clienteId'));
+      const parameters = tokens.filter((token) => token.type === 'parameter');
+
+      expect(parameters.map((token) => token.normalized)).toEqual(['?', 'clienteId']);
+    });
+
+    it('deve informar linha e coluna de cada token', () => {
+      const tokens = lexer.significant(lexer.tokenize('SELECT *\n  FROM T'));
+
+      expect(tokens[2]).toMatchObject({ normalized: 'FROM', position: 11, line: 2, column: 3 });
+    });
+
+    it('deve lançar SqlLexerError para literal não terminado', () => {
+      expect(() => lexer.tokenize("SELECT 'abc")).toThrow(SqlLexerError);
+      expect(() => lexer.tokenize("SELECT 'abc")).toThrow('Literal de string não terminado (linha 1, coluna 8)');
+    });
+
+    it('deve lançar SqlLexerError para comentário não terminado', () => {
+      expect(() => lexer.tokenize('SELECT 1 /* aberto')).toThrow('Comentário não terminado');
+    });
+  });
+
+  describe('classify', () => {
+    it.each([
+      ['SELECT * FROM T', 'SELECT'],
+      ['WITH X AS (SELECT 1 FROM RDB$DATABASE) SELECT * FROM X', 'SELECT'],
+      ['(SELECT 1 FROM RDB$DATABASE)', 'SELECT'],
+      ['INSERT INTO T (A) VALUES (1)', 'INSERT'],
+      ['UPDATE T SET A = 1', 'UPDATE'],
+      ['UPDATE OR INSERT INTO T (A) VALUES (1) MATCHING (A)', 'UPDATE_OR_INSERT'],
+      ['DELETE FROM T', 'DELETE'],
+      ['MERGE INTO T USING S ON T.A = S.A WHEN MATCHED THEN DELETE', 'MERGE'],
+      ['EXECUTE PROCEDURE P(1)', 'EXECUTE_PROCEDURE'],
+      ['EXECUTE BLOCK AS BEGIN END', 'EXECUTE_BLOCK'],
+      ['RECREATE TABLE T (A INTEGER)', 'DDL'],
+      ['GRANT SELECT ON T TO U', 'DCL'],
+      ['COMMIT', 'TRANSACTION_CONTROL'],
+      ['/* comentário */ SELECT 1 FROM RDB$DATABASE', 'SELECT'],
+      ['FOO BAR', 'UNKNOWN']
+    ])('deve classificar "%s" como %s', (sql, expected) => {
+      expect(lexer.classify(lexer.tokenize(sql))).toBe(expected);
+    });
+  });
+});
@@ -0,0 +1,249 @@
+import { SqlPolicyEngine, mergeSqlPolicies, validateSqlPolicy } from '../../src/services/SqlPolicy';
+
+describe('SqlPolicy', () => {
+  let engine: SqlPolicyEngine;
+
+  beforeEach(() => {
+    engine = new SqlPolicyEngine();
+  });
+
+  describe('tipos de instrução', () => {
+    it('deve manter as regras padrão em cada ponto de entrada', () => {
+      expect(engine.evaluate('SELECT * FROM PEDIDOS', 'query').valid).toBe(true);
+      expect(engine.evaluate('UPDATE PEDIDOS SET STATUS = 1', 'stream')).toMatchObject({
+        valid: false,
+        error: 'Keyword não permitido: UPDATE',
+        policyViolation: { rule: 'statement', entryPoint: 'stream', statementType: 'UPDATE' }
+      });
+      expect(engine.evaluate('UPDATE PEDIDOS SET STATUS = 1', 'transaction').valid).toBe(true);
+    });
+
+    it('deve aceitar os tipos configurados por ponto de entrada', () => {
+      const policy = { statements: { query: ['SELECT', 'EXECUTE_PROCEDURE'] as const, transaction: ['SELECT'] as const } };
+
+      expect(engine.evaluate('EXECUTE PROCEDURE FECHAR_CAIXA(?)', 'query', policy as any).valid).toBe(true);
+      expect(engine.evaluate('INSERT INTO LOG (A) VALUES (1)', 'transaction', policy as any)).toMatchObject({
+        valid: false,
+        policyViolation: { rule: 'statement' }
+      });
+    });
+
+    it('deve aceitar DDL apenas com allowDdl', () => {
+      const sql = 'ALTER TABLE PEDIDOS ADD OBSERVACAO VARCHAR(200)';
+
+      expect(engine.evaluate(sql, 'query')).toMatchObject({ valid: false, error: 'Keyword não permitido: ALTER' });
+      expect(engine.evaluate(sql, 'query', { allowDdl: true })).toMatchObject({ valid: true, statementType: 'DDL' });
+      expect(engine.evaluate(sql, 'stream', { allowDdl: true }).valid).toBe(false);
+      expect(engine.evaluate('CREATE TABLE T (ID INTEGER); DROP TABLE X', 'query', { allowDdl: true }))
+        .toMatchObject({ valid: false, policyViolation: { rule: 'injection' } });
+    });
+  });
+
+  describe('tabelas e procedures', () => {
+    const policy = {
+      readableTables: ['PEDIDOS', 'CLIENTES', 'ITENS'],
+      writableTables: ['PEDIDOS'],
+      procedures: ['CALCULAR_FRETE']
+    };
+
+    it('deve recusar tabelas fora da lista de leitura, com o token do nome', () => {
+      const result = engine.evaluate('SELECT * FROM PEDIDOS P JOIN USUARIOS U ON U.ID = P.USUARIO_ID', 'query', policy);
+
+      expect(result).toMatchObject({
+        valid: false,
+        error: 'Tabela não permitida para leitura: USUARIOS',
+        policyViolation: { rule: 'table', object: 'USUARIOS', token: { column: 30 } }
+      });
+    });
+
+    it('deve considerar listas separadas por vírgula e ignorar CTEs, EXTRACT e RDB$DATABASE', () => {
+      expect(engine.evaluate('SELECT * FROM pedidos p, clientes c WHERE c.id = p.cliente_id', 'query', policy).valid).toBe(true);
+      expect(engine.evaluate('SELECT * FROM PEDIDOS P, SENHAS S', 'query', policy).error)
+        .toBe('Tabela não permitida para leitura: SENHAS');
+      expect(engine.evaluate(
+        'WITH RECENTES AS (SELECT * FROM PEDIDOS) SELECT EXTRACT(YEAR FROM DATA) FROM RECENTES',
+        'query',
+        policy
+      ).valid).toBe(true);
+      expect(engine.evaluate('SELECT CURRENT_DATE FROM RDB$DATABASE', 'query', policy).valid).toBe(true);
+    });
+
+    it('deve separar a tabela alterada das tabelas lidas', () => {
+      expect(engine.evaluate(
+        'INSERT INTO PEDIDOS (CLIENTE_ID) SELECT ID FROM CLIENTES',
+        'transaction',
+        policy
+      ).valid).toBe(true);
+      expect(engine.evaluate('DELETE FROM CLIENTES WHERE ID = ?', 'transaction', policy)).toMatchObject({
+        valid: false,
+        error: 'Tabela não permitida para escrita: CLIENTES'
+      });
+      expect(engine.evaluate('UPDATE OR INSERT INTO ITENS (ID) VALUES (?) MATCHING (ID)', 'transaction', policy).error)
+        .toBe('Tabela não permitida para escrita: ITENS');
+      expect(engine.evaluate('SELECT * FROM PEDIDOS WHERE ID = ? FOR UPDATE', 'query', policy).valid).toBe(true);
+    });
+
+    it('deve verificar procedures executáveis e selecionáveis', () => {
+      expect(engine.evaluate('EXECUTE PROCEDURE CALCULAR_FRETE(?)', 'transaction', policy).valid).toBe(true);
+      expect(engine.evaluate('SELECT * FROM LISTAR_USUARIOS(?)', 'query', policy)).toMatchObject({
+        valid: false,
+        error: 'Procedure não permitida: LISTAR_USUARIOS',
+        policyViolation: { rule: 'procedure', object: 'LISTAR_USUARIOS' }
+      });
+    });
+
+    it('deve verificar EXECUTE PROCEDURE contra executableProcedures quando informada', () => {
+      const restricted = { ...policy, procedures: ['CALCULAR_FRETE', 'LISTAR_FRETES'], executableProcedures: ['CALCULAR_FRETE'] };
+
+      expect(engine.evaluate('EXECUTE PROCEDURE CALCULAR_FRETE(?)', 'transaction', restricted).valid).toBe(true);
+      expect(engine.evaluate('SELECT * FROM LISTAR_FRETES(?)', 'query', restricted).valid).toBe(true);
+      expect(engine.evaluate('EXECUTE PROCEDURE LISTAR_FRETES(?)', 'transaction', restricted)).toMatchObject({
+        valid: false,
+        error: 'Procedure não permitida: LISTAR_FRETES',
+        policyViolation: { rule: 'procedure', object: 'LISTAR_FRETES' }
+      });
+      expect(engine.checkObjects([{ name: 'LISTAR_FRETES', kind: 'procedure', access: 'read' }], restricted)).toBeNull();
+    });
+
+        it('deve verificar objetos informados diretamente', () => {
+      expect(engine.checkObjects([{ name: 'pedidos', kind: 'table', access: 'write' }], policy)).toBeNull();
+      expect(engine.checkObjects([{ name: 'ITENS', kind: 'table', access: 'write' }], policy)).toEqual({
+        rule: 'table',
+        message: 'Tabela não permitida para escrita: ITENS',
+        object: 'ITENS',
+        token: undefined
+      });
+    });
+  });
+
+  it('deve aplicar regras personalizadas com o contexto da instrução', () => {
+    const check = jest.fn((context: any) =>
+      context.objects.some((object: any) => object.name === 'PEDIDOS') && !/WHERE/i.test(context.sql)
+        ? 'Consultas em PEDIDOS exigem WHERE'
+        : null
+    );
+    const policy = { rules: [{ name: 'pedidos-com-filtro', check }] };
+
+    expect(engine.evaluate('SELECT * FROM PEDIDOS WHERE ID = ?', 'query', policy).valid).toBe(true);
+    expect(engine.evaluate('SELECT * FROM PEDIDOS', 'query', policy)).toMatchObject({
+      valid: false,
+      error: 'Consultas em PEDIDOS exigem WHERE',
+      policyViolation: { rule: 'pedidos-com-filtro', entryPoint: 'query', sql: 'SELECT * FROM PEDIDOS' }
+    });
+    expect(check).toHaveBeenLastCalledWith(expect.objectContaining({
+      statementType: 'SELECT',
+      objects: [expect.objectContaining({ name: 'PEDIDOS', kind: 'table', access: 'read' })]
+    }));
+  });
+
+  describe('EXECUTE BLOCK', () => {
+    const sql = [
+      'EXECUTE BLOCK (ID INTEGER = ?)',
+      'AS',
+      'DECLARE VARIABLE TOTAL NUMERIC(15,2);',
+      'BEGIN',
+      '  FOR SELECT VALOR FROM ITENS WHERE PEDIDO_ID = :ID INTO :TOTAL DO',
+      '  BEGIN',
+      '    IF (TOTAL > 0) THEN UPDATE PEDIDOS SET STATUS = CASE WHEN :TOTAL > 100 THEN 1 ELSE 2 END WHERE ID = :ID;',
+      '    ELSE INSERT INTO LOG_PEDIDOS (ID) SELECT ID FROM CLIENTES;',
+      '  END',
+      '  EXECUTE PROCEDURE RECALCULAR(:ID);',
+      'END'
+    ].join('\n');
+
+    it('deve identificar a tabela alterada por cada instrução do corpo', () => {
+      const check = jest.fn(() => null);
+
+      expect(engine.evaluateBlock(sql, 'query', { rules: [{ name: 'auditoria', check }] }).valid).toBe(true);
+      expect((check.mock.calls[0] as any[])[0]).toMatchObject({
+        sql,
+        entryPoint: 'query',
+        statementType: 'EXECUTE_BLOCK',
+        objects: [
+          { name: 'ITENS', kind: 'table', access: 'read' },
+          { name: 'PEDIDOS', kind: 'table', access: 'write' },
+          { name: 'LOG_PEDIDOS', kind: 'table', access: 'write' },
+          { name: 'CLIENTES', kind: 'table', access: 'read' },
+          { name: 'RECALCULAR', kind: 'procedure', access: 'write' }
+        ]
+      });
+    });
+
+    it('deve aplicar as listas de tabelas e procedures e as regras personalizadas', () => {
+      expect(engine.evaluateBlock(sql, 'transaction', { writableTables: ['PEDIDOS'] })).toMatchObject({
+        valid: false,
+        error: 'Tabela não permitida para escrita: LOG_PEDIDOS',
+        statementType: 'EXECUTE_BLOCK',
+        violation: { line: 8, column: 22 },
+        policyViolation: { rule: 'table', object: 'LOG_PEDIDOS', entryPoint: 'transaction' }
+      });
+      expect(engine.evaluateBlock(sql, 'query', { procedures: ['RECALCULAR'], executableProcedures: [] }).error)
+        .toBe('Procedure não permitida: RECALCULAR');
+      expect(engine.evaluateBlock(sql, 'query', { rules: [{ name: 'somente-leitura', check: () => 'Bloco recusado' }] }))
+        .toMatchObject({ valid: false, policyViolation: { rule: 'somente-leitura', message: 'Bloco recusado' } });
+    });
+  });
+
+  it('deve apenas restringir a política da configuração, acumulando as regras', () => {
+    const first = { name: 'a', check: () => null };
+    const second = { name: 'b', check: () => null };
+
+    expect(mergeSqlPolicies(
+      { readableTables: ['A', 'B'], procedures: ['P1', 'P2'], statements: { query: ['SELECT', 'EXECUTE_PROCEDURE'] }, rules: [first] },
+      null,
+      {
+        readableTables: ['b', 'C'],
+        writableTables: ['A'],
+        executableProcedures: ['P2', 'P3'],
+        allowDdl: true,
+        statements: { query: ['SELECT', 'UPDATE'], transaction: ['SELECT', 'DDL'] },
+        rules: [second]
+      }
+    )).toEqual({
+      readableTables: ['b'],
+      writableTables: ['A'],
+      procedures: ['P1', 'P2'],
+      executableProcedures: ['P2'],
+      allowDdl: false,
+      statements: { query: ['SELECT'], transaction: ['SELECT'] },
+      rules: [first, second]
+    });
+  });
+
+  it('não deve permitir que a política da chamada amplie a da configuração', () => {
+    const config = { allowDdl: false, writableTables: ['PEDIDOS'], statements: { transaction: ['SELECT', 'UPDATE'] as any } };
+    const policy = mergeSqlPolicies(config, {
+      allowDdl: true,
+      allowOverride: true,
+      writableTables: ['PEDIDOS', 'CLIENTES'],
+      statements: { transaction: ['SELECT', 'UPDATE', 'DELETE'] }
+    });
+
+    expect(engine.evaluate('DROP TABLE PEDIDOS', 'transaction', policy).valid).toBe(false);
+    expect(engine.evaluate('UPDATE CLIENTES SET NOME = ?', 'transaction', policy).error).toBe('Tabela não permitida para escrita: CLIENTES');
+    expect(engine.evaluate('DELETE FROM PEDIDOS', 'transaction', policy).error).toBe('Keyword não permitido: DELETE');
+    expect(mergeSqlPolicies(undefined, { allowDdl: true, readableTables: ['A'] })).toEqual({ allowDdl: false, readableTables: ['A'] });
+  });
+
+  it('deve substituir as propriedades quando a configuração tem allowOverride', () => {
+    expect(mergeSqlPolicies(
+      { allowOverride: true, readableTables: ['A'], statements: { query: ['SELECT'] } },
+      { readableTables: ['B'], allowDdl: true, statements: { transaction: ['SELECT'] } }
+    )).toEqual({
+      readableTables: ['B'],
+      allowDdl: true,
+      statements: { query: ['SELECT'], transaction: ['SELECT'] }
+    });
+  });
+
+  it('deve validar a política', () => {
+    expect(validateSqlPolicy({ readableTables: ['A'], rules: [{ name: 'r', check: () => null }] })).toBeNull();
+    expect(validateSqlPolicy('SELECT')).toBe('sqlPolicy deve ser um objeto');
+    expect(validateSqlPolicy({ statements: { http: ['SELECT'] } })).toBe('Ponto de entrada desconhecido em sqlPolicy.statements: http');
+    expect(validateSqlPolicy({ statements: { query: ['SELECIONAR'] } })).toBe('sqlPolicy.statements.query deve ser uma lista de tipos de instrução');
+    expect(validateSqlPolicy({ writableTables: 'PEDIDOS' })).toBe('sqlPolicy.writableTables deve ser uma lista de nomes');
+    expect(validateSqlPolicy({ executableProcedures: [1] })).toBe('sqlPolicy.executableProcedures deve ser uma lista de nomes');
+    expect(validateSqlPolicy({ allowOverride: 'sim' })).toBe('sqlPolicy.allowOverride deve ser booleano');
+    expect(validateSqlPolicy({ rules: [() => null] })).toBe('sqlPolicy.rules deve ser uma lista de regras com name e check');
+  });
+});
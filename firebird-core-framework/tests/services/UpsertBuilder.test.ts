@@ -0,0 +1,98 @@
+import knexLib from 'knex';
+import { FirebirdClient } from '../../src/core/FirebirdClient';
+import { UpsertBuilder } from '../../src/services/UpsertBuilder';
+
+describe('UpsertBuilder', () => {
+  const knex = knexLib({ client: FirebirdClient as any });
+  let builder: UpsertBuilder;
+
+  /** SQL final, com os identificadores substituídos pelo knex */
+  const compile = (statement: { sql: string; bindings: any[] }) => knex.raw(statement.sql, statement.bindings).toSQL();
+
+  beforeEach(() => {
+    builder = new UpsertBuilder();
+  });
+
+  describe('buildUpsert', () => {
+    it('deve montar UPDATE OR INSERT com MATCHING e RETURNING', () => {
+      const compiled = compile(builder.buildUpsert(
+        'PRODUTOS',
+        { CODIGO: 'A1', DESCRICAO: 'Parafuso', PRECO: undefined },
+        { matching: ['CODIGO'], returning: ['ID'] }
+      ));
+
+      expect(compiled.sql).toBe(
+        'update or insert into PRODUTOS (CODIGO, DESCRICAO, PRECO) values (?, ?, ?) matching (CODIGO) returning ID'
+      );
+      expect(compiled.bindings).toEqual(['A1', 'Parafuso', null]);
+    });
+
+    it('deve omitir MATCHING para usar a chave primária', () => {
+      expect(compile(builder.buildUpsert('PRODUTOS', { ID: 1, PRECO: 2 })).sql).toBe(
+        'update or insert into PRODUTOS (ID, PRECO) values (?, ?)'
+      );
+    });
+
+    it('deve rejeitar identificadores inválidos e matching ausente da linha', () => {
+      expect(() => builder.buildUpsert('PRODUTOS', { 'CODIGO) VALUES (1); --': 'x' })).toThrow('Identificador inválido');
+      expect(() => builder.buildUpsert('PRODUTOS', { DESCRICAO: 'x' }, { matching: ['CODIGO'] })).toThrow(
+        'A coluna CODIGO de matching deve estar presente em todas as linhas do upsert'
+      );
+      expect(() => builder.buildUpsert('PRODUTOS', {})).toThrow('Upsert exige linhas com ao menos uma coluna');
+    });
+  });
+
+  describe('buildMerge', () => {
+    it('deve montar MERGE a partir de uma consulta, com os parâmetros da origem', () => {
+      const compiled = compile(builder.buildMerge('PRODUTOS', {
+        source: { sql: 'SELECT CODIGO, DESCRICAO, PRECO FROM IMP_PRODUTOS WHERE LOTE = ?;', bindings: [42] },
+        columns: ['CODIGO', 'DESCRICAO', 'PRECO'],
+        matching: ['CODIGO']
+      }));
+
+      expect(compiled.sql).toBe(
+        'merge into PRODUTOS T using (SELECT CODIGO, DESCRICAO, PRECO FROM IMP_PRODUTOS WHERE LOTE = ?) S ' +
+        'on T.CODIGO = S.CODIGO ' +
+        'when matched then update set DESCRICAO = S.DESCRICAO, PRECO = S.PRECO ' +
+        'when not matched then insert (CODIGO, DESCRICAO, PRECO) values (S.CODIGO, S.DESCRICAO, S.PRECO)'
+      );
+      expect(compiled.bindings).toEqual([42]);
+    });
+
+    it('deve aceitar tabela de origem, apenas update e RETURNING', () => {
+      const compiled = compile(builder.buildMerge('PRODUTOS', {
+        source: 'IMP_PRODUTOS',
+        columns: ['CODIGO', 'EMPRESA', 'PRECO'],
+        matching: ['CODIGO', 'EMPRESA'],
+        insert: false,
+        returning: ['ID']
+      }));
+
+      expect(compiled.sql).toBe(
+        'merge into PRODUTOS T using IMP_PRODUTOS S on T.CODIGO = S.CODIGO and T.EMPRESA = S.EMPRESA ' +
+        'when matched then update set PRECO = S.PRECO returning ID'
+      );
+    });
+
+    it('deve aceitar apenas insert com update vazio', () => {
+      expect(compile(builder.buildMerge('PRODUTOS', {
+        source: 'IMP_PRODUTOS',
+        columns: ['CODIGO'],
+        matching: ['CODIGO'],
+        update: []
+      })).sql).toBe('merge into PRODUTOS T using IMP_PRODUTOS S on T.CODIGO = S.CODIGO when not matched then insert (CODIGO) values (S.CODIGO)');
+    });
+
+    it('deve rejeitar listas de colunas inconsistentes', () => {
+      const base = { source: 'IMP_PRODUTOS', columns: ['CODIGO', 'PRECO'], matching: ['CODIGO'] };
+
+      expect(() => builder.buildMerge('PRODUTOS', { ...base, matching: ['ID'] })).toThrow('A coluna ID de matching deve estar em columns');
+      expect(() => builder.buildMerge('PRODUTOS', { ...base, update: ['ESTOQUE'] })).toThrow('A coluna ESTOQUE de update deve estar em columns');
+      expect(() => builder.buildMerge('PRODUTOS', { ...base, matching: [] })).toThrow('Merge exige matching com ao menos uma coluna');
+      expect(() => builder.buildMerge('PRODUTOS', { ...base, columns: ['CODIGO'], insert: false })).toThrow(
+        'Merge sem update e sem insert não altera nenhuma linha'
+      );
+      expect(() => builder.buildMerge('PRODUTOS', { ...base, source: 'IMP; DROP TABLE X' })).toThrow('Identificador inválido');
+    });
+  });
+});